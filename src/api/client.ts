@@ -3,12 +3,17 @@
  */
 import { request } from 'undici';
 import { McpError, ErrorCode } from '../utils/errors';
-import { LifelogResponse } from '../types';
+import { ApiCallOptions, Lifelog, LifelogIterationOptions, LifelogListParams, LifelogResponse } from '../types';
 import config from '../config';
-import cache, { calculateTTL, getCacheTags } from '../cache';
+import cache, { calculateTTL, getCacheTags, partitionCacheKey, setTaggedEntry } from '../cache';
+import { readFromMirror } from '../sync/index.js';
+import { getApiKey, usesServerCredentials } from './credentials.js';
+import { getRateLimiter } from './rate-limiter.js';
+import { raceCancellation, sleep, throwIfCancelled } from '../utils/cancellation';
 
 /**
- * Build a cache key from a path and query parameters
+ * Build a cache key from a path and query parameters, in the current user's
+ * cache partition
  */
 function buildCacheKey(path: string, qs: Record<string, unknown>): string {
   const cacheParams = new URLSearchParams();
@@ -20,7 +25,7 @@ function buildCacheKey(path: string, qs: Record<string, unknown>): string {
     }
   });
   
-  return `${path}?${cacheParams.toString()}`;
+  return partitionCacheKey(`${path}?${cacheParams.toString()}`);
 }
 
 /**
@@ -36,97 +41,338 @@ function prepareQueryParams(qs: Record<string, unknown>): URLSearchParams {
   return params;
 }
 
+// A response with the validators the API sent for it
+interface ApiResponse {
+  data: LifelogResponse;
+  etag?: string;
+  lastModified?: string;
+  // The API answered 304 Not Modified, and `data` is the copy we already had
+  notModified?: boolean;
+}
+
+// An API response in the cache. It is served as is until `freshUntil`, then
+// served stale while it is revalidated, until it expires from the cache.
+interface CachedResponse extends ApiResponse {
+  freshUntil: number;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds, or an HTTP date) into
+ * milliseconds
+ */
+export function parseRetryAfter(value: string | string[] | undefined, now: number = Date.now()): number | undefined {
+  const header = Array.isArray(value) ? value[0] : value;
+  if (!header) return undefined;
+
+  if (/^\d+$/.test(header.trim())) {
+    return parseInt(header, 10) * 1000;
+  }
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Delay before a retry: the server's Retry-After when it sent one, otherwise
+ * exponential backoff with jitter, so parallel callers don't retry in lockstep
+ */
+function retryDelay(attempt: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs;
+  }
+  const backoff = config.API_RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1);
+  return Math.round(backoff / 2 + Math.random() * backoff / 2);
+}
+
+// A response header as a single string
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Send a GET request through the API key's rate limiter, retrying network
+ * errors, 429s and 5xx responses. Other error statuses are thrown at once as
+ * errors with a `statusCode`; a 429 that outlasts the retries becomes a
+ * RATE_LIMITED error, and so does every request made while the key is paused
+ * by a Retry-After longer than API_MAX_RETRY_DELAY_MS.
+ * With a `cached` response, the request is conditional on its ETag and
+ * Last-Modified, and a 304 answers with the cached data.
+ */
+async function requestWithRetries(url: string, path: string, signal?: AbortSignal, cached?: ApiResponse): Promise<ApiResponse> {
+  const limiter = getRateLimiter();
+  const headers: Record<string, string> = { "X-API-Key": getApiKey() };
+  if (cached?.etag) headers["If-None-Match"] = cached.etag;
+  if (cached?.lastModified) headers["If-Modified-Since"] = cached.lastModified;
+  const requestOptions = {
+    headers,
+    signal,
+    bodyTimeout: config.API_TIMEOUT_MS,
+    headersTimeout: config.API_TIMEOUT_MS
+  };
+  
+  for (let attempt = 1; ; attempt++) {
+    let failure: { error: unknown; statusCode?: number; retryAfterMs?: number };
+    
+    // Don't sit out a Retry-After we would give up on anyway
+    const release = await limiter.acquire(signal, config.API_MAX_RETRY_DELAY_MS);
+    try {
+      const response = await request(url, requestOptions);
+      const validators = {
+        etag: headerValue(response.headers["etag"]),
+        lastModified: headerValue(response.headers["last-modified"])
+      };
+      if (response.statusCode >= 200 && response.statusCode < 300) {
+        const data = await response.body.json() as LifelogResponse;
+        throwIfCancelled(signal);
+        return { data, ...validators };
+      }
+      if (response.statusCode === 304 && cached) {
+        await response.body.dump();
+        return {
+          data: cached.data,
+          etag: validators.etag || cached.etag,
+          lastModified: validators.lastModified || cached.lastModified,
+          notModified: true
+        };
+      }
+      
+      await response.body.dump();
+      const { statusCode } = response;
+      const retryAfterMs = parseRetryAfter(response.headers["retry-after"]);
+      if (statusCode === 429 && retryAfterMs !== undefined) {
+        // Hold every request with this key, not just this one
+        limiter.pause(retryAfterMs);
+      }
+      failure = {
+        error: Object.assign(new Error(`HTTP error: ${statusCode}`), { statusCode }),
+        statusCode,
+        retryAfterMs
+      };
+    } catch (error) {
+      // Never retry a cancelled request
+      throwIfCancelled(signal);
+      failure = { error };
+    } finally {
+      release();
+    }
+    
+    // Don't retry other client errors (4xx)
+    const { statusCode } = failure;
+    if (statusCode && statusCode !== 429 && statusCode < 500) {
+      throw failure.error;
+    }
+    
+    const delay = retryDelay(attempt, failure.retryAfterMs);
+    if (attempt > config.API_MAX_RETRIES || delay > config.API_MAX_RETRY_DELAY_MS) {
+      if (config.API_MAX_RETRIES > 0) {
+        console.error(`Giving up on ${path} after ${attempt} attempt(s)`);
+      }
+      if (statusCode === 429) {
+        const wait = failure.retryAfterMs !== undefined ? `; retry after ${Math.ceil(failure.retryAfterMs / 1000)}s` : "";
+        throw new McpError(`Limitless API rate limit exceeded for ${path}${wait}`, ErrorCode.RATE_LIMITED, 429);
+      }
+      throw failure.error;
+    }
+    
+    console.error(`Retry attempt ${attempt}/${config.API_MAX_RETRIES} for ${path} in ${delay}ms`);
+    await sleep(delay, signal);
+  }
+}
+
+interface InFlightRequest {
+  promise: Promise<ApiResponse>;
+  // Aborts the shared request once every caller waiting for it has cancelled
+  controller: AbortController;
+  // Callers still waiting for the response
+  waiters: number;
+  settled: boolean;
+}
+
+// Requests being sent, by cache key, so identical concurrent calls share one
+const inFlight = new Map<string, InFlightRequest>();
+
+// Calls answered by joining a request that was already in flight
+let coalescedCalls = 0;
+
+/**
+ * Request coalescing statistics, for the manage_cache stats
+ */
+export function getCoalescingStats(): { inFlight: number; coalesced: number } {
+  return { inFlight: inFlight.size, coalesced: coalescedCalls };
+}
+
+/**
+ * Send a request, or join the identical one already in flight. Each caller
+ * waits with its own signal; the shared request is only aborted once all of
+ * them have cancelled. Callers that joined get their own copy of the
+ * response, as they would from the cache.
+ */
+async function coalesceRequest(
+  cacheKey: string,
+  send: (signal: AbortSignal) => Promise<ApiResponse>,
+  signal?: AbortSignal
+): Promise<ApiResponse> {
+  let entry = inFlight.get(cacheKey);
+  const joined = entry !== undefined;
+  
+  if (entry) {
+    coalescedCalls++;
+    console.error(`Joined in-flight request for: ${cacheKey}`);
+  } else {
+    const controller = new AbortController();
+    const created: InFlightRequest = {
+      controller,
+      waiters: 0,
+      settled: false,
+      promise: send(controller.signal).finally(() => {
+        created.settled = true;
+        if (inFlight.get(cacheKey) === created) inFlight.delete(cacheKey);
+      })
+    };
+    // Nobody may be waiting any more when it fails
+    created.promise.catch(() => {});
+    inFlight.set(cacheKey, created);
+    entry = created;
+  }
+  
+  entry.waiters++;
+  try {
+    const response = await raceCancellation(entry.promise, signal);
+    return joined ? { ...response, data: structuredClone(response.data) } : response;
+  } finally {
+    entry.waiters--;
+    if (entry.waiters === 0 && !entry.settled) {
+      inFlight.delete(cacheKey);
+      entry.controller.abort();
+    }
+  }
+}
+
+// Revalidations of stale cache entries, for the manage_cache stats
+const revalidations = { stale: 0, notModified: 0, updated: 0, failed: 0 };
+
 /**
- * Call the Limitless API with proper error handling and caching
+ * Stale-while-revalidate statistics: stale entries served (each starting a
+ * revalidation), and how the revalidations ended
+ */
+export function getRevalidationStats(): { stale: number; notModified: number; updated: number; failed: number } {
+  return { ...revalidations };
+}
+
+/**
+ * Cache a response. It stays fresh for its TTL from calculateTTL(), and is
+ * kept for LIMITLESS_CACHE_STALE_TTL longer to be served stale.
+ */
+async function cacheResponse(cacheKey: string, path: string, qs: Record<string, unknown>, response: ApiResponse): Promise<void> {
+  // Calculate TTL based on the type of data
+  const ttl = calculateTTL(path, qs);
+  const stale = config.CACHE_STALE_TTL;
+  
+  // Tag the entry so it can be invalidated by lifelog, date or type
+  const tags = getCacheTags(path, qs, response.data);
+  
+  // Store in cache
+  const entry: CachedResponse = {
+    data: response.data,
+    etag: response.etag,
+    lastModified: response.lastModified,
+    freshUntil: Date.now() + ttl.memory * 1000
+  };
+  await setTaggedEntry(cacheKey, entry, { memory: ttl.memory + stale, disk: ttl.disk > 0 ? ttl.disk + stale : 0 }, tags);
+  console.error(`Cached data for: ${cacheKey} with TTL ${ttl.memory}s${ttl.disk > 0 ? ` (disk ${ttl.disk}s)` : ''}${stale > 0 ? `, served stale for ${stale}s more` : ''} (tags: ${tags.join(', ')})`);
+}
+
+/**
+ * Refresh a stale entry in the background with a conditional request. A 304
+ * keeps the cached data fresh for another TTL; on failure the stale entry
+ * stays until it expires.
+ */
+function revalidate(cacheKey: string, url: string, path: string, qs: Record<string, unknown>, cached: CachedResponse): void {
+  revalidations.stale++;
+  
+  // Already being fetched, by another revalidation or a regular call
+  if (inFlight.has(cacheKey)) return;
+  
+  coalesceRequest(cacheKey, signal => requestWithRetries(url, path, signal, cached))
+    .then(async response => {
+      if (response.notModified) {
+        revalidations.notModified++;
+        console.error(`Revalidated ${cacheKey}: not modified`);
+      } else {
+        revalidations.updated++;
+        console.error(`Revalidated ${cacheKey}: updated`);
+      }
+      await cacheResponse(cacheKey, path, qs, response);
+    })
+    .catch(error => {
+      revalidations.failed++;
+      console.error(`Revalidation failed for ${cacheKey}, keeping the stale entry:`, error instanceof Error ? error.message : error);
+    });
+}
+
+/**
+ * Call the Limitless API with proper error handling and caching.
+ * When caching is enabled, the local lifelog mirror is consulted first.
+ * Requests use the current session's API key (see credentials.ts).
+ * Requests go through the API key's rate limiter and are retried with
+ * backoff (or after Retry-After) on network errors, 429s and 5xx responses.
+ * Concurrent identical calls share one request. Stale cache entries are
+ * returned at once and revalidated in the background.
+ * Aborting `options.signal` stops the request and any pending retry.
  */
 export async function callLimitlessApi(
   path: string, 
   qs: Record<string, unknown> = {}, 
-  useCache: boolean = true
+  useCache: boolean = true,
+  options: ApiCallOptions = {}
 ): Promise<LifelogResponse> {
+  const { signal } = options;
+  throwIfCancelled(signal);
+  
   // Build cache key based on path and query params
   const cacheKey = buildCacheKey(path, qs);
   
+  // Convert all query parameter values to strings for API call
+  const url = `${config.API_BASE_URL}${path}?${prepareQueryParams(qs)}`;
+  
   // Check cache if enabled
   if (useCache) {
-    const cachedData = cache.get<LifelogResponse>(cacheKey);
-    if (cachedData) {
-      console.error(`Cache hit for: ${cacheKey}`);
-      return cachedData;
+    const cached = await cache.get<CachedResponse>(cacheKey);
+    if (cached) {
+      if (cached.freshUntil > Date.now()) {
+        console.error(`Cache hit for: ${cacheKey}`);
+      } else {
+        console.error(`Serving stale data for: ${cacheKey} while revalidating`);
+        revalidate(cacheKey, url, path, qs, cached);
+      }
+      return cached.data;
     }
     console.error(`Cache miss for: ${cacheKey}`);
-  }
-  
-  // Convert all query parameter values to strings for API call
-  const params = prepareQueryParams(qs);
-  
-  try {
-    // Apply configured timeout and retry logic
-    const requestOptions = {
-      headers: { "X-API-Key": config.API_KEY },
-      bodyTimeout: config.API_TIMEOUT_MS,
-      headersTimeout: config.API_TIMEOUT_MS
-    };
-    
-    // Make the API request with retry logic
-    let response;
-    let retryCount = 0;
-    let lastError;
     
-    while (retryCount <= config.API_MAX_RETRIES) {
-      try {
-        if (retryCount > 0) {
-          console.error(`Retry attempt ${retryCount}/${config.API_MAX_RETRIES} for ${path}`);
-          // Exponential backoff: 1s, 2s, 4s, etc.
-          await new Promise(resolve => setTimeout(resolve, Math.pow(2, retryCount - 1) * 1000));
-        }
-        
-        response = await request(`${config.API_BASE_URL}${path}?${params}`, requestOptions);
-        break; // Success - exit retry loop
-      } catch (err: unknown) {
-        lastError = err as Error;
-        
-        // Only retry on network errors or 5xx errors
-        const errWithStatus = err as { statusCode?: number };
-        if (errWithStatus.statusCode && errWithStatus.statusCode < 500) {
-          throw err; // Don't retry client errors (4xx)
-        }
-        
-        retryCount++;
-        if (retryCount > config.API_MAX_RETRIES) {
-          console.error(`All ${config.API_MAX_RETRIES} retry attempts failed for ${path}`);
-          throw err;
-        }
+    // Serve from the local mirror when it holds the complete answer; the
+    // mirror holds the server owner's lifelogs, so only for the owner's key
+    try {
+      const mirrored = usesServerCredentials() ? await readFromMirror(path, qs) : undefined;
+      if (mirrored) {
+        console.error(`Mirror hit for: ${cacheKey}`);
+        return mirrored;
       }
+    } catch (error) {
+      console.error(`Mirror read failed for ${cacheKey}, using the API:`, error);
     }
-    
-    // If we're here without response, throw the last error
-    if (!response) {
-      throw lastError || new Error(`API call failed with no response: ${path}`);
-    }
-    
-    // Check if the response is successful (status code 200-299)
-    if (!response.statusCode || response.statusCode < 200 || response.statusCode >= 300) {
-      throw new Error(`HTTP error: ${response.statusCode}`);
-    }
-    
-    const data = await response.body.json() as LifelogResponse;
+  }
+  
+  try {
+    const response = await coalesceRequest(cacheKey, requestSignal => requestWithRetries(url, path, requestSignal), signal);
     
     // Store in cache if enabled
     if (useCache) {
-      // Calculate TTL based on the type of data
-      const ttl = calculateTTL(path, qs);
-      
-      // Get any applicable tags
-      const tags = getCacheTags(path, qs);
-      
-      // Store in cache
-      cache.set(cacheKey, data, ttl);
-      console.error(`Cached data for: ${cacheKey} with TTL ${ttl}s (tags: ${tags.join(', ')})`);
+      await cacheResponse(cacheKey, path, qs, response);
     }
     
-    return data;
+    return response.data;
   } catch (error: unknown) {
+    throwIfCancelled(signal);
+    
     const err = error as { response?: { statusCode: number }, statusCode?: number, message?: string };
     console.error("API call error:", err.message || String(error));
     
@@ -150,4 +396,59 @@ export async function callLimitlessApi(
   }
 }
 
-export default callLimitlessApi;
\ No newline at end of file
+/**
+ * Iterate over every lifelog matching a `/lifelogs` query, following
+ * `meta.lifelogs.nextCursor` page by page, until the results or the
+ * `maxItems` budget run out. Pages are only requested as they are consumed.
+ */
+export async function* iterateLifelogs(
+  params: LifelogListParams = {},
+  options: LifelogIterationOptions = {}
+): AsyncGenerator<Lifelog> {
+  const { maxItems = config.MAX_RANGE_LIFELOGS, pageSize = config.MAX_LIFELOG_LIMIT, useCache = true, signal } = options;
+  let remaining = maxItems;
+  let cursor: string | undefined;
+  
+  while (remaining > 0) {
+    const response = await callLimitlessApi("/lifelogs", {
+      ...params,
+      limit: Math.min(pageSize, remaining),
+      cursor
+    }, useCache, { signal });
+    
+    const lifelogs = response.data.lifelogs || [];
+    for (const lifelog of lifelogs.slice(0, remaining)) {
+      yield lifelog;
+    }
+    remaining -= lifelogs.length;
+    
+    cursor = response.meta?.lifelogs?.nextCursor;
+    if (!cursor || lifelogs.length === 0) {
+      break;
+    }
+  }
+}
+
+/**
+ * Fetch every lifelog matching a `/lifelogs` query, up to `maxItems`.
+ * `truncated` tells whether more lifelogs matched than were returned.
+ */
+export async function fetchAllLifelogs(
+  params: LifelogListParams = {},
+  options: LifelogIterationOptions = {}
+): Promise<{ lifelogs: Lifelog[]; truncated: boolean }> {
+  const maxItems = options.maxItems ?? config.MAX_RANGE_LIFELOGS;
+  const lifelogs: Lifelog[] = [];
+  
+  // Ask for one more than the budget to learn whether anything was left out
+  for await (const lifelog of iterateLifelogs(params, { ...options, maxItems: maxItems + 1 })) {
+    lifelogs.push(lifelog);
+  }
+  
+  return {
+    lifelogs: lifelogs.slice(0, maxItems),
+    truncated: lifelogs.length > maxItems
+  };
+}
+
+export default callLimitlessApi;
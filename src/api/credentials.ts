@@ -0,0 +1,71 @@
+/**
+ * Per-session Limitless API credentials
+ *
+ * The server's own key (`LIMITLESS_API_KEY`) is used unless a request runs
+ * inside `runWithCredentials`, which the HTTP transport does for sessions that
+ * connected with their own key. The key also selects the cache partition, so
+ * cached responses are never shared between users.
+ */
+import { AsyncLocalStorage } from "async_hooks";
+import crypto from "crypto";
+import config from "../config";
+import { McpError, ErrorCode } from "../utils/errors";
+
+export interface Credentials {
+  // Limitless API key of the session's user
+  apiKey: string;
+}
+
+const storage = new AsyncLocalStorage<Credentials>();
+
+// Partition IDs by API key, so the key is hashed once
+const partitions = new Map<string, string>();
+
+/**
+ * Run a function, and everything it starts, with the given credentials.
+ * Without credentials the function runs with the server's own key.
+ */
+export function runWithCredentials<T>(credentials: Credentials | undefined, fn: () => T): T {
+  return credentials ? storage.run(credentials, fn) : storage.exit(fn);
+}
+
+/**
+ * The API key for the current request
+ */
+export function getApiKey(): string {
+  return storage.getStore()?.apiKey ?? config.API_KEY;
+}
+
+/**
+ * Whether the current request uses the server's own API key
+ */
+export function usesServerCredentials(): boolean {
+  return getApiKey() === config.API_KEY;
+}
+
+/**
+ * Cache partition for the current request: a short hash of its API key
+ */
+export function getCachePartition(): string {
+  const apiKey = getApiKey();
+  let partition = partitions.get(apiKey);
+  if (!partition) {
+    partition = crypto.createHash("sha256").update(apiKey).digest("hex").substring(0, 16);
+    partitions.set(apiKey, partition);
+  }
+  return partition;
+}
+
+/**
+ * Fail unless the current request uses the server's own API key. The local
+ * mirror, search index and embeddings hold the server owner's lifelogs, so
+ * sessions with their own key can't read or fill them.
+ */
+export function requireServerCredentials(feature: string): void {
+  if (!usesServerCredentials()) {
+    throw new McpError(
+      `${feature} uses the server's local index of the owner's lifelogs and is not available to sessions with their own API key`,
+      ErrorCode.UNAUTHORIZED
+    );
+  }
+}
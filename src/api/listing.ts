@@ -0,0 +1,133 @@
+/**
+ * Local implementation of the `/lifelogs` listing semantics (date and time
+ * range filters, ordering and cursor pagination), for serving lifelogs
+ * without calling the Limitless API
+ */
+import { Lifelog, LifelogContent } from "../types";
+import { parseDateTimeInTimezone, addDays } from "../utils/time";
+
+// Default page size of the Limitless API
+const DEFAULT_LIMIT = 3;
+
+export interface ListingParams {
+  date?: string;
+  timezone?: string;
+  start?: string;
+  end?: string;
+  direction?: "asc" | "desc";
+  limit?: number;
+  cursor?: string;
+}
+
+// The `includeMarkdown` and `includeHeadings` options of the API
+export interface LifelogShape {
+  includeMarkdown: boolean;
+  includeHeadings: boolean;
+}
+
+export interface ListingPage<T> {
+  items: T[];
+  nextCursor?: string;
+  // Number of items on this page
+  count: number;
+}
+
+/**
+ * Resolve the `date`, `start` and `end` parameters to a half-open range of
+ * epoch milliseconds [from, to). Either bound may be missing.
+ * `date` takes precedence over `start`/`end`, as in the API.
+ */
+export function resolveTimeRange(params: ListingParams): { from?: number; to?: number } {
+  const timezone = params.timezone || "UTC";
+
+  if (params.date) {
+    return {
+      from: parseDateTimeInTimezone(params.date, timezone).getTime(),
+      to: parseDateTimeInTimezone(addDays(params.date, 1), timezone).getTime()
+    };
+  }
+
+  return {
+    from: params.start ? parseDateTimeInTimezone(params.start, timezone).getTime() : undefined,
+    // A bare date as end includes that whole day
+    to: params.end
+      ? parseDateTimeInTimezone(/^\d{4}-\d{2}-\d{2}$/.test(params.end.trim()) ? addDays(params.end.trim(), 1) : params.end, timezone).getTime()
+      : undefined
+  };
+}
+
+/**
+ * Filter, sort and paginate lifelogs like `GET /lifelogs`.
+ * Cursors are opaque strings made of `cursorPrefix` and an offset.
+ */
+export function listLifelogs<T extends { id: string; startTime?: string }>(
+  lifelogs: T[],
+  params: ListingParams,
+  cursorPrefix: string = "local:"
+): ListingPage<T> {
+  const { from, to } = resolveTimeRange(params);
+  const direction = params.direction || "desc";
+  const limit = Math.max(1, Number(params.limit) || DEFAULT_LIMIT);
+
+  const matching = lifelogs
+    .filter(lifelog => {
+      if (from === undefined && to === undefined) return true;
+      if (!lifelog.startTime) return false;
+      const time = new Date(lifelog.startTime).getTime();
+      return (from === undefined || time >= from) && (to === undefined || time < to);
+    })
+    .sort((a, b) => {
+      const order = new Date(a.startTime || 0).getTime() - new Date(b.startTime || 0).getTime() ||
+                    a.id.localeCompare(b.id);
+      return direction === "asc" ? order : -order;
+    });
+
+  const offset = decodeCursor(params.cursor, cursorPrefix);
+  const items = matching.slice(offset, offset + limit);
+  const nextOffset = offset + items.length;
+
+  return {
+    items,
+    nextCursor: nextOffset < matching.length ? `${cursorPrefix}${nextOffset}` : undefined,
+    count: items.length
+  };
+}
+
+/**
+ * Apply the `includeMarkdown` and `includeHeadings` options to a complete
+ * lifelog, as the API does. Without headings, the children of heading blocks
+ * take their place.
+ */
+export function shapeLifelog(lifelog: Lifelog, shape: LifelogShape): Lifelog {
+  const withoutHeadings = (blocks: LifelogContent[] = []): LifelogContent[] =>
+    blocks.flatMap(block => {
+      const children = withoutHeadings(block.children);
+      return block.type.startsWith("heading") ? children : [{ ...block, children }];
+    });
+
+  return {
+    ...lifelog,
+    markdown: shape.includeMarkdown ? lifelog.markdown : undefined,
+    contents: shape.includeHeadings ? lifelog.contents : withoutHeadings(lifelog.contents)
+  };
+}
+
+/**
+ * Whether a cursor was issued by `listLifelogs` with the given prefix
+ */
+export function isLocalCursor(cursor: unknown, cursorPrefix: string = "local:"): boolean {
+  return typeof cursor === "string" && cursor.startsWith(cursorPrefix);
+}
+
+function decodeCursor(cursor: string | undefined, cursorPrefix: string): number {
+  if (!cursor) return 0;
+  if (!isLocalCursor(cursor, cursorPrefix)) {
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+
+  const offset = parseInt(cursor.substring(cursorPrefix.length), 10);
+  if (isNaN(offset) || offset < 0) {
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+  return offset;
+}
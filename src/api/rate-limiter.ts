@@ -0,0 +1,191 @@
+/**
+ * Client-side rate limiting for the Limitless API
+ *
+ * Every API call takes a slot from its API key's limiter before it is sent:
+ * a token bucket caps the request rate, and a concurrency limit caps the
+ * requests in flight. Fan-out tools (summaries, topic extraction, sentiment
+ * comparison) share the same limiter, so together they stay under the API's
+ * quota instead of bursting past it.
+ */
+import config from "../config";
+import { sleep, throwIfCancelled } from "../utils/cancellation";
+import { McpError, ErrorCode } from "../utils/errors";
+import { getCachePartition } from "./credentials.js";
+
+export interface RateLimiterOptions {
+  // Requests per second refilled into the bucket; 0 disables the bucket
+  rate: number;
+  // Requests that can start back to back after a quiet period
+  burst: number;
+  // Requests in flight at once; 0 for no limit
+  maxConcurrent: number;
+}
+
+export interface RateLimiterStatus {
+  // Requests currently in flight
+  active: number;
+  // Requests waiting for a concurrency slot
+  queued: number;
+  // Tokens left in the bucket
+  tokens: number;
+  // When the API asked us to wait until (after a 429 with Retry-After)
+  pausedUntil?: string;
+}
+
+// Releases a slot taken by acquire(); calling it more than once is harmless
+export type ReleaseSlot = () => void;
+
+/**
+ * Token bucket plus concurrency limit. Waiting callers are served in order,
+ * and a caller whose signal is aborted leaves the queue right away.
+ */
+export class RateLimiter {
+  private options: RateLimiterOptions;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private active = 0;
+  private queue: Array<() => void> = [];
+  private pausedUntil = 0;
+
+  constructor(options: RateLimiterOptions) {
+    this.options = options;
+    this.tokens = Math.max(1, options.burst);
+  }
+
+  /**
+   * Wait for a concurrency slot and a token. Call the returned function once
+   * the request (including reading its body) is done. Fails with
+   * RATE_LIMITED instead of waiting out a pause longer than `maxPauseMs`.
+   */
+  async acquire(signal?: AbortSignal, maxPauseMs: number = Infinity): Promise<ReleaseSlot> {
+    this.checkPause(maxPauseMs);
+    await this.waitForSlot(signal);
+
+    try {
+      for (let wait = this.takeToken(); wait > 0; wait = this.takeToken()) {
+        this.checkPause(maxPauseMs);
+        await sleep(wait, signal);
+      }
+    } catch (error) {
+      this.release();
+      throw error;
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.release();
+    };
+  }
+
+  /**
+   * Hold every request for a while, e.g. when the API answered 429 with a
+   * Retry-After header
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  getStatus(): RateLimiterStatus {
+    this.refill();
+    return {
+      active: this.active,
+      queued: this.queue.length,
+      tokens: Math.floor(this.tokens),
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : undefined
+    };
+  }
+
+  private checkPause(maxPauseMs: number): void {
+    const remaining = this.pausedUntil - Date.now();
+    if (remaining > maxPauseMs) {
+      throw new McpError(
+        `Limitless API rate limit exceeded; retry after ${Math.ceil(remaining / 1000)}s`,
+        ErrorCode.RATE_LIMITED,
+        429
+      );
+    }
+  }
+
+  private waitForSlot(signal?: AbortSignal): Promise<void> {
+    throwIfCancelled(signal);
+
+    if (this.options.maxConcurrent <= 0 || this.active < this.options.maxConcurrent) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.queue.indexOf(waiter);
+        if (index !== -1) this.queue.splice(index, 1);
+        try {
+          throwIfCancelled(signal);
+        } catch (error) {
+          reject(error);
+        }
+      };
+      // Called by release(), which hands its slot straight to the waiter
+      const waiter = () => {
+        signal?.removeEventListener("abort", onAbort);
+        this.active++;
+        resolve();
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.queue.push(waiter);
+    });
+  }
+
+  private release(): void {
+    this.active--;
+    this.queue.shift()?.();
+  }
+
+  // Take a token if one is available and return 0, otherwise return how long
+  // to wait before trying again
+  private takeToken(): number {
+    const now = Date.now();
+    if (now < this.pausedUntil) {
+      return this.pausedUntil - now;
+    }
+    if (this.options.rate <= 0) {
+      return 0;
+    }
+
+    this.refill();
+    if (this.tokens >= 1) {
+      this.tokens--;
+      return 0;
+    }
+    return Math.ceil((1 - this.tokens) / this.options.rate * 1000);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(Math.max(1, this.options.burst), this.tokens + elapsed * this.options.rate);
+    this.lastRefill = now;
+  }
+}
+
+// Limiters by cache partition, i.e. by API key, since quotas are per key
+const limiters = new Map<string, RateLimiter>();
+
+/**
+ * The rate limiter for the current request's API key
+ */
+export function getRateLimiter(): RateLimiter {
+  const partition = getCachePartition();
+  let limiter = limiters.get(partition);
+  if (!limiter) {
+    limiter = new RateLimiter({
+      rate: config.API_RATE_LIMIT,
+      burst: config.API_RATE_BURST,
+      maxConcurrent: config.API_MAX_CONCURRENCY
+    });
+    limiters.set(partition, limiter);
+  }
+  return limiter;
+}
@@ -0,0 +1,352 @@
+/**
+ * On-disk cache tier (L2)
+ *
+ * Layout of the cache directory:
+ * - `entries/<hash>.json`: a cached value, or `<hash>.json.gz` when it was
+ *   large enough to be compressed
+ * - `index.json`: key, expiry, size and tags of every entry, loaded at startup
+ *
+ * Entries survive restarts, so a day of lifelogs fetched yesterday doesn't
+ * have to be fetched again. The tier has its own size budget: once it is
+ * exceeded, the least recently used entries are removed.
+ */
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { promisify } from 'util';
+import zlib from 'zlib';
+import { CacheBackend, CacheEntry, CacheTierStats } from './types.js';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+// Version of the index format
+export const DISK_CACHE_FORMAT_VERSION = 1;
+
+const INDEX_FILE = 'index.json';
+const ENTRIES_DIR = 'entries';
+
+// Delay before the index is written, so a burst of writes saves once
+const SAVE_DELAY_MS = 2000;
+
+export interface DiskCacheOptions {
+  // Total size of the entry files, in bytes
+  maxBytes: number;
+  // Values at least this large (serialized, in bytes) are gzipped
+  compressThreshold: number;
+}
+
+// An entry of the index
+interface DiskEntry {
+  key: string;
+  file: string;
+  expiresAt: number;
+  lastAccess: number;
+  // Size of the file
+  bytes: number;
+  compressed: boolean;
+  tags: string[];
+}
+
+interface IndexFile {
+  formatVersion: number;
+  entries: DiskEntry[];
+}
+
+/**
+ * File-backed cache. The index is kept in memory; values are read from disk
+ * when requested. Writes and removals are serialized and update the index
+ * once the files are in place, so the index never points at a file that is
+ * still being written. They are queued as soon as they are called, so they
+ * apply in call order: a removal right after a write removes what was written.
+ */
+export class DiskCacheStore implements CacheBackend {
+  readonly tier = 'disk';
+  private dir: string;
+  private options: DiskCacheOptions;
+  private entries: Map<string, DiskEntry> = new Map();
+  private totalBytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  private loaded?: Promise<void>;
+  private saveTimer?: NodeJS.Timeout;
+
+  // Serializes writes so files are never written concurrently
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(dir: string, options: DiskCacheOptions) {
+    this.dir = dir;
+    this.options = options;
+  }
+
+  get directory(): string {
+    return this.dir;
+  }
+
+  /**
+   * Load the index from disk, dropping expired entries and files the index
+   * doesn't know about. Safe to call repeatedly; the index is read once.
+   */
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readIndex();
+    }
+    return this.loaded;
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    await this.load();
+
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) await this.del([key]);
+      this.misses++;
+      return undefined;
+    }
+
+    let value: T;
+    try {
+      const data = await fs.readFile(this.entryPath(entry.file));
+      value = JSON.parse((entry.compressed ? await gunzip(data) : data).toString('utf8'));
+    } catch (error) {
+      // Replaced or removed while we were reading
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Disk cache: could not read ${entry.file}:`, error);
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    entry.lastAccess = Date.now();
+    this.scheduleSave();
+    this.hits++;
+    return { value, expiresAt: entry.expiresAt, tags: entry.tags };
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number, tags: string[]): Promise<void> {
+    const json = Buffer.from(JSON.stringify(value), 'utf8');
+
+    await this.enqueue(async () => {
+      const compressed = json.length >= this.options.compressThreshold;
+      const data = compressed ? await gzip(json) : json;
+      const file = `${hashKey(key)}.json${compressed ? '.gz' : ''}`;
+      const previous = this.entries.get(key);
+
+      // Too large for the tier; don't leave the older value behind either
+      if (data.length > this.options.maxBytes) {
+        if (previous) {
+          this.removeEntry(previous);
+          await fs.rm(this.entryPath(previous.file), { force: true });
+        }
+        return;
+      }
+
+      await fs.mkdir(path.join(this.dir, ENTRIES_DIR), { recursive: true });
+      const tmp = `${this.entryPath(file)}.tmp`;
+      await fs.writeFile(tmp, data);
+      await fs.rename(tmp, this.entryPath(file));
+
+      if (previous) {
+        this.removeEntry(previous);
+        if (previous.file !== file) await fs.rm(this.entryPath(previous.file), { force: true });
+      }
+
+      const now = Date.now();
+      const entry: DiskEntry = {
+        key,
+        file,
+        expiresAt: now + ttlSeconds * 1000,
+        lastAccess: now,
+        bytes: data.length,
+        compressed,
+        tags
+      };
+      this.entries.set(key, entry);
+      this.totalBytes += entry.bytes;
+
+      await this.evict(key);
+    });
+    this.scheduleSave();
+  }
+
+  async del(keys: string[]): Promise<number> {
+    const removed = await this.enqueue(async () => {
+      let count = 0;
+      for (const key of keys) {
+        const entry = this.entries.get(key);
+        if (!entry) continue;
+        this.removeEntry(entry);
+        await fs.rm(this.entryPath(entry.file), { force: true });
+        count++;
+      }
+      return count;
+    });
+    if (removed > 0) this.scheduleSave();
+    return removed;
+  }
+
+  async flush(): Promise<void> {
+    await this.enqueue(async () => {
+      this.entries.clear();
+      this.totalBytes = 0;
+      await fs.rm(path.join(this.dir, ENTRIES_DIR), { recursive: true, force: true });
+    });
+    await this.save();
+  }
+
+  /**
+   * Remove expired entries
+   */
+  async prune(): Promise<number> {
+    const now = Date.now();
+    const expired = Array.from(this.entries.values())
+      .filter(entry => entry.expiresAt <= now)
+      .map(entry => entry.key);
+    return expired.length > 0 ? this.del(expired) : 0;
+  }
+
+  has(key: string): boolean {
+    const entry = this.entries.get(key);
+    return !!entry && entry.expiresAt > Date.now();
+  }
+
+  keys(): string[] {
+    const now = Date.now();
+    return Array.from(this.entries.values())
+      .filter(entry => entry.expiresAt > now)
+      .map(entry => entry.key);
+  }
+
+  getExpiry(key: string): number | undefined {
+    return this.has(key) ? this.entries.get(key)!.expiresAt : undefined;
+  }
+
+  entryTags(): Array<[string, string[]]> {
+    return this.keys().map(key => [key, this.entries.get(key)!.tags]);
+  }
+
+  getStats(): CacheTierStats {
+    return {
+      tier: this.tier,
+      keys: this.keys().length,
+      hits: this.hits,
+      misses: this.misses,
+      bytes: this.totalBytes,
+      maxBytes: this.options.maxBytes,
+      evictions: this.evictions,
+      compressed: Array.from(this.entries.values()).filter(entry => entry.compressed).length
+    };
+  }
+
+  /**
+   * Write the index to disk immediately
+   */
+  async save(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    await this.enqueue(() => this.writeIndex());
+  }
+
+  private removeEntry(entry: DiskEntry): void {
+    this.entries.delete(entry.key);
+    this.totalBytes -= entry.bytes;
+  }
+
+  // Remove the least recently used entries until the tier fits its budget,
+  // keeping the entry just written
+  private async evict(keep: string): Promise<void> {
+    if (this.totalBytes <= this.options.maxBytes) return;
+
+    const candidates = Array.from(this.entries.values())
+      .filter(entry => entry.key !== keep)
+      .sort((a, b) => a.lastAccess - b.lastAccess);
+    for (const entry of candidates) {
+      if (this.totalBytes <= this.options.maxBytes) break;
+      this.removeEntry(entry);
+      await fs.rm(this.entryPath(entry.file), { force: true });
+      this.evictions++;
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.enqueue(() => this.writeIndex()).catch(error => {
+        console.error(`Disk cache: failed to save ${this.indexPath()}:`, error);
+      });
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  private async readIndex(): Promise<void> {
+    await fs.mkdir(path.join(this.dir, ENTRIES_DIR), { recursive: true });
+
+    let data: IndexFile | undefined;
+    try {
+      data = JSON.parse(await fs.readFile(this.indexPath(), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Disk cache: could not read ${this.indexPath()}, starting empty:`, error);
+      }
+    }
+
+    if (data && data.formatVersion !== DISK_CACHE_FORMAT_VERSION) {
+      console.error(`Disk cache: unsupported format in ${this.indexPath()}, starting empty`);
+      data = undefined;
+    }
+
+    const now = Date.now();
+    for (const entry of data?.entries || []) {
+      if (entry.expiresAt > now) {
+        this.entries.set(entry.key, entry);
+        this.totalBytes += entry.bytes;
+      }
+    }
+
+    // Expired entries, and files written after the index was last saved
+    const files = new Set(Array.from(this.entries.values()).map(entry => entry.file));
+    for (const file of await fs.readdir(path.join(this.dir, ENTRIES_DIR))) {
+      if (!files.has(file)) {
+        await fs.rm(this.entryPath(file), { force: true });
+      }
+    }
+  }
+
+  // Write the index, replacing the previous file atomically
+  private async writeIndex(): Promise<void> {
+    const data: IndexFile = {
+      formatVersion: DISK_CACHE_FORMAT_VERSION,
+      entries: Array.from(this.entries.values())
+    };
+
+    await fs.mkdir(this.dir, { recursive: true });
+    const tmp = `${this.indexPath()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(data));
+    await fs.rename(tmp, this.indexPath());
+  }
+
+  private indexPath(): string {
+    return path.join(this.dir, INDEX_FILE);
+  }
+
+  private entryPath(file: string): string {
+    return path.join(this.dir, ENTRIES_DIR, file);
+  }
+
+  // Queue a task after the index is loaded and earlier tasks are done
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(() => this.load()).then(task);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+// Cache keys hold query strings, so files are named by a hash of the key
+function hashKey(key: string): string {
+  return crypto.createHash('sha1').update(key).digest('hex');
+}
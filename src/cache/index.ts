@@ -1,34 +1,176 @@
 /**
  * Cache management module for Limitless MCP server
  */
-import NodeCache from 'node-cache';
+import path from 'path';
 import config from '../config';
+import { getCachePartition } from '../api/credentials.js';
+import { Lifelog, LifelogResponse } from '../types';
+import { addDays, formatDateInTimezone, parseDateTimeInTimezone } from '../utils/time';
+import { DiskCacheStore } from './disk-store.js';
+import { MemoryCacheStore } from './memory-store.js';
+import { TieredCache } from './tiered.js';
+import { TierTTL } from './types.js';
 
-// Initialize cache with configuration settings
-const cache = new NodeCache({
-  stdTTL: config.CACHE_TTL,
-  checkperiod: config.CACHE_CHECK_PERIOD,
-  maxKeys: config.CACHE_MAX_KEYS,
-  useClones: true
-});
+export * from './types.js';
+export { TieredCache } from './tiered.js';
+export type { TieredCacheStats } from './tiered.js';
+
+// Range listings spanning more days than this are tagged `date:*` instead of day by day
+const MAX_TAGGED_RANGE_DAYS = 31;
+
+// In-memory tier, backed by the on-disk tier when it is enabled
+const cache = new TieredCache(
+  new MemoryCacheStore({
+    maxKeys: config.CACHE_MAX_KEYS,
+    maxBytes: config.CACHE_MAX_BYTES,
+    weigh: getEvictionWeight
+  }),
+  config.CACHE_DISK
+    ? new DiskCacheStore(path.join(config.DATA_DIR, 'cache'), {
+        maxBytes: config.CACHE_DISK_MAX_BYTES,
+        compressThreshold: config.CACHE_COMPRESS_THRESHOLD
+      })
+    : undefined,
+  config.CACHE_TTL
+);
+
+// Sweep expired entries and report statistics (unref'd so they never keep
+// the process alive)
+setInterval(() => {
+  cache.prune().catch(error => console.error('Cache: failed to remove expired entries:', error));
+}, config.CACHE_CHECK_PERIOD * 1000).unref();
 
-// Set up periodic cache statistics reporting
 setInterval(() => {
   const stats = cache.getStats();
-  console.error(`Cache stats: ${stats.keys} keys, ${stats.hits} hits, ${stats.misses} misses, Hit rate: ${(stats.hits / (stats.hits + stats.misses) || 0).toFixed(2)}`);
-}, 300000); // Report every 5 minutes
+  const tiers = stats.tiers.map(tier => `${tier.tier} ${tier.keys} keys${tier.bytes !== undefined ? ` (${tier.bytes} bytes, ${tier.evictions ?? 0} evicted)` : ''}`).join(', ');
+  console.error(`Cache stats: ${stats.keys} keys (${tiers}), ${stats.hits} hits, ${stats.misses} misses, Hit rate: ${(stats.hits / (stats.hits + stats.misses) || 0).toFixed(2)}`);
+}, 300000).unref(); // Report every 5 minutes
+
+/**
+ * Eviction weight of an entry from its (partitioned) tags: summaries and
+ * topics outlast metadata, which outlasts listings and full lifelogs
+ */
+function getEvictionWeight(_key: string, tags: string[]): number {
+  const types = new Set(tags.map(tag => tag.substring(tag.indexOf(':') + 1)));
+  const weights = config.CACHE_EVICTION_WEIGHTS;
+  
+  if (types.has('derived')) return weights.SUMMARIES;
+  if (types.has('metadata_only')) return weights.METADATA;
+  if (types.has('lifelog_listings') || types.has('search')) return weights.LISTINGS;
+  return 1;
+}
+
+/**
+ * Prefix a cache key with the current user's partition. Every entry derived
+ * from lifelog data must be stored under a partitioned key.
+ */
+export function partitionCacheKey(key: string): string {
+  return `${getCachePartition()}:${key}`;
+}
+
+/**
+ * Keys cached for the current user, without their partition prefix
+ */
+export function getPartitionKeys(): string[] {
+  const prefix = `${getCachePartition()}:`;
+  return cache.keys()
+    .filter(key => key.startsWith(prefix))
+    .map(key => key.substring(prefix.length));
+}
+
+/**
+ * Store an entry under an already partitioned key, indexed under tags in the
+ * current user's partition
+ */
+export async function setTaggedEntry<T>(key: string, value: T, ttl: number | TierTTL, tags: string[]): Promise<void> {
+  await cache.set(key, value, ttl, Array.from(new Set(tags)).map(partitionCacheKey));
+}
+
+/**
+ * Tags of an entry derived from lifelogs (summaries, topics): `derived`, plus
+ * each lifelog's ID and start day, so invalidating a lifelog or a day drops it
+ */
+export function getDerivedTags(lifelogs: Lifelog[]): string[] {
+  return ['derived', ...lifelogs.flatMap(getLifelogTags)];
+}
+
+/**
+ * Drop every entry of the current user carrying one of the tags, along with
+ * (unless `dropDerived` is false) the derived entries of the lifelogs those
+ * entries held. Returns the number of entries removed and the affected
+ * lifelog IDs.
+ */
+export async function invalidateTags(tags: string[], dropDerived: boolean = true): Promise<{ removed: number; lifelogs: string[] }> {
+  const keys = new Set<string>();
+  for (const tag of tags) {
+    cache.keysWithTag(partitionCacheKey(tag)).forEach(key => keys.add(key));
+  }
+
+  // Lifelogs held by the matched entries; a summary of several lifelogs
+  // doesn't make the others stale
+  const derived = new Set(cache.keysWithTag(partitionCacheKey('derived')));
+  const lifelogPrefix = partitionCacheKey('lifelog:');
+  const lifelogs = new Set(tags.filter(tag => tag.startsWith('lifelog:')).map(tag => tag.substring('lifelog:'.length)));
+  for (const key of keys) {
+    if (derived.has(key)) continue;
+    for (const tag of cache.tagsOf(key)) {
+      if (tag.startsWith(lifelogPrefix)) lifelogs.add(tag.substring(lifelogPrefix.length));
+    }
+  }
+
+  // Their summaries and topics
+  for (const id of dropDerived ? lifelogs : []) {
+    cache.keysWithTag(partitionCacheKey(`lifelog:${id}`)).forEach(key => {
+      if (derived.has(key)) keys.add(key);
+    });
+  }
+
+  await cache.del(Array.from(keys));
+  return { removed: keys.size, lifelogs: Array.from(lifelogs).sort() };
+}
+
+/**
+ * Drop the entries of one lifelog: its responses, the listings that include
+ * it, and its summaries and topics
+ */
+export function invalidateLifelog(id: string): Promise<{ removed: number; lifelogs: string[] }> {
+  return invalidateTags([`lifelog:${id}`]);
+}
 
 /**
- * Calculate an appropriate TTL based on the data type and path
+ * Drop the entries of a calendar day in a timezone: listings of that day or
+ * of ranges around it, lifelogs that started on it, and their summaries and
+ * topics. Lifelogs are tagged with their UTC start day, so the UTC days the
+ * local day overlaps are dropped too.
  */
-export function calculateTTL(path: string, queryParams: Record<string, unknown>): number {
+export function invalidateDate(date: string, timezone: string = 'UTC'): Promise<{ removed: number; lifelogs: string[] }> {
+  const from = parseDateTimeInTimezone(date, timezone);
+  const to = new Date(parseDateTimeInTimezone(addDays(date, 1), timezone).getTime() - 1);
+  const days = new Set([date, formatDateInTimezone(from, 'UTC'), formatDateInTimezone(to, 'UTC')]);
+
+  return invalidateTags(['date:*', ...Array.from(days).map(day => `date:${day}`)]);
+}
+
+/**
+ * Calculate appropriate TTLs for each tier based on the data type and path.
+ * The disk TTL is 0 when the disk tier is disabled.
+ */
+export function calculateTTL(path: string, queryParams: Record<string, unknown>): TierTTL {
   let ttl = config.CACHE_TTL;
+  // Listings and search results change as new lifelogs arrive, so the disk
+  // tier keeps them no longer than memory does
+  let diskTtl = 0;
   
   // Single lifelog metadata (cached longer since they rarely change)
   if (path.includes('/lifelogs/') && !queryParams.includeMarkdown) {
     ttl = config.CACHE_TTL * config.CACHE_TTL_MULTIPLIERS.METADATA;
+    diskTtl = config.CACHE_DISK_TTL;
     console.error(`Using metadata TTL multiplier: ${config.CACHE_TTL_MULTIPLIERS.METADATA}x`);
   } 
+  // Single lifelogs with their content
+  else if (path.includes('/lifelogs/')) {
+    diskTtl = config.CACHE_DISK_TTL;
+  }
   // Lifelog listings (cached moderately long)
   else if (path === '/lifelogs' && queryParams.limit) {
     ttl = config.CACHE_TTL * config.CACHE_TTL_MULTIPLIERS.LISTINGS;
@@ -40,17 +182,30 @@ export function calculateTTL(path: string, queryParams: Record<string, unknown>)
     console.error(`Using search TTL multiplier: ${config.CACHE_TTL_MULTIPLIERS.SEARCH}x`);
   }
   
-  return ttl;
+  return { memory: ttl, disk: config.CACHE_DISK ? Math.max(ttl, diskTtl) : 0 };
+}
+
+/**
+ * TTLs of summaries and topics. They are expensive to regenerate and only
+ * change with their lifelogs, which invalidate them when they do.
+ */
+export function calculateDerivedTTL(): TierTTL {
+  const ttl = config.CACHE_TTL * config.CACHE_TTL_MULTIPLIERS.SUMMARIES;
+  return { memory: ttl, disk: config.CACHE_DISK ? Math.max(ttl, config.CACHE_DISK_TTL) : 0 };
 }
 
 /**
- * Get tags for a cache entry based on the path and query parameters
+ * Get tags for a cache entry based on the path and query parameters, and on
+ * the lifelogs in the response: `lifelog:<id>` for each lifelog, and
+ * `date:<YYYY-MM-DD>` for each lifelog's UTC start day and each day a listing
+ * covers (`date:*` for listings without a date or over a long range)
  */
-export function getCacheTags(path: string, queryParams: Record<string, unknown>): string[] {
+export function getCacheTags(path: string, queryParams: Record<string, unknown>, data?: LifelogResponse): string[] {
   const tags: string[] = [];
   
   if (path.includes('/lifelogs/')) {
     tags.push('single_lifelog');
+    tags.push(`lifelog:${decodeURIComponent(path.substring(path.lastIndexOf('/') + 1))}`);
     if (queryParams.includeMarkdown) {
       tags.push('full_content');
     } else {
@@ -58,9 +213,45 @@ export function getCacheTags(path: string, queryParams: Record<string, unknown>)
     }
   } else if (path === '/lifelogs') {
     tags.push('lifelog_listings');
-    if (queryParams.date) tags.push(`date:${queryParams.date}`);
+    if (queryParams.date) {
+      tags.push(`date:${queryParams.date}`);
+    } else {
+      tags.push(...getRangeTags(queryParams.start, queryParams.end));
+    }
   }
+  if (queryParams.query) {
+    tags.push('search');
+  }
+  
+  const lifelogs = data?.data.lifelogs || (data?.data.lifelog ? [data.data.lifelog] : []);
+  tags.push(...lifelogs.flatMap(getLifelogTags));
   
+  return Array.from(new Set(tags));
+}
+
+// `lifelog:<id>` and the UTC start day of a lifelog
+function getLifelogTags(lifelog: Lifelog): string[] {
+  const tags = [`lifelog:${lifelog.id}`];
+  if (lifelog.startTime) {
+    tags.push(`date:${formatDateInTimezone(lifelog.startTime, 'UTC')}`);
+  }
+  return tags;
+}
+
+// One tag per day from start to end, or `date:*` when either is missing or
+// the range is long
+function getRangeTags(start: unknown, end: unknown): string[] {
+  const datePattern = /^\d{4}-\d{2}-\d{2}/;
+  if (typeof start !== 'string' || typeof end !== 'string' || !datePattern.test(start) || !datePattern.test(end)) {
+    return ['date:*'];
+  }
+
+  const last = end.substring(0, 10);
+  const tags: string[] = [];
+  for (let day = start.substring(0, 10); day <= last; day = addDays(day, 1)) {
+    if (tags.length >= MAX_TAGGED_RANGE_DAYS) return ['date:*'];
+    tags.push(`date:${day}`);
+  }
   return tags;
 }
 
@@ -0,0 +1,185 @@
+/**
+ * In-memory cache tier (L1)
+ *
+ * A least-recently-used cache bounded by entry count and by estimated size.
+ * Values are held as JSON, which both measures them and gives every reader
+ * its own copy, so callers can't modify what is cached. When a new entry
+ * doesn't fit, entries are evicted starting from the least recently used;
+ * weights let valuable entries (summaries are expensive to regenerate) stay
+ * longer than cheap ones.
+ */
+import { CacheBackend, CacheEntry, CacheTierStats } from './types.js';
+
+// Least recently used entries considered for each eviction
+const EVICTION_CANDIDATES = 16;
+
+export interface MemoryCacheOptions {
+  // Most entries held at once
+  maxKeys: number;
+  // Most estimated bytes held at once
+  maxBytes: number;
+  // Weight of an entry (default 1); among the least recently used entries,
+  // an entry of weight 2 is evicted as if it had been used twice as recently
+  weigh?: (key: string, tags: string[]) => number;
+}
+
+interface MemoryEntry {
+  json: string;
+  expiresAt: number;
+  tags: string[];
+  // Estimated size: the UTF-8 length of the JSON and of the key
+  bytes: number;
+  weight: number;
+  lastAccess: number;
+}
+
+export class MemoryCacheStore implements CacheBackend {
+  readonly tier = 'memory';
+  private options: MemoryCacheOptions;
+  // In order of use, least recent first
+  private entries: Map<string, MemoryEntry> = new Map();
+  private totalBytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(options: MemoryCacheOptions) {
+    this.options = options;
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) this.remove(key);
+      this.misses++;
+      return undefined;
+    }
+
+    // Move to the most recently used end
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    entry.lastAccess = Date.now();
+
+    this.hits++;
+    return { value: JSON.parse(entry.json) as T, expiresAt: entry.expiresAt, tags: entry.tags };
+  }
+
+  /**
+   * Store an entry, evicting others to make room. An entry larger than the
+   * whole budget is not stored. Runs without yielding, so the entry can't be
+   * stored after a removal that was called later.
+   */
+  async set<T>(key: string, value: T, ttlSeconds: number, tags: string[]): Promise<void> {
+    const json = JSON.stringify(value);
+    const bytes = Buffer.byteLength(json) + Buffer.byteLength(key);
+    this.remove(key);
+
+    if (bytes > this.options.maxBytes) {
+      console.error(`Cache: ${key} (${bytes} bytes) exceeds the memory budget, not cached in memory`);
+      return;
+    }
+
+    if (this.entries.size >= this.options.maxKeys || this.totalBytes + bytes > this.options.maxBytes) {
+      this.removeExpired();
+    }
+    while (this.entries.size > 0 &&
+      (this.entries.size >= this.options.maxKeys || this.totalBytes + bytes > this.options.maxBytes)) {
+      this.evictOne();
+    }
+
+    const now = Date.now();
+    this.entries.set(key, {
+      json,
+      expiresAt: now + ttlSeconds * 1000,
+      tags,
+      bytes,
+      weight: Math.max(this.options.weigh?.(key, tags) ?? 1, 0.01),
+      lastAccess: now
+    });
+    this.totalBytes += bytes;
+  }
+
+  async del(keys: string[]): Promise<number> {
+    return keys.filter(key => this.remove(key)).length;
+  }
+
+  async flush(): Promise<void> {
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+
+  async prune(): Promise<number> {
+    return this.removeExpired();
+  }
+
+  has(key: string): boolean {
+    const entry = this.entries.get(key);
+    return !!entry && entry.expiresAt > Date.now();
+  }
+
+  keys(): string[] {
+    const now = Date.now();
+    return Array.from(this.entries)
+      .filter(([, entry]) => entry.expiresAt > now)
+      .map(([key]) => key);
+  }
+
+  getExpiry(key: string): number | undefined {
+    return this.has(key) ? this.entries.get(key)!.expiresAt : undefined;
+  }
+
+  entryTags(): Array<[string, string[]]> {
+    return this.keys().map(key => [key, this.entries.get(key)!.tags]);
+  }
+
+  getStats(): CacheTierStats {
+    return {
+      tier: this.tier,
+      keys: this.keys().length,
+      hits: this.hits,
+      misses: this.misses,
+      bytes: this.totalBytes,
+      maxBytes: this.options.maxBytes,
+      maxKeys: this.options.maxKeys,
+      evictions: this.evictions
+    };
+  }
+
+  // Evict the entry idle the longest for its weight among the least recently
+  // used ones
+  private evictOne(): void {
+    const now = Date.now();
+    let victim: string | undefined;
+    let victimScore = -1;
+    let candidates = 0;
+    for (const [key, entry] of this.entries) {
+      const score = (now - entry.lastAccess + 1) / entry.weight;
+      if (score > victimScore) {
+        victim = key;
+        victimScore = score;
+      }
+      if (++candidates >= EVICTION_CANDIDATES) break;
+    }
+
+    if (victim !== undefined && this.remove(victim)) {
+      this.evictions++;
+    }
+  }
+
+  private removeExpired(): number {
+    const now = Date.now();
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now && this.remove(key)) removed++;
+    }
+    return removed;
+  }
+
+  private remove(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+    this.entries.delete(key);
+    this.totalBytes -= entry.bytes;
+    return true;
+  }
+}
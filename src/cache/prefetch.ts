@@ -0,0 +1,237 @@
+/**
+ * Cache prefetch
+ *
+ * Warms the response cache with the lifelogs of recent days, so the first
+ * question about today doesn't wait on the API. Each day's listing is fetched
+ * the way get_day_summary asks for it, then every lifelog of the day the way
+ * get_lifelog (with content) and the analysis tools ask for it. Everything
+ * goes through callLimitlessApi, so the entries are cached, coalesced with
+ * concurrent tool calls and revalidated like any other.
+ */
+import config from '../config';
+import callLimitlessApi, { fetchAllLifelogs } from '../api/client.js';
+import { addDays, formatDateInTimezone } from '../utils/time';
+import { throwIfCancelled } from '../utils/cancellation';
+import { ErrorCode, McpError } from '../utils/errors';
+
+// Most days warmed by one request
+export const MAX_WARM_DAYS = 31;
+
+export interface WarmOptions {
+  signal?: AbortSignal;
+  // Called after each day is warmed
+  onDay?(date: string, done: number, total: number): void | Promise<void>;
+}
+
+export interface WarmResult {
+  days: number;
+  // Day listings fetched
+  listings: number;
+  // Lifelogs fetched in full
+  lifelogs: number;
+  // Requests that failed
+  failed: number;
+}
+
+export interface PrefetchStatus {
+  running: boolean;
+  // Configured days, e.g. ['today', 'yesterday']
+  days: string[];
+  timezone: string;
+  intervalSeconds: number;
+  lastRunStartedAt?: string;
+  lastRunFinishedAt?: string;
+  nextRunAt?: string;
+  lastResult?: WarmResult;
+  lastError?: string;
+}
+
+/**
+ * Resolve prefetch day specs to dates (YYYY-MM-DD) in a timezone. Accepts
+ * `today`, `yesterday`, `today-N` and literal dates; other specs are skipped.
+ */
+export function resolvePrefetchDays(specs: string[], timezone: string, now: Date = new Date()): string[] {
+  const today = formatDateInTimezone(now, timezone);
+  const days: string[] = [];
+
+  for (const spec of specs) {
+    const value = spec.trim().toLowerCase();
+    const offset = value.match(/^today-(\d+)$/);
+    let day: string | undefined;
+
+    if (value === 'today') {
+      day = today;
+    } else if (value === 'yesterday') {
+      day = addDays(today, -1);
+    } else if (offset) {
+      day = addDays(today, -parseInt(offset[1], 10));
+    } else if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      day = value;
+    } else {
+      console.error(`Cache prefetch: ignoring unknown day '${spec}'`);
+    }
+
+    if (day && !days.includes(day)) days.push(day);
+  }
+
+  return days;
+}
+
+/**
+ * Every date from start to end (YYYY-MM-DD, inclusive)
+ */
+export function dateRange(start: string, end: string): string[] {
+  if (end < start) {
+    throw new McpError(`End date ${end} is before start date ${start}`, ErrorCode.InvalidParams);
+  }
+
+  const days: string[] = [];
+  for (let day = start; day <= end; day = addDays(day, 1)) {
+    days.push(day);
+    if (days.length > MAX_WARM_DAYS) {
+      throw new McpError(`Cannot warm more than ${MAX_WARM_DAYS} days at once`, ErrorCode.InvalidParams);
+    }
+  }
+  return days;
+}
+
+/**
+ * Fetch the listings and full lifelogs of days into the cache, with the
+ * current session's API key. A failed request is counted and skipped; only
+ * cancellation stops the warm-up.
+ */
+export async function warmCache(days: string[], timezone: string, options: WarmOptions = {}): Promise<WarmResult> {
+  const { signal, onDay } = options;
+  const result: WarmResult = { days: 0, listings: 0, lifelogs: 0, failed: 0 };
+
+  for (const date of days) {
+    throwIfCancelled(signal);
+
+    let ids: string[] = [];
+    try {
+      const { lifelogs } = await fetchAllLifelogs({ date, timezone, includeMarkdown: true }, { signal });
+      ids = lifelogs.map(lifelog => lifelog.id);
+      result.listings++;
+    } catch (error) {
+      throwIfCancelled(signal);
+      result.failed++;
+      console.error(`Cache prefetch: could not list ${date}:`, error instanceof Error ? error.message : error);
+    }
+
+    const fetched = await Promise.allSettled(ids.map(async id => {
+      await Promise.all([
+        callLimitlessApi(`/lifelogs/${id}`, {}, true, { signal }),
+        callLimitlessApi(`/lifelogs/${id}`, { includeMarkdown: true }, true, { signal })
+      ]);
+    }));
+    throwIfCancelled(signal);
+
+    for (const outcome of fetched) {
+      if (outcome.status === 'fulfilled') {
+        result.lifelogs++;
+      } else {
+        result.failed++;
+      }
+    }
+
+    result.days++;
+    await onDay?.(date, result.days, days.length);
+  }
+
+  return result;
+}
+
+/**
+ * Warms the configured days at startup and then on an interval. A run that
+ * is due while the previous one is still going is skipped.
+ */
+export class CachePrefetcher {
+  private specs: string[];
+  private timezone: string;
+  private intervalMs: number;
+  private timer?: NodeJS.Timeout;
+  private active = false;
+  private status: PrefetchStatus;
+
+  constructor(specs: string[], timezone: string, intervalSeconds: number) {
+    this.specs = specs;
+    this.timezone = timezone;
+    this.intervalMs = intervalSeconds * 1000;
+    this.status = { running: false, days: specs, timezone, intervalSeconds };
+  }
+
+  /**
+   * Start prefetching: a first run right away, then one every interval
+   */
+  start(): void {
+    if (this.active) return;
+    this.active = true;
+    this.runOnce();
+  }
+
+  stop(): void {
+    this.active = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    this.status.nextRunAt = undefined;
+  }
+
+  getStatus(): PrefetchStatus {
+    return { ...this.status, lastResult: this.status.lastResult && { ...this.status.lastResult } };
+  }
+
+  /**
+   * Warm the configured days now. Returns false if a run was already going.
+   */
+  async runOnce(): Promise<boolean> {
+    if (this.status.running) return false;
+
+    this.status.running = true;
+    this.status.lastRunStartedAt = new Date().toISOString();
+    this.status.lastError = undefined;
+
+    try {
+      const days = resolvePrefetchDays(this.specs, this.timezone);
+      this.status.lastResult = await warmCache(days, this.timezone);
+      // Quiet unless something failed; manage_cache stats shows every run
+      if (this.status.lastResult.failed > 0) {
+        console.error(`Cache prefetch: ${this.status.lastResult.failed} requests failed while warming ${days.join(', ')}`);
+      }
+    } catch (error) {
+      this.status.lastError = String(error);
+      console.error(`Cache prefetch failed: ${error}`);
+    } finally {
+      this.status.running = false;
+      this.status.lastRunFinishedAt = new Date().toISOString();
+      this.schedule();
+    }
+    return true;
+  }
+
+  // Schedule the next run unless the prefetcher was stopped
+  private schedule(): void {
+    if (!this.active || this.intervalMs <= 0) return;
+
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => { this.runOnce(); }, this.intervalMs);
+    this.timer.unref();
+    this.status.nextRunAt = new Date(Date.now() + this.intervalMs).toISOString();
+  }
+}
+
+let prefetcher: CachePrefetcher | undefined;
+
+/**
+ * Create the prefetcher of the configured days (once per process; started by
+ * main). The timezone is used when LIMITLESS_PREFETCH_TIMEZONE isn't set.
+ */
+export function createPrefetcher(defaultTimezone: string): CachePrefetcher {
+  if (!prefetcher) {
+    prefetcher = new CachePrefetcher(
+      config.PREFETCH,
+      config.PREFETCH_TIMEZONE || defaultTimezone,
+      config.PREFETCH_INTERVAL
+    );
+  }
+  return prefetcher;
+}
@@ -0,0 +1,208 @@
+/**
+ * Two-tier cache: an in-memory tier in front of an optional persistent tier
+ */
+import { CacheBackend, CacheTierStats, TierTTL } from './types.js';
+
+export interface TieredCacheStats {
+  // Entries in either tier
+  keys: number;
+  // Lookups answered by either tier, and lookups neither could answer
+  hits: number;
+  misses: number;
+  tiers: CacheTierStats[];
+}
+
+/**
+ * Lookups try the memory tier, then the disk tier; disk hits are copied back
+ * into memory. Writes go to memory right away and to disk in the background.
+ * Removals apply to both tiers. Disk writes and removals are queued in call
+ * order, so a removal right after a write can't be undone by the write.
+ *
+ * The cache also keeps the tag index: the keys stored under each tag, and the
+ * tags of each key. The index covers both tiers and is rebuilt from the disk
+ * tier at startup.
+ */
+export class TieredCache {
+  private memory: CacheBackend;
+  private disk?: CacheBackend;
+  // Longest TTL of an entry copied from disk into memory, in seconds
+  private promoteTtl: number;
+  private ready: Promise<void>;
+
+  private keysByTag = new Map<string, Set<string>>();
+  private tagsByKey = new Map<string, string[]>();
+
+  private hits = 0;
+  private misses = 0;
+
+  constructor(memory: CacheBackend, disk: CacheBackend | undefined, promoteTtl: number) {
+    this.memory = memory;
+    this.disk = disk;
+    this.promoteTtl = promoteTtl;
+    this.ready = this.load();
+  }
+
+  get hasDisk(): boolean {
+    return this.disk !== undefined;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    await this.ready;
+
+    const entry = await this.memory.get<T>(key);
+    if (entry) {
+      this.hits++;
+      return entry.value;
+    }
+
+    const stored = await this.disk?.get<T>(key);
+    if (stored) {
+      this.hits++;
+      const ttl = Math.min(this.promoteTtl, Math.floor((stored.expiresAt - Date.now()) / 1000));
+      // Not if the key was removed while it was being read
+      if (ttl > 0 && this.tagsByKey.has(key)) {
+        try {
+          await this.memory.set(key, stored.value, ttl, stored.tags);
+        } catch (error) {
+          console.error(`Cache: could not copy ${key} into memory:`, error);
+        }
+      }
+      return stored.value;
+    }
+
+    this.misses++;
+    return undefined;
+  }
+
+  /**
+   * Store an entry under tags. A single TTL applies to both tiers; a disk
+   * TTL of 0 keeps the entry in memory only.
+   */
+  async set<T>(key: string, value: T, ttl: number | TierTTL, tags: string[] = []): Promise<void> {
+    await this.ready;
+    const { memory, disk } = typeof ttl === 'number' ? { memory: ttl, disk: ttl } : ttl;
+
+    this.tagKey(key, tags);
+
+    let removal: Promise<number> | undefined;
+    if (this.disk && disk > 0) {
+      this.disk.set(key, value, disk, tags).catch(error => {
+        console.error(`Cache: could not write ${key} to disk:`, error);
+      });
+    } else {
+      // Don't leave an older value behind on disk
+      removal = this.disk?.del([key]);
+    }
+
+    await this.memory.set(key, value, memory, tags);
+    await removal;
+  }
+
+  /**
+   * Remove entries from both tiers, returning how many keys were removed
+   */
+  async del(keys: string | string[]): Promise<number> {
+    await this.ready;
+    const list = Array.isArray(keys) ? keys : [keys];
+    const removed = list.filter(key => this.has(key)).length;
+
+    list.forEach(key => this.untagKey(key));
+    const removal = this.disk?.del(list);
+    await this.memory.del(list);
+    await removal;
+    return removed;
+  }
+
+  async flush(): Promise<void> {
+    await this.ready;
+    this.keysByTag.clear();
+    this.tagsByKey.clear();
+    const removal = this.disk?.flush();
+    await this.memory.flush();
+    await removal;
+  }
+
+  /**
+   * Remove expired entries from both tiers, and forget the tags of keys that
+   * are gone
+   */
+  async prune(): Promise<number> {
+    await this.ready;
+    const removed = await this.memory.prune() + (await this.disk?.prune() || 0);
+    for (const key of Array.from(this.tagsByKey.keys())) {
+      if (!this.has(key)) this.untagKey(key);
+    }
+    return removed;
+  }
+
+  has(key: string): boolean {
+    return this.memory.has(key) || !!this.disk?.has(key);
+  }
+
+  // Keys in either tier
+  keys(): string[] {
+    return Array.from(new Set([...this.memory.keys(), ...(this.disk?.keys() || [])]));
+  }
+
+  /**
+   * When an entry expires from the cache (epoch milliseconds), i.e. from the
+   * disk tier when it is stored there too
+   */
+  getTtl(key: string): number | undefined {
+    return this.disk?.getExpiry(key) ?? this.memory.getExpiry(key);
+  }
+
+  // Keys stored under a tag
+  keysWithTag(tag: string): string[] {
+    return Array.from(this.keysByTag.get(tag) || []).filter(key => this.has(key));
+  }
+
+  // Tags a key was stored under
+  tagsOf(key: string): string[] {
+    return this.tagsByKey.get(key) || [];
+  }
+
+  getStats(): TieredCacheStats {
+    const tiers = [this.memory.getStats()];
+    if (this.disk) tiers.push(this.disk.getStats());
+    return { keys: this.keys().length, hits: this.hits, misses: this.misses, tiers };
+  }
+
+  // Load the disk tier and index the tags of its entries
+  private async load(): Promise<void> {
+    await this.memory.load?.();
+    if (!this.disk) return;
+
+    try {
+      await this.disk.load?.();
+      for (const [key, tags] of this.disk.entryTags()) {
+        this.tagKey(key, tags);
+      }
+    } catch (error) {
+      console.error('Cache: could not load the disk tier, using memory only:', error);
+      this.disk = undefined;
+    }
+  }
+
+  private tagKey(key: string, tags: string[]): void {
+    this.untagKey(key);
+    for (const tag of tags) {
+      let keys = this.keysByTag.get(tag);
+      if (!keys) {
+        keys = new Set();
+        this.keysByTag.set(tag, keys);
+      }
+      keys.add(key);
+    }
+    this.tagsByKey.set(key, tags);
+  }
+
+  private untagKey(key: string): void {
+    for (const tag of this.tagsByKey.get(key) || []) {
+      const keys = this.keysByTag.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) this.keysByTag.delete(tag);
+    }
+    this.tagsByKey.delete(key);
+  }
+}
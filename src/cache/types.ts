@@ -0,0 +1,69 @@
+/**
+ * Cache backend interface
+ *
+ * The response cache is made of tiers: a fast in-memory tier, and optionally
+ * a persistent tier behind it. Each tier is a CacheBackend, so a tier can be
+ * swapped for another store without touching the callers of the cache.
+ */
+
+// A cached value, with when it expires (epoch milliseconds)
+export interface CacheEntry<T = unknown> {
+  value: T;
+  expiresAt: number;
+  // Tags the entry was stored with (see setTaggedEntry)
+  tags: string[];
+}
+
+// Statistics of one tier
+export interface CacheTierStats {
+  // "memory" or "disk"
+  tier: string;
+  keys: number;
+  hits: number;
+  misses: number;
+  // Size of the stored entries, when the tier tracks it
+  bytes?: number;
+  // Size budget of the tier, when it has one
+  maxBytes?: number;
+  // Most entries the tier holds, when it is limited
+  maxKeys?: number;
+  // Entries removed to stay within the budget
+  evictions?: number;
+  // Entries stored compressed
+  compressed?: number;
+}
+
+// Time to live of an entry in each tier, in seconds
+export interface TierTTL {
+  memory: number;
+  disk: number;
+}
+
+/**
+ * One tier of the cache. Lookups of the key set (`has`, `keys`, `getExpiry`)
+ * are synchronous, so every backend keeps at least an index of its keys in
+ * memory; reading and writing values may be asynchronous.
+ */
+export interface CacheBackend {
+  readonly tier: string;
+
+  // Prepare the backend (e.g. read its index); called once before first use
+  load?(): Promise<void>;
+
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, value: T, ttlSeconds: number, tags: string[]): Promise<void>;
+  // Remove entries, returning how many were removed
+  del(keys: string[]): Promise<number>;
+  flush(): Promise<void>;
+  // Remove expired entries, returning how many were removed
+  prune(): Promise<number>;
+
+  has(key: string): boolean;
+  keys(): string[];
+  // When an entry expires (epoch milliseconds), or undefined if it isn't stored
+  getExpiry(key: string): number | undefined;
+  // Every stored entry's tags, used to rebuild the tag index at startup
+  entryTags(): Array<[string, string[]]>;
+
+  getStats(): CacheTierStats;
+}
@@ -2,16 +2,46 @@
  * Configuration module for Limitless MCP server
  * Loads settings from environment variables with sensible defaults
  */
+import os from 'os';
+import path from 'path';
 import { LimitlessConfig } from './types';
 
-// Load and validate the API key
-const API_KEY = process.env.LIMITLESS_API_KEY;
-if (!API_KEY) {
+// Offline mode serves lifelogs from local fixtures through the mock API server
+const OFFLINE = process.argv.includes("--offline") || process.env.LIMITLESS_OFFLINE === "true";
+
+// HTTP mode serves MCP over Streamable HTTP and SSE instead of stdio
+const TRANSPORT = process.argv.includes("--http") || process.env.LIMITLESS_TRANSPORT === "http" ? "http" : "stdio";
+
+// Split a comma-separated list, dropping empty entries
+const parseList = (value: string | undefined): string[] =>
+  (value || "").split(",").map(item => item.trim()).filter(Boolean);
+
+// Auth tokens, each optionally mapped to its user's Limitless API key ("token:apiKey")
+const HTTP_TOKEN_ENTRIES = parseList(process.env.LIMITLESS_HTTP_AUTH_TOKENS).map(entry => {
+  const separator = entry.indexOf(":");
+  return separator === -1
+    ? { token: entry, apiKey: undefined }
+    : { token: entry.substring(0, separator), apiKey: entry.substring(separator + 1) };
+});
+
+// Whether every HTTP session brings its own API key through its bearer token
+const EVERY_TOKEN_HAS_KEY = TRANSPORT === "http" &&
+  HTTP_TOKEN_ENTRIES.length > 0 && HTTP_TOKEN_ENTRIES.every(entry => entry.apiKey);
+
+// Load and validate the API key (not needed offline, or when every token has its own key)
+const API_KEY = process.env.LIMITLESS_API_KEY || (OFFLINE ? "offline" : EVERY_TOKEN_HAS_KEY ? "" : undefined);
+if (API_KEY === undefined) {
   console.error("Error: LIMITLESS_API_KEY environment variable is not set");
-  console.error("Please set it to your Limitless API key");
+  console.error("Please set it to your Limitless API key, or start with --offline to use local fixtures");
   process.exit(1);
 }
 
+// Refuse HTTP sessions without their own API key instead of giving them API_KEY:
+// by default once a token is mapped to a key, and always without API_KEY
+const HTTP_REQUIRE_SESSION_KEY = !API_KEY || (process.env.LIMITLESS_HTTP_REQUIRE_SESSION_KEY
+  ? process.env.LIMITLESS_HTTP_REQUIRE_SESSION_KEY === "true"
+  : HTTP_TOKEN_ENTRIES.some(entry => entry.apiKey));
+
 // Create configuration object with defaults
 const config: LimitlessConfig = {
   // API configuration
@@ -19,16 +49,41 @@ const config: LimitlessConfig = {
   API_BASE_URL: process.env.LIMITLESS_API_BASE_URL || "https://api.limitless.ai/v1",
   API_TIMEOUT_MS: parseInt(process.env.LIMITLESS_API_TIMEOUT_MS || "120000", 10), // 2 minutes default
   API_MAX_RETRIES: parseInt(process.env.LIMITLESS_API_MAX_RETRIES || "3", 10), // Default to 3 retries
+  API_RETRY_BASE_DELAY_MS: parseInt(process.env.LIMITLESS_API_RETRY_BASE_DELAY_MS || "1000", 10), // First backoff ~1s, doubling
+  API_MAX_RETRY_DELAY_MS: parseInt(process.env.LIMITLESS_API_MAX_RETRY_DELAY_MS || "60000", 10), // Longer Retry-After waits fail right away
+  
+  // Client-side rate limiting, per API key
+  API_RATE_LIMIT: parseFloat(process.env.LIMITLESS_API_RATE_LIMIT || "3"), // Requests per second; 0 disables
+  API_RATE_BURST: parseInt(process.env.LIMITLESS_API_RATE_BURST || "10", 10), // Requests allowed back to back
+  API_MAX_CONCURRENCY: parseInt(process.env.LIMITLESS_API_MAX_CONCURRENCY || "5", 10), // Requests in flight; 0 = unlimited
+  
+  // Offline mode (API_BASE_URL is pointed at the mock API server at startup)
+  OFFLINE,
+  FIXTURES_DIR: process.env.LIMITLESS_FIXTURES_DIR || "", // Bundled fixtures when empty
   
   // Pagination and result limits
   MAX_LIFELOG_LIMIT: parseInt(process.env.LIMITLESS_MAX_LIFELOG_LIMIT || "100", 10), // Max 100 results per request
   DEFAULT_PAGE_SIZE: parseInt(process.env.LIMITLESS_DEFAULT_PAGE_SIZE || "10", 10), // Default page size
   MAX_SEARCH_MULTIPLIER: parseFloat(process.env.LIMITLESS_SEARCH_MULTIPLIER || "3"), // Default search results multiplier
+  MAX_RANGE_LIFELOGS: parseInt(process.env.LIMITLESS_MAX_RANGE_LIFELOGS || "1000", 10), // Most lifelogs a tool pages through for a range
   
   // Cache configuration
   CACHE_TTL: parseInt(process.env.LIMITLESS_CACHE_TTL || "300", 10), // 5 minutes default
   CACHE_CHECK_PERIOD: parseInt(process.env.LIMITLESS_CACHE_CHECK_PERIOD || "600", 10), // 10 minutes default
   CACHE_MAX_KEYS: parseInt(process.env.LIMITLESS_CACHE_MAX_KEYS || "500", 10), // Max 500 entries default
+  CACHE_MAX_BYTES: parseFloat(process.env.LIMITLESS_CACHE_MAX_MB || "64") * 1024 * 1024, // 64 MB of estimated entry size default
+  CACHE_STALE_TTL: parseInt(process.env.LIMITLESS_CACHE_STALE_TTL || "3600", 10), // Serve expired API responses for 1 hour more while revalidating (0 disables)
+  
+  // Persistent disk tier of the cache (under DATA_DIR/cache)
+  CACHE_DISK: process.env.LIMITLESS_CACHE_DISK === "true", // Disabled by default
+  CACHE_DISK_TTL: parseInt(process.env.LIMITLESS_CACHE_DISK_TTL || "86400", 10), // 1 day default for lifelogs and summaries
+  CACHE_DISK_MAX_BYTES: parseFloat(process.env.LIMITLESS_CACHE_DISK_MAX_MB || "100") * 1024 * 1024, // 100 MB default
+  CACHE_COMPRESS_THRESHOLD: parseInt(process.env.LIMITLESS_CACHE_COMPRESS_THRESHOLD || "8192", 10), // Gzip entries of 8 KB or more
+  
+  // Prefetch of recent days into the cache, e.g. "today,yesterday" (disabled when empty)
+  PREFETCH: parseList(process.env.LIMITLESS_PREFETCH), // today, yesterday, today-N or YYYY-MM-DD
+  PREFETCH_INTERVAL: parseInt(process.env.LIMITLESS_PREFETCH_INTERVAL || "1800", 10), // 30 minutes default
+  PREFETCH_TIMEZONE: process.env.LIMITLESS_PREFETCH_TIMEZONE || "", // Timezone of the days; the tools' default when empty
   
   // Cache TTL multipliers for different data types
   CACHE_TTL_MULTIPLIERS: {
@@ -36,9 +91,74 @@ const config: LimitlessConfig = {
     LISTINGS: parseFloat(process.env.CACHE_TTL_LISTINGS || "2"), // Listings cached 2x longer by default
     SEARCH: parseFloat(process.env.CACHE_TTL_SEARCH || "1.5"), // Search results cached 1.5x longer by default
     SUMMARIES: parseFloat(process.env.CACHE_TTL_SUMMARIES || "4") // Summaries cached 4x longer by default
-  }
+  },
+  
+  // Eviction weights for different data types (full lifelogs and other entries weigh 1)
+  CACHE_EVICTION_WEIGHTS: {
+    METADATA: parseFloat(process.env.CACHE_WEIGHT_METADATA || "2"), // Small and often reused
+    LISTINGS: parseFloat(process.env.CACHE_WEIGHT_LISTINGS || "1"), // Listings and search results
+    SUMMARIES: parseFloat(process.env.CACHE_WEIGHT_SUMMARIES || "4") // Summaries and topics are expensive to regenerate
+  },
+  
+  // Local storage (embeddings and other persistent indexes), kept apart in
+  // offline mode so fixture data never mixes with real data
+  DATA_DIR: process.env.LIMITLESS_DATA_DIR ||
+    path.join(os.homedir(), ".limitless-mcp", OFFLINE ? "offline" : ""),
+  
+  // Embedding configuration (semantic search)
+  EMBEDDING_PROVIDER: process.env.LIMITLESS_EMBEDDING_PROVIDER || "local", // "local" (offline) or "openai"
+  EMBEDDING_MODEL: process.env.LIMITLESS_EMBEDDING_MODEL || "", // Provider default when empty
+  EMBEDDING_DIMENSIONS: parseInt(process.env.LIMITLESS_EMBEDDING_DIMENSIONS || "0", 10), // 0 = provider default
+  EMBEDDING_API_URL: process.env.LIMITLESS_EMBEDDING_API_URL || "https://api.openai.com/v1",
+  EMBEDDING_API_KEY: process.env.LIMITLESS_EMBEDDING_API_KEY || process.env.OPENAI_API_KEY,
+  
+  // Background indexing of lifelogs into the semantic index
+  AUTO_INDEX: process.env.LIMITLESS_AUTO_INDEX === "true", // Disabled by default
+  AUTO_INDEX_START_DATE: process.env.LIMITLESS_AUTO_INDEX_START_DATE ||
+    new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().substring(0, 10), // Last 30 days by default
+  AUTO_INDEX_INTERVAL: parseInt(process.env.LIMITLESS_AUTO_INDEX_INTERVAL || "900", 10), // 15 minutes default
+  
+  // Local full-text search index
+  SEARCH_INDEX_SYNC: process.env.LIMITLESS_SEARCH_INDEX_SYNC === "true", // Disabled by default
+  SEARCH_INDEX_START_DATE: process.env.LIMITLESS_SEARCH_INDEX_START_DATE || "2020-01-01", // Whole history by default
+  SEARCH_INDEX_INTERVAL: parseInt(process.env.LIMITLESS_SEARCH_INDEX_INTERVAL || "900", 10), // 15 minutes default
+  
+  // Local mirror of all lifelogs
+  MIRROR_READS: process.env.LIMITLESS_MIRROR_READS !== "false", // Read from the mirror first by default
+  MIRROR_SYNC: process.env.LIMITLESS_MIRROR_SYNC === "true", // Background sync disabled by default
+  MIRROR_SYNC_START_DATE: process.env.LIMITLESS_MIRROR_SYNC_START_DATE || "2020-01-01", // Whole history by default
+  MIRROR_SYNC_INTERVAL: parseInt(process.env.LIMITLESS_MIRROR_SYNC_INTERVAL || "900", 10), // 15 minutes default
+  
+  // Polling for new lifelogs to notify resource subscribers (0 disables notifications)
+  RESOURCE_POLL_INTERVAL: parseInt(process.env.LIMITLESS_RESOURCE_POLL_INTERVAL || "60", 10), // 1 minute default
+  RESOURCE_POLL_MAX_BACKOFF: parseInt(process.env.LIMITLESS_RESOURCE_POLL_MAX_BACKOFF || "900", 10), // 15 minutes at most after failures
+  
+  // Transport ("stdio", or "http" with --http)
+  TRANSPORT,
+  HTTP_HOST: process.env.LIMITLESS_HTTP_HOST || "127.0.0.1", // Loopback only by default
+  HTTP_PORT: parseInt(process.env.LIMITLESS_HTTP_PORT || "3000", 10),
+  HTTP_AUTH_TOKENS: HTTP_TOKEN_ENTRIES.map(entry => entry.token), // Bearer tokens; no auth when empty
+  HTTP_TOKEN_API_KEYS: Object.fromEntries(HTTP_TOKEN_ENTRIES
+    .filter(entry => entry.apiKey)
+    .map(entry => [entry.token, entry.apiKey!])), // Tokens without a key use API_KEY, unless HTTP_REQUIRE_SESSION_KEY
+  HTTP_REQUIRE_SESSION_KEY,
+  HTTP_CORS_ORIGINS: parseList(process.env.LIMITLESS_HTTP_CORS_ORIGINS), // "*" allows any origin; none when empty
+  HTTP_SESSION_TIMEOUT: parseInt(process.env.LIMITLESS_HTTP_SESSION_TIMEOUT || "1800", 10) // 30 minutes idle default
 };
 
+// Background jobs read the server owner's lifelogs, so they need API_KEY
+const OWNER_JOBS = ([
+  ["LIMITLESS_PREFETCH", config.PREFETCH.length > 0],
+  ["LIMITLESS_AUTO_INDEX", config.AUTO_INDEX],
+  ["LIMITLESS_SEARCH_INDEX_SYNC", config.SEARCH_INDEX_SYNC],
+  ["LIMITLESS_MIRROR_SYNC", config.MIRROR_SYNC]
+] as const).filter(([, enabled]) => enabled).map(([name]) => name);
+if (!config.API_KEY && OWNER_JOBS.length > 0) {
+  console.error(`Error: LIMITLESS_API_KEY is needed by ${OWNER_JOBS.join(", ")}`);
+  console.error("Please set LIMITLESS_API_KEY to the server owner's Limitless API key, or disable them");
+  process.exit(1);
+}
+
 /**
  * Log configuration to stderr for debugging
  */
@@ -47,23 +167,47 @@ export function logConfig(): void {
 ======================================
 Limitless MCP Server Configuration
 ======================================
-API Base URL: ${config.API_BASE_URL}
+API Base URL: ${config.OFFLINE ? `mock API (fixtures: ${config.FIXTURES_DIR || 'bundled'})` : config.API_BASE_URL}
 API Timeout: ${config.API_TIMEOUT_MS}ms
 API Max Retries: ${config.API_MAX_RETRIES}
+API Rate Limit: ${config.API_RATE_LIMIT > 0 ? `${config.API_RATE_LIMIT} req/s (burst ${config.API_RATE_BURST})` : 'disabled'}, ${config.API_MAX_CONCURRENCY > 0 ? `${config.API_MAX_CONCURRENCY} concurrent` : 'unlimited concurrency'}
 
 Max Results: ${config.MAX_LIFELOG_LIMIT}
 Default Page Size: ${config.DEFAULT_PAGE_SIZE}
 Search Multiplier: ${config.MAX_SEARCH_MULTIPLIER}x
+Max Lifelogs per Range: ${config.MAX_RANGE_LIFELOGS}
 
 Cache TTL: ${config.CACHE_TTL}s
 Cache Check Period: ${config.CACHE_CHECK_PERIOD}s
 Cache Max Keys: ${config.CACHE_MAX_KEYS}
+Cache Max Memory: ${Math.round(config.CACHE_MAX_BYTES / 1024 / 1024)} MB
+Cache Stale-While-Revalidate: ${config.CACHE_STALE_TTL > 0 ? `${config.CACHE_STALE_TTL}s` : 'disabled'}
+Cache Prefetch: ${config.PREFETCH.length > 0 ? `${config.PREFETCH.join(', ')} every ${config.PREFETCH_INTERVAL}s` : 'disabled'}
+Disk Cache: ${config.CACHE_DISK ? `enabled (TTL ${config.CACHE_DISK_TTL}s, max ${Math.round(config.CACHE_DISK_MAX_BYTES / 1024 / 1024)} MB, compress from ${config.CACHE_COMPRESS_THRESHOLD} bytes)` : 'disabled'}
 
 Cache TTL Multipliers:
 - Metadata: ${config.CACHE_TTL_MULTIPLIERS.METADATA}x
 - Listings: ${config.CACHE_TTL_MULTIPLIERS.LISTINGS}x
 - Search: ${config.CACHE_TTL_MULTIPLIERS.SEARCH}x
 - Summaries: ${config.CACHE_TTL_MULTIPLIERS.SUMMARIES}x
+
+Cache Eviction Weights:
+- Metadata: ${config.CACHE_EVICTION_WEIGHTS.METADATA}
+- Listings: ${config.CACHE_EVICTION_WEIGHTS.LISTINGS}
+- Summaries: ${config.CACHE_EVICTION_WEIGHTS.SUMMARIES}
+
+Data Directory: ${config.DATA_DIR}
+Embedding Provider: ${config.EMBEDDING_PROVIDER}${config.EMBEDDING_MODEL ? ` (${config.EMBEDDING_MODEL})` : ''}
+Auto Index: ${config.AUTO_INDEX ? `enabled (from ${config.AUTO_INDEX_START_DATE}, every ${config.AUTO_INDEX_INTERVAL}s)` : 'disabled'}
+Mirror: reads ${config.MIRROR_READS ? 'enabled' : 'disabled'}, sync ${config.MIRROR_SYNC ? `every ${config.MIRROR_SYNC_INTERVAL}s from ${config.MIRROR_SYNC_START_DATE}` : 'manual'}
+Resource Notifications: ${config.RESOURCE_POLL_INTERVAL > 0 ? `poll every ${config.RESOURCE_POLL_INTERVAL}s (backoff up to ${config.RESOURCE_POLL_MAX_BACKOFF}s)` : 'disabled'}
+Search Index Sync: ${config.SEARCH_INDEX_SYNC ? `enabled (from ${config.SEARCH_INDEX_START_DATE}, every ${config.SEARCH_INDEX_INTERVAL}s)` : 'disabled'}
+
+Transport: ${config.TRANSPORT === "http" ? `http (${config.HTTP_HOST}:${config.HTTP_PORT})` : 'stdio'}${config.TRANSPORT === "http" ? `
+HTTP Auth: ${config.HTTP_AUTH_TOKENS.length > 0 ? `${config.HTTP_AUTH_TOKENS.length} bearer token(s), ${Object.keys(config.HTTP_TOKEN_API_KEYS).length} with their own API key` : 'disabled'}
+HTTP Sessions Without Own Key: ${config.HTTP_REQUIRE_SESSION_KEY ? 'refused' : 'use LIMITLESS_API_KEY'}
+HTTP CORS Origins: ${config.HTTP_CORS_ORIGINS.length > 0 ? config.HTTP_CORS_ORIGINS.join(', ') : 'none'}
+HTTP Session Timeout: ${config.HTTP_SESSION_TIMEOUT}s` : ''}
 ======================================
   `);
 }
@@ -0,0 +1,88 @@
+/**
+ * Offline embedding provider based on feature hashing
+ */
+import { EmbeddingProvider, EmbedOptions } from "./types";
+import { tokenize, hashString } from "../utils/text";
+
+// Relative weights of the different feature families
+const WORD_WEIGHT = 1.0;
+const BIGRAM_WEIGHT = 0.6;
+const CHAR_NGRAM_WEIGHT = 0.25;
+
+/**
+ * Embeds text without any network access by hashing stemmed words, word bigrams
+ * and character n-grams into a fixed number of buckets.
+ *
+ * Term counts are dampened with a sublinear (1 + log tf) weighting, and each
+ * feature is given a pseudo-random sign to reduce the bias from hash collisions.
+ * Texts that share vocabulary (including inflections and misspellings, thanks to
+ * the character n-grams) therefore end up with a high cosine similarity, while
+ * unrelated texts land close to zero.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  name = "local";
+  model: string;
+  dimensions: number;
+  similarityThreshold = 0.15;
+
+  constructor(dimensions: number = 512) {
+    this.dimensions = dimensions;
+    this.model = `hashing-ngram-v1-${dimensions}`;
+  }
+
+  async embed(texts: string[], options: EmbedOptions = {}): Promise<number[][]> {
+    const vectors = texts.map(text => this.embedOne(text));
+    options.onProgress?.(texts.length);
+    return vectors;
+  }
+
+  // Build the vector for a single text
+  private embedOne(text: string): number[] {
+    const features = new Map<string, { weight: number; count: number }>();
+    const add = (feature: string, weight: number) => {
+      const existing = features.get(feature);
+      if (existing) {
+        existing.count++;
+      } else {
+        features.set(feature, { weight, count: 1 });
+      }
+    };
+
+    const tokens = tokenize(text);
+
+    tokens.forEach((token, i) => {
+      add(`w:${token}`, WORD_WEIGHT);
+
+      if (i > 0) {
+        add(`b:${tokens[i - 1]} ${token}`, BIGRAM_WEIGHT);
+      }
+
+      // Character trigrams and 4-grams with word boundary markers
+      const padded = `<${token}>`;
+      for (let n = 3; n <= 4; n++) {
+        for (let j = 0; j + n <= padded.length; j++) {
+          add(`c:${padded.substring(j, j + n)}`, CHAR_NGRAM_WEIGHT);
+        }
+      }
+    });
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    features.forEach(({ weight, count }, feature) => {
+      const bucket = hashString(feature) % this.dimensions;
+      const sign = (hashString(feature, 0x9747b28c) & 1) === 0 ? 1 : -1;
+      vector[bucket] += sign * weight * (1 + Math.log(count));
+    });
+
+    return normalize(vector);
+  }
+}
+
+/**
+ * Scale a vector to unit length (zero vectors are returned unchanged)
+ */
+export function normalize(vector: number[]): number[] {
+  const magnitude = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0));
+  if (magnitude === 0) return vector;
+  return vector.map(val => val / magnitude);
+}
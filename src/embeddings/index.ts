@@ -0,0 +1,56 @@
+/**
+ * Embedding providers for semantic search
+ */
+import { LimitlessConfig } from "../types";
+import { EmbeddingProvider } from "./types";
+import { HashingEmbeddingProvider } from "./hashing.js";
+import { OpenAIEmbeddingProvider } from "./openai.js";
+
+export type { EmbeddingProvider, EmbedOptions } from "./types";
+export { HashingEmbeddingProvider, normalize } from "./hashing.js";
+export { OpenAIEmbeddingProvider } from "./openai.js";
+
+/**
+ * Create the embedding provider selected by the configuration.
+ * Falls back to the offline hashing provider for unknown values.
+ */
+export function createEmbeddingProvider(config: LimitlessConfig): EmbeddingProvider {
+  switch (config.EMBEDDING_PROVIDER) {
+    case "openai":
+      return new OpenAIEmbeddingProvider({
+        baseUrl: config.EMBEDDING_API_URL,
+        model: config.EMBEDDING_MODEL || "text-embedding-3-small",
+        apiKey: config.EMBEDDING_API_KEY,
+        dimensions: config.EMBEDDING_DIMENSIONS || undefined,
+        timeoutMs: config.API_TIMEOUT_MS
+      });
+
+    case "local":
+      return new HashingEmbeddingProvider(config.EMBEDDING_DIMENSIONS || 512);
+
+    default:
+      console.error(`Unknown embedding provider "${config.EMBEDDING_PROVIDER}", using local provider`);
+      return new HashingEmbeddingProvider(config.EMBEDDING_DIMENSIONS || 512);
+  }
+}
+
+/**
+ * Cosine similarity of two vectors
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error("Vectors must have the same length");
+  }
+
+  let dotProduct = 0;
+  let magA = 0;
+  let magB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    magA += a[i] * a[i];
+    magB += b[i] * b[i];
+  }
+
+  if (magA === 0 || magB === 0) return 0;
+  return dotProduct / Math.sqrt(magA * magB);
+}
@@ -0,0 +1,254 @@
+/**
+ * Background indexer that keeps a local index up to date with new lifelogs
+ * (used by the semantic index and the full-text search index)
+ */
+import fs from "fs/promises";
+import path from "path";
+import { Lifelog, LifelogResponse } from "../types";
+
+// Re-scan this far behind the high-water mark so recordings that were still
+// being processed during the previous run get picked up once they change
+const HIGH_WATER_MARK_OVERLAP_MS = 24 * 60 * 60 * 1000;
+
+export interface IndexerOptions {
+  // API client used to walk /lifelogs
+  callApi(path: string, qs?: Record<string, unknown>, useCache?: boolean): Promise<LifelogResponse>;
+
+  // Returns true when the lifelog is new or its content changed since it was indexed
+  needsIndexing(lifelog: Lifelog): boolean;
+
+  // Add or replace a lifelog in the index
+  indexLifelog(lifelog: Lifelog): Promise<void>;
+
+  // Where the indexer keeps its high-water mark between restarts
+  stateFile: string;
+
+  // Date (YYYY-MM-DD) of the oldest lifelogs to index
+  startDate: string;
+
+  // Delay between runs in milliseconds
+  intervalMs: number;
+
+  // Page size used when walking /lifelogs
+  pageSize: number;
+
+  log(message: string): void;
+}
+
+export interface IndexerStatus {
+  running: boolean;
+  startDate: string;
+  highWaterMark?: string;
+  // Start time of the last run that walked to the end of the history; every
+  // lifelog that started before it has been indexed
+  syncedUntil?: string;
+  lastRunStartedAt?: string;
+  lastRunFinishedAt?: string;
+  nextRunAt?: string;
+  // Counters for the current (or last) run
+  scanned: number;
+  indexed: number;
+  unchanged: number;
+  failed: number;
+  pages: number;
+  lastError?: string;
+}
+
+/**
+ * Periodically walks `/lifelogs` with cursor pagination, starting from the
+ * configured date (or the high-water mark of the previous run), and indexes
+ * every lifelog that is new or whose content changed.
+ */
+export class BackgroundIndexer {
+  private options: IndexerOptions;
+  private timer?: NodeJS.Timeout;
+  
+  // Whether runs are scheduled periodically (between start() and stop())
+  private active = false;
+  
+  // Set by stop() to end a run that is in progress
+  private abortRequested = false;
+  private status: IndexerStatus;
+
+  constructor(options: IndexerOptions) {
+    this.options = options;
+    this.status = {
+      running: false,
+      startDate: options.startDate,
+      scanned: 0,
+      indexed: 0,
+      unchanged: 0,
+      failed: 0,
+      pages: 0
+    };
+  }
+
+  /**
+   * Load the saved high-water mark and schedule the first run
+   */
+  async start(): Promise<void> {
+    this.active = true;
+    await this.loadState();
+    this.schedule(0);
+  }
+
+  /**
+   * Load the high-water mark saved by a previous run (for runOnce without start)
+   */
+  async loadState(): Promise<void> {
+    try {
+      const state = JSON.parse(await fs.readFile(this.options.stateFile, "utf8"));
+      this.status.highWaterMark = state.highWaterMark;
+      this.status.syncedUntil = state.syncedUntil;
+    } catch {
+      // First run
+    }
+  }
+
+  /**
+   * Forget the high-water mark so the next run walks from the start date again
+   */
+  async reset(): Promise<void> {
+    this.status.highWaterMark = undefined;
+    this.status.syncedUntil = undefined;
+    await fs.rm(this.options.stateFile, { force: true });
+  }
+
+  stop(): void {
+    this.active = false;
+    this.abortRequested = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.status.nextRunAt = undefined;
+  }
+
+  getStatus(): IndexerStatus {
+    return { ...this.status };
+  }
+
+  /**
+   * Run a single indexing pass. Does nothing if a pass is already running.
+   */
+  async runOnce(): Promise<void> {
+    if (this.status.running) return;
+    this.abortRequested = false;
+
+    Object.assign(this.status, {
+      running: true,
+      lastRunStartedAt: new Date().toISOString(),
+      scanned: 0,
+      indexed: 0,
+      unchanged: 0,
+      failed: 0,
+      pages: 0,
+      lastError: undefined
+    });
+
+    const start = this.getWalkStart();
+    let latestStart = this.status.highWaterMark;
+    // Start time (epoch ms) of the earliest lifelog that failed to index
+    let earliestFailure: number | undefined;
+    let cursor: string | undefined;
+
+    try {
+      do {
+        const response = await this.options.callApi("/lifelogs", {
+          start,
+          direction: "asc",
+          limit: this.options.pageSize,
+          includeMarkdown: true,
+          cursor
+        }, false);
+
+        const lifelogs = response.data.lifelogs || [];
+        cursor = response.meta?.lifelogs?.nextCursor;
+        this.status.pages++;
+
+        for (const lifelog of lifelogs) {
+          if (this.abortRequested) return;
+          this.status.scanned++;
+
+          if (lifelog.startTime &&
+              (!latestStart || new Date(lifelog.startTime).getTime() > new Date(latestStart).getTime())) {
+            latestStart = lifelog.startTime;
+          }
+
+          if (!this.options.needsIndexing(lifelog)) {
+            this.status.unchanged++;
+            continue;
+          }
+
+          try {
+            await this.options.indexLifelog(lifelog);
+            this.status.indexed++;
+          } catch (error) {
+            this.status.failed++;
+            this.status.lastError = `${lifelog.id}: ${error}`;
+            if (lifelog.startTime) {
+              const time = new Date(lifelog.startTime).getTime();
+              earliestFailure = Math.min(earliestFailure ?? time, time);
+            }
+          }
+        }
+      } while (cursor && !this.abortRequested);
+
+      if (this.abortRequested) return;
+
+      // Keep the mark just before the earliest failure so the next run retries it
+      this.status.highWaterMark = earliestFailure !== undefined
+        ? new Date(earliestFailure - 1).toISOString()
+        : latestStart;
+      // Only a run without failures has indexed everything up to its start
+      if (this.status.failed === 0) {
+        this.status.syncedUntil = this.status.lastRunStartedAt;
+      }
+      await this.saveState();
+    } catch (error) {
+      this.status.lastError = String(error);
+      this.options.log(`Indexing run failed: ${error}`);
+    } finally {
+      this.status.running = false;
+      this.status.lastRunFinishedAt = new Date().toISOString();
+      this.options.log(
+        `Indexing run finished: ${this.status.scanned} scanned, ${this.status.indexed} indexed, ` +
+        `${this.status.unchanged} unchanged, ${this.status.failed} failed`
+      );
+      this.schedule(this.options.intervalMs);
+    }
+  }
+
+  // Schedule the next run unless the indexer was stopped
+  private schedule(delayMs: number): void {
+    if (!this.active) return;
+
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => { this.runOnce(); }, delayMs);
+    this.timer.unref();
+    this.status.nextRunAt = new Date(Date.now() + delayMs).toISOString();
+  }
+
+  // Start of the walk: the configured date on the first run, otherwise the
+  // high-water mark minus a safety overlap
+  private getWalkStart(): string {
+    if (!this.status.highWaterMark) {
+      return this.options.startDate;
+    }
+
+    const from = new Date(new Date(this.status.highWaterMark).getTime() - HIGH_WATER_MARK_OVERLAP_MS);
+    const configured = new Date(this.options.startDate);
+    const effective = from > configured ? from : configured;
+
+    // The API accepts "YYYY-MM-DD HH:mm:SS"
+    return effective.toISOString().replace('T', ' ').substring(0, 19);
+  }
+
+  private async saveState(): Promise<void> {
+    await fs.mkdir(path.dirname(this.options.stateFile), { recursive: true });
+    await fs.writeFile(this.options.stateFile, JSON.stringify({
+      highWaterMark: this.status.highWaterMark,
+      syncedUntil: this.status.syncedUntil
+    }));
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Embedding provider for OpenAI-compatible /embeddings endpoints
+ */
+import { request } from "undici";
+import { McpError, ErrorCode } from "../utils/errors";
+import { throwIfCancelled } from "../utils/cancellation";
+import { EmbeddingProvider, EmbedOptions } from "./types";
+import { normalize } from "./hashing";
+
+// Maximum number of inputs sent in a single request
+const BATCH_SIZE = 96;
+
+export interface OpenAIEmbeddingOptions {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  dimensions?: number;
+  timeoutMs: number;
+}
+
+/**
+ * Calls any service that implements the OpenAI `POST /embeddings` API
+ * (OpenAI, Azure OpenAI proxies, Ollama, LM Studio, vLLM, ...)
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  name = "openai";
+  model: string;
+  dimensions: number;
+  similarityThreshold = 0.3;
+
+  private options: OpenAIEmbeddingOptions;
+
+  constructor(options: OpenAIEmbeddingOptions) {
+    this.options = options;
+    this.model = options.model;
+    // Unknown until the first response unless configured explicitly
+    this.dimensions = options.dimensions || 0;
+  }
+
+  async embed(texts: string[], options: EmbedOptions = {}): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+      const batch = texts.slice(i, i + BATCH_SIZE);
+      vectors.push(...await this.embedBatch(batch, options.signal));
+      options.onProgress?.(vectors.length);
+    }
+
+    return vectors;
+  }
+
+  // Send one batch to the endpoint
+  private async embedBatch(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    throwIfCancelled(signal);
+
+    const body: Record<string, unknown> = {
+      model: this.options.model,
+      input: texts
+    };
+
+    if (this.options.dimensions) {
+      body.dimensions = this.options.dimensions;
+    }
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.options.apiKey) {
+      headers["Authorization"] = `Bearer ${this.options.apiKey}`;
+    }
+
+    const url = `${this.options.baseUrl.replace(/\/+$/, '')}/embeddings`;
+
+    let response;
+    try {
+      response = await request(url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(body),
+        signal,
+        bodyTimeout: this.options.timeoutMs,
+        headersTimeout: this.options.timeoutMs
+      });
+    } catch (error) {
+      throwIfCancelled(signal);
+      throw new McpError(`Embedding request to ${url} failed: ${error}`, ErrorCode.API_ERROR);
+    }
+
+    if (response.statusCode < 200 || response.statusCode >= 300) {
+      const detail = await response.body.text().catch(() => "");
+      if (response.statusCode === 401 || response.statusCode === 403) {
+        throw new McpError(`Unauthorized access to embedding endpoint ${url}`, ErrorCode.UNAUTHORIZED);
+      }
+      if (response.statusCode === 429) {
+        throw new McpError(`Embedding endpoint rate limit exceeded`, ErrorCode.RATE_LIMITED);
+      }
+      throw new McpError(`Embedding endpoint error ${response.statusCode}: ${detail}`, ErrorCode.API_ERROR);
+    }
+
+    const json = await response.body.json() as {
+      data?: Array<{ embedding: number[]; index: number }>
+    };
+
+    if (!json.data || json.data.length !== texts.length) {
+      throw new McpError(`Embedding endpoint returned an unexpected response`, ErrorCode.API_ERROR);
+    }
+
+    const vectors = [...json.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => normalize(item.embedding));
+
+    this.dimensions = vectors[0]?.length || this.dimensions;
+
+    return vectors;
+  }
+}
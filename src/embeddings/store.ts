@@ -0,0 +1,434 @@
+/**
+ * Persistent on-disk store for lifelog embeddings
+ *
+ * Layout of the store directory:
+ * - `index.jsonl`: append-only log of `put`/`delete`/`clear` records describing
+ *   each lifelog's chunks (text, character offsets, model) and where their vectors live
+ * - `vectors.bin`: append-only Float32 (little endian) vector data
+ *
+ * - `exports/`: files written by `exportTo` and read by `importFrom`
+ *
+ * Replacing or deleting a lifelog only appends to the files; the space used by
+ * the old vectors is reclaimed by `compact()`.
+ */
+import fs from "fs/promises";
+import path from "path";
+
+// Version of the on-disk and export formats
+export const STORE_FORMAT_VERSION = 1;
+
+const INDEX_FILE = "index.jsonl";
+const VECTORS_FILE = "vectors.bin";
+const EXPORTS_DIR = "exports";
+const BYTES_PER_FLOAT = 4;
+
+// A single embedded chunk of a lifelog
+export interface EmbeddedChunk {
+  // Position of the chunk within the lifelog
+  index: number;
+
+  // Character offsets of the chunk within the lifelog markdown
+  start: number;
+  end: number;
+
+  text: string;
+  vector: number[];
+
+  // Speakers and start time of the transcript blocks covered by the chunk
+  speakers?: string[];
+  startTime?: string;
+}
+
+// All embeddings for one lifelog
+export interface EmbeddingEntry {
+  id: string;
+  title: string;
+  provider: string;
+  model: string;
+  dimensions: number;
+  timestamp: number;
+  // Start time of the lifelog
+  startTime?: string;
+  // Hash of the markdown the embeddings were created from, used to detect changes
+  contentHash?: string;
+  chunks: EmbeddedChunk[];
+}
+
+// Records written to index.jsonl
+type IndexRecord =
+  | {
+      op: "put";
+      id: string;
+      title: string;
+      provider: string;
+      model: string;
+      dimensions: number;
+      timestamp: number;
+      startTime?: string;
+      contentHash?: string;
+      // Vector position (in floats) inside vectors.bin of the first chunk;
+      // the chunks' vectors are stored consecutively
+      offset: number;
+      chunks: Array<Omit<EmbeddedChunk, "vector">>;
+    }
+  | { op: "delete"; id: string }
+  | { op: "clear" };
+
+// Called after an entry is added or replaced (entry set), deleted (entry undefined)
+// or after the whole store was cleared or reloaded (id null)
+export type VectorStoreListener = (id: string | null, entry?: EmbeddingEntry) => void;
+
+// Format used by export/import
+export interface EmbeddingExport {
+  formatVersion: number;
+  exportedAt: string;
+  entries: EmbeddingEntry[];
+}
+
+/**
+ * File-backed embedding store. All entries are kept in memory for searching
+ * and every change is appended to disk so the index survives restarts.
+ */
+export class VectorStore {
+  private dir: string;
+  private entries: Map<string, EmbeddingEntry> = new Map();
+
+  // Number of floats in vectors.bin, including superseded vectors
+  private totalFloats = 0;
+
+  // Serializes writes so appends never interleave
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  private listeners: VectorStoreListener[] = [];
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  get directory(): string {
+    return this.dir;
+  }
+
+  /**
+   * Register a listener that is notified of every change to the store
+   */
+  onChange(listener: VectorStoreListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Load the store from disk, creating the directory if needed
+   */
+  async load(): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    this.entries.clear();
+
+    const vectorData = await readFileIfExists(this.vectorsPath());
+    // Copy into a fresh buffer: Float32Array needs a 4-byte aligned offset
+    const floatCount = vectorData ? Math.floor(vectorData.byteLength / BYTES_PER_FLOAT) : 0;
+    const floats = new Float32Array(floatCount);
+    if (vectorData) {
+      new Uint8Array(floats.buffer).set(vectorData.subarray(0, floatCount * BYTES_PER_FLOAT));
+    }
+    this.totalFloats = floats.length;
+
+    const indexData = await readFileIfExists(this.indexPath());
+    if (!indexData) return;
+
+    const lines = indexData.toString("utf8").split("\n");
+    let skipped = 0;
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      let record: IndexRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        // A partially written last line after a crash
+        skipped++;
+        continue;
+      }
+
+      switch (record.op) {
+        case "put": {
+          const end = record.offset + record.chunks.length * record.dimensions;
+          if (end > floats.length) {
+            skipped++;
+            continue;
+          }
+
+          this.entries.set(record.id, {
+            id: record.id,
+            title: record.title,
+            provider: record.provider,
+            model: record.model,
+            dimensions: record.dimensions,
+            timestamp: record.timestamp,
+            startTime: record.startTime,
+            contentHash: record.contentHash,
+            chunks: record.chunks.map((chunk, i) => {
+              const start = record.offset + i * record.dimensions;
+              return { ...chunk, vector: Array.from(floats.subarray(start, start + record.dimensions)) };
+            })
+          });
+          break;
+        }
+        case "delete":
+          this.entries.delete(record.id);
+          break;
+        case "clear":
+          this.entries.clear();
+          break;
+      }
+    }
+
+    if (skipped > 0) {
+      console.error(`Vector store: skipped ${skipped} unreadable records in ${this.indexPath()}`);
+    }
+
+    this.notify(null);
+  }
+
+  get(id: string): EmbeddingEntry | undefined {
+    return this.entries.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  values(): EmbeddingEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Add or replace the embeddings of a lifelog
+   */
+  async put(entry: EmbeddingEntry): Promise<void> {
+    this.entries.set(entry.id, entry);
+    this.notify(entry.id, entry);
+
+    await this.enqueue(async () => {
+      const offset = this.totalFloats;
+      const floats = new Float32Array(entry.chunks.length * entry.dimensions);
+      entry.chunks.forEach((chunk, i) => floats.set(chunk.vector, i * entry.dimensions));
+
+      await fs.appendFile(this.vectorsPath(), Buffer.from(floats.buffer));
+      this.totalFloats += floats.length;
+
+      await this.appendRecord({
+        op: "put",
+        id: entry.id,
+        title: entry.title,
+        provider: entry.provider,
+        model: entry.model,
+        dimensions: entry.dimensions,
+        timestamp: entry.timestamp,
+        startTime: entry.startTime,
+        contentHash: entry.contentHash,
+        offset,
+        chunks: entry.chunks.map(({ vector, ...chunk }) => chunk)
+      });
+    });
+  }
+
+  /**
+   * Delete the embeddings of a lifelog
+   */
+  async delete(id: string): Promise<boolean> {
+    if (!this.entries.delete(id)) return false;
+    this.notify(id);
+    await this.enqueue(() => this.appendRecord({ op: "delete", id }));
+    return true;
+  }
+
+  /**
+   * Delete all embeddings
+   */
+  async clear(): Promise<number> {
+    const count = this.entries.size;
+    this.entries.clear();
+    this.notify(null);
+    await this.enqueue(() => this.appendRecord({ op: "clear" }));
+    return count;
+  }
+
+  /**
+   * Rewrite the store with only the live entries, reclaiming the space used by
+   * deleted or replaced embeddings
+   */
+  async compact(): Promise<{ bytesBefore: number; bytesAfter: number }> {
+    return this.enqueue(async () => {
+      const bytesBefore = await this.diskUsage();
+
+      const tmpIndex = `${this.indexPath()}.tmp`;
+      const tmpVectors = `${this.vectorsPath()}.tmp`;
+      const lines: string[] = [];
+      const buffers: Buffer[] = [];
+      let offset = 0;
+
+      for (const entry of this.entries.values()) {
+        const floats = new Float32Array(entry.chunks.length * entry.dimensions);
+        entry.chunks.forEach((chunk, i) => floats.set(chunk.vector, i * entry.dimensions));
+        buffers.push(Buffer.from(floats.buffer));
+
+        lines.push(JSON.stringify({
+          op: "put",
+          id: entry.id,
+          title: entry.title,
+          provider: entry.provider,
+          model: entry.model,
+          dimensions: entry.dimensions,
+          timestamp: entry.timestamp,
+          startTime: entry.startTime,
+          contentHash: entry.contentHash,
+          offset,
+          chunks: entry.chunks.map(({ vector, ...chunk }) => chunk)
+        } as IndexRecord));
+
+        offset += floats.length;
+      }
+
+      await fs.writeFile(tmpVectors, Buffer.concat(buffers));
+      await fs.writeFile(tmpIndex, lines.length ? lines.join("\n") + "\n" : "");
+      await fs.rename(tmpVectors, this.vectorsPath());
+      await fs.rename(tmpIndex, this.indexPath());
+      this.totalFloats = offset;
+
+      return { bytesBefore, bytesAfter: await this.diskUsage() };
+    });
+  }
+
+  /**
+   * Resolve the name of an export file within the exports directory.
+   * Absolute paths and names that lead outside the directory are rejected.
+   */
+  exportPath(name: string): string {
+    const dir = path.join(this.dir, EXPORTS_DIR);
+    const filePath = path.resolve(dir, name);
+    const relative = path.relative(dir, filePath);
+
+    if (path.isAbsolute(name) || !relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+      throw new Error(`Export files must be named relative to ${dir}: ${name}`);
+    }
+    return filePath;
+  }
+
+  /**
+   * Write all entries (including vectors) to a JSON file in the exports directory
+   */
+  async exportTo(name: string): Promise<number> {
+    const filePath = this.exportPath(name);
+    const data: EmbeddingExport = {
+      formatVersion: STORE_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      entries: this.values()
+    };
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(data));
+    return data.entries.length;
+  }
+
+  /**
+   * Load entries from a file in the exports directory written by `exportTo`.
+   * Entries for lifelogs that already exist are replaced when they are newer.
+   */
+  async importFrom(name: string): Promise<{ imported: number; skipped: number }> {
+    const filePath = this.exportPath(name);
+    const data = JSON.parse(await fs.readFile(filePath, "utf8")) as EmbeddingExport;
+
+    if (!data || !Array.isArray(data.entries)) {
+      throw new Error(`${filePath} is not an embeddings export`);
+    }
+    if (data.formatVersion > STORE_FORMAT_VERSION) {
+      throw new Error(`Unsupported embeddings export version ${data.formatVersion}`);
+    }
+
+    let imported = 0;
+    let skipped = 0;
+
+    for (const entry of data.entries) {
+      const existing = this.entries.get(entry.id);
+      if (existing && existing.timestamp >= entry.timestamp) {
+        skipped++;
+        continue;
+      }
+
+      await this.put(entry);
+      imported++;
+    }
+
+    return { imported, skipped };
+  }
+
+  /**
+   * Storage statistics
+   */
+  async stats(): Promise<{ entries: number; chunks: number; bytes: number; reclaimableBytes: number }> {
+    const chunks = this.values().reduce((sum, entry) => sum + entry.chunks.length, 0);
+    const liveFloats = this.values().reduce((sum, entry) => sum + entry.chunks.length * entry.dimensions, 0);
+
+    return {
+      entries: this.entries.size,
+      chunks,
+      bytes: await this.diskUsage(),
+      reclaimableBytes: (this.totalFloats - liveFloats) * BYTES_PER_FLOAT
+    };
+  }
+
+  private notify(id: string | null, entry?: EmbeddingEntry): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(id, entry);
+      } catch (error) {
+        console.error(`Vector store listener failed:`, error);
+      }
+    }
+  }
+
+  private indexPath(): string {
+    return path.join(this.dir, INDEX_FILE);
+  }
+
+  private vectorsPath(): string {
+    return path.join(this.dir, VECTORS_FILE);
+  }
+
+  private async appendRecord(record: IndexRecord): Promise<void> {
+    await fs.appendFile(this.indexPath(), JSON.stringify(record) + "\n");
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(task);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async diskUsage(): Promise<number> {
+    let bytes = 0;
+    for (const file of [this.indexPath(), this.vectorsPath()]) {
+      try {
+        bytes += (await fs.stat(file)).size;
+      } catch {
+        // File not created yet
+      }
+    }
+    return bytes;
+  }
+}
+
+// Read a file, returning undefined when it doesn't exist
+async function readFileIfExists(filePath: string): Promise<Buffer | undefined> {
+  try {
+    return await fs.readFile(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Type definitions for embedding providers
+ */
+
+// Interface that every embedding backend must implement
+export interface EmbeddingProvider {
+  // Short provider name (e.g. "local", "openai")
+  name: string;
+  
+  // Model identifier, recorded alongside stored vectors so stale ones can be detected
+  model: string;
+  
+  // Length of the vectors produced by this provider
+  dimensions: number;
+  
+  // Default cosine similarity below which results are considered unrelated
+  similarityThreshold: number;
+  
+  // Embed a batch of texts. Returned vectors are L2-normalized and in input order.
+  embed(texts: string[], options?: EmbedOptions): Promise<number[][]>;
+}
+
+export interface EmbedOptions {
+  // Stops embedding (including pending requests) when aborted
+  signal?: AbortSignal;
+  
+  // Called as texts are embedded, with the number embedded so far
+  onProgress?(embedded: number): void;
+}
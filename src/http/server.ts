@@ -0,0 +1,386 @@
+/**
+ * HTTP transport for the MCP server
+ *
+ * Serves MCP over Streamable HTTP (`/mcp`) and the legacy SSE transport
+ * (`GET /sse` plus `POST /messages`), with bearer-token authentication, CORS
+ * and idle session expiry. Each session gets its own MCP server instance; the
+ * cache, indexes and plugins behind them are shared by the whole process.
+ *
+ * A session uses the Limitless API key sent in `X-Limitless-API-Key` when it
+ * connects, or else the key mapped to its bearer token, or else the server's
+ * own key, unless `requireSessionKey` refuses such sessions. Its requests run
+ * with that key (see api/credentials.ts).
+ */
+import crypto from "crypto";
+import http from "http";
+import { AddressInfo } from "net";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { Credentials, runWithCredentials } from "../api/credentials.js";
+
+// Largest JSON-RPC request body accepted on /mcp
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const LOOPBACK_HOSTS = new Set(["127.0.0.1", "::1", "localhost"]);
+
+export interface HttpServerOptions {
+  // Creates the MCP server for a new session
+  createServer(): Promise<McpServer>;
+  host?: string;
+  // Port to listen on; 0 picks a free port
+  port?: number;
+  // Accepted bearer tokens; when empty, requests are not authenticated
+  authTokens?: string[];
+  // Limitless API keys of the users behind bearer tokens
+  tokenApiKeys?: Record<string, string>;
+  // Refuse sessions without their own API key instead of using the server's
+  requireSessionKey?: boolean;
+  // Origins allowed to make cross-origin requests; "*" allows any origin
+  corsOrigins?: string[];
+  // Sessions without a request for this long are closed; 0 disables expiry
+  sessionTimeoutMs?: number;
+  log?(message: string): void;
+}
+
+export interface HttpSession {
+  id: string;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  // Token the session was opened with; later requests must present the same one
+  token?: string;
+  // API credentials of the session's user; the server's own key when unset
+  credentials?: Credentials;
+  lastActivity: number;
+}
+
+export interface McpHttpServer {
+  // Base URL, e.g. http://127.0.0.1:3000
+  url: string;
+  // Open sessions by session ID
+  sessions: Map<string, HttpSession>;
+  close(): Promise<void>;
+}
+
+type AuthenticatedRequest = http.IncomingMessage & { auth?: AuthInfo };
+
+/**
+ * Start the HTTP server
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<McpHttpServer> {
+  const host = options.host || "127.0.0.1";
+  const authTokens = options.authTokens || [];
+  const corsOrigins = options.corsOrigins || [];
+  const tokenApiKeys = options.tokenApiKeys || {};
+  const log = options.log || ((message: string) => console.error(`HTTP: ${message}`));
+  const loopback = LOOPBACK_HOSTS.has(host);
+
+  // Without tokens, anyone who can reach the port can read the lifelogs
+  if (!loopback && authTokens.length === 0) {
+    throw new Error(`Refusing to listen on ${host} without auth tokens; set LIMITLESS_HTTP_AUTH_TOKENS or use a loopback host`);
+  }
+
+  const sessions = new Map<string, HttpSession>();
+
+  const closeSession = async (session: HttpSession, reason: string) => {
+    if (!sessions.has(session.id)) return;
+    log(`Closing session ${session.id} (${reason})`);
+    // Closing the transport removes the session through its onclose handler
+    await session.transport.close();
+  };
+
+  // Look up a session and check that it belongs to the caller
+  const findSession = (req: AuthenticatedRequest, id: string | undefined): HttpSession | undefined => {
+    const session = id ? sessions.get(id) : undefined;
+    if (!session || session.token !== req.auth?.token) return undefined;
+    session.lastActivity = Date.now();
+    return session;
+  };
+
+  // Answer 403 when a new session would fall back to the server's own key it may not use
+  const refuseWithoutKey = (req: AuthenticatedRequest, res: http.ServerResponse): boolean => {
+    if (!options.requireSessionKey || sessionCredentials(req)) return false;
+    sendJsonRpcError(res, 403, -32000, "Forbidden: send your Limitless API key in X-Limitless-API-Key or use a token mapped to one");
+    return true;
+  };
+
+  const openSession = (transport: HttpSession["transport"], id: string, req: AuthenticatedRequest) => {
+    const credentials = sessionCredentials(req);
+    sessions.set(id, { id, transport, token: req.auth?.token, credentials, lastActivity: Date.now() });
+    log(`Session ${id} opened${req.auth ? ` by ${req.auth.clientId}` : ""}${credentials ? " with its own API key" : ""}`);
+  };
+
+  // The API key a new session connects with
+  const sessionCredentials = (req: AuthenticatedRequest): Credentials | undefined => {
+    const apiKey = headerValue(req.headers["x-limitless-api-key"]) ||
+      (req.auth ? tokenApiKeys[req.auth.token] : undefined);
+    return apiKey ? { apiKey } : undefined;
+  };
+
+  // Connect a transport to a new MCP server; its session is dropped when the transport closes
+  const connect = async (transport: HttpSession["transport"]) => {
+    transport.onclose = () => {
+      const id = transport.sessionId;
+      if (id && sessions.get(id)?.transport === transport) {
+        sessions.delete(id);
+        log(`Session ${id} closed`);
+      }
+    };
+    const server = await options.createServer();
+    await server.connect(transport);
+  };
+
+  // Streamable HTTP: POST carries requests, GET opens the notification stream, DELETE ends the session
+  const handleMcp = async (req: AuthenticatedRequest, res: http.ServerResponse) => {
+    const sessionId = headerValue(req.headers["mcp-session-id"]);
+
+    if (req.method === "POST") {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        sendJsonRpcError(res, 400, -32700, `Parse error: ${error instanceof Error ? error.message : error}`);
+        return;
+      }
+
+      if (sessionId) {
+        const session = findSession(req, sessionId);
+        if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+          sendJsonRpcError(res, 404, -32001, "Session not found");
+          return;
+        }
+        const transport = session.transport;
+        await runWithCredentials(session.credentials, () => transport.handleRequest(req, res, body));
+        return;
+      }
+
+      if (!isInitializeRequest(body)) {
+        sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided");
+        return;
+      }
+      if (refuseWithoutKey(req, res)) return;
+
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => crypto.randomUUID(),
+        onsessioninitialized: id => openSession(transport, id, req)
+      });
+      await connect(transport);
+      await runWithCredentials(sessionCredentials(req), () => transport.handleRequest(req, res, body));
+      return;
+    }
+
+    if (req.method === "GET" || req.method === "DELETE") {
+      const session = findSession(req, sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, sessionId ? 404 : 400, -32001, sessionId ? "Session not found" : "Bad Request: No valid session ID provided");
+        return;
+      }
+      const transport = session.transport;
+      await runWithCredentials(session.credentials, () => transport.handleRequest(req, res));
+      return;
+    }
+
+    res.writeHead(405, { Allow: "GET, POST, DELETE" }).end();
+  };
+
+  // Legacy SSE: GET opens the event stream, POST /messages?sessionId= carries requests
+  const handleSse = async (req: AuthenticatedRequest, res: http.ServerResponse) => {
+    if (req.method !== "GET") {
+      res.writeHead(405, { Allow: "GET" }).end();
+      return;
+    }
+
+    if (refuseWithoutKey(req, res)) return;
+
+    const transport = new SSEServerTransport("/messages", res);
+    openSession(transport, transport.sessionId, req);
+    await connect(transport);
+  };
+
+  const handleMessages = async (req: AuthenticatedRequest, res: http.ServerResponse, url: URL) => {
+    if (req.method !== "POST") {
+      res.writeHead(405, { Allow: "POST" }).end();
+      return;
+    }
+
+    const session = findSession(req, url.searchParams.get("sessionId") || undefined);
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, -32001, "Session not found");
+      return;
+    }
+    const transport = session.transport;
+    await runWithCredentials(session.credentials, () => transport.handlePostMessage(req, res));
+  };
+
+  const server = http.createServer(async (req: AuthenticatedRequest, res) => {
+    const url = new URL(req.url || "/", "http://localhost");
+
+    try {
+      // A loopback server must not answer to other host names (DNS rebinding)
+      if (loopback && !isLoopbackHostHeader(req.headers.host)) {
+        sendJsonRpcError(res, 403, -32000, "Forbidden: invalid Host header");
+        return;
+      }
+
+      applyCors(req, res, corsOrigins);
+      if (req.method === "OPTIONS") {
+        res.writeHead(204).end();
+        return;
+      }
+
+      if (url.pathname === "/health") {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ status: "ok", sessions: sessions.size }));
+        return;
+      }
+
+      if (authTokens.length > 0) {
+        const auth = authenticate(req, authTokens);
+        if (!auth) {
+          res.writeHead(401, {
+            "Content-Type": "application/json",
+            "WWW-Authenticate": `Bearer realm="limitless-mcp"${req.headers.authorization ? ', error="invalid_token"' : ""}`
+          });
+          res.end(JSON.stringify({ error: "Missing or invalid bearer token" }));
+          return;
+        }
+        req.auth = auth;
+      }
+
+      switch (url.pathname) {
+        case "/mcp":
+          await handleMcp(req, res);
+          break;
+        case "/sse":
+          await handleSse(req, res);
+          break;
+        case "/messages":
+          await handleMessages(req, res, url);
+          break;
+        default:
+          res.writeHead(404, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ error: `Not found: ${url.pathname}` }));
+      }
+    } catch (error) {
+      log(`Error handling ${req.method} ${url.pathname}: ${error instanceof Error ? error.message : error}`);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, "Internal server error");
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, host, () => resolve());
+  });
+
+  // Close idle sessions
+  const sessionTimeoutMs = options.sessionTimeoutMs ?? 0;
+  let sweeper: NodeJS.Timeout | undefined;
+  if (sessionTimeoutMs > 0) {
+    sweeper = setInterval(() => {
+      const cutoff = Date.now() - sessionTimeoutMs;
+      for (const session of sessions.values()) {
+        if (session.lastActivity < cutoff) {
+          closeSession(session, "idle").catch(error => log(`Failed to close session ${session.id}: ${error}`));
+        }
+      }
+    }, Math.min(sessionTimeoutMs, 60000));
+    sweeper.unref();
+  }
+
+  const address = server.address() as AddressInfo;
+  const urlHost = address.family === "IPv6" ? `[${address.address}]` : address.address;
+  const url = `http://${urlHost}:${address.port}`;
+  log(`Listening on ${url} (Streamable HTTP at /mcp, SSE at /sse)${authTokens.length > 0 ? ", bearer auth enabled" : ""}`);
+
+  return {
+    url,
+    sessions,
+    async close() {
+      if (sweeper) clearInterval(sweeper);
+      await Promise.all(Array.from(sessions.values()).map(session => closeSession(session, "shutdown")));
+      await new Promise<void>((resolve, reject) => {
+        server.close(error => error ? reject(error) : resolve());
+        server.closeAllConnections();
+      });
+    }
+  };
+}
+
+// Match the bearer token against the configured tokens in constant time
+function authenticate(req: http.IncomingMessage, tokens: string[]): AuthInfo | undefined {
+  const match = (req.headers.authorization || "").match(/^Bearer\s+(\S+)$/i);
+  if (!match) return undefined;
+
+  // Compare digests so that the comparison doesn't depend on the token length
+  const digest = (value: string) => crypto.createHash("sha256").update(value).digest();
+  const presented = digest(match[1]);
+
+  let index = -1;
+  tokens.forEach((token, i) => {
+    if (crypto.timingSafeEqual(presented, digest(token)) && index === -1) index = i;
+  });
+
+  if (index === -1) return undefined;
+  return { token: match[1], clientId: `token-${index + 1}`, scopes: [] };
+}
+
+function applyCors(req: http.IncomingMessage, res: http.ServerResponse, origins: string[]): void {
+  const origin = req.headers.origin;
+  if (!origin || (!origins.includes("*") && !origins.includes(origin))) return;
+
+  res.setHeader("Access-Control-Allow-Origin", origins.includes("*") ? "*" : origin);
+  res.setHeader("Vary", "Origin");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization, Mcp-Session-Id, Last-Event-ID, MCP-Protocol-Version, X-Limitless-API-Key");
+  res.setHeader("Access-Control-Expose-Headers", "Mcp-Session-Id");
+  res.setHeader("Access-Control-Max-Age", "86400");
+}
+
+function isLoopbackHostHeader(hostHeader: string | undefined): boolean {
+  if (!hostHeader) return false;
+  try {
+    const hostname = new URL(`http://${hostHeader}`).hostname.replace(/^\[|\]$/g, "");
+    return LOOPBACK_HOSTS.has(hostname);
+  } catch {
+    return false;
+  }
+}
+
+function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
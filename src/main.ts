@@ -7,8 +7,12 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import config, { logConfig } from "./config.js";
-import { initializePlugins } from "./plugins/index.js";
-import { registerAllTools, registerResources } from "./tools/index.js";
+import { createServer } from "./server.js";
+import { startMockApiServer, MockApiServer } from "./mock/server.js";
+import { startHttpServer, McpHttpServer } from "./http/server.js";
+import { shutdownPlugins } from "./plugins/index.js";
+import { createPrefetcher } from "./cache/prefetch.js";
+import { DEFAULT_TIMEZONE } from "./tools/time-tools.js";
 
 /**
  * Main function that runs the MCP server
@@ -17,40 +21,54 @@ async function main() {
   // Log configuration
   logConfig();
 
-  // ──────────────────────────────────────────────────────────────────────────────
-  // 1. Spin up the server object
-  // ──────────────────────────────────────────────────────────────────────────────
-  const server = new McpServer({
-    name: "limitless",
-    version: "0.5.0"
-  });
+  // In offline mode, serve the API from local fixtures
+  let mockApi: MockApiServer | undefined;
+  if (config.OFFLINE) {
+    mockApi = await startMockApiServer({ fixturesDir: config.FIXTURES_DIR || undefined });
+    config.API_BASE_URL = mockApi.url;
+    console.error(`Offline mode: using mock Limitless API at ${mockApi.url}`);
+  }
 
   // ──────────────────────────────────────────────────────────────────────────────
-  // 2. Register resources
+  // Start the server
   // ──────────────────────────────────────────────────────────────────────────────
-  registerResources(server);
+  console.error("Starting Limitless MCP server...");
 
-  // ──────────────────────────────────────────────────────────────────────────────
-  // 3. Register all tools
-  // ──────────────────────────────────────────────────────────────────────────────
-  registerAllTools(server);
+  let server: McpServer | undefined;
+  let httpServer: McpHttpServer | undefined;
 
-  // ──────────────────────────────────────────────────────────────────────────────
-  // 4. Initialize plugins
-  // ──────────────────────────────────────────────────────────────────────────────
-  await initializePlugins(server);
+  if (config.TRANSPORT === "http") {
+    // One MCP server per session, all sharing this process's cache and indexes
+    httpServer = await startHttpServer({
+      createServer,
+      host: config.HTTP_HOST,
+      port: config.HTTP_PORT,
+      authTokens: config.HTTP_AUTH_TOKENS,
+      tokenApiKeys: config.HTTP_TOKEN_API_KEYS,
+      requireSessionKey: config.HTTP_REQUIRE_SESSION_KEY,
+      corsOrigins: config.HTTP_CORS_ORIGINS,
+      sessionTimeoutMs: config.HTTP_SESSION_TIMEOUT * 1000
+    });
+  } else {
+    server = await createServer();
+    const transport = new StdioServerTransport();
+    await server.connect(transport);
+  }
 
-  // ──────────────────────────────────────────────────────────────────────────────
-  // 5. Start the server
-  // ──────────────────────────────────────────────────────────────────────────────
-  console.error("Starting Limitless MCP server...");
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  // Warm the cache with recent days, with the server's API key
+  const prefetcher = createPrefetcher(DEFAULT_TIMEZONE);
+  if (config.PREFETCH.length > 0) {
+    prefetcher.start();
+  }
 
   // Handle shutdown
   const shutdown = async () => {
     console.error("Shutting down Limitless MCP server...");
-    await server.close();
+    prefetcher.stop();
+    await server?.close();
+    await httpServer?.close();
+    await shutdownPlugins();
+    await mockApi?.close();
     process.exit(0);
   };
 
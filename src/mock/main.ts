@@ -0,0 +1,44 @@
+#!/usr/bin/env node
+
+/**
+ * Standalone mock Limitless API server
+ *
+ * Usage: node dist/mock/main.js [--port 8787] [--host 127.0.0.1] [--fixtures <dir>] [--api-key <key>] [--rate-limit <requests per second>]
+ */
+import { startMockApiServer } from "./server.js";
+
+// Read the value of a `--name value` or `--name=value` command line option
+function getOption(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) return args[i + 1];
+    if (args[i].startsWith(`--${name}=`)) return args[i].substring(name.length + 3);
+  }
+  return undefined;
+}
+
+async function main() {
+  const server = await startMockApiServer({
+    port: parseInt(getOption("port") || process.env.LIMITLESS_MOCK_PORT || "8787", 10),
+    host: getOption("host"),
+    fixturesDir: getOption("fixtures") || process.env.LIMITLESS_FIXTURES_DIR,
+    apiKey: getOption("api-key"),
+    rateLimit: getOption("rate-limit") ? parseFloat(getOption("rate-limit")!) : undefined
+  });
+
+  console.error(`Mock Limitless API listening on ${server.url}`);
+  console.error(`Point the MCP server at it with LIMITLESS_API_BASE_URL=${server.url}`);
+
+  const shutdown = async () => {
+    await server.close();
+    process.exit(0);
+  };
+
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch(err => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
@@ -0,0 +1,273 @@
+/**
+ * Mock Limitless API server backed by fixture files
+ *
+ * Serves `GET /v1/lifelogs` and `GET /v1/lifelogs/:id` from a directory of
+ * JSON fixtures, with the API's date, timezone, direction and cursor
+ * semantics, so the server can be developed and tested without network access.
+ * Responses carry an ETag, and conditional requests are answered with 304.
+ */
+import crypto from "crypto";
+import fs from "fs/promises";
+import http from "http";
+import path from "path";
+import { fileURLToPath } from "url";
+import { AddressInfo } from "net";
+import { Lifelog, LifelogResponse } from "../types";
+import { listLifelogs, ListingParams, shapeLifelog } from "../api/listing.js";
+
+// Fixtures shipped with the package (`fixtures/lifelogs` at the package root)
+export const DEFAULT_FIXTURES_DIR = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)), "..", "..", "fixtures", "lifelogs"
+);
+
+const API_PREFIX = "/v1";
+
+export interface MockApiServerOptions {
+  // Directory of fixture files (see loadFixtures)
+  fixturesDir?: string;
+  // Port to listen on; 0 picks a free port
+  port?: number;
+  host?: string;
+  // When set, requests must send this key (or one of these keys) in X-API-Key;
+  // otherwise any key is accepted
+  apiKey?: string | string[];
+  // Requests per second allowed for each API key; beyond it requests are
+  // answered with 429 and a Retry-After header. Unlimited when unset.
+  rateLimit?: number;
+  log?(message: string): void;
+}
+
+export interface MockApiServer {
+  // Base URL including the API version, e.g. http://127.0.0.1:8787/v1
+  url: string;
+  lifelogs: Lifelog[];
+  // Paths (with query strings) of the requests received so far
+  requests: string[];
+  // Requests per second per API key (see MockApiServerOptions); can be changed while running
+  rateLimit?: number;
+  close(): Promise<void>;
+}
+
+/**
+ * Read every `.json` file in a directory (recursively). A file may contain a
+ * single lifelog, an array of lifelogs, or a saved API response.
+ */
+export async function loadFixtures(dir: string): Promise<Lifelog[]> {
+  const lifelogs = new Map<string, Lifelog>();
+
+  const visit = async (current: string) => {
+    const entries = await fs.readdir(current, { withFileTypes: true });
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const fullPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        await visit(fullPath);
+        continue;
+      }
+      if (!entry.name.endsWith(".json")) continue;
+
+      let data: unknown;
+      try {
+        data = JSON.parse(await fs.readFile(fullPath, "utf8"));
+      } catch (error) {
+        throw new Error(`Invalid fixture ${fullPath}: ${error instanceof Error ? error.message : error}`);
+      }
+
+      for (const lifelog of extractLifelogs(data, fullPath)) {
+        lifelogs.set(lifelog.id, lifelog);
+      }
+    }
+  };
+
+  await visit(dir);
+  return Array.from(lifelogs.values());
+}
+
+/**
+ * Start the mock API server
+ */
+export async function startMockApiServer(options: MockApiServerOptions = {}): Promise<MockApiServer> {
+  const fixturesDir = options.fixturesDir || DEFAULT_FIXTURES_DIR;
+  const log = options.log || ((message: string) => console.error(`Mock API: ${message}`));
+  const lifelogs = await loadFixtures(fixturesDir);
+  const requests: string[] = [];
+  // Requests of the current one-second window, by API key
+  const windows = new Map<string, { start: number; count: number }>();
+
+  const server = http.createServer((req, res) => {
+    requests.push(req.url || "/");
+    try {
+      if (!isRateLimited(req, res, mock.rateLimit, windows)) {
+        handleRequest(req, res, lifelogs, options.apiKey);
+      }
+    } catch (error) {
+      sendJson(res, 500, { error: error instanceof Error ? error.message : String(error) });
+    }
+    log(`${req.method} ${req.url} -> ${res.statusCode}`);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, options.host || "127.0.0.1", () => resolve());
+  });
+
+  const address = server.address() as AddressInfo;
+  const host = address.family === "IPv6" ? `[${address.address}]` : address.address;
+  log(`Serving ${lifelogs.length} lifelogs from ${fixturesDir}`);
+
+  const mock: MockApiServer = {
+    url: `http://${host}:${address.port}${API_PREFIX}`,
+    lifelogs,
+    requests,
+    rateLimit: options.rateLimit,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.close(error => error ? reject(error) : resolve());
+      server.closeAllConnections();
+    })
+  };
+  return mock;
+}
+
+// Answer 429 once an API key has used up its requests for the current second
+function isRateLimited(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  rateLimit: number | undefined,
+  windows: Map<string, { start: number; count: number }>
+): boolean {
+  if (!rateLimit) return false;
+
+  const key = String(req.headers["x-api-key"] ?? "");
+  const now = Date.now();
+  let window = windows.get(key);
+  if (!window || now - window.start >= 1000) {
+    window = { start: now, count: 0 };
+    windows.set(key, window);
+  }
+
+  window.count++;
+  if (window.count <= rateLimit) return false;
+
+  res.setHeader("Retry-After", String(Math.ceil((window.start + 1000 - now) / 1000)));
+  sendJson(res, 429, { error: "Rate limit exceeded" });
+  return true;
+}
+
+function handleRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  lifelogs: Lifelog[],
+  apiKey?: string | string[]
+): void {
+  const url = new URL(req.url || "/", "http://localhost");
+
+  if (req.method !== "GET") {
+    sendJson(res, 405, { error: `Method ${req.method} not allowed` });
+    return;
+  }
+
+  const key = req.headers["x-api-key"];
+  const validKeys = typeof apiKey === "string" ? [apiKey] : apiKey;
+  if (typeof key !== "string" || (validKeys && !validKeys.includes(key))) {
+    sendJson(res, 401, { error: "Invalid or missing API key" });
+    return;
+  }
+
+  const params = url.searchParams;
+  const includeMarkdown = params.get("includeMarkdown") !== "false";
+  const includeHeadings = params.get("includeHeadings") !== "false";
+  const shape = (lifelog: Lifelog) => shapeLifelog(lifelog, { includeMarkdown, includeHeadings });
+
+  if (url.pathname === `${API_PREFIX}/lifelogs`) {
+    const listing: ListingParams = {
+      date: params.get("date") || undefined,
+      timezone: params.get("timezone") || undefined,
+      start: params.get("start") || undefined,
+      end: params.get("end") || undefined,
+      direction: (params.get("direction") as ListingParams["direction"]) || undefined,
+      limit: params.has("limit") ? parseInt(params.get("limit")!, 10) : undefined,
+      cursor: params.get("cursor") || undefined
+    };
+
+    if (listing.direction && listing.direction !== "asc" && listing.direction !== "desc") {
+      sendJson(res, 400, { error: `Invalid direction: ${listing.direction}` });
+      return;
+    }
+
+    let page;
+    try {
+      page = listLifelogs(lifelogs, listing);
+    } catch (error) {
+      // Invalid dates, timezones and cursors
+      sendJson(res, 400, { error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    const body: LifelogResponse = {
+      data: { lifelogs: page.items.map(shape) },
+      meta: { lifelogs: { nextCursor: page.nextCursor, count: page.count } }
+    };
+    sendCacheable(req, res, body);
+    return;
+  }
+
+  const detail = url.pathname.match(new RegExp(`^${API_PREFIX}/lifelogs/([^/]+)$`));
+  if (detail) {
+    const id = decodeURIComponent(detail[1]);
+    const lifelog = lifelogs.find(l => l.id === id);
+    if (!lifelog) {
+      sendJson(res, 404, { error: `Lifelog ${id} not found` });
+      return;
+    }
+
+    sendCacheable(req, res, { data: { lifelog: shape(lifelog) } });
+    return;
+  }
+
+  sendJson(res, 404, { error: `Not found: ${url.pathname}` });
+}
+
+// The lifelogs of a parsed fixture file: a lifelog, an array of lifelogs or a saved API response
+function extractLifelogs(data: unknown, file: string): Lifelog[] {
+  let items: unknown[] = [];
+  if (Array.isArray(data)) {
+    items = data;
+  } else if (isRecord(data) && isRecord(data.data)) {
+    const { lifelogs, lifelog } = data.data;
+    if (Array.isArray(lifelogs)) items = lifelogs;
+    else if (lifelog !== undefined) items = [lifelog];
+  } else if (isRecord(data)) {
+    items = [data];
+  }
+
+  if (items.length === 0) {
+    throw new Error(`Invalid fixture ${file}: it contains no lifelogs`);
+  }
+  return items.map(item => {
+    if (!isRecord(item) || typeof item.id !== "string") {
+      throw new Error(`Invalid fixture ${file}: every lifelog needs a string "id"`);
+    }
+    return item as unknown as Lifelog;
+  });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Answer 200 with an ETag, or 304 when the request's If-None-Match matches it
+function sendCacheable(req: http.IncomingMessage, res: http.ServerResponse, body: unknown): void {
+  const json = JSON.stringify(body);
+  const etag = `"${crypto.createHash("sha1").update(json).digest("hex")}"`;
+  if (req.headers["if-none-match"] === etag) {
+    res.writeHead(304, { ETag: etag });
+    res.end();
+    return;
+  }
+  res.writeHead(200, { "Content-Type": "application/json", ETag: etag });
+  res.end(json);
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
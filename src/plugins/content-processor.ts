@@ -1,6 +1,7 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { LimitlessPlugin } from "./types";
+import { LimitlessPlugin, PluginContext } from "./types";
+import { toolError, toolResult } from "../tools/schemas.js";
 
 /**
  * A plugin that provides content processing capabilities
@@ -10,37 +11,42 @@ export class ContentProcessorPlugin implements LimitlessPlugin {
   description = "Processes and transforms lifelog content with various filters";
   version = "1.0.0";
   
-  private server?: McpServer;
   private config: Record<string, any> = {};
+  private context?: PluginContext;
   
-  async initialize(server: McpServer, config: Record<string, any>): Promise<void> {
-    this.server = server;
+  async initialize(config: Record<string, any>, context: PluginContext): Promise<void> {
     this.config = config;
-    
+    this.context = context;
+  }
+  
+  registerTools(server: McpServer): void {
     // Register tool for text processing
-    server.tool(
+    server.registerTool(
       "process_content",
       {
-        id: z.string().describe("The ID of the lifelog to process"),
-        operations: z.array(z.object({
-          type: z.enum(["filter", "replace", "extract", "transform"]),
-          params: z.record(z.any())
-        })).describe("List of operations to perform on the content"),
-        format: z.enum(["markdown", "text", "json"]).default("markdown").describe("Output format")
+        inputSchema: {
+          id: z.string().describe("The ID of the lifelog to process"),
+          operations: z.array(z.object({
+            type: z.enum(["filter", "replace", "extract", "transform"]),
+            params: z.record(z.any())
+          })).describe("List of operations to perform on the content"),
+          format: z.enum(["markdown", "text", "json"]).default("markdown").describe("Output format")
+        },
+        outputSchema: {
+          id: z.string(),
+          title: z.string(),
+          format: z.enum(["markdown", "text", "json"]),
+          content: z.string().describe("Processed content in the requested format")
+        }
       },
       async ({ id, operations, format }) => {
         try {
           // Get lifelog content
-          const response = await this.callLimitlessAPI(`/lifelogs/${id}`);
+          const response = await this.context.callLimitlessApi(`/lifelogs/${id}`);
           const lifelog = response.data.lifelog;
           
           if (!lifelog || !lifelog.markdown) {
-            return {
-              content: [{
-                type: "text",
-                text: `No content found for lifelog with ID: ${id}`
-              }]
-            };
+            return toolError(`No content found for lifelog with ID: ${id}`);
           }
           
           // Apply all specified operations in sequence
@@ -76,44 +82,44 @@ export class ContentProcessorPlugin implements LimitlessPlugin {
               break;
           }
           
-          return {
-            content: [{
-              type: "text",
-              text: formattedResult
-            }]
-          };
+          return toolResult(formattedResult, {
+            id: lifelog.id,
+            title: lifelog.title,
+            format,
+            content: formattedResult
+          });
           
         } catch (error) {
-          console.error(`Error processing content for lifelog ${id}:`, error);
-          return {
-            content: [{
-              type: "text", 
-              text: `Error processing lifelog content: ${error}`
-            }]
-          };
+          this.context.logger.error(`Error processing content for lifelog ${id}:`, error);
+          return toolError(`Error processing lifelog content: ${error}`);
         }
       }
     );
     
     // Register tool for batch content processing
-    server.tool(
+    server.registerTool(
       "batch_process",
       {
-        ids: z.array(z.string()).describe("Array of lifelog IDs to process"),
-        operations: z.array(z.object({
-          type: z.enum(["filter", "replace", "extract", "transform"]),
-          params: z.record(z.any())
-        })).describe("List of operations to perform on the content"),
-        mergeResults: z.boolean().default(false).describe("Whether to merge results into a single output")
+        inputSchema: {
+          ids: z.array(z.string()).describe("Array of lifelog IDs to process"),
+          operations: z.array(z.object({
+            type: z.enum(["filter", "replace", "extract", "transform"]),
+            params: z.record(z.any())
+          })).describe("List of operations to perform on the content"),
+          mergeResults: z.boolean().default(false).describe("Whether to merge results into a single output")
+        },
+        outputSchema: {
+          merged: z.boolean(),
+          results: z.array(z.object({
+            id: z.string(),
+            title: z.string(),
+            content: z.string()
+          })).describe("Processed lifelogs; IDs without content are skipped")
+        }
       },
       async ({ ids, operations, mergeResults }) => {
         if (!ids || ids.length === 0) {
-          return {
-            content: [{
-              type: "text",
-              text: "Please provide at least one lifelog ID to process."
-            }]
-          };
+          return toolError("Please provide at least one lifelog ID to process.");
         }
         
         try {
@@ -122,7 +128,7 @@ export class ContentProcessorPlugin implements LimitlessPlugin {
           
           for (const id of ids) {
             // Get lifelog content
-            const response = await this.callLimitlessAPI(`/lifelogs/${id}`);
+            const response = await this.context.callLimitlessApi(`/lifelogs/${id}`);
             const lifelog = response.data.lifelog;
             
             if (!lifelog || !lifelog.markdown) {
@@ -145,12 +151,7 @@ export class ContentProcessorPlugin implements LimitlessPlugin {
           }
           
           if (processedResults.length === 0) {
-            return {
-              content: [{
-                type: "text",
-                text: "No valid content found for the specified lifelog IDs."
-              }]
-            };
+            return toolError("No valid content found for the specified lifelog IDs.");
           }
           
           // Format output based on mergeResults flag
@@ -171,35 +172,16 @@ export class ContentProcessorPlugin implements LimitlessPlugin {
             });
           }
           
-          return {
-            content: [{
-              type: "text",
-              text: resultText
-            }]
-          };
+          return toolResult(resultText, { merged: mergeResults, results: processedResults });
           
         } catch (error) {
-          console.error(`Error batch processing lifelogs:`, error);
-          return {
-            content: [{
-              type: "text",
-              text: `Error batch processing lifelogs: ${error}`
-            }]
-          };
+          this.context.logger.error(`Error batch processing lifelogs:`, error);
+          return toolError(`Error batch processing lifelogs: ${error}`);
         }
       }
     );
   }
   
-  // Helper to call the Limitless API
-  private async callLimitlessAPI(path: string, qs: Record<string, unknown> = {}): Promise<any> {
-    // This assumes the API call function is implemented elsewhere
-    // In a real plugin, you would need to either pass this function in or use a service
-    // since we don't have access to direct network calls from the plugin
-    console.error(`Would call API: ${path} with params:`, qs);
-    throw new Error("API access not implemented for this example plugin");
-  }
-  
   // Apply an operation to the content
   private async applyOperation(content: string, type: string, params: Record<string, any>): Promise<string> {
     switch (type) {
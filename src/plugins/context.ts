@@ -0,0 +1,39 @@
+/**
+ * Shared services handed to plugins when they are initialized
+ */
+import callLimitlessApi from "../api/client";
+import cache from "../cache";
+import config from "../config";
+import { PluginContext, PluginLogger } from "./types";
+
+/**
+ * Create a logger that prefixes every message with the plugin name.
+ * Everything goes to stderr since stdout is reserved for the MCP protocol.
+ */
+export function createPluginLogger(pluginName: string): PluginLogger {
+  const prefix = `[plugin:${pluginName}]`;
+
+  return {
+    debug: (message, ...args) => {
+      if (process.env.LIMITLESS_DEBUG === "true") {
+        console.error(`${prefix} ${message}`, ...args);
+      }
+    },
+    info: (message, ...args) => console.error(`${prefix} ${message}`, ...args),
+    warn: (message, ...args) => console.error(`${prefix} WARN: ${message}`, ...args),
+    error: (message, ...args) => console.error(`${prefix} ERROR: ${message}`, ...args)
+  };
+}
+
+/**
+ * Build the context for a plugin, backed by the server's shared API client,
+ * cache and configuration
+ */
+export function createPluginContext(pluginName: string): PluginContext {
+  return {
+    callLimitlessApi,
+    cache,
+    config,
+    logger: createPluginLogger(pluginName)
+  };
+}
@@ -1,6 +1,7 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { LimitlessPlugin } from "./types";
+import { LimitlessPlugin, PluginContext } from "./types";
+import { toolResult } from "../tools/schemas.js";
 
 /**
  * Example of a custom plugin that can be dynamically loaded
@@ -10,39 +11,41 @@ export class CustomExamplePlugin implements LimitlessPlugin {
   description = "An example custom plugin that demonstrates the plugin API";
   version = "1.0.0";
   
-  private server?: McpServer;
   private config: Record<string, any> = {};
+  private context?: PluginContext;
   
-  async initialize(server: McpServer, config: Record<string, any>): Promise<void> {
-    this.server = server;
+  async initialize(config: Record<string, any>, context: PluginContext): Promise<void> {
     this.config = config;
+    this.context = context;
     
     // Log initialization
-    console.error(`Initializing custom example plugin with config:`, config);
-    
+    context.logger.info(`Initializing custom example plugin with config:`, config);
+  }
+  
+  registerTools(server: McpServer): void {
     // Register a custom tool
-    server.tool(
+    server.registerTool(
       "custom_greeting",
       {
-        name: z.string().describe("Name to greet"),
-        format: z.enum(["plain", "fancy"]).default("plain").describe("Greeting format")
+        inputSchema: {
+          name: z.string().describe("Name to greet"),
+          format: z.enum(["plain", "fancy"]).default("plain").describe("Greeting format")
+        },
+        outputSchema: {
+          greeting: z.string()
+        }
       },
       async ({ name, format }) => {
         const greeting = this.generateGreeting(name, format);
         
-        return {
-          content: [{
-            type: "text",
-            text: greeting
-          }]
-        };
+        return toolResult(greeting, { greeting });
       }
     );
   }
   
   // Clean up when plugin is disabled
   async shutdown(): Promise<void> {
-    console.error("Custom example plugin shutting down");
+    this.context?.logger.info("Custom example plugin shutting down");
     // In a real plugin, you would release resources here
   }
   
@@ -1,6 +1,7 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { LimitlessPlugin } from "./types";
+import { LimitlessPlugin, PluginContext } from "./types";
+import { toolError, toolResult } from "../tools/schemas.js";
 
 /**
  * A plugin that adds decorations and formatting to lifelog content
@@ -10,15 +11,15 @@ export class DecoratorPlugin implements LimitlessPlugin {
   description = "Adds decorations and formatting options to lifelog content";
   version = "1.0.0";
   
-  private server?: McpServer;
   private config: Record<string, any> = {};
+  private context?: PluginContext;
   
   // Keeps track of templates
   private templates: Map<string, string> = new Map();
   
-  async initialize(server: McpServer, config: Record<string, any>): Promise<void> {
-    this.server = server;
+  async initialize(config: Record<string, any>, context: PluginContext): Promise<void> {
     this.config = config;
+    this.context = context;
     
     // Load default templates
     this.templates.set("simple", "# {title}\n\n{content}");
@@ -33,28 +34,32 @@ export class DecoratorPlugin implements LimitlessPlugin {
         }
       }
     }
-    
+  }
+  
+  registerTools(server: McpServer): void {
     // Register tool for templating
-    server.tool(
+    server.registerTool(
       "apply_template",
       {
-        id: z.string().describe("The ID of the lifelog to format"),
-        template: z.string().describe("Name of the template to use or custom template string"),
-        variables: z.record(z.string()).optional().describe("Additional variables to use in the template")
+        inputSchema: {
+          id: z.string().describe("The ID of the lifelog to format"),
+          template: z.string().describe("Name of the template to use or custom template string"),
+          variables: z.record(z.string()).optional().describe("Additional variables to use in the template")
+        },
+        outputSchema: {
+          id: z.string(),
+          title: z.string(),
+          result: z.string().describe("The lifelog formatted with the template")
+        }
       },
       async ({ id, template, variables = {} }) => {
         try {
           // Get lifelog content
-          const response = await this.callLimitlessAPI(`/lifelogs/${id}`);
+          const response = await this.context.callLimitlessApi(`/lifelogs/${id}`);
           const lifelog = response.data.lifelog;
           
           if (!lifelog) {
-            return {
-              content: [{
-                type: "text",
-                text: `No lifelog found with ID: ${id}`
-              }]
-            };
+            return toolError(`No lifelog found with ID: ${id}`);
           }
           
           // Get the template - either a named one or the string itself
@@ -77,32 +82,31 @@ export class DecoratorPlugin implements LimitlessPlugin {
           // Apply the template
           const result = this.applyTemplate(templateText, data);
           
-          return {
-            content: [{
-              type: "text",
-              text: result
-            }]
-          };
+          return toolResult(result, { id: lifelog.id, title: data.title, result });
           
         } catch (error) {
-          console.error(`Error applying template to lifelog ${id}:`, error);
-          return {
-            content: [{
-              type: "text",
-              text: `Error applying template: ${error}`
-            }]
-          };
+          this.context.logger.error(`Error applying template to lifelog ${id}:`, error);
+          return toolError(`Error applying template: ${error}`);
         }
       }
     );
     
     // Register tool to manage templates
-    server.tool(
+    server.registerTool(
       "manage_templates",
       {
-        action: z.enum(["list", "get", "add", "delete"]).describe("Action to perform"),
-        name: z.string().optional().describe("Template name for get/add/delete actions"),
-        template: z.string().optional().describe("Template content for add action")
+        inputSchema: {
+          action: z.enum(["list", "get", "add", "delete"]).describe("Action to perform"),
+          name: z.string().optional().describe("Template name for get/add/delete actions"),
+          template: z.string().optional().describe("Template content for add action")
+        },
+        outputSchema: {
+          action: z.enum(["list", "get", "add", "delete"]),
+          templates: z.array(z.string()).optional().describe("Template names, for list"),
+          name: z.string().optional(),
+          template: z.string().optional().describe("Template content, for get and add"),
+          created: z.boolean().optional().describe("Whether add created a new template rather than replacing one")
+        }
       },
       async ({ action, name, template }) => {
         try {
@@ -114,104 +118,56 @@ export class DecoratorPlugin implements LimitlessPlugin {
               templateList.forEach(templateName => {
                 result += `- ${templateName}\n`;
               });
-              return {
-                content: [{
-                  type: "text",
-                  text: result
-                }]
-              };
+              return toolResult(result, { action, templates: templateList });
               
             case "get":
               // Get a specific template
               if (!name) {
-                return {
-                  content: [{
-                    type: "text",
-                    text: "Please provide a template name to get."
-                  }]
-                };
+                return toolError("Please provide a template name to get.");
               }
               
               const templateContent = this.templates.get(name);
               if (!templateContent) {
-                return {
-                  content: [{
-                    type: "text",
-                    text: `Template "${name}" not found.`
-                  }]
-                };
+                return toolError(`Template "${name}" not found.`);
               }
               
-              return {
-                content: [{
-                  type: "text",
-                  text: `# Template: ${name}\n\n\`\`\`\n${templateContent}\n\`\`\``
-                }]
-              };
+              return toolResult(
+                `# Template: ${name}\n\n\`\`\`\n${templateContent}\n\`\`\``,
+                { action, name, template: templateContent }
+              );
               
             case "add":
               // Add or update a template
               if (!name || !template) {
-                return {
-                  content: [{
-                    type: "text",
-                    text: "Please provide both name and template content to add a template."
-                  }]
-                };
+                return toolError("Please provide both name and template content to add a template.");
               }
               
+              const created = !this.templates.has(name);
               this.templates.set(name, template);
-              return {
-                content: [{
-                  type: "text",
-                  text: `Template "${name}" has been ${this.templates.has(name) ? "updated" : "added"}.`
-                }]
-              };
+              return toolResult(
+                `Template "${name}" has been ${created ? "added" : "updated"}.`,
+                { action, name, template, created }
+              );
               
             case "delete":
               // Delete a template
               if (!name) {
-                return {
-                  content: [{
-                    type: "text",
-                    text: "Please provide a template name to delete."
-                  }]
-                };
+                return toolError("Please provide a template name to delete.");
               }
               
               if (!this.templates.has(name)) {
-                return {
-                  content: [{
-                    type: "text",
-                    text: `Template "${name}" not found.`
-                  }]
-                };
+                return toolError(`Template "${name}" not found.`);
               }
               
               this.templates.delete(name);
-              return {
-                content: [{
-                  type: "text",
-                  text: `Template "${name}" has been deleted.`
-                }]
-              };
+              return toolResult(`Template "${name}" has been deleted.`, { action, name });
               
             default:
-              return {
-                content: [{
-                  type: "text",
-                  text: `Unknown action: ${action}`
-                }]
-              };
+              return toolError(`Unknown action: ${action}`);
           }
         } catch (error) {
           console.error(`Error managing templates:`, error);
-          return {
-            content: [{
-              type: "text",
-              text: `Error managing templates: ${error}`
-            }]
-          };
+          return toolError(`Error managing templates: ${error}`);
         }
       }
     );
@@ -242,12 +198,4 @@ export class DecoratorPlugin implements LimitlessPlugin {
     
     return "No content available for summary.";
   }
-  
-  // Helper to call the Limitless API
-  private async callLimitlessAPI(path: string, qs: Record<string, unknown> = {}): Promise<any> {
-    // This assumes the API call function is implemented elsewhere
-    // In a real plugin, you would need to either pass this function in or use a service
-    console.error(`Would call API: ${path} with params:`, qs);
-    throw new Error("API access not implemented for this example plugin");
-  }
 }
\ No newline at end of file
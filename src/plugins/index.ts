@@ -1,6 +1,7 @@
 // Placeholder for plugin initialization logic
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { LimitlessPlugin } from "./types";
+import { createPluginContext } from "./context.js";
 import { DecoratorPlugin } from "./decorator.js";
 import { TimeParserPlugin } from "./time-parser.js";
 import { ContentProcessorPlugin } from "./content-processor.js";
@@ -16,18 +17,59 @@ const availablePlugins: Array<new () => LimitlessPlugin> = [
   // Add other plugin classes here
 ];
 
-export async function initializePlugins(server: McpServer): Promise<void> {
-  console.error("Initializing Limitless MCP plugins...");
-  
-  const config = {}; // Load plugin config if needed
-  
-  for (const PluginClass of availablePlugins) {
+// Plugins that initialized successfully; shared by every server instance
+let initialized: Promise<LimitlessPlugin[]> | undefined;
+
+/**
+ * Create and initialize the plugins. Runs once per process; later calls
+ * return the same plugin instances.
+ */
+export function initializePlugins(): Promise<LimitlessPlugin[]> {
+  if (!initialized) {
+    initialized = (async () => {
+      console.error("Initializing Limitless MCP plugins...");
+
+      const config = {}; // Load plugin config if needed
+      const plugins: LimitlessPlugin[] = [];
+
+      for (const PluginClass of availablePlugins) {
+        try {
+          const pluginInstance = new PluginClass();
+          await pluginInstance.initialize(config, createPluginContext(pluginInstance.name));
+          plugins.push(pluginInstance);
+          console.error(`Plugin "${pluginInstance.name}" v${pluginInstance.version} initialized successfully.`);
+        } catch (error) {
+          console.error(`Failed to initialize plugin ${PluginClass.name}:`, error);
+        }
+      }
+
+      return plugins;
+    })();
+  }
+
+  return initialized;
+}
+
+/**
+ * Register the tools of all initialized plugins on a server
+ */
+export async function registerPluginTools(server: McpServer): Promise<void> {
+  for (const plugin of await initializePlugins()) {
+    plugin.registerTools(server);
+  }
+}
+
+/**
+ * Shut down all initialized plugins
+ */
+export async function shutdownPlugins(): Promise<void> {
+  if (!initialized) return;
+
+  for (const plugin of await initialized) {
     try {
-      const pluginInstance = new PluginClass();
-      await pluginInstance.initialize(server, config);
-      console.error(`Plugin "${pluginInstance.name}" v${pluginInstance.version} initialized successfully.`);
+      await plugin.shutdown?.();
     } catch (error) {
-      console.error(`Failed to initialize plugin ${PluginClass.name}:`, error);
+      console.error(`Error shutting down plugin ${plugin.name}:`, error);
     }
   }
 }
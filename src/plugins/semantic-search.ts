@@ -1,7 +1,51 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { LimitlessPlugin } from "./types";
-import NodeCache from "node-cache";
+import { LimitlessPlugin, PluginContext } from "./types";
+import { Lifelog, LifelogContent } from "../types";
+import path from "path";
+import crypto from "crypto";
+import { EmbeddingProvider, EmbedOptions, createEmbeddingProvider, cosineSimilarity } from "../embeddings/index.js";
+import { VectorStore, EmbeddingEntry, EmbeddedChunk } from "../embeddings/store.js";
+import { BackgroundIndexer } from "../embeddings/indexer.js";
+import { InvertedIndex } from "../search/inverted-index.js";
+import { reciprocalRankFusion, DEFAULT_RRF_K } from "../search/fusion.js";
+import { requireServerCredentials } from "../api/credentials.js";
+import { indexerStatusSchema, toolError, toolResult } from "../tools/schemas.js";
+import { createProgressReporter } from "../tools/progress.js";
+import { McpError, ErrorCode } from "../utils/errors";
+import { MemoryCacheStore } from "../cache/memory-store.js";
+
+// Default chunking used by create_embeddings and the background indexer
+const DEFAULT_CHUNK_SIZE = 512;
+const DEFAULT_CHUNK_OVERLAP = 50;
+
+// Bounds of the cache of embedding vectors; the least recently used vectors
+// are evicted beyond them
+const DEFAULT_EMBED_CACHE_KEYS = 1000;
+const EMBED_CACHE_MAX_BYTES = 32 * 1024 * 1024;
+
+// Cancellation and progress (in texts embedded out of a total) of an embedding run
+interface ProgressOptions extends Pick<EmbedOptions, "signal"> {
+  onProgress?(embedded: number, total: number): void;
+}
+
+// Structured result of hybrid_search
+type HybridSearchOutput = {
+  query: string;
+  searchedLifelogs: number;
+  results: Array<{
+    id: string;
+    title: string;
+    chunkIndex: number;
+    text: string;
+    startTime?: string;
+    speakers: string[];
+    score: number;
+    keywordRank?: number;
+    semanticRank?: number;
+    similarity?: number;
+  }>;
+};
 
 /**
  * A plugin that provides semantic search functionality using text embeddings
@@ -11,150 +55,175 @@ export class SemanticSearchPlugin implements LimitlessPlugin {
   description = "Enables semantic search using text embeddings to find semantically similar content";
   version = "1.0.0";
   
-  private server?: McpServer;
   private config: Record<string, any> = {};
-  private embedCache: NodeCache;
+  private context?: PluginContext;
+  private embedCache: MemoryCacheStore;
+  private embedCacheTtl = 60 * 60; // 1 hour
+  private provider?: EmbeddingProvider;
   
-  // Simple in-memory store for embeddings
-  private embeddings: Map<string, {
-    id: string;
-    title: string;
-    vectors: number[][];
-    chunks: string[];
-    timestamp: number;
-  }> = new Map();
+  // Persistent store for embeddings
+  private store?: VectorStore;
+  
+  // Optional background indexer (LIMITLESS_AUTO_INDEX)
+  private indexer?: BackgroundIndexer;
+  
+  // BM25 index over the same chunks as the vector store, used by hybrid_search.
+  // Document IDs are "<lifelogId>#<chunkIndex>".
+  private lexicalIndex = new InvertedIndex();
+  private lexicalDocs: Map<string, string[]> = new Map();
   
   constructor() {
     // Initialize cache for embedding API calls
-    this.embedCache = new NodeCache({
-      stdTTL: 60 * 60, // 1 hour
-      checkperiod: 120,
-      maxKeys: 1000
-    });
+    this.embedCache = new MemoryCacheStore({ maxKeys: DEFAULT_EMBED_CACHE_KEYS, maxBytes: EMBED_CACHE_MAX_BYTES });
   }
   
-  async initialize(server: McpServer, config: Record<string, any>): Promise<void> {
-    this.server = server;
+  async initialize(config: Record<string, any>, context: PluginContext): Promise<void> {
     this.config = config;
+    this.context = context;
+    this.provider = createEmbeddingProvider(context.config);
+    context.logger.info(`Using embedding provider "${this.provider.name}" (model: ${this.provider.model})`);
+    
+    // Load previously created embeddings from disk
+    this.store = new VectorStore(path.join(context.config.DATA_DIR, "embeddings"));
+    this.store.onChange((id, entry) => this.updateLexicalIndex(id, entry));
+    await this.store.load();
+    context.logger.info(`Loaded embeddings for ${this.store.size} lifelogs from ${this.store.directory}`);
+    
+    // Keep the index up to date in the background if enabled
+    if (context.config.AUTO_INDEX) {
+      this.indexer = new BackgroundIndexer({
+        callApi: context.callLimitlessApi,
+        needsIndexing: lifelog => !!lifelog.markdown && this.needsIndexing(lifelog),
+        indexLifelog: async lifelog => { await this.embedLifelog(lifelog); },
+        stateFile: path.join(this.store.directory, "indexer-state.json"),
+        startDate: context.config.AUTO_INDEX_START_DATE,
+        intervalMs: context.config.AUTO_INDEX_INTERVAL * 1000,
+        pageSize: Math.min(context.config.MAX_LIFELOG_LIMIT, 10),
+        log: message => context.logger.info(message)
+      });
+      await this.indexer.start();
+      context.logger.info(`Background indexing enabled from ${context.config.AUTO_INDEX_START_DATE}`);
+    }
     
     // Override defaults with config
     if (config.embeddingsTtl) {
-      this.embedCache.options.stdTTL = config.embeddingsTtl;
+      this.embedCacheTtl = config.embeddingsTtl;
     }
     
     if (config.embeddingsMaxKeys) {
-      this.embedCache.options.maxKeys = config.embeddingsMaxKeys;
+      this.embedCache = new MemoryCacheStore({ maxKeys: config.embeddingsMaxKeys, maxBytes: EMBED_CACHE_MAX_BYTES });
     }
-    
+  }
+  
+  registerTools(server: McpServer): void {
     // Register tool for creating embeddings
-    server.tool(
+    server.registerTool(
       "create_embeddings",
       {
-        id: z.string().describe("The ID of the lifelog to create embeddings for"),
-        chunkSize: z.number().default(512).describe("Size of text chunks for embeddings (in characters)"),
-        chunkOverlap: z.number().default(50).describe("Overlap between chunks (in characters)"),
-        forceRefresh: z.boolean().default(false).describe("Whether to force refresh embeddings even if they exist")
+        inputSchema: {
+          id: z.string().describe("The ID of the lifelog to create embeddings for"),
+          chunkSize: z.number().default(DEFAULT_CHUNK_SIZE).describe("Size of text chunks for embeddings (in characters)"),
+          chunkOverlap: z.number().default(DEFAULT_CHUNK_OVERLAP).describe("Overlap between chunks (in characters)"),
+          forceRefresh: z.boolean().default(false).describe("Whether to force refresh embeddings even if they exist")
+        },
+        outputSchema: {
+          id: z.string(),
+          title: z.string(),
+          model: z.string(),
+          chunks: z.number(),
+          created: z.boolean().describe("False when recent embeddings already existed and were kept")
+        }
       },
-      async ({ id, chunkSize, chunkOverlap, forceRefresh }) => {
+      async ({ id, chunkSize, chunkOverlap, forceRefresh }, extra) => {
+        requireServerCredentials("create_embeddings");
+        const report = createProgressReporter(extra);
+
         try {
           // Check if embeddings already exist and are recent (less than 24 hours old)
-          const existingEmbeddings = this.embeddings.get(id);
+          const existingEmbeddings = this.store.get(id);
           const now = Date.now();
           const isRecent = existingEmbeddings && 
+                          existingEmbeddings.model === this.provider.model &&
                           (now - existingEmbeddings.timestamp < 24 * 60 * 60 * 1000);
           
           if (existingEmbeddings && isRecent && !forceRefresh) {
-            return {
-              content: [{
-                type: "text",
-                text: `Embeddings already exist for lifelog ${id} (${existingEmbeddings.chunks.length} chunks). Created ${this.formatTimeDifference(now - existingEmbeddings.timestamp)} ago.`
-              }]
-            };
+            return toolResult(
+              `Embeddings already exist for lifelog ${id} (${existingEmbeddings.chunks.length} chunks). Created ${this.formatTimeDifference(now - existingEmbeddings.timestamp)} ago.`,
+              { id, title: existingEmbeddings.title, model: existingEmbeddings.model, chunks: existingEmbeddings.chunks.length, created: false }
+            );
           }
           
           // Get lifelog content
-          const lifelog = await this.getLifelog(id);
+          const lifelog = await this.getLifelog(id, extra.signal);
           
           if (!lifelog || !lifelog.markdown) {
-            return {
-              content: [{
-                type: "text",
-                text: `No content found for lifelog with ID: ${id}`
-              }]
-            };
+            return toolError(`No content found for lifelog with ID: ${id}`);
           }
           
-          // Chunk the text
-          const chunks = this.chunkText(lifelog.markdown, chunkSize, chunkOverlap);
+          // Chunk, embed and store the content, reporting progress in chunks
+          const chunkCount = await this.embedLifelog(lifelog, chunkSize, chunkOverlap, {
+            signal: extra.signal,
+            onProgress: (embedded, total) => { report(embedded, total, `Embedded ${embedded} of ${total} chunks`); }
+          });
           
-          if (chunks.length === 0) {
-            return {
-              content: [{
-                type: "text",
-                text: `No content chunks could be generated for lifelog ${id}.`
-              }]
-            };
+          if (chunkCount === 0) {
+            return toolError(`No content chunks could be generated for lifelog ${id}.`);
           }
           
-          // Generate embeddings for each chunk (mock implementation)
-          const vectors = await Promise.all(chunks.map(chunk => this.generateEmbedding(chunk)));
-          
-          // Store in memory
-          this.embeddings.set(id, {
-            id,
-            title: lifelog.title,
-            vectors,
-            chunks,
-            timestamp: now
-          });
-          
-          return {
-            content: [{
-              type: "text",
-              text: `Successfully created embeddings for lifelog "${lifelog.title}" (ID: ${id}).\n` +
-                    `Created ${chunks.length} chunks of approximately ${chunkSize} characters each.`
-            }]
-          };
+          return toolResult(
+            `Successfully created embeddings for lifelog "${lifelog.title}" (ID: ${id}).\n` +
+              `Created ${chunkCount} chunks of approximately ${chunkSize} characters each.`,
+            { id, title: lifelog.title, model: this.provider.model, chunks: chunkCount, created: true }
+          );
           
         } catch (error) {
-          console.error(`Error creating embeddings for lifelog ${id}:`, error);
-          return {
-            content: [{
-              type: "text",
-              text: `Error creating embeddings: ${error}`
-            }]
-          };
+          // Cancelled calls get no response
+          if (error instanceof McpError && error.code === ErrorCode.CANCELLED) throw error;
+          
+          this.context.logger.error(`Error creating embeddings for lifelog ${id}:`, error);
+          return toolError(`Error creating embeddings: ${error}`);
         }
       }
     );
     
     // Register tool for semantic search
-    server.tool(
+    server.registerTool(
       "semantic_search",
       {
-        query: z.string().describe("The query to search for semantically similar content"),
-        ids: z.array(z.string()).optional().describe("Optional array of specific lifelog IDs to search within"),
-        topK: z.number().default(5).describe("Number of top results to return"),
-        threshold: z.number().default(0.7).describe("Similarity threshold (0-1)")
+        inputSchema: {
+          query: z.string().describe("The query to search for semantically similar content"),
+          ids: z.array(z.string()).optional().describe("Optional array of specific lifelog IDs to search within"),
+          topK: z.number().default(5).describe("Number of top results to return"),
+          threshold: z.number().optional().describe("Similarity threshold (0-1). Defaults to the embedding provider's recommended threshold")
+        },
+        outputSchema: {
+          query: z.string(),
+          threshold: z.number(),
+          totalMatches: z.number().describe("Chunks above the threshold, before topK"),
+          results: z.array(z.object({
+            id: z.string(),
+            title: z.string(),
+            chunk: z.string(),
+            similarity: z.number()
+          }))
+        }
       },
-      async ({ query, ids, topK, threshold }) => {
+      async ({ query, ids, topK, threshold = this.provider.similarityThreshold }) => {
+        requireServerCredentials("semantic_search");
+
         try {
           if (!query.trim()) {
-            return {
-              content: [{
-                type: "text",
-                text: "Please provide a search query."
-              }]
-            };
+            return toolError("Please provide a search query.");
           }
           
           // Generate embedding for the query
-          const queryVector = await this.generateEmbedding(query);
+          const [queryVector] = await this.generateEmbeddings([query]);
           
-          // Filter lifelogs if IDs are provided
-          const lifelogsToSearch = ids && ids.length > 0
-            ? Array.from(this.embeddings.values()).filter(emb => ids.includes(emb.id))
-            : Array.from(this.embeddings.values());
+          // Filter lifelogs if IDs are provided. Vectors from a different model
+          // live in a different space and can't be compared with the query.
+          const lifelogsToSearch = this.store.values()
+            .filter(emb => !ids || ids.length === 0 || ids.includes(emb.id))
+            .filter(emb => emb.model === this.provider.model);
           
           if (lifelogsToSearch.length === 0) {
             let message = "No embeddings found to search. ";
@@ -165,12 +234,7 @@ export class SemanticSearchPlugin implements LimitlessPlugin {
               message += `Please create embeddings for at least one lifelog first using the create_embeddings tool.`;
             }
             
-            return {
-              content: [{
-                type: "text",
-                text: message
-              }]
-            };
+            return toolResult(message, { query, threshold, totalMatches: 0, results: [] });
           }
           
           // Search across all lifelogs
@@ -183,14 +247,14 @@ export class SemanticSearchPlugin implements LimitlessPlugin {
           
           for (const lifelog of lifelogsToSearch) {
             // Compare query embedding with each chunk
-            lifelog.vectors.forEach((vector, index) => {
-              const similarity = this.cosineSimilarity(queryVector, vector);
+            lifelog.chunks.forEach(chunk => {
+              const similarity = cosineSimilarity(queryVector, chunk.vector);
               
               if (similarity >= threshold) {
                 results.push({
                   id: lifelog.id,
                   title: lifelog.title,
-                  chunk: lifelog.chunks[index],
+                  chunk: chunk.text,
                   similarity
                 });
               }
@@ -203,13 +267,10 @@ export class SemanticSearchPlugin implements LimitlessPlugin {
           // Take top K results
           const topResults = results.slice(0, topK);
           
+          const output = { query, threshold, totalMatches: results.length, results: topResults };
+          
           if (topResults.length === 0) {
-            return {
-              content: [{
-                type: "text",
-                text: `No semantic matches found for "${query}" that meet the similarity threshold (${threshold}).`
-              }]
-            };
+            return toolResult(`No semantic matches found for "${query}" that meet the similarity threshold (${threshold}).`, output);
           }
           
           // Format response
@@ -222,174 +283,462 @@ export class SemanticSearchPlugin implements LimitlessPlugin {
             resultText += `> ${result.chunk}\n\n`;
           });
           
-          return {
-            content: [{
-              type: "text",
-              text: resultText
-            }]
-          };
+          return toolResult(resultText, output);
           
         } catch (error) {
           console.error(`Error performing semantic search:`, error);
-          return {
-            content: [{
-              type: "text",
-              text: `Error performing semantic search: ${error}`
-            }]
-          };
+          return toolError(`Error performing semantic search: ${error}`);
+        }
+      }
+    );
+    
+    // Register tool for hybrid lexical + semantic search
+    server.registerTool(
+      "hybrid_search",
+      {
+        inputSchema: {
+          query: z.string().describe("The query to search for"),
+          ids: z.array(z.string()).optional().describe("Optional array of specific lifelog IDs to search within"),
+          topK: z.number().default(10).describe("Number of results to return"),
+          candidates: z.number().default(50).describe("Number of candidates taken from each ranking (BM25 and vector) before fusion"),
+          rrfK: z.number().default(DEFAULT_RRF_K).describe("Reciprocal rank fusion constant; higher values flatten the rank weighting")
+        },
+        outputSchema: {
+          query: z.string(),
+          searchedLifelogs: z.number(),
+          results: z.array(z.object({
+            id: z.string(),
+            title: z.string(),
+            chunkIndex: z.number(),
+            text: z.string(),
+            startTime: z.string().optional(),
+            speakers: z.array(z.string()),
+            score: z.number().describe("Fused reciprocal rank score"),
+            keywordRank: z.number().optional(),
+            semanticRank: z.number().optional(),
+            similarity: z.number().optional()
+          }))
+        }
+      },
+      async ({ query, ids, topK, candidates, rrfK }) => {
+        requireServerCredentials("hybrid_search");
+
+        try {
+          if (!query.trim()) {
+            return toolError("Please provide a search query.");
+          }
+          
+          // Only search lifelogs embedded with the current model
+          const entries = this.store.values()
+            .filter(emb => !ids || ids.length === 0 || ids.includes(emb.id))
+            .filter(emb => emb.model === this.provider.model);
+          
+          if (entries.length === 0) {
+            return toolResult(
+              "No indexed lifelogs found to search. Please create embeddings first using the create_embeddings tool" +
+                " or enable background indexing with LIMITLESS_AUTO_INDEX=true.",
+              { query, searchedLifelogs: 0, results: [] }
+            );
+          }
+          
+          const allowed = new Set(entries.map(emb => emb.id));
+          
+          // Lexical ranking (BM25)
+          const lexical = this.lexicalIndex
+            .search(query, candidates, docId => allowed.has(this.parseChunkDocId(docId).lifelogId))
+            .map(result => result.id);
+          
+          // Semantic ranking (cosine similarity)
+          const [queryVector] = await this.generateEmbeddings([query]);
+          const semantic = entries
+            .flatMap(emb => emb.chunks.map(chunk => ({
+              id: this.chunkDocId(emb.id, chunk.index),
+              similarity: cosineSimilarity(queryVector, chunk.vector)
+            })))
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, candidates);
+          const similarities = new Map(semantic.map(result => [result.id, result.similarity]));
+          
+          // Merge both rankings
+          const fused = reciprocalRankFusion([lexical, semantic.map(result => result.id)], rrfK).slice(0, topK);
+          
+          if (fused.length === 0) {
+            return toolResult(`No matches found for "${query}".`, { query, searchedLifelogs: entries.length, results: [] });
+          }
+          
+          let resultText = `# Hybrid Search Results for "${query}"\n\n`;
+          resultText += `Searched ${entries.length} lifelogs (${lexical.length} keyword matches, ${semantic.length} semantic candidates), showing top ${fused.length}.\n\n`;
+          
+          const output: HybridSearchOutput = { query, searchedLifelogs: entries.length, results: [] };
+          
+          fused.forEach((result, index) => {
+            const { lifelogId, chunkIndex } = this.parseChunkDocId(result.id);
+            const entry = this.store.get(lifelogId);
+            const chunk = entry?.chunks.find(c => c.index === chunkIndex);
+            if (!entry || !chunk) return;
+            
+            const timestamp = chunk.startTime || entry.startTime;
+            const [lexicalRank, semanticRank] = result.ranks;
+            
+            output.results.push({
+              id: entry.id,
+              title: entry.title,
+              chunkIndex: chunk.index,
+              text: chunk.text,
+              startTime: timestamp,
+              speakers: chunk.speakers || [],
+              score: result.score,
+              keywordRank: lexicalRank,
+              semanticRank,
+              similarity: similarities.get(result.id)
+            });
+            
+            resultText += `## ${index + 1}. "${entry.title}" (ID: ${entry.id}, chunk ${chunk.index})\n`;
+            if (timestamp) {
+              resultText += `- **Time**: ${new Date(timestamp).toLocaleString()}\n`;
+            }
+            if (chunk.speakers && chunk.speakers.length > 0) {
+              resultText += `- **Speaker${chunk.speakers.length > 1 ? "s" : ""}**: ${chunk.speakers.join(", ")}\n`;
+            }
+            resultText += `- **Score**: ${result.score.toFixed(4)} ` +
+                          `(keyword rank: ${lexicalRank ?? "-"}, semantic rank: ${semanticRank ?? "-"}` +
+                          `${similarities.has(result.id) ? `, similarity: ${(similarities.get(result.id) * 100).toFixed(1)}%` : ""})\n\n`;
+            resultText += `> ${chunk.text.replace(/\n/g, "\n> ")}\n\n`;
+          });
+          
+          return toolResult(resultText, output);
+          
+        } catch (error) {
+          this.context.logger.error(`Error performing hybrid search:`, error);
+          return toolError(`Error performing hybrid search: ${error}`);
         }
       }
     );
     
     // Register tool for managing embeddings
-    server.tool(
+    server.registerTool(
       "manage_embeddings",
       {
-        action: z.enum(["list", "delete", "clear", "info"]).describe("Action to perform"),
-        id: z.string().optional().describe("Lifelog ID for delete/info actions")
+        inputSchema: {
+          action: z.enum(["list", "delete", "clear", "info", "export", "import", "compact", "status"]).describe("Action to perform"),
+          id: z.string().optional().describe("Lifelog ID for delete/info actions"),
+          path: z.string().optional().describe("Export file for export/import actions, relative to the embeddings exports directory (export defaults to a timestamped name)")
+        },
+        outputSchema: {
+          action: z.enum(["list", "delete", "clear", "info", "export", "import", "compact", "status"]),
+          embeddings: z.array(z.object({
+            id: z.string(),
+            title: z.string(),
+            model: z.string(),
+            chunks: z.number(),
+            createdAt: z.string()
+          })).optional().describe("Embedded lifelogs, for list and info"),
+          removed: z.number().optional().describe("Lifelogs whose embeddings were removed by delete and clear"),
+          path: z.string().optional().describe("Full path of the export or import file"),
+          exported: z.number().optional(),
+          imported: z.number().optional(),
+          skipped: z.number().optional().describe("Imported lifelogs skipped because newer embeddings exist"),
+          bytesBefore: z.number().optional(),
+          bytesAfter: z.number().optional(),
+          index: z.object({
+            model: z.string(),
+            entries: z.number(),
+            chunks: z.number(),
+            bytes: z.number(),
+            reclaimableBytes: z.number()
+          }).optional(),
+          indexer: indexerStatusSchema.optional().describe("Background indexer progress, when LIMITLESS_AUTO_INDEX is enabled")
+        }
       },
-      async ({ action, id }) => {
+      async ({ action, id, path: filePath }) => {
+        requireServerCredentials("manage_embeddings");
+
         try {
           switch (action) {
             case "list":
               // List all lifelog embeddings
-              const embeddingsList = Array.from(this.embeddings.values());
+              const embeddingsList = this.store.values();
               
               if (embeddingsList.length === 0) {
-                return {
-                  content: [{
-                    type: "text",
-                    text: "No embeddings have been created yet."
-                  }]
-                };
+                return toolResult("No embeddings have been created yet.", { action, embeddings: [] });
               }
               
               let listText = `# Available Embeddings\n\n`;
-              listText += `| ID | Title | Chunks | Created |\n`;
-              listText += `| --- | --- | --- | --- |\n`;
+              listText += `| ID | Title | Model | Chunks | Created |\n`;
+              listText += `| --- | --- | --- | --- | --- |\n`;
               
               const now = Date.now();
               embeddingsList.forEach(emb => {
                 const age = this.formatTimeDifference(now - emb.timestamp);
-                listText += `| ${emb.id} | ${emb.title} | ${emb.chunks.length} | ${age} ago |\n`;
+                listText += `| ${emb.id} | ${emb.title} | ${emb.model} | ${emb.chunks.length} | ${age} ago |\n`;
               });
               
-              return {
-                content: [{
-                  type: "text",
-                  text: listText
-                }]
-              };
+              return toolResult(listText, { action, embeddings: embeddingsList.map(emb => this.describeEntry(emb)) });
               
             case "delete":
               // Delete embeddings for a specific lifelog
               if (!id) {
-                return {
-                  content: [{
-                    type: "text",
-                    text: "Please provide a lifelog ID to delete embeddings."
-                  }]
-                };
+                return toolError("Please provide a lifelog ID to delete embeddings.");
               }
               
-              if (!this.embeddings.has(id)) {
-                return {
-                  content: [{
-                    type: "text",
-                    text: `No embeddings found for lifelog ${id}.`
-                  }]
-                };
+              if (!this.store.has(id)) {
+                return toolError(`No embeddings found for lifelog ${id}.`);
               }
               
-              this.embeddings.delete(id);
-              return {
-                content: [{
-                  type: "text",
-                  text: `Embeddings for lifelog ${id} have been deleted.`
-                }]
-              };
+              await this.store.delete(id);
+              return toolResult(`Embeddings for lifelog ${id} have been deleted.`, { action, removed: 1 });
               
             case "clear":
               // Clear all embeddings
-              const count = this.embeddings.size;
-              this.embeddings.clear();
-              return {
-                content: [{
-                  type: "text",
-                  text: `All embeddings cleared (${count} removed).`
-                }]
-              };
+              const count = await this.store.clear();
+              return toolResult(`All embeddings cleared (${count} removed).`, { action, removed: count });
               
             case "info":
               // Get info about embeddings for a specific lifelog
               if (!id) {
-                return {
-                  content: [{
-                    type: "text",
-                    text: "Please provide a lifelog ID to get embeddings info."
-                  }]
-                };
+                return toolError("Please provide a lifelog ID to get embeddings info.");
               }
               
-              const embedding = this.embeddings.get(id);
+              const embedding = this.store.get(id);
               if (!embedding) {
-                return {
-                  content: [{
-                    type: "text",
-                    text: `No embeddings found for lifelog ${id}.`
-                  }]
-                };
+                return toolError(`No embeddings found for lifelog ${id}.`);
               }
               
               const embInfo = `# Embeddings for "${embedding.title}"\n\n` +
                               `- **ID**: ${embedding.id}\n` +
+                              `- **Model**: ${embedding.model}\n` +
                               `- **Chunks**: ${embedding.chunks.length}\n` +
                               `- **Created**: ${new Date(embedding.timestamp).toLocaleString()}\n` +
                               `- **Age**: ${this.formatTimeDifference(Date.now() - embedding.timestamp)}\n\n` +
                               `## Sample Chunks\n\n` +
                               embedding.chunks.slice(0, 3).map((chunk, i) => 
-                                `### Chunk ${i+1}\n${chunk.substring(0, 150)}...`
+                                `### Chunk ${i+1} (characters ${chunk.start}-${chunk.end})\n${chunk.text.substring(0, 150)}...`
                               ).join('\n\n');
               
-              return {
-                content: [{
-                  type: "text",
-                  text: embInfo
-                }]
-              };
+              return toolResult(embInfo, { action, embeddings: [this.describeEntry(embedding)] });
+              
+            case "export": {
+              // Export all embeddings (including vectors) to a JSON file
+              const exportName = filePath || `export-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+              const exported = await this.store.exportTo(exportName);
+              const exportPath = this.store.exportPath(exportName);
+              
+              return toolResult(`Exported embeddings for ${exported} lifelogs to ${exportPath}.`, { action, path: exportPath, exported });
+            }
+              
+            case "import": {
+              // Import embeddings from a previous export
+              if (!filePath) {
+                return toolError("Please provide the path of an embeddings export to import.");
+              }
+              
+              const { imported, skipped } = await this.store.importFrom(filePath);
+              const importPath = this.store.exportPath(filePath);
+              return toolResult(
+                `Imported embeddings for ${imported} lifelogs from ${importPath}` +
+                  (skipped > 0 ? ` (${skipped} skipped because newer embeddings already exist).` : '.'),
+                { action, path: importPath, imported, skipped }
+              );
+            }
+              
+            case "compact": {
+              // Reclaim space used by deleted or replaced embeddings
+              const { bytesBefore, bytesAfter } = await this.store.compact();
+              return toolResult(
+                `Compacted embedding store: ${this.formatBytes(bytesBefore)} -> ${this.formatBytes(bytesAfter)}.`,
+                { action, bytesBefore, bytesAfter }
+              );
+            }
+              
+            case "status": {
+              // Report index size and background indexer progress
+              const stats = await this.store.stats();
+              let statusText = `# Semantic Index Status\n\n` +
+                               `- **Embedding Model**: ${this.provider.model}\n` +
+                               `- **Indexed Lifelogs**: ${stats.entries}\n` +
+                               `- **Chunks**: ${stats.chunks}\n` +
+                               `- **Disk Usage**: ${this.formatBytes(stats.bytes)} (${this.formatBytes(stats.reclaimableBytes)} reclaimable with compact)\n\n`;
+              
+              if (!this.indexer) {
+                statusText += `Background indexing is disabled. Set LIMITLESS_AUTO_INDEX=true to enable it.`;
+              } else {
+                const indexer = this.indexer.getStatus();
+                statusText += `## Background Indexer\n\n` +
+                              `- **State**: ${indexer.running ? "running" : "idle"}\n` +
+                              `- **Start Date**: ${indexer.startDate}\n` +
+                              `- **High-Water Mark**: ${indexer.highWaterMark || "none yet"}\n` +
+                              `- **Last Run Started**: ${indexer.lastRunStartedAt || "never"}\n` +
+                              `- **Last Run Finished**: ${indexer.lastRunFinishedAt || (indexer.running ? "in progress" : "never")}\n` +
+                              `- **Next Run**: ${indexer.nextRunAt || "not scheduled"}\n` +
+                              `- **Pages Walked**: ${indexer.pages}\n` +
+                              `- **Lifelogs Scanned**: ${indexer.scanned} (${indexer.indexed} indexed, ${indexer.unchanged} unchanged, ${indexer.failed} failed)\n`;
+                
+                if (indexer.lastError) {
+                  statusText += `- **Last Error**: ${indexer.lastError}\n`;
+                }
+              }
+              
+              return toolResult(statusText, {
+                action,
+                index: { model: this.provider.model, ...stats },
+                indexer: this.indexer?.getStatus()
+              });
+            }
               
             default:
-              return {
-                content: [{
-                  type: "text",
-                  text: `Unknown action: ${action}`
-                }]
-              };
+              return toolError(`Unknown action: ${action}`);
           }
         } catch (error) {
           console.error(`Error managing embeddings:`, error);
-          return {
-            content: [{
-              type: "text",
-              text: `Error managing embeddings: ${error}`
-            }]
-          };
+          return toolError(`Error managing embeddings: ${error}`);
         }
       }
     );
   }
   
+  // Stop the background indexer
+  async shutdown(): Promise<void> {
+    this.indexer?.stop();
+  }
+  
+  // An embedding entry as listed by manage_embeddings
+  private describeEntry(entry: EmbeddingEntry) {
+    return {
+      id: entry.id,
+      title: entry.title,
+      model: entry.model,
+      chunks: entry.chunks.length,
+      createdAt: new Date(entry.timestamp).toISOString()
+    };
+  }
+  
+  // Chunk, embed and store a lifelog. Returns the number of chunks created.
+  private async embedLifelog(
+    lifelog: Lifelog,
+    chunkSize: number = DEFAULT_CHUNK_SIZE,
+    chunkOverlap: number = DEFAULT_CHUNK_OVERLAP,
+    options: ProgressOptions = {}
+  ): Promise<number> {
+    const chunks = this.chunkText(lifelog.markdown || "", chunkSize, chunkOverlap);
+    if (chunks.length === 0) return 0;
+    
+    // Generate embeddings for all chunks in one batch
+    const vectors = await this.generateEmbeddings(chunks.map(chunk => chunk.text), options);
+    const blocks = this.locateContentBlocks(lifelog);
+    
+    // Persist to the on-disk store
+    await this.store.put({
+      id: lifelog.id,
+      title: lifelog.title,
+      provider: this.provider.name,
+      model: this.provider.model,
+      dimensions: vectors[0].length,
+      timestamp: Date.now(),
+      startTime: lifelog.startTime,
+      contentHash: this.hashContent(lifelog.markdown || ""),
+      chunks: chunks.map((chunk, index) => {
+        // Transcript blocks overlapping the chunk
+        const covered = blocks.filter(block => block.start < chunk.end && block.end > chunk.start);
+        const speakers = Array.from(new Set(covered.map(block => block.speakerName).filter(Boolean)));
+        
+        return {
+          index,
+          ...chunk,
+          vector: vectors[index],
+          speakers: speakers.length > 0 ? speakers : undefined,
+          startTime: covered.find(block => block.startTime)?.startTime
+        };
+      })
+    });
+    
+    return chunks.length;
+  }
+  
+  // Find where each content block of a lifelog appears in its markdown, so
+  // chunks (which are cut from the markdown) can be attributed to speakers and times
+  private locateContentBlocks(lifelog: Lifelog): Array<LifelogContent & { start: number; end: number }> {
+    const markdown = lifelog.markdown || "";
+    const located: Array<LifelogContent & { start: number; end: number }> = [];
+    let cursor = 0;
+    
+    const visit = (blocks: LifelogContent[] = []) => {
+      for (const block of blocks) {
+        if (block.content) {
+          const start = markdown.indexOf(block.content, cursor);
+          if (start !== -1) {
+            located.push({ ...block, start, end: start + block.content.length });
+            cursor = start + block.content.length;
+          }
+        }
+        visit(block.children);
+      }
+    };
+    
+    visit(lifelog.contents);
+    return located;
+  }
+  
+  // Keep the BM25 index in sync with the vector store
+  private updateLexicalIndex(id: string | null, entry?: EmbeddingEntry): void {
+    if (id === null) {
+      // Store was cleared or reloaded: rebuild from scratch
+      this.lexicalIndex.clear();
+      this.lexicalDocs.clear();
+      this.store.values().forEach(emb => this.addToLexicalIndex(emb));
+      return;
+    }
+    
+    (this.lexicalDocs.get(id) || []).forEach(docId => this.lexicalIndex.remove(docId));
+    this.lexicalDocs.delete(id);
+    
+    if (entry) {
+      this.addToLexicalIndex(entry);
+    }
+  }
+  
+  private addToLexicalIndex(entry: EmbeddingEntry): void {
+    const docIds = entry.chunks.map((chunk: EmbeddedChunk) => {
+      const docId = this.chunkDocId(entry.id, chunk.index);
+      this.lexicalIndex.add(docId, chunk.text);
+      return docId;
+    });
+    this.lexicalDocs.set(entry.id, docIds);
+  }
+  
+  private chunkDocId(lifelogId: string, chunkIndex: number): string {
+    return `${lifelogId}#${chunkIndex}`;
+  }
+  
+  private parseChunkDocId(docId: string): { lifelogId: string; chunkIndex: number } {
+    const separator = docId.lastIndexOf("#");
+    return {
+      lifelogId: docId.substring(0, separator),
+      chunkIndex: parseInt(docId.substring(separator + 1), 10)
+    };
+  }
+  
+  // Whether a lifelog is missing from the index, was embedded with another
+  // model, or has changed since it was embedded
+  private needsIndexing(lifelog: Lifelog): boolean {
+    const existing = this.store.get(lifelog.id);
+    return !existing ||
+      existing.model !== this.provider.model ||
+      existing.contentHash !== this.hashContent(lifelog.markdown || "");
+  }
+  
+  private hashContent(markdown: string): string {
+    return crypto.createHash("sha1").update(markdown).digest("hex");
+  }
+  
   // Helper to fetch a lifelog by ID
-  private async getLifelog(id: string): Promise<any> {
-    // In a real implementation, this would call the Limitless API
-    // For now, we'll throw an error to indicate this needs to be implemented
-    console.error(`Would fetch lifelog with ID: ${id}`);
-    throw new Error("Lifelog fetching needs to be implemented for this plugin");
+  private async getLifelog(id: string, signal?: AbortSignal): Promise<Lifelog | undefined> {
+    const response = await this.context.callLimitlessApi(`/lifelogs/${id}`, { includeMarkdown: true }, true, { signal });
+    return response.data.lifelog;
   }
   
-  // Split text into chunks with overlap
-  private chunkText(text: string, chunkSize: number, overlap: number): string[] {
-    const chunks: string[] = [];
+  // Split text into chunks with overlap, keeping each chunk's character offsets
+  private chunkText(text: string, chunkSize: number, overlap: number): Array<{ text: string; start: number; end: number }> {
+    const chunks: Array<{ text: string; start: number; end: number }> = [];
     
     // Simple chunking strategy - split by character count with overlap
     let currentIndex = 0;
@@ -400,7 +749,7 @@ export class SemanticSearchPlugin implements LimitlessPlugin {
       
       if (chunk.length < 10) break; // Stop if chunks are too small
       
-      chunks.push(chunk);
+      chunks.push({ text: chunk, start: currentIndex, end: currentIndex + chunk.length });
       
       // Move to next position, accounting for overlap
       currentIndex += chunkSize - overlap;
@@ -409,62 +758,39 @@ export class SemanticSearchPlugin implements LimitlessPlugin {
     return chunks;
   }
   
-  // Generate embedding vector for text
-  // This is a mock implementation - in a real system you would use an embedding API
-  private async generateEmbedding(text: string): Promise<number[]> {
-    // Check if we have this embedding cached
-    const cachedVector = this.embedCache.get<number[]>(text);
-    if (cachedVector) {
-      return cachedVector;
-    }
-    
-    // In a real implementation, you would call an embedding API like:
-    // - OpenAI's text-embedding-ada-002
-    // - HuggingFace's sentence-transformers
-    // - A local embedding model
-    
-    // For this example, we'll generate a pseudo-random vector based on the text content
-    // This is NOT suitable for real semantic search but demonstrates the concept
-    const vector: number[] = [];
-    const dimension = 128; // 128-dimension vector
-    
-    // Simple deterministic embedding generation for demo
-    // In reality, you'd call an embedding model API here
-    const hash = text
-      .split('')
-      .reduce((hash, char) => ((hash << 5) - hash) + char.charCodeAt(0), 0);
+  // Generate embedding vectors for a batch of texts, reusing cached vectors
+  private async generateEmbeddings(texts: string[], options: ProgressOptions = {}): Promise<number[][]> {
+    const cacheKey = (text: string) => `${this.provider.model}:${text}`;
+    const vectors: Array<number[] | undefined> = await Promise.all(
+      texts.map(async text => (await this.embedCache.get<number[]>(cacheKey(text)))?.value)
+    );
     
-    const random = new PseudoRandom(Math.abs(hash));
+    // Embed only the texts that weren't cached
+    const missing = texts
+      .map((text, index) => ({ text, index }))
+      .filter(({ index }) => !vectors[index]);
+    const cached = texts.length - missing.length;
     
-    for (let i = 0; i < dimension; i++) {
-      // Generate values between -1 and 1 with some patterns based on text
-      vector.push(random.nextFloat() * 2 - 1);
+    if (missing.length > 0) {
+      const fresh = await this.provider.embed(missing.map(({ text }) => text), {
+        signal: options.signal,
+        onProgress: embedded => options.onProgress?.(cached + embedded, texts.length)
+      });
+      for (const [i, { text, index }] of missing.entries()) {
+        vectors[index] = fresh[i];
+        await this.embedCache.set(cacheKey(text), fresh[i], this.embedCacheTtl, []);
+      }
     }
     
-    // Normalize the vector (unit length)
-    const magnitude = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0));
-    const normalized = vector.map(val => val / magnitude);
-    
-    // Cache the result
-    this.embedCache.set(text, normalized);
-    
-    return normalized;
+    // Every text is now either cached or freshly embedded
+    return vectors as number[][];
   }
   
-  // Calculate cosine similarity between two vectors
-  private cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length) {
-      throw new Error("Vectors must have the same length");
-    }
-    
-    // Calculate dot product
-    let dotProduct = 0;
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-    }
-    
-    // The vectors are already normalized, so the dot product is the cosine similarity
-    return dotProduct;
+  // Format a byte count in a human-readable way
+  private formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
   }
   
   // Format time difference in a human-readable way
@@ -488,24 +814,4 @@ export class SemanticSearchPlugin implements LimitlessPlugin {
     const days = Math.floor(hours / 24);
     return `${days} days`;
   }
-}
-
-// Simple deterministic random number generator for demo purposes
-class PseudoRandom {
-  private seed: number;
-  
-  constructor(seed: number) {
-    this.seed = seed;
-  }
-  
-  // Linear congruential generator
-  next(): number {
-    this.seed = (this.seed * 9301 + 49297) % 233280;
-    return this.seed / 233280;
-  }
-  
-  // Random float between 0 and 1
-  nextFloat(): number {
-    return this.next();
-  }
 }
\ No newline at end of file
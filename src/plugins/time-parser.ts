@@ -1,6 +1,8 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { LimitlessPlugin } from "./types";
+import { LimitlessPlugin, PluginContext } from "./types";
+import { parseDateTimeInTimezone } from "../utils/time";
+import { toolError, toolResult } from "../tools/schemas.js";
 
 /**
  * A plugin that provides natural language time reference parsing
@@ -10,20 +12,31 @@ export class TimeParserPlugin implements LimitlessPlugin {
   description = "Parses natural language time references into specific date ranges";
   version = "1.0.0";
   
-  private server?: McpServer;
   private config: Record<string, any> = {};
+  private context?: PluginContext;
   
-  async initialize(server: McpServer, config: Record<string, any>): Promise<void> {
-    this.server = server;
+  async initialize(config: Record<string, any>, context: PluginContext): Promise<void> {
     this.config = config;
-    
+    this.context = context;
+  }
+  
+  registerTools(server: McpServer): void {
     // Register tool for parsing natural language time references
-    server.tool(
+    server.registerTool(
       "parse_time_reference",
       {
-        timeReference: z.string().describe("Natural language time reference (e.g., 'yesterday', 'last week')"),
-        timezone: z.string().optional().describe("IANA timezone specifier (e.g., 'America/New_York')"),
-        referenceDate: z.string().optional().describe("Reference date in YYYY-MM-DD format (defaults to today)")
+        inputSchema: {
+          timeReference: z.string().describe("Natural language time reference (e.g., 'yesterday', 'last week')"),
+          timezone: z.string().optional().describe("IANA timezone specifier (e.g., 'America/New_York')"),
+          referenceDate: z.string().optional().describe("Reference date in YYYY-MM-DD format (defaults to today)")
+        },
+        outputSchema: {
+          timeReference: z.string(),
+          timezone: z.string(),
+          referenceDate: z.string().describe("Reference date as an ISO-8601 timestamp"),
+          start: z.string().describe("Start of the range (ISO-8601, UTC)"),
+          end: z.string().describe("End of the range (ISO-8601, UTC)")
+        }
       },
       async ({ timeReference, timezone = "UTC", referenceDate }) => {
         try {
@@ -38,12 +51,7 @@ export class TimeParserPlugin implements LimitlessPlugin {
           
           // Make sure the reference date is valid
           if (isNaN(refDate.getTime())) {
-            return {
-              content: [{
-                type: "text",
-                text: `Invalid reference date: ${referenceDate}`
-              }]
-            };
+            return toolError(`Invalid reference date: ${referenceDate}`);
           }
           
           // Apply timezone if provided
@@ -59,12 +67,7 @@ export class TimeParserPlugin implements LimitlessPlugin {
               // If this doesn't throw, timezone is valid
               refDate.toLocaleString('en-US', { timeZone: timezone });
             } catch (error) {
-              return {
-                content: [{
-                  type: "text",
-                  text: `Invalid timezone: ${timezone}`
-                }]
-              };
+              return toolError(`Invalid timezone: ${timezone}`);
             }
           }
           
@@ -72,12 +75,7 @@ export class TimeParserPlugin implements LimitlessPlugin {
           const result = this.parseTimeReference(timeReference, refDate, timezone);
           
           if (!result.success || !result.start || !result.end) {
-            return {
-              content: [{
-                type: "text",
-                text: result.error || "Unable to parse time reference."
-              }]
-            };
+            return toolError(result.error || "Unable to parse time reference.");
           }
           
           // Format the date range nicely
@@ -99,50 +97,54 @@ export class TimeParserPlugin implements LimitlessPlugin {
           const startISO = start.toISOString();
           const endISO = end.toISOString();
           
-          return {
-            content: [{
-              type: "text",
-              text: `# Parsed Time Reference: "${timeReference}"\n\n` +
-                   `Reference Date: ${refDate.toLocaleDateString('en-US', { timeZone: timezone })}\n` +
-                   `Timezone: ${timezone}\n\n` +
-                   `## Results\n\n` +
-                   `- **Start**: ${startFormatted}\n` +
-                   `- **End**: ${endFormatted}\n\n` +
-                   `## ISO Formatted (for API use)\n\n` +
-                   `- **Start**: \`${startISO}\`\n` +
-                   `- **End**: \`${endISO}\`\n\n` +
-                   `## Search Parameters\n\n` +
-                   `\`\`\`json\n` +
-                   `{\n` +
-                   `  "start": "${startISO}",\n` +
-                   `  "end": "${endISO}",\n` +
-                   `  "timezone": "${timezone}"\n` +
-                   `}\n` +
-                   `\`\`\``
-            }]
-          };
+          return toolResult(
+            `# Parsed Time Reference: "${timeReference}"\n\n` +
+              `Reference Date: ${refDate.toLocaleDateString('en-US', { timeZone: timezone })}\n` +
+              `Timezone: ${timezone}\n\n` +
+              `## Results\n\n` +
+              `- **Start**: ${startFormatted}\n` +
+              `- **End**: ${endFormatted}\n\n` +
+              `## ISO Formatted (for API use)\n\n` +
+              `- **Start**: \`${startISO}\`\n` +
+              `- **End**: \`${endISO}\`\n\n` +
+              `## Search Parameters\n\n` +
+              `\`\`\`json\n` +
+              `{\n` +
+              `  "start": "${startISO}",\n` +
+              `  "end": "${endISO}",\n` +
+              `  "timezone": "${timezone}"\n` +
+              `}\n` +
+              `\`\`\``,
+            { timeReference, timezone, referenceDate: refDate.toISOString(), start: startISO, end: endISO }
+          );
           
         } catch (error) {
           console.error(`Error parsing time reference:`, error);
-          return {
-            content: [{
-              type: "text",
-              text: `Error parsing time reference: ${error}`
-            }]
-          };
+          return toolError(`Error parsing time reference: ${error}`);
         }
       }
     );
     
     // Register tool for search with natural language time
-    server.tool(
+    server.registerTool(
       "search_with_time",
       {
-        query: z.string().describe("Search query text"),
-        timeReference: z.string().describe("Natural language time reference (e.g., 'yesterday', 'last week')"),
-        timezone: z.string().optional().describe("IANA timezone specifier"),
-        limit: z.number().optional(),
-        includeContent: z.boolean().default(false).describe("Whether to include content in results")
+        inputSchema: {
+          query: z.string().describe("Search query text"),
+          timeReference: z.string().describe("Natural language time reference (e.g., 'yesterday', 'last week')"),
+          timezone: z.string().optional().describe("IANA timezone specifier"),
+          limit: z.number().optional(),
+          includeContent: z.boolean().default(false).describe("Whether to include content in results")
+        },
+        outputSchema: {
+          query: z.string(),
+          timeReference: z.string(),
+          timezone: z.string(),
+          start: z.string().describe("Start of the searched range (ISO-8601, UTC)"),
+          end: z.string().describe("End of the searched range (ISO-8601, UTC)"),
+          limit: z.number(),
+          includeContent: z.boolean()
+        }
       },
       async ({ query, timeReference, timezone = "UTC", limit = 10, includeContent }) => {
         try {
@@ -151,12 +153,7 @@ export class TimeParserPlugin implements LimitlessPlugin {
           const timeResult = this.parseTimeReference(timeReference, refDate, timezone);
           
           if (!timeResult.success || !timeResult.start || !timeResult.end) {
-            return {
-              content: [{
-                type: "text",
-                text: timeResult.error || "Unable to parse time reference."
-              }]
-            };
+            return toolError(timeResult.error || "Unable to parse time reference.");
           }
           
           // Format the date range for display
@@ -165,34 +162,35 @@ export class TimeParserPlugin implements LimitlessPlugin {
           // The actual search call would happen here
           // In a real implementation, this would call the Limitless API
           
-          return {
-            content: [{
-              type: "text",
-              text: `# Search Results for "${query}" during ${timeReference}\n\n` +
-                   `Time period: ${start.toLocaleString()} to ${end.toLocaleString()}\n\n` +
-                   `The search would be performed with these parameters:\n\n` +
-                   `\`\`\`json\n` +
-                   `{\n` +
-                   `  "query": "${query}",\n` +
-                   `  "start": "${start.toISOString()}",\n` +
-                   `  "end": "${end.toISOString()}",\n` +
-                   `  "timezone": "${timezone}",\n` +
-                   `  "limit": ${limit},\n` +
-                   `  "includeContent": ${includeContent}\n` +
-                   `}\n` +
-                   `\`\`\`\n\n` +
-                   `Note: This is a placeholder response. The actual search functionality would call the Limitless API.`
-            }]
-          };
+          return toolResult(
+            `# Search Results for "${query}" during ${timeReference}\n\n` +
+              `Time period: ${start.toLocaleString()} to ${end.toLocaleString()}\n\n` +
+              `The search would be performed with these parameters:\n\n` +
+              `\`\`\`json\n` +
+              `{\n` +
+              `  "query": "${query}",\n` +
+              `  "start": "${start.toISOString()}",\n` +
+              `  "end": "${end.toISOString()}",\n` +
+              `  "timezone": "${timezone}",\n` +
+              `  "limit": ${limit},\n` +
+              `  "includeContent": ${includeContent}\n` +
+              `}\n` +
+              `\`\`\`\n\n` +
+              `Note: This is a placeholder response. The actual search functionality would call the Limitless API.`,
+            {
+              query,
+              timeReference,
+              timezone,
+              start: start.toISOString(),
+              end: end.toISOString(),
+              limit,
+              includeContent
+            }
+          );
           
         } catch (error) {
           console.error(`Error searching with time reference:`, error);
-          return {
-            content: [{
-              type: "text",
-              text: `Error searching with time reference: ${error}`
-            }]
-          };
+          return toolError(`Error searching with time reference: ${error}`);
         }
       }
     );
@@ -226,10 +224,11 @@ export class TimeParserPlugin implements LimitlessPlugin {
     // For creating dates in the specified timezone
     const createDate = (year: number, month: number, day: number, hour: number = 0, minute: number = 0): Date => {
       const date = new Date(Date.UTC(year, month, day, hour, minute));
-      // Apply timezone adjustment
-      const offset = this.getTimezoneOffset(timezone, date);
-      date.setTime(date.getTime() - offset);
-      return date;
+      // Shift wall-clock time in the timezone to UTC
+      return parseDateTimeInTimezone(
+        date.toISOString().substring(0, 19).replace("T", " "),
+        timezone
+      );
     };
     
     // Get reference date components
@@ -601,50 +600,4 @@ export class TimeParserPlugin implements LimitlessPlugin {
       };
     }
   }
-  
-  // Helper to get timezone offset in milliseconds
-  private getTimezoneOffset(timezone: string, date: Date): number {
-    try {
-      // Get the time in the specified timezone
-      const options: Intl.DateTimeFormatOptions = {
-        timeZone: timezone,
-        year: 'numeric',
-        month: 'numeric',
-        day: 'numeric',
-        hour: 'numeric',
-        minute: 'numeric',
-        second: 'numeric',
-        hour12: false
-      };
-      
-      // Use the formatter to get date parts in the target timezone
-      const formatter = new Intl.DateTimeFormat('en-US', options);
-      const parts = formatter.formatToParts(date);
-      
-      // Extract the date components
-      const timeParts: Record<string, number> = {};
-      parts.forEach(part => {
-        if (part.type !== 'literal') {
-          timeParts[part.type] = parseInt(part.value, 10);
-        }
-      });
-      
-      // Create a date in UTC with these components
-      const targetDate = Date.UTC(
-        timeParts.year,
-        timeParts.month - 1, // JavaScript months are 0-indexed
-        timeParts.day,
-        timeParts.hour,
-        timeParts.minute,
-        timeParts.second
-      );
-      
-      // Calculate the offset
-      return date.getTime() - targetDate;
-      
-    } catch (error) {
-      console.error(`Error calculating timezone offset:`, error);
-      return 0; // Default to no offset
-    }
-  }
 }
\ No newline at end of file
@@ -1,5 +1,36 @@
 import { z } from 'zod';
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ApiCallOptions, LimitlessConfig, LifelogResponse } from "../types";
+import { TieredCache } from "../cache";
+import { createPluginContext } from "./context";
+
+// Logger handed to plugins (writes to stderr, prefixed with the plugin name)
+export interface PluginLogger {
+  debug(message: string, ...args: unknown[]): void;
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+}
+
+// Shared services available to every plugin
+export interface PluginContext {
+  // Cached, retrying Limitless API client shared with the built-in tools
+  callLimitlessApi(
+    path: string,
+    qs?: Record<string, unknown>,
+    useCache?: boolean,
+    options?: ApiCallOptions
+  ): Promise<LifelogResponse>;
+  
+  // Shared response cache (memory, plus disk when enabled)
+  cache: TieredCache;
+  
+  // Server configuration
+  config: LimitlessConfig;
+  
+  // Logger scoped to the plugin
+  logger: PluginLogger;
+}
 
 // Define the interface that all plugins must implement
 export interface LimitlessPlugin {
@@ -12,8 +43,12 @@ export interface LimitlessPlugin {
   // Version of the plugin
   version: string;
   
-  // Initialize the plugin
-  initialize(server: McpServer, config: Record<string, any>): Promise<void>;
+  // Initialize the plugin's state (called once per process)
+  initialize(config: Record<string, any>, context: PluginContext): Promise<void>;
+  
+  // Register the plugin's tools on a server. Called for every server instance
+  // (once over stdio, once per session over HTTP), sharing the plugin's state.
+  registerTools(server: McpServer): void;
   
   // Shutdown the plugin (optional)
   shutdown?(): Promise<void>;
@@ -35,11 +70,16 @@ export class PluginRegistry {
     options: PluginRegistrationOptions
   }> = new Map();
   
-  private server?: McpServer;
+  private servers: McpServer[] = [];
   
-  // Register the server instance
-  setServer(server: McpServer): void {
-    this.server = server;
+  // Add a server instance and register the tools of all enabled plugins on it
+  addServer(server: McpServer): void {
+    this.servers.push(server);
+    for (const { plugin, options } of this.plugins.values()) {
+      if (options.enabled) {
+        plugin.registerTools(server);
+      }
+    }
   }
   
   // Register a plugin with options
@@ -53,31 +93,14 @@ export class PluginRegistry {
     
     this.plugins.set(plugin.name, { plugin, options });
     
-    // Initialize immediately if server is available and plugin is enabled
-    if (this.server && options.enabled) {
-      await plugin.initialize(this.server, options.config);
+    // Initialize immediately if plugin is enabled, and add its tools to existing servers
+    if (options.enabled) {
+      await plugin.initialize(options.config, createPluginContext(plugin.name));
+      this.servers.forEach(server => plugin.registerTools(server));
       console.error(`Plugin ${plugin.name} v${plugin.version} initialized`);
     }
   }
   
-  // Initialize all enabled plugins
-  async initializePlugins(server: McpServer): Promise<void> {
-    if (!this.server) {
-      this.server = server;
-    }
-    
-    for (const [name, { plugin, options }] of this.plugins.entries()) {
-      if (options.enabled) {
-        try {
-          await plugin.initialize(server, options.config);
-          console.error(`Plugin ${name} v${plugin.version} initialized`);
-        } catch (error) {
-          console.error(`Failed to initialize plugin ${name}: ${error}`);
-        }
-      }
-    }
-  }
-  
   // Shutdown all plugins that implement shutdown
   async shutdownPlugins(): Promise<void> {
     for (const [name, { plugin, options }] of this.plugins.entries()) {
@@ -117,10 +140,9 @@ export class PluginRegistry {
     if (!entry.options.enabled) {
       entry.options.enabled = true;
       
-      if (this.server) {
-        await entry.plugin.initialize(this.server, entry.options.config);
-        console.error(`Plugin ${name} enabled and initialized`);
-      }
+      await entry.plugin.initialize(entry.options.config, createPluginContext(name));
+      this.servers.forEach(server => entry.plugin.registerTools(server));
+      console.error(`Plugin ${name} enabled and initialized`);
     }
   }
   
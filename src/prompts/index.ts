@@ -0,0 +1,233 @@
+/**
+ * MCP prompts for common lifelog workflows
+ *
+ * Each prompt gathers its context with the same functions that back the
+ * server's tools and embeds their text output, so a client gets a
+ * ready-to-send message in one step. Lifelog IDs are taken from the tools'
+ * structured content.
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { McpError, ErrorCode } from "../utils/errors";
+import { addDays, formatDateInTimezone } from "../utils/time";
+import { extractLifelogTopics } from "../tools/analysis-tools.js";
+import { ToolExtra } from "../tools/progress.js";
+import { generateTranscript, searchLifelogs } from "../tools/lifelog-tools.js";
+import { DEFAULT_TIMEZONE, getDaySummary, getTimeSummary } from "../tools/time-tools.js";
+
+const dateArg = (description: string) =>
+  z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date in YYYY-MM-DD format").describe(description);
+
+const timezoneArg = z.string().optional().describe(`IANA timezone specifier (default: ${DEFAULT_TIMEZONE})`);
+
+// Most transcripts embedded by the action item sweep
+const MAX_SWEEP_TRANSCRIPTS = 10;
+
+// Longest range of days the action item sweep looks at
+const MAX_SWEEP_DAYS = 31;
+
+// Most transcripts embedded when preparing for a meeting
+const MAX_MEETING_PREP_TRANSCRIPTS = 3;
+
+/**
+ * Register the prompt catalog on the MCP server
+ */
+export function registerPrompts(server: McpServer): void {
+  // Review of one day: what happened, what was decided, what's left to do
+  server.prompt(
+    "daily_review",
+    "Review a day of lifelogs: highlights, decisions and follow-ups",
+    {
+      date: dateArg("Day to review in YYYY-MM-DD format (default: today)").optional(),
+      timezone: timezoneArg
+    },
+    async ({ date, timezone = DEFAULT_TIMEZONE }, extra) => {
+      const day = date || formatDateInTimezone(new Date(), timezone);
+      const summary = await getDaySummary({ date: day, timezone }, extra);
+      const ids = summary.structuredContent.lifelogs.map(lifelog => lifelog.id);
+
+      const sections: PromptSection[] = [["Day summary", textOf(summary)]];
+      if (ids.length > 0) {
+        sections.push(["Topics", textOf(await topicsOf(ids, 10, extra))]);
+      }
+
+      return userPrompt(
+        `Please write a review of my day on ${day} based on my recorded conversations below. ` +
+        `Cover the main things I did and talked about, any decisions that were made, and the follow-ups ` +
+        `I should not forget. Keep it concise and only use what is in the recordings.`,
+        sections
+      );
+    }
+  );
+
+  // Recap of a single recorded meeting
+  server.prompt(
+    "meeting_recap",
+    "Recap a recorded meeting: summary, decisions, action items and open questions",
+    {
+      id: z.string().describe("ID of the lifelog with the meeting")
+    },
+    async ({ id }, extra) => {
+      const transcript = textOf(await generateTranscript({ id, format: "dialogue" }));
+      const topics = textOf(await topicsOf([id], 10, extra));
+
+      return userPrompt(
+        `Please write a recap of the meeting in the transcript below with these sections: ` +
+        `a short summary, decisions made, action items (with who owns each one, if it was said), ` +
+        `and open questions.`,
+        [["Transcript", transcript], ["Topics", topics]]
+      );
+    }
+  );
+
+  // Reflection on the seven days up to a date
+  server.prompt(
+    "weekly_reflection",
+    "Reflect on a week of lifelogs: themes, time spent and what to change",
+    {
+      end: dateArg("Last day of the week in YYYY-MM-DD format (default: today)").optional(),
+      timezone: timezoneArg
+    },
+    async ({ end, timezone = DEFAULT_TIMEZONE }, extra) => {
+      const lastDay = end || formatDateInTimezone(new Date(), timezone);
+      const firstDay = addDays(lastDay, -6);
+
+      const timeSummary = textOf(await getTimeSummary({ start: firstDay, end: lastDay, timezone, groupBy: "day" }, extra));
+
+      const days: string[] = [];
+      const ids: string[] = [];
+      for (let day = firstDay; day <= lastDay; day = addDays(day, 1)) {
+        const summary = await getDaySummary({ date: day, timezone }, extra);
+        const dayIds = summary.structuredContent.lifelogs.map(lifelog => lifelog.id);
+        if (dayIds.length > 0) {
+          days.push(textOf(summary));
+          ids.push(...dayIds);
+        }
+      }
+
+      const sections: PromptSection[] = [["Recording time", timeSummary]];
+      if (ids.length > 0) {
+        sections.push(["Topics", textOf(await topicsOf(ids, 15, extra))]);
+      }
+      sections.push(["Days", days.length > 0 ? days.join("\n") : `No lifelogs found from ${firstDay} to ${lastDay}.`]);
+
+      return userPrompt(
+        `Please help me reflect on my week from ${firstDay} to ${lastDay} using my recorded conversations below. ` +
+        `What were the recurring themes? Where did my time go? What went well, what didn't, ` +
+        `and what should I do differently next week?`,
+        sections
+      );
+    }
+  );
+
+  // Briefing before meeting someone, from past conversations that mention them
+  server.prompt(
+    "prepare_for_meeting",
+    "Prepare for a meeting with someone from past conversations that mention them",
+    {
+      person: z.string().describe("Name of the person you are meeting"),
+      since: dateArg("Only look at conversations from this date on, in YYYY-MM-DD format (default: the most recent lifelogs)").optional(),
+      timezone: timezoneArg
+    },
+    async ({ person, since, timezone = DEFAULT_TIMEZONE }, extra) => {
+      const search = await searchLifelogs({
+        query: person,
+        timezone,
+        searchMode: "advanced",
+        includeSnippets: true,
+        ...(since ? { start: since, end: addDays(formatDateInTimezone(new Date(), timezone), 1) } : {})
+      }, extra);
+
+      const sections: PromptSection[] = [["Conversations mentioning " + person, textOf(search)]];
+      for (const { id } of search.structuredContent.results.slice(0, MAX_MEETING_PREP_TRANSCRIPTS)) {
+        sections.push([`Transcript ${id}`, textOf(await generateTranscript({ id, format: "dialogue" }))]);
+      }
+
+      return userPrompt(
+        `I have a meeting with ${person} coming up. Based on my past conversations below, please brief me: ` +
+        `what we have discussed before, commitments either of us made, open threads to follow up on, ` +
+        `and good topics to raise.`,
+        sections
+      );
+    }
+  );
+
+  // Every action item from a range of days
+  server.prompt(
+    "action_item_sweep",
+    "Collect the action items and commitments from a range of days",
+    {
+      start: dateArg("First day in YYYY-MM-DD format (default: today)").optional(),
+      end: dateArg("Last day in YYYY-MM-DD format (default: the start day)").optional(),
+      timezone: timezoneArg
+    },
+    async ({ start, end, timezone = DEFAULT_TIMEZONE }, extra) => {
+      const firstDay = start || formatDateInTimezone(new Date(), timezone);
+      const lastDay = end || firstDay;
+      if (lastDay < firstDay) {
+        throw new McpError(`End date ${lastDay} is before start date ${firstDay}`, ErrorCode.INVALID_REQUEST);
+      }
+
+      const days: string[] = [];
+      for (let day = firstDay; day <= lastDay; day = addDays(day, 1)) {
+        days.push(day);
+        if (days.length > MAX_SWEEP_DAYS) {
+          throw new McpError(`Cannot sweep more than ${MAX_SWEEP_DAYS} days at once`, ErrorCode.INVALID_REQUEST);
+        }
+      }
+
+      const ids: string[] = [];
+      for (const day of days) {
+        const summary = await getDaySummary({ date: day, timezone }, extra);
+        ids.push(...summary.structuredContent.lifelogs.map(lifelog => lifelog.id));
+      }
+
+      const sections: PromptSection[] = [];
+      for (const id of ids.slice(0, MAX_SWEEP_TRANSCRIPTS)) {
+        sections.push([`Transcript ${id}`, textOf(await generateTranscript({ id, format: "dialogue" }))]);
+      }
+
+      if (sections.length === 0) {
+        sections.push(["Transcripts", `No lifelogs found from ${firstDay} to ${lastDay}.`]);
+      } else if (ids.length > MAX_SWEEP_TRANSCRIPTS) {
+        sections.push(["Note", `Only the first ${MAX_SWEEP_TRANSCRIPTS} of ${ids.length} lifelogs are included.`]);
+      }
+
+      const range = firstDay === lastDay ? `on ${firstDay}` : `from ${firstDay} to ${lastDay}`;
+      return userPrompt(
+        `Please go through my conversations ${range} below and list every action item, commitment ` +
+        `and promised follow-up. For each one, give who owns it, the deadline if one was mentioned, ` +
+        `and the lifelog ID it came from. Group them by owner.`,
+        sections
+      );
+    }
+  );
+}
+
+type PromptSection = [title: string, text: string];
+
+// A single user message: the instructions followed by the context sections
+function userPrompt(instructions: string, sections: PromptSection[]): GetPromptResult {
+  const context = sections.map(([title, text]) => `## ${title}\n\n${text.trim()}`).join("\n\n");
+
+  return {
+    messages: [{
+      role: "user",
+      content: {
+        type: "text",
+        text: `${instructions}\n\n${context}`
+      }
+    }]
+  };
+}
+
+// Topics mentioned at least twice across the lifelogs, as extract_topics finds them
+function topicsOf(ids: string[], maxTopics: number, extra: ToolExtra) {
+  return extractLifelogTopics({ ids, maxTopics, minOccurrences: 2, mode: "keywords", excludeCommonWords: true }, extra);
+}
+
+// The text output of a tool result
+function textOf(result: { content: Array<{ type: "text"; text: string }> }): string {
+  return result.content.map(item => item.text).join("\n");
+}
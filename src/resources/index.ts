@@ -0,0 +1,248 @@
+/**
+ * MCP resources for Limitless MCP
+ *
+ * - `lifelogs://{id}`: a lifelog's markdown
+ * - `lifelogs://{id}/transcript`: its dialogue transcript
+ * - `lifelogs://{id}/metadata`: its metadata as JSON
+ * - `lifelogs://day/{date}`: every lifelog of a day
+ * - `lifelogs://range/{start}/{end}`: every lifelog in a time range
+ *
+ * Day and range resources take an optional `?timezone=` query parameter.
+ * The resource listing pages through the whole history, newest first.
+ * Clients can subscribe to any of them (see subscriptions.ts).
+ */
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ListResourcesRequestSchema, ListResourcesResult } from "@modelcontextprotocol/sdk/types.js";
+import { McpError, ErrorCode } from "../utils/errors";
+import callLimitlessApi, { fetchAllLifelogs } from "../api/client";
+import config from "../config";
+import { Lifelog, LifelogListParams } from "../types";
+import { formatTranscript, getLifelogMetadata } from "../utils";
+import { formatDateInTimezone } from "../utils/time";
+import { DEFAULT_TIMEZONE } from "../tools/time-tools.js";
+import { registerSubscriptions, watchResourceList } from "./subscriptions.js";
+
+// Most lifelogs included in a day or range resource
+const MAX_COLLECTION_LIFELOGS = 100;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Register resource templates, the paginated resource listing and subscriptions
+ */
+export function registerResources(server: McpServer): void {
+  // Templates are matched in registration order, so the fixed prefixes go first
+  server.resource(
+    "lifelogs-day",
+    new ResourceTemplate("lifelogs://day/{date}", { list: undefined }),
+    { description: "Every lifelog of a day (YYYY-MM-DD), as markdown. Add ?timezone= to choose the day's timezone.", mimeType: "text/markdown" },
+    async (uri: URL) => {
+      const date = decodeURIComponent(uri.pathname.replace(/^\//, ""));
+      if (!DATE_PATTERN.test(date)) {
+        throw new McpError(`Invalid date "${date}", expected YYYY-MM-DD`, ErrorCode.InvalidParams);
+      }
+
+      const timezone = uri.searchParams.get("timezone") || DEFAULT_TIMEZONE;
+      const { lifelogs, truncated } = await fetchLifelogs({ date, timezone });
+
+      const formattedDate = new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", {
+        weekday: "long",
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+        timeZone: "UTC"
+      });
+
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: "text/markdown",
+          text: formatCollection(`Lifelogs for ${formattedDate}`, lifelogs, timezone, truncated)
+        }]
+      };
+    }
+  );
+
+  server.resource(
+    "lifelogs-range",
+    new ResourceTemplate("lifelogs://range/{start}/{end}", { list: undefined }),
+    { description: "Every lifelog from start to end (YYYY-MM-DD or YYYY-MM-DD HH:mm:SS; a bare end date includes that day), as markdown. Add ?timezone= to choose the timezone.", mimeType: "text/markdown" },
+    async (uri: URL) => {
+      const [start, end] = uri.pathname.replace(/^\//, "").split("/").map(part => decodeURIComponent(part));
+      if (!start || !end) {
+        throw new McpError(`Invalid range resource ${uri.href}, expected lifelogs://range/{start}/{end}`, ErrorCode.InvalidParams);
+      }
+
+      const timezone = uri.searchParams.get("timezone") || DEFAULT_TIMEZONE;
+      const { lifelogs, truncated } = await fetchLifelogs({ start, end, timezone });
+
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: "text/markdown",
+          text: formatCollection(`Lifelogs from ${start} to ${end}`, lifelogs, timezone, truncated)
+        }]
+      };
+    }
+  );
+
+  server.resource(
+    "lifelog-transcript",
+    new ResourceTemplate("lifelogs://{id}/transcript", { list: undefined }),
+    { description: "A lifelog's dialogue transcript", mimeType: "text/markdown" },
+    async (uri: URL, { id }) => {
+      const lifelog = await fetchLifelog(String(id));
+      return {
+        contents: [{ uri: uri.href, mimeType: "text/markdown", text: formatTranscript(lifelog, "dialogue") }]
+      };
+    }
+  );
+
+  server.resource(
+    "lifelog-metadata",
+    new ResourceTemplate("lifelogs://{id}/metadata", { list: undefined }),
+    { description: "A lifelog's metadata (times, duration, content types and speakers) as JSON", mimeType: "application/json" },
+    async (uri: URL, { id }) => {
+      const lifelog = await fetchLifelog(String(id));
+      return {
+        contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(getLifelogMetadata(lifelog), null, 2) }]
+      };
+    }
+  );
+
+  server.resource(
+    "lifelogs",
+    new ResourceTemplate("lifelogs://{id}", { list: undefined }),
+    { description: "A lifelog's markdown", mimeType: "text/markdown" },
+    async (uri: URL) => {
+      const id = uri.host;                             // lifelogs://<id>
+      const response = await callLimitlessApi(`/lifelogs/${id}`);
+      const lifelog = response.data.lifelog;
+      return {
+        contents: [{ uri: uri.href, mimeType: "text/markdown", text: lifelog?.markdown ?? "(empty)" }]
+      };
+    }
+  );
+
+  // McpServer's own listing has no pagination, so replace it with one that
+  // follows the API's cursors through the whole history
+  server.server.setRequestHandler(ListResourcesRequestSchema, async request => {
+    watchResourceList(server);
+    return listResources(request.params?.cursor);
+  });
+
+  registerSubscriptions(server);
+}
+
+/**
+ * One page of the resource listing: each lifelog, preceded by its day's
+ * resource when the lifelog is the newest of its day
+ */
+async function listResources(cursor?: string): Promise<ListResourcesResult> {
+  const position = decodeListCursor(cursor);
+
+  const response = await callLimitlessApi("/lifelogs", {
+    limit: config.DEFAULT_PAGE_SIZE,
+    direction: "desc",
+    includeMarkdown: false,
+    cursor: position.cursor
+  });
+
+  const resources: ListResourcesResult["resources"] = [];
+  let lastDay = position.lastDay;
+
+  for (const lifelog of response.data.lifelogs || []) {
+    const day = lifelog.startTime ? formatDateInTimezone(lifelog.startTime, DEFAULT_TIMEZONE) : undefined;
+    if (day && day !== lastDay) {
+      resources.push({
+        uri: `lifelogs://day/${day}`,
+        name: `Lifelogs for ${day}`,
+        description: `Every lifelog of ${day} (${DEFAULT_TIMEZONE})`,
+        mimeType: "text/markdown"
+      });
+      lastDay = day;
+    }
+
+    resources.push({
+      uri: `lifelogs://${lifelog.id}`,
+      name: lifelog.title,
+      description: lifelog.startTime ? `${lifelog.title} (${lifelog.startTime})` : lifelog.title,
+      mimeType: "text/markdown"
+    });
+  }
+
+  const nextCursor = response.meta?.lifelogs?.nextCursor;
+  return {
+    resources,
+    ...(nextCursor ? { nextCursor: encodeListCursor({ cursor: nextCursor, lastDay }) } : {})
+  };
+}
+
+interface ListPosition {
+  // API cursor of the next page
+  cursor?: string;
+  // Day of the last listed lifelog, so a day spanning two pages is listed once
+  lastDay?: string;
+}
+
+function encodeListCursor(position: ListPosition): string {
+  return Buffer.from(JSON.stringify(position)).toString("base64url");
+}
+
+function decodeListCursor(cursor?: string): ListPosition {
+  if (!cursor) return {};
+
+  try {
+    const position = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof position?.cursor === "string") {
+      return position;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new McpError(`Invalid resource list cursor: ${cursor}`, ErrorCode.InvalidParams);
+}
+
+// Fetch a lifelog with its content blocks
+async function fetchLifelog(id: string): Promise<Lifelog> {
+  const response = await callLimitlessApi(`/lifelogs/${encodeURIComponent(id)}`);
+  const lifelog = response.data.lifelog;
+  if (!lifelog) {
+    throw new McpError(`No lifelog found with ID: ${id}`, ErrorCode.NotFound);
+  }
+  return lifelog;
+}
+
+// Fetch every lifelog matching a listing query, oldest first, up to MAX_COLLECTION_LIFELOGS
+function fetchLifelogs(params: LifelogListParams): Promise<{ lifelogs: Lifelog[]; truncated: boolean }> {
+  return fetchAllLifelogs(
+    { ...params, direction: "asc", includeMarkdown: true },
+    { maxItems: MAX_COLLECTION_LIFELOGS, pageSize: Math.min(config.MAX_LIFELOG_LIMIT, 10) }
+  );
+}
+
+// Markdown of several lifelogs under one heading
+function formatCollection(heading: string, lifelogs: Lifelog[], timezone: string, truncated: boolean): string {
+  let text = `# ${heading}\n\n`;
+
+  if (lifelogs.length === 0) {
+    return text + `No lifelogs found.\n`;
+  }
+
+  text += `${lifelogs.length} lifelogs (times in ${timezone})`;
+  text += truncated ? `; only the first ${MAX_COLLECTION_LIFELOGS} are included, use a narrower range for the rest.\n\n` : `.\n\n`;
+
+  lifelogs.forEach(lifelog => {
+    const time = lifelog.startTime ? new Date(lifelog.startTime).toLocaleString("en-US", {
+      dateStyle: "medium",
+      timeStyle: "short",
+      timeZone: timezone
+    }) : "Unknown time";
+
+    text += `---\n\n`;
+    text += `_${time} · lifelogs://${lifelog.id}_\n\n`;
+    text += `${(lifelog.markdown || `# ${lifelog.title}`).trim()}\n\n`;
+  });
+
+  return text;
+}
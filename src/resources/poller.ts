@@ -0,0 +1,198 @@
+/**
+ * Poller that watches `/lifelogs` for new and updated lifelogs, so resource
+ * subscribers can be notified instead of polling themselves
+ */
+import crypto from "crypto";
+import { Lifelog, LifelogResponse } from "../types";
+
+// Recordings keep changing while they are processed, so every poll re-checks
+// the lifelogs that started this long before the newest one
+const RECHECK_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Most pages walked by a single poll
+const MAX_POLL_PAGES = 10;
+
+export interface PollerOptions {
+  // API client used to list /lifelogs
+  callApi(path: string, qs?: Record<string, unknown>, useCache?: boolean): Promise<LifelogResponse>;
+
+  // Delay between polls in milliseconds
+  intervalMs: number;
+
+  // Longest delay between polls after repeated failures
+  maxBackoffMs: number;
+
+  // Page size used when listing /lifelogs
+  pageSize: number;
+
+  // Called after a poll that found new or updated lifelogs
+  onChanges(changes: LifelogChanges): Promise<void>;
+
+  log(message: string): void;
+}
+
+export interface LifelogChanges {
+  // Lifelogs seen for the first time
+  added: Lifelog[];
+  // Known lifelogs whose content changed
+  updated: Lifelog[];
+}
+
+export interface PollerStatus {
+  running: boolean;
+  // Lifelogs in the re-check window, whose content is compared on every poll
+  watched: number;
+  lastPollAt?: string;
+  nextPollAt?: string;
+  // Failed polls in a row; each one doubles the delay up to maxBackoffMs
+  failures: number;
+  lastError?: string;
+}
+
+/**
+ * Periodically lists the newest lifelogs and reports the ones that are new or
+ * whose content changed since the previous poll. The first poll only records
+ * what is there.
+ */
+export class LifelogPoller {
+  private options: PollerOptions;
+  private timer?: NodeJS.Timeout;
+
+  // Whether polls are scheduled (between start() and stop())
+  private active = false;
+
+  // Content hash by lifelog ID, for the lifelogs in the re-check window
+  private hashes?: Map<string, string>;
+
+  // Start time of the newest lifelog seen so far
+  private newestStart?: number;
+
+  private status: PollerStatus = { running: false, watched: 0, failures: 0 };
+
+  constructor(options: PollerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Schedule the first poll right away, then one every interval
+   */
+  start(): void {
+    if (this.active) return;
+    this.active = true;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.active = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.status.nextPollAt = undefined;
+  }
+
+  getStatus(): PollerStatus {
+    return { ...this.status };
+  }
+
+  /**
+   * Run a single poll. Does nothing if a poll is already running.
+   */
+  async pollOnce(): Promise<void> {
+    if (this.status.running) return;
+    this.status.running = true;
+
+    try {
+      const changes = await this.scan();
+      this.status.failures = 0;
+      this.status.lastError = undefined;
+
+      if (changes.added.length > 0 || changes.updated.length > 0) {
+        this.options.log(`${changes.added.length} new and ${changes.updated.length} updated lifelogs`);
+        await this.options.onChanges(changes);
+      }
+    } catch (error) {
+      this.status.failures++;
+      this.status.lastError = String(error);
+      this.options.log(`Poll failed (${this.status.failures} in a row): ${error}`);
+    } finally {
+      this.status.running = false;
+      this.status.lastPollAt = new Date().toISOString();
+      this.schedule(this.getDelay());
+    }
+  }
+
+  // List the lifelogs in the re-check window, newest first, and compare them
+  // with the previous poll
+  private async scan(): Promise<LifelogChanges> {
+    const baseline = !this.hashes;
+    const hashes = new Map<string, string>();
+    const changes: LifelogChanges = { added: [], updated: [] };
+
+    let cursor: string | undefined;
+    let windowStart: number | undefined;
+    let pages = 0;
+
+    do {
+      const response = await this.options.callApi("/lifelogs", {
+        direction: "desc",
+        limit: this.options.pageSize,
+        includeMarkdown: true,
+        cursor
+      }, false);
+
+      const lifelogs = response.data.lifelogs || [];
+      cursor = response.meta?.lifelogs?.nextCursor;
+      pages++;
+
+      for (const lifelog of lifelogs) {
+        const start = lifelog.startTime ? new Date(lifelog.startTime).getTime() : undefined;
+
+        if (windowStart === undefined && start !== undefined) {
+          this.newestStart = Math.max(this.newestStart ?? start, start);
+          windowStart = this.newestStart - RECHECK_WINDOW_MS;
+        }
+        if (start !== undefined && windowStart !== undefined && start < windowStart) {
+          cursor = undefined;
+          break;
+        }
+
+        const hash = hashLifelog(lifelog);
+        const previous = this.hashes?.get(lifelog.id);
+        hashes.set(lifelog.id, hash);
+
+        if (baseline) continue;
+        if (previous === undefined) {
+          changes.added.push(lifelog);
+        } else if (previous !== hash) {
+          changes.updated.push(lifelog);
+        }
+      }
+    } while (cursor && pages < MAX_POLL_PAGES);
+
+    this.hashes = hashes;
+    this.status.watched = hashes.size;
+    return changes;
+  }
+
+  // The interval, doubled for every failed poll in a row
+  private getDelay(): number {
+    const { intervalMs, maxBackoffMs } = this.options;
+    if (this.status.failures === 0) return intervalMs;
+    return Math.min(intervalMs * Math.pow(2, this.status.failures), Math.max(maxBackoffMs, intervalMs));
+  }
+
+  // Schedule the next poll unless the poller was stopped
+  private schedule(delayMs: number): void {
+    if (!this.active) return;
+
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => { this.pollOnce(); }, delayMs);
+    this.timer.unref();
+    this.status.nextPollAt = new Date(Date.now() + delayMs).toISOString();
+  }
+}
+
+function hashLifelog(lifelog: Lifelog): string {
+  return crypto.createHash("sha1").update(JSON.stringify(lifelog)).digest("hex");
+}
@@ -0,0 +1,199 @@
+/**
+ * Resource subscriptions and list-changed notifications
+ *
+ * One poller per process watches for new and updated lifelogs. Clients that
+ * listed resources are sent `notifications/resources/list_changed` when new
+ * lifelogs appear, and clients that subscribed to a resource are sent
+ * `notifications/resources/updated` when a lifelog it contains changes.
+ *
+ * The poller uses the server's own API key, so sessions with their own key
+ * are never notified about the server owner's lifelogs.
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { McpError, ErrorCode } from "../utils/errors";
+import callLimitlessApi from "../api/client";
+import { requireServerCredentials, usesServerCredentials } from "../api/credentials.js";
+import { resolveTimeRange } from "../api/listing.js";
+import { invalidateTags } from "../cache";
+import config from "../config";
+import { Lifelog } from "../types";
+import { formatDateInTimezone } from "../utils/time";
+import { mirror } from "../sync/index.js";
+import { DEFAULT_TIMEZONE } from "../tools/time-tools.js";
+import { LifelogPoller, LifelogChanges } from "./poller.js";
+
+interface Watcher {
+  // URIs of the resources the client subscribed to
+  subscriptions: Set<string>;
+  // Whether the client listed resources, so it wants to hear when the list changes
+  listsResources: boolean;
+}
+
+// Clients to notify, by their server instance
+const watchers = new Map<Server, Watcher>();
+
+let poller: LifelogPoller | undefined;
+
+/**
+ * The process's lifelog poller, created on first use
+ */
+export function getResourcePoller(): LifelogPoller {
+  if (!poller) {
+    poller = new LifelogPoller({
+      callApi: callLimitlessApi,
+      intervalMs: config.RESOURCE_POLL_INTERVAL * 1000,
+      maxBackoffMs: config.RESOURCE_POLL_MAX_BACKOFF * 1000,
+      pageSize: Math.min(config.MAX_LIFELOG_LIMIT, 10),
+      onChanges: notifyWatchers,
+      log: message => console.error(`Resource poller: ${message}`)
+    });
+  }
+  return poller;
+}
+
+/**
+ * Advertise resource subscriptions and handle subscribe requests. Does
+ * nothing when polling is disabled (`LIMITLESS_RESOURCE_POLL_INTERVAL=0`).
+ */
+export function registerSubscriptions(server: McpServer): void {
+  if (config.RESOURCE_POLL_INTERVAL <= 0) return;
+
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+    requireServerCredentials("Resource subscriptions");
+    parseSubscriptionUri(request.params.uri);
+
+    getWatcher(server.server).subscriptions.add(request.params.uri);
+    getResourcePoller().start();
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    watchers.get(server.server)?.subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // Forget the client when its connection closes
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    watchers.delete(server.server);
+    onclose?.();
+  };
+}
+
+/**
+ * Note that a client listed resources, so it is told when new lifelogs appear
+ */
+export function watchResourceList(server: McpServer): void {
+  if (config.RESOURCE_POLL_INTERVAL <= 0 || !usesServerCredentials()) return;
+
+  getWatcher(server.server).listsResources = true;
+  getResourcePoller().start();
+}
+
+function getWatcher(server: Server): Watcher {
+  let watcher = watchers.get(server);
+  if (!watcher) {
+    watcher = { subscriptions: new Set(), listsResources: false };
+    watchers.set(server, watcher);
+  }
+  return watcher;
+}
+
+// Drop stale copies of the changed lifelogs, then notify every client that
+// listed resources or subscribed to an affected one
+async function notifyWatchers(changes: LifelogChanges): Promise<void> {
+  const changed = [...changes.added, ...changes.updated];
+
+  // The poller runs with the server's key, so this is the owner's partition.
+  // Every listing may be missing a new lifelog; changed lifelogs also take
+  // their summaries and topics with them.
+  await invalidateTags(["lifelog_listings"], false);
+  await invalidateTags(changed.map(lifelog => `lifelog:${lifelog.id}`));
+
+  await mirror.load();
+  for (const lifelog of changes.updated) {
+    if (mirror.has(lifelog.id)) {
+      await mirror.put(lifelog);
+    }
+  }
+
+  for (const [server, watcher] of watchers) {
+    const notifications: Promise<void>[] = [];
+
+    if (watcher.listsResources && changes.added.length > 0) {
+      notifications.push(server.sendResourceListChanged());
+    }
+    for (const uri of watcher.subscriptions) {
+      if (changed.some(lifelog => resourceContains(uri, lifelog))) {
+        notifications.push(server.sendResourceUpdated({ uri }));
+      }
+    }
+
+    try {
+      await Promise.all(notifications);
+    } catch (error) {
+      console.error("Resource poller: failed to notify a client, dropping it:", error);
+      watchers.delete(server);
+    }
+  }
+}
+
+type SubscriptionTarget =
+  | { kind: "lifelog"; id: string }
+  | { kind: "day"; date: string; timezone: string }
+  | { kind: "range"; start: string; end: string; timezone: string };
+
+// What a resource URI refers to; throws for URIs that can't be subscribed to
+function parseSubscriptionUri(uri: string): SubscriptionTarget {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new McpError(`Invalid resource URI: ${uri}`, ErrorCode.InvalidParams);
+  }
+
+  if (url.protocol === "lifelogs:") {
+    const timezone = url.searchParams.get("timezone") || DEFAULT_TIMEZONE;
+    const parts = url.pathname.replace(/^\//, "").split("/").filter(Boolean).map(part => decodeURIComponent(part));
+
+    if (url.host === "day" && parts.length === 1) {
+      return { kind: "day", date: parts[0], timezone };
+    }
+    if (url.host === "range" && parts.length === 2) {
+      return { kind: "range", start: parts[0], end: parts[1], timezone };
+    }
+    if (url.host && (parts.length === 0 || (parts.length === 1 && ["transcript", "metadata"].includes(parts[0])))) {
+      return { kind: "lifelog", id: url.host };
+    }
+  }
+
+  throw new McpError(`Resource ${uri} can't be subscribed to`, ErrorCode.InvalidParams);
+}
+
+// Whether a lifelog is part of a subscribed resource
+function resourceContains(uri: string, lifelog: Lifelog): boolean {
+  const target = parseSubscriptionUri(uri);
+
+  if (target.kind === "lifelog") {
+    return target.id === lifelog.id;
+  }
+  if (!lifelog.startTime) {
+    return false;
+  }
+  if (target.kind === "day") {
+    return formatDateInTimezone(lifelog.startTime, target.timezone) === target.date;
+  }
+
+  try {
+    const { from, to } = resolveTimeRange(target);
+    const start = new Date(lifelog.startTime).getTime();
+    return (from === undefined || start >= from) && (to === undefined || start < to);
+  } catch {
+    // Malformed dates never match
+    return false;
+  }
+}
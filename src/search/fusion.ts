@@ -0,0 +1,41 @@
+/**
+ * Rank fusion helpers for combining several result lists
+ */
+
+// Constant from the original reciprocal rank fusion paper (Cormack et al., 2009)
+export const DEFAULT_RRF_K = 60;
+
+export interface FusedResult {
+  id: string;
+  score: number;
+  // 1-based rank of the item in each input list (undefined when absent)
+  ranks: Array<number | undefined>;
+}
+
+/**
+ * Merge ranked lists of IDs with reciprocal rank fusion:
+ * score(d) = sum over lists of 1 / (k + rank(d)).
+ * Items ranked highly by several lists come first, regardless of how the
+ * individual lists scored them.
+ */
+export function reciprocalRankFusion(lists: string[][], k: number = DEFAULT_RRF_K): FusedResult[] {
+  const results = new Map<string, FusedResult>();
+
+  lists.forEach((list, listIndex) => {
+    list.forEach((id, position) => {
+      let result = results.get(id);
+      if (!result) {
+        result = { id, score: 0, ranks: new Array(lists.length).fill(undefined) };
+        results.set(id, result);
+      }
+
+      // Ignore duplicates within a list; only the best rank counts
+      if (result.ranks[listIndex] !== undefined) return;
+
+      result.ranks[listIndex] = position + 1;
+      result.score += 1 / (k + position + 1);
+    });
+  });
+
+  return Array.from(results.values()).sort((a, b) => b.score - a.score);
+}
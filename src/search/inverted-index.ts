@@ -0,0 +1,183 @@
+/**
+ * In-memory inverted index with BM25 ranking
+ */
+import { tokenize } from "../utils/text";
+
+// BM25 tuning parameters (standard defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export interface ScoredDocument {
+  id: string;
+  score: number;
+}
+
+/**
+ * Positional inverted index over tokenized (stemmed, stop-word free) text.
+ * Postings keep token positions so callers can verify phrases.
+ */
+export class InvertedIndex {
+  // term -> document id -> positions of the term in the document
+  private postings: Map<string, Map<string, number[]>> = new Map();
+
+  // document id -> number of tokens
+  private lengths: Map<string, number> = new Map();
+
+  // document id -> distinct terms (for removal)
+  private documentTerms: Map<string, string[]> = new Map();
+
+  private totalLength = 0;
+
+  get size(): number {
+    return this.lengths.size;
+  }
+
+  // Number of distinct terms
+  get termCount(): number {
+    return this.postings.size;
+  }
+
+  has(id: string): boolean {
+    return this.lengths.has(id);
+  }
+
+  /**
+   * Add a document, replacing any previous version with the same ID
+   */
+  add(id: string, text: string): void {
+    if (this.lengths.has(id)) {
+      this.remove(id);
+    }
+
+    const tokens = tokenize(text);
+    tokens.forEach((token, position) => {
+      let docs = this.postings.get(token);
+      if (!docs) {
+        docs = new Map();
+        this.postings.set(token, docs);
+      }
+
+      const positions = docs.get(id);
+      if (positions) {
+        positions.push(position);
+      } else {
+        docs.set(id, [position]);
+      }
+    });
+
+    this.lengths.set(id, tokens.length);
+    this.documentTerms.set(id, Array.from(new Set(tokens)));
+    this.totalLength += tokens.length;
+  }
+
+  /**
+   * Remove a document from the index
+   */
+  remove(id: string): boolean {
+    const terms = this.documentTerms.get(id);
+    if (!terms) return false;
+
+    for (const term of terms) {
+      const docs = this.postings.get(term);
+      if (!docs) continue;
+      docs.delete(id);
+      if (docs.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.totalLength -= this.lengths.get(id) || 0;
+    this.lengths.delete(id);
+    this.documentTerms.delete(id);
+    return true;
+  }
+
+  /**
+   * IDs of all indexed documents
+   */
+  allDocuments(): Set<string> {
+    return new Set(this.lengths.keys());
+  }
+
+  /**
+   * IDs of the documents containing a (tokenized) term
+   */
+  documentsWithTerm(term: string): Set<string> {
+    return new Set(this.postings.get(term)?.keys() || []);
+  }
+
+  /**
+   * IDs of the documents containing the (tokenized) terms as a consecutive phrase
+   */
+  documentsWithPhrase(terms: string[]): Set<string> {
+    const result = new Set<string>();
+    if (terms.length === 0) return result;
+
+    const first = this.postings.get(terms[0]);
+    if (!first) return result;
+
+    first.forEach((positions, id) => {
+      const matches = positions.some(position =>
+        terms.every((term, offset) =>
+          offset === 0 || (this.postings.get(term)?.get(id) || []).includes(position + offset)
+        )
+      );
+      if (matches) result.add(id);
+    });
+
+    return result;
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.lengths.clear();
+    this.documentTerms.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Rank documents against a free-text query with BM25.
+   * An optional filter restricts which documents may be returned.
+   */
+  search(query: string, limit: number = 10, filter?: (id: string) => boolean): ScoredDocument[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    const scores = this.scoreTerms(terms, filter);
+
+    return Array.from(scores.entries())
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Sum the BM25 contributions of the given (already tokenized) terms per document
+   */
+  scoreTerms(terms: string[], filter?: (id: string) => boolean): Map<string, number> {
+    const scores = new Map<string, number>();
+    const documentCount = this.lengths.size;
+    if (documentCount === 0) return scores;
+
+    const averageLength = this.totalLength / documentCount;
+
+    for (const term of terms) {
+      const docs = this.postings.get(term);
+      if (!docs) continue;
+
+      // BM25 inverse document frequency (always positive)
+      const idf = Math.log(1 + (documentCount - docs.size + 0.5) / (docs.size + 0.5));
+
+      docs.forEach((positions, id) => {
+        if (filter && !filter(id)) return;
+
+        const tf = positions.length;
+        const length = this.lengths.get(id) || 0;
+        const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * (length / (averageLength || 1)));
+        const contribution = idf * (tf * (BM25_K1 + 1)) / norm;
+
+        scores.set(id, (scores.get(id) || 0) + contribution);
+      });
+    }
+
+    return scores;
+  }
+}
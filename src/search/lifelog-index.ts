@@ -0,0 +1,398 @@
+/**
+ * Persistent full-text index over lifelog content blocks
+ *
+ * Every content block (heading, transcript line, ...) of a lifelog becomes a
+ * document with its speaker, type and start time. The blocks are saved to
+ * `documents.json` in the index directory and the positional inverted index is
+ * rebuilt from them when the index is loaded.
+ */
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { Lifelog } from "../types";
+import { flattenContents } from "../utils";
+import { splitWords, stem, STOP_WORDS } from "../utils/text";
+import { formatDateInTimezone } from "../utils/time";
+import { InvertedIndex } from "./inverted-index.js";
+import { parseQuery, evaluateQuery, positiveTerms } from "./query.js";
+
+// Version of the documents.json format
+export const SEARCH_INDEX_FORMAT_VERSION = 1;
+
+const DOCUMENTS_FILE = "documents.json";
+
+// Delay before changes are written to disk, so a sync run saves once per batch
+const SAVE_DELAY_MS = 2000;
+
+// Characters of context shown around the first match in a snippet
+const SNIPPET_CONTEXT = 80;
+
+// A single indexed content block
+export interface SearchDocument {
+  // `<lifelogId>:<blockIndex>`
+  id: string;
+  lifelogId: string;
+  // Position of the block within the lifelog (depth-first order)
+  blockIndex: number;
+  type: string;
+  content: string;
+  speakerName?: string;
+  // Start time of the block, or of the lifelog when the block has none
+  startTime?: string;
+}
+
+// What the index knows about each lifelog
+interface IndexedLifelog {
+  id: string;
+  title: string;
+  startTime?: string;
+  contentHash: string;
+  indexedAt: number;
+  blocks: number;
+}
+
+interface DocumentsFile {
+  formatVersion: number;
+  lifelogs: IndexedLifelog[];
+  documents: SearchDocument[];
+}
+
+export interface SearchOptions {
+  // Case-insensitive substring of the speaker name
+  speaker?: string;
+  // Inclusive date range (YYYY-MM-DD), evaluated in the given timezone
+  start?: string;
+  end?: string;
+  timezone?: string;
+  // Content block types to include (e.g. "blockquote", "heading2")
+  types?: string[];
+  // Restrict results to these lifelogs
+  lifelogIds?: string[];
+  limit?: number;
+}
+
+export interface SearchHit {
+  document: SearchDocument;
+  title: string;
+  score: number;
+  snippet: string;
+}
+
+export interface SearchResult {
+  // Total number of matching blocks (before the limit)
+  total: number;
+  hits: SearchHit[];
+}
+
+/**
+ * Full-text index over all lifelog content blocks, with BM25 ranking, phrase
+ * and boolean queries, and filtering by speaker, date and block type.
+ */
+export class LifelogSearchIndex {
+  private dir: string;
+  private index = new InvertedIndex();
+  private documents: Map<string, SearchDocument> = new Map();
+  private lifelogs: Map<string, IndexedLifelog> = new Map();
+
+  private loaded?: Promise<void>;
+  private saveTimer?: NodeJS.Timeout;
+
+  // Serializes writes so saves never interleave
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  get directory(): string {
+    return this.dir;
+  }
+
+  /**
+   * Load the index from disk. Safe to call repeatedly; the file is read once.
+   */
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readFromDisk();
+    }
+    return this.loaded;
+  }
+
+  get lifelogCount(): number {
+    return this.lifelogs.size;
+  }
+
+  get documentCount(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Whether a lifelog is missing from the index or changed since it was indexed
+   */
+  needsIndexing(lifelog: Lifelog): boolean {
+    const existing = this.lifelogs.get(lifelog.id);
+    return !existing || existing.contentHash !== hashLifelog(lifelog);
+  }
+
+  /**
+   * Add or replace all content blocks of a lifelog
+   */
+  indexLifelog(lifelog: Lifelog): number {
+    this.removeDocuments(lifelog.id);
+
+    const blocks = flattenContents(lifelog.contents);
+    blocks.forEach((block, blockIndex) => {
+      const document: SearchDocument = {
+        id: `${lifelog.id}:${blockIndex}`,
+        lifelogId: lifelog.id,
+        blockIndex,
+        type: block.type,
+        content: block.content,
+        speakerName: block.speakerName || undefined,
+        startTime: block.startTime || lifelog.startTime
+      };
+      this.addDocument(document);
+    });
+
+    this.lifelogs.set(lifelog.id, {
+      id: lifelog.id,
+      title: lifelog.title,
+      startTime: lifelog.startTime,
+      contentHash: hashLifelog(lifelog),
+      indexedAt: Date.now(),
+      blocks: blocks.length
+    });
+
+    this.scheduleSave();
+    return blocks.length;
+  }
+
+  /**
+   * Remove a lifelog from the index
+   */
+  removeLifelog(id: string): boolean {
+    if (!this.lifelogs.has(id)) return false;
+    this.removeDocuments(id);
+    this.lifelogs.delete(id);
+    this.scheduleSave();
+    return true;
+  }
+
+  /**
+   * Remove everything from the index
+   */
+  async clear(): Promise<number> {
+    const count = this.lifelogs.size;
+    this.index.clear();
+    this.documents.clear();
+    this.lifelogs.clear();
+    await this.flush();
+    return count;
+  }
+
+  /**
+   * Run a query against the index
+   */
+  search(query: string, options: SearchOptions = {}): SearchResult {
+    const tree = parseQuery(query);
+    if (!tree) return { total: 0, hits: [] };
+
+    const filter = this.createFilter(options);
+    const matches = Array.from(evaluateQuery(tree, this.index)).filter(filter);
+    const matched = new Set(matches);
+
+    const terms = Array.from(new Set(positiveTerms(tree)));
+    const scores = this.index.scoreTerms(terms, id => matched.has(id));
+
+    const ranked = matches
+      .map(id => ({ id, score: scores.get(id) || 0 }))
+      .sort((a, b) => b.score - a.score || this.compareByTime(a.id, b.id));
+
+    const hits = ranked.slice(0, options.limit || 20).map(({ id, score }) => {
+      const document = this.documents.get(id)!;
+      return {
+        document,
+        title: this.lifelogs.get(document.lifelogId)?.title || document.lifelogId,
+        score,
+        snippet: createSnippet(document.content, new Set(terms))
+      };
+    });
+
+    return { total: ranked.length, hits };
+  }
+
+  /**
+   * Index statistics
+   */
+  async stats(): Promise<{ lifelogs: number; blocks: number; terms: number; bytes: number; oldest?: string; newest?: string }> {
+    const times = Array.from(this.lifelogs.values())
+      .map(lifelog => lifelog.startTime)
+      .filter((time): time is string => !!time)
+      .sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+
+    let bytes = 0;
+    try {
+      bytes = (await fs.stat(this.documentsPath())).size;
+    } catch {
+      // Not saved yet
+    }
+
+    return {
+      lifelogs: this.lifelogs.size,
+      blocks: this.documents.size,
+      terms: this.index.termCount,
+      bytes,
+      oldest: times[0],
+      newest: times[times.length - 1]
+    };
+  }
+
+  /**
+   * Write pending changes to disk immediately
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    await this.enqueue(() => this.writeToDisk());
+  }
+
+  private addDocument(document: SearchDocument): void {
+    this.documents.set(document.id, document);
+    this.index.add(document.id, document.content);
+  }
+
+  private removeDocuments(lifelogId: string): void {
+    const blocks = this.lifelogs.get(lifelogId)?.blocks;
+    if (blocks === undefined) return;
+
+    for (let i = 0; i < blocks; i++) {
+      const id = `${lifelogId}:${i}`;
+      this.documents.delete(id);
+      this.index.remove(id);
+    }
+  }
+
+  // Build the predicate used to apply the speaker, date, type and lifelog filters
+  private createFilter(options: SearchOptions): (id: string) => boolean {
+    const speaker = options.speaker?.toLowerCase();
+    const types = options.types?.length ? new Set(options.types) : undefined;
+    const lifelogIds = options.lifelogIds?.length ? new Set(options.lifelogIds) : undefined;
+
+    return (id: string) => {
+      const document = this.documents.get(id);
+      if (!document) return false;
+
+      if (lifelogIds && !lifelogIds.has(document.lifelogId)) return false;
+      if (types && !types.has(document.type)) return false;
+      if (speaker && !(document.speakerName || "").toLowerCase().includes(speaker)) return false;
+
+      if (options.start || options.end) {
+        if (!document.startTime) return false;
+        const date = formatDateInTimezone(document.startTime, options.timezone);
+        if (options.start && date < options.start) return false;
+        if (options.end && date > options.end) return false;
+      }
+
+      return true;
+    };
+  }
+
+  // Newest first, then in block order
+  private compareByTime(a: string, b: string): number {
+    const docA = this.documents.get(a)!;
+    const docB = this.documents.get(b)!;
+    const timeA = docA.startTime ? new Date(docA.startTime).getTime() : 0;
+    const timeB = docB.startTime ? new Date(docB.startTime).getTime() : 0;
+    return timeB - timeA || docA.blockIndex - docB.blockIndex;
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.enqueue(() => this.writeToDisk()).catch(error => {
+        console.error(`Search index: failed to save ${this.documentsPath()}:`, error);
+      });
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  private async readFromDisk(): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+
+    let data: DocumentsFile;
+    try {
+      data = JSON.parse(await fs.readFile(this.documentsPath(), "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      console.error(`Search index: could not read ${this.documentsPath()}, starting empty:`, error);
+      return;
+    }
+
+    if (!data || data.formatVersion !== SEARCH_INDEX_FORMAT_VERSION) {
+      console.error(`Search index: unsupported format in ${this.documentsPath()}, starting empty`);
+      return;
+    }
+
+    data.lifelogs.forEach(lifelog => this.lifelogs.set(lifelog.id, lifelog));
+    data.documents.forEach(document => this.addDocument(document));
+  }
+
+  // Write a snapshot of the index, replacing the previous file atomically
+  private async writeToDisk(): Promise<void> {
+    const data: DocumentsFile = {
+      formatVersion: SEARCH_INDEX_FORMAT_VERSION,
+      lifelogs: Array.from(this.lifelogs.values()),
+      documents: Array.from(this.documents.values())
+    };
+
+    await fs.mkdir(this.dir, { recursive: true });
+    const tmp = `${this.documentsPath()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(data));
+    await fs.rename(tmp, this.documentsPath());
+  }
+
+  private documentsPath(): string {
+    return path.join(this.dir, DOCUMENTS_FILE);
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(task);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+// Hash of the indexed parts of a lifelog, used to detect changes
+function hashLifelog(lifelog: Lifelog): string {
+  return crypto
+    .createHash("sha1")
+    .update(lifelog.title || "")
+    .update(JSON.stringify(lifelog.contents || []))
+    .digest("hex");
+}
+
+// Excerpt of the content around the first matching word, with matches in bold
+function createSnippet(content: string, terms: Set<string>): string {
+  const wordPattern = /[\p{L}\p{N}']+/gu;
+  const isMatch = (word: string) => {
+    const normalized = splitWords(word)[0];
+    return !!normalized && !STOP_WORDS.has(normalized) && terms.has(stem(normalized));
+  };
+
+  let first = -1;
+  for (const match of content.matchAll(wordPattern)) {
+    if (isMatch(match[0])) {
+      first = match.index!;
+      break;
+    }
+  }
+
+  const from = first > SNIPPET_CONTEXT ? first - SNIPPET_CONTEXT : 0;
+  const to = Math.min(content.length, (first === -1 ? 0 : first) + SNIPPET_CONTEXT * 2);
+  const excerpt = content.substring(from, to).replace(wordPattern, word => isMatch(word) ? `**${word}**` : word);
+
+  return `${from > 0 ? "…" : ""}${excerpt}${to < content.length ? "…" : ""}`;
+}
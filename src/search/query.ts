@@ -0,0 +1,204 @@
+/**
+ * Parser and evaluator for full-text search queries
+ *
+ * Supported syntax:
+ * - `budget review`: either word (results containing both rank higher)
+ * - `"budget review"`: exact phrase
+ * - `budget AND review`, `budget OR review`, `NOT marketing`, `-marketing`
+ * - parentheses for grouping: `(budget OR spending) AND -marketing`
+ */
+import { tokenize } from "../utils/text";
+import { InvertedIndex } from "./inverted-index.js";
+
+export type QueryNode =
+  | { type: "term"; term: string }
+  | { type: "phrase"; terms: string[] }
+  | { type: "and"; children: QueryNode[] }
+  | { type: "or"; children: QueryNode[] }
+  | { type: "not"; child: QueryNode };
+
+type Token =
+  | { kind: "word"; value: string }
+  | { kind: "phrase"; value: string }
+  | { kind: "and" | "or" | "not" | "lparen" | "rparen" };
+
+// Split the raw query into lexical tokens
+function lex(query: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:"([^"]*)"?|(\()|(\))|(-)(?=\S)|([^\s()"]+))/gy;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) !== null && match[0].length > 0) {
+    if (match[1] !== undefined) {
+      tokens.push({ kind: "phrase", value: match[1] });
+    } else if (match[2]) {
+      tokens.push({ kind: "lparen" });
+    } else if (match[3]) {
+      tokens.push({ kind: "rparen" });
+    } else if (match[4]) {
+      tokens.push({ kind: "not" });
+    } else if (match[5] === "AND" || match[5] === "&&") {
+      tokens.push({ kind: "and" });
+    } else if (match[5] === "OR" || match[5] === "||") {
+      tokens.push({ kind: "or" });
+    } else if (match[5] === "NOT") {
+      tokens.push({ kind: "not" });
+    } else {
+      tokens.push({ kind: "word", value: match[5] });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a query string into a query tree.
+ * Returns null when the query contains nothing searchable (e.g. only stop words).
+ */
+export function parseQuery(query: string): QueryNode | null {
+  const tokens = lex(query);
+  let position = 0;
+
+  const peek = () => tokens[position];
+
+  // Turn free text into a term or phrase node (null if it only had stop words)
+  const textNode = (text: string): QueryNode | null => {
+    const terms = tokenize(text);
+    if (terms.length === 0) return null;
+    if (terms.length === 1) return { type: "term", term: terms[0] };
+    return { type: "phrase", terms };
+  };
+
+  const parsePrimary = (): QueryNode | null => {
+    const token = tokens[position++];
+    if (!token) return null;
+
+    switch (token.kind) {
+      case "lparen": {
+        const node = parseOr();
+        if (peek()?.kind === "rparen") position++;
+        return node;
+      }
+      case "phrase":
+      case "word":
+        return textNode(token.value);
+      default:
+        // Stray operator or parenthesis: skip it
+        return null;
+    }
+  };
+
+  const parseUnary = (): QueryNode | null => {
+    if (peek()?.kind === "not") {
+      position++;
+      const child = parseUnary();
+      return child ? { type: "not", child } : null;
+    }
+    return parsePrimary();
+  };
+
+  const parseAnd = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+    const first = parseUnary();
+    if (first) children.push(first);
+
+    while (peek()?.kind === "and") {
+      position++;
+      const next = parseUnary();
+      if (next) children.push(next);
+    }
+
+    if (children.length === 0) return null;
+    return children.length === 1 ? children[0] : { type: "and", children };
+  };
+
+  // Adjacent clauses without an operator behave like OR, except that negated
+  // clauses ("-word") always exclude: `a b -c` means `(a OR b) AND NOT c`
+  const parseOr = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+
+    while (position < tokens.length && peek().kind !== "rparen") {
+      if (peek().kind === "or") {
+        position++;
+        continue;
+      }
+      const node = parseAnd();
+      if (node) children.push(node);
+    }
+
+    const positives = children.filter(child => child.type !== "not");
+    const negatives = children.filter(child => child.type === "not");
+
+    const positive: QueryNode | null = positives.length === 0
+      ? null
+      : positives.length === 1 ? positives[0] : { type: "or", children: positives };
+
+    if (negatives.length === 0) return positive;
+    return { type: "and", children: positive ? [positive, ...negatives] : negatives };
+  };
+
+  return parseOr();
+}
+
+/**
+ * Find the IDs of the documents matching a query tree
+ */
+export function evaluateQuery(node: QueryNode, index: InvertedIndex): Set<string> {
+  switch (node.type) {
+    case "term":
+      return index.documentsWithTerm(node.term);
+
+    case "phrase":
+      return index.documentsWithPhrase(node.terms);
+
+    case "or": {
+      const result = new Set<string>();
+      node.children.forEach(child => evaluateQuery(child, index).forEach(id => result.add(id)));
+      return result;
+    }
+
+    case "and": {
+      // Intersect the positive clauses, then subtract the negated ones
+      const positives = node.children.filter(child => child.type !== "not");
+      const negatives = node.children.filter(child => child.type === "not") as Array<{ type: "not"; child: QueryNode }>;
+
+      let result = positives.length > 0
+        ? evaluateQuery(positives[0], index)
+        : index.allDocuments();
+
+      for (const child of positives.slice(1)) {
+        const matches = evaluateQuery(child, index);
+        result = new Set(Array.from(result).filter(id => matches.has(id)));
+      }
+
+      for (const negative of negatives) {
+        const excluded = evaluateQuery(negative.child, index);
+        result = new Set(Array.from(result).filter(id => !excluded.has(id)));
+      }
+
+      return result;
+    }
+
+    case "not": {
+      const excluded = evaluateQuery(node.child, index);
+      return new Set(Array.from(index.allDocuments()).filter(id => !excluded.has(id)));
+    }
+  }
+}
+
+/**
+ * Terms that contribute to ranking (everything that isn't negated)
+ */
+export function positiveTerms(node: QueryNode): string[] {
+  switch (node.type) {
+    case "term":
+      return [node.term];
+    case "phrase":
+      return node.terms;
+    case "and":
+    case "or":
+      return node.children.flatMap(positiveTerms);
+    case "not":
+      return [];
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * MCP server factory for Limitless MCP
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerPluginTools } from "./plugins/index.js";
+import { registerAllTools } from "./tools/index.js";
+import { registerResources } from "./resources/index.js";
+import { registerPrompts } from "./prompts/index.js";
+
+/**
+ * Create the MCP server with all resources, tools, prompts and plugins registered.
+ * The caller connects it to a transport. Each server serves one client, so
+ * HTTP mode creates one per session; the cache, indexes and plugins behind
+ * the tools are shared by all of them.
+ */
+export async function createServer(): Promise<McpServer> {
+  // ──────────────────────────────────────────────────────────────────────────────
+  // 1. Spin up the server object
+  // ──────────────────────────────────────────────────────────────────────────────
+  const server = new McpServer({
+    name: "limitless",
+    version: "0.5.0"
+  });
+
+  // ──────────────────────────────────────────────────────────────────────────────
+  // 2. Register resources
+  // ──────────────────────────────────────────────────────────────────────────────
+  registerResources(server);
+
+  // ──────────────────────────────────────────────────────────────────────────────
+  // 3. Register all tools
+  // ──────────────────────────────────────────────────────────────────────────────
+  registerAllTools(server);
+
+  // ──────────────────────────────────────────────────────────────────────────────
+  // 4. Register plugin tools (plugins are initialized on first use)
+  // ──────────────────────────────────────────────────────────────────────────────
+  await registerPluginTools(server);
+
+  // ──────────────────────────────────────────────────────────────────────────────
+  // 5. Register prompts (built on the tools above)
+  // ──────────────────────────────────────────────────────────────────────────────
+  registerPrompts(server);
+
+  return server;
+}
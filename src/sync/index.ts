@@ -0,0 +1,111 @@
+/**
+ * Lifelog mirror and sync for Limitless MCP
+ *
+ * The mirror keeps a local copy of every lifelog. It is filled by the sync
+ * (an incremental, cursor-based walk of `/lifelogs`) and read by the API
+ * client before it calls the Limitless API.
+ */
+import path from "path";
+import config from "../config";
+import { LifelogResponse } from "../types";
+import { BackgroundIndexer, IndexerOptions } from "../embeddings/indexer.js";
+import { resolveTimeRange, isLocalCursor, shapeLifelog, LifelogShape, ListingParams } from "../api/listing.js";
+import { LifelogMirror, MIRROR_CURSOR_PREFIX } from "./mirror.js";
+import { parseDateTimeInTimezone } from "../utils/time";
+
+export { LifelogMirror } from "./mirror.js";
+
+// Query parameters the mirror can answer; requests with others go to the API
+const MIRROR_PARAMS = new Set([
+  "date", "timezone", "start", "end", "direction", "limit", "cursor",
+  "includeMarkdown", "includeHeadings", "fields"
+]);
+
+export const mirror = new LifelogMirror(path.join(config.DATA_DIR, "mirror"));
+
+let mirrorSync: BackgroundIndexer | undefined;
+
+/**
+ * Create the sync that keeps the mirror up to date (once per process).
+ * The API client is passed in to avoid a circular import with the client,
+ * which reads from the mirror.
+ */
+export function createMirrorSync(callApi: IndexerOptions["callApi"]): BackgroundIndexer {
+  if (!mirrorSync) {
+    mirrorSync = new BackgroundIndexer({
+      callApi,
+      needsIndexing: lifelog => mirror.needsSync(lifelog),
+      indexLifelog: lifelog => mirror.put(lifelog),
+      stateFile: path.join(mirror.directory, "sync-state.json"),
+      startDate: config.MIRROR_SYNC_START_DATE,
+      intervalMs: config.MIRROR_SYNC_INTERVAL * 1000,
+      pageSize: Math.min(config.MAX_LIFELOG_LIMIT, 10),
+      log: message => console.error(`Lifelog mirror: ${message}`)
+    });
+  }
+  return mirrorSync;
+}
+
+/**
+ * Answer an API request from the mirror, if the mirror is known to hold the
+ * complete answer. Returns undefined when the request must go to the API.
+ *
+ * - `/lifelogs/{id}` is served when the lifelog is mirrored
+ * - `/lifelogs` is served when the requested time range lies between the sync
+ *   start date and the start of the last completed sync, or when the cursor
+ *   came from an earlier mirror listing
+ */
+export async function readFromMirror(
+  apiPath: string,
+  qs: Record<string, unknown>
+): Promise<LifelogResponse | undefined> {
+  if (!config.MIRROR_READS) return undefined;
+
+  const params = Object.keys(qs).filter(key => qs[key] !== undefined && qs[key] !== null);
+  if (params.some(key => !MIRROR_PARAMS.has(key))) return undefined;
+
+  await mirror.load();
+  if (mirror.size === 0) return undefined;
+
+  // Both default to true in the API
+  const shape: LifelogShape = {
+    includeMarkdown: qs.includeMarkdown !== false && qs.includeMarkdown !== "false",
+    includeHeadings: qs.includeHeadings !== false && qs.includeHeadings !== "false"
+  };
+
+  const detail = apiPath.match(/^\/lifelogs\/([^/]+)$/);
+  if (detail) {
+    const lifelog = await mirror.get(decodeURIComponent(detail[1]));
+    if (!lifelog) return undefined;
+    return { data: { lifelog: shapeLifelog(lifelog, shape) } };
+  }
+
+  if (apiPath !== "/lifelogs") return undefined;
+
+  const listing = qs as ListingParams;
+  if (listing.cursor && !isLocalCursor(listing.cursor, MIRROR_CURSOR_PREFIX)) return undefined;
+  if (!listing.cursor && !isRangeCovered(listing)) return undefined;
+
+  const page = await mirror.list(listing, shape);
+  return {
+    data: { lifelogs: page.items },
+    meta: { lifelogs: { nextCursor: page.nextCursor, count: page.count } }
+  };
+}
+
+// Whether the last completed sync covered the whole requested time range
+function isRangeCovered(params: ListingParams): boolean {
+  const syncedUntil = mirrorSync?.getStatus().syncedUntil;
+  if (!syncedUntil) return false;
+
+  try {
+    const { from, to } = resolveTimeRange(params);
+    const syncStart = parseDateTimeInTimezone(config.MIRROR_SYNC_START_DATE).getTime();
+
+    return from !== undefined && to !== undefined &&
+           from >= syncStart && to <= new Date(syncedUntil).getTime();
+  } catch {
+    // Malformed dates: let the API report the error
+    return false;
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * Local mirror of lifelogs on disk
+ *
+ * Layout of the mirror directory:
+ * - `lifelogs/<id>.json`: the full lifelog (markdown and content blocks)
+ * - `manifest.json`: summary of every mirrored lifelog, loaded at startup
+ */
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { Lifelog } from "../types";
+import { listLifelogs, shapeLifelog, LifelogShape, ListingParams, ListingPage } from "../api/listing.js";
+
+// Version of the manifest format
+export const MIRROR_FORMAT_VERSION = 1;
+
+const MANIFEST_FILE = "manifest.json";
+const LIFELOGS_DIR = "lifelogs";
+
+// Delay before the manifest is written, so a sync run saves once per batch
+const SAVE_DELAY_MS = 2000;
+
+// Cursor prefix for listings served from the mirror
+export const MIRROR_CURSOR_PREFIX = "mirror:";
+
+// Summary of a mirrored lifelog
+export interface MirroredLifelog {
+  id: string;
+  title: string;
+  startTime?: string;
+  endTime?: string;
+  // Hash of the lifelog JSON, used to detect changes
+  contentHash: string;
+  syncedAt: string;
+}
+
+interface ManifestFile {
+  formatVersion: number;
+  lifelogs: MirroredLifelog[];
+}
+
+/**
+ * File-backed copy of lifelogs. Summaries are kept in memory; full lifelogs
+ * are read from disk when requested.
+ */
+export class LifelogMirror {
+  private dir: string;
+  private lifelogs: Map<string, MirroredLifelog> = new Map();
+
+  private loaded?: Promise<void>;
+  private saveTimer?: NodeJS.Timeout;
+
+  // Serializes writes so files are never written concurrently
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  get directory(): string {
+    return this.dir;
+  }
+
+  get size(): number {
+    return this.lifelogs.size;
+  }
+
+  /**
+   * Load the manifest from disk. Safe to call repeatedly; the file is read once.
+   */
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readManifest();
+    }
+    return this.loaded;
+  }
+
+  has(id: string): boolean {
+    return this.lifelogs.has(id);
+  }
+
+  summaries(): MirroredLifelog[] {
+    return Array.from(this.lifelogs.values());
+  }
+
+  /**
+   * Read a mirrored lifelog, or undefined if it isn't mirrored
+   */
+  async get(id: string): Promise<Lifelog | undefined> {
+    if (!this.lifelogs.has(id)) return undefined;
+
+    try {
+      return JSON.parse(await fs.readFile(this.lifelogPath(id), "utf8")) as Lifelog;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        // Removed from disk behind our back
+        this.lifelogs.delete(id);
+        this.scheduleSave();
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a lifelog is missing from the mirror or changed since it was mirrored
+   */
+  needsSync(lifelog: Lifelog): boolean {
+    const existing = this.lifelogs.get(lifelog.id);
+    return !existing || existing.contentHash !== hashLifelog(lifelog);
+  }
+
+  /**
+   * Add or replace a lifelog
+   */
+  async put(lifelog: Lifelog): Promise<void> {
+    await this.enqueue(async () => {
+      await fs.mkdir(path.join(this.dir, LIFELOGS_DIR), { recursive: true });
+      await fs.writeFile(this.lifelogPath(lifelog.id), JSON.stringify(lifelog));
+    });
+
+    this.lifelogs.set(lifelog.id, {
+      id: lifelog.id,
+      title: lifelog.title,
+      startTime: lifelog.startTime,
+      endTime: lifelog.endTime,
+      contentHash: hashLifelog(lifelog),
+      syncedAt: new Date().toISOString()
+    });
+    this.scheduleSave();
+  }
+
+  /**
+   * Remove a lifelog from the mirror
+   */
+  async delete(id: string): Promise<boolean> {
+    if (!this.lifelogs.delete(id)) return false;
+    await this.enqueue(() => fs.rm(this.lifelogPath(id), { force: true }));
+    this.scheduleSave();
+    return true;
+  }
+
+  /**
+   * Remove all mirrored lifelogs
+   */
+  async clear(): Promise<number> {
+    const count = this.lifelogs.size;
+    this.lifelogs.clear();
+    await this.enqueue(() => fs.rm(path.join(this.dir, LIFELOGS_DIR), { recursive: true, force: true }));
+    await this.flush();
+    return count;
+  }
+
+  /**
+   * List mirrored lifelogs with the same filters, pagination and shaping as
+   * `GET /lifelogs`
+   */
+  async list(
+    params: ListingParams,
+    shape: LifelogShape = { includeMarkdown: true, includeHeadings: true }
+  ): Promise<ListingPage<Lifelog>> {
+    const page = listLifelogs(this.summaries(), params, MIRROR_CURSOR_PREFIX);
+    const lifelogs: Lifelog[] = [];
+
+    for (const summary of page.items) {
+      const lifelog = await this.get(summary.id);
+      if (lifelog) {
+        lifelogs.push(shapeLifelog(lifelog, shape));
+      }
+    }
+
+    return { ...page, items: lifelogs, count: lifelogs.length };
+  }
+
+  /**
+   * Storage statistics
+   */
+  async stats(): Promise<{ lifelogs: number; bytes: number; oldest?: string; newest?: string }> {
+    const times = this.summaries()
+      .map(lifelog => lifelog.startTime)
+      .filter((time): time is string => !!time)
+      .sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+
+    let bytes = 0;
+    try {
+      const dir = path.join(this.dir, LIFELOGS_DIR);
+      for (const file of await fs.readdir(dir)) {
+        bytes += (await fs.stat(path.join(dir, file))).size;
+      }
+      bytes += (await fs.stat(this.manifestPath())).size;
+    } catch {
+      // Nothing written yet
+    }
+
+    return { lifelogs: this.lifelogs.size, bytes, oldest: times[0], newest: times[times.length - 1] };
+  }
+
+  /**
+   * Write the manifest to disk immediately
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    await this.enqueue(() => this.writeManifest());
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.enqueue(() => this.writeManifest()).catch(error => {
+        console.error(`Lifelog mirror: failed to save ${this.manifestPath()}:`, error);
+      });
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  private async readManifest(): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+
+    let data: ManifestFile;
+    try {
+      data = JSON.parse(await fs.readFile(this.manifestPath(), "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      console.error(`Lifelog mirror: could not read ${this.manifestPath()}, starting empty:`, error);
+      return;
+    }
+
+    if (!data || data.formatVersion !== MIRROR_FORMAT_VERSION) {
+      console.error(`Lifelog mirror: unsupported format in ${this.manifestPath()}, starting empty`);
+      return;
+    }
+
+    data.lifelogs.forEach(lifelog => this.lifelogs.set(lifelog.id, lifelog));
+  }
+
+  // Write the manifest, replacing the previous file atomically
+  private async writeManifest(): Promise<void> {
+    const data: ManifestFile = {
+      formatVersion: MIRROR_FORMAT_VERSION,
+      lifelogs: this.summaries()
+    };
+
+    await fs.mkdir(this.dir, { recursive: true });
+    const tmp = `${this.manifestPath()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(data));
+    await fs.rename(tmp, this.manifestPath());
+  }
+
+  private manifestPath(): string {
+    return path.join(this.dir, MANIFEST_FILE);
+  }
+
+  // Lifelog IDs are used as file names, so keep them to safe characters
+  private lifelogPath(id: string): string {
+    return path.join(this.dir, LIFELOGS_DIR, `${encodeURIComponent(id)}.json`);
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(task);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+function hashLifelog(lifelog: Lifelog): string {
+  return crypto.createHash("sha1").update(JSON.stringify(lifelog)).digest("hex");
+}
@@ -1,46 +1,114 @@
 /**
- * Analysis tools for Limitless MCP (summarization and topic extraction)
+ * Analysis tools for Limitless MCP (summarization, topic extraction and sentiment analysis)
  */
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { McpError, ErrorCode, getErrorStatusCode, getErrorMessage } from '../utils/errors';
 import { z } from "zod";
 import callLimitlessApi from "../api/client";
-import cache from "../cache";
-import config from "../config";
-import { Lifelog } from "../types";
+import cache, { calculateDerivedTTL, getDerivedTags, partitionCacheKey, setTaggedEntry } from "../cache";
+import { Lifelog, Sentiment } from "../types";
 import { 
   generateSummary, 
   generateCombinedSummary, 
   extractTopics, 
-  getTimeRangeText 
+  getTimeRangeText,
+  analyzeSentiment,
+  getSentimentDescription,
+  flattenContents
 } from "../utils";
+import { lifelogSummarySchema, sentimentSchema, summarizeLifelog, toolResult } from "./schemas.js";
+import { fetchLifelogsWithProgress, ToolExtra } from "./progress.js";
+
+const summaryLevels = ["brief", "detailed", "comprehensive"] as const;
+const summaryFocuses = ["general", "key_points", "decisions", "questions", "action_items"] as const;
+
+const summarizeLifelogsOutput = {
+  level: z.enum(["brief", "detailed"]),
+  combined: z.boolean().describe("Whether the lifelogs were summarized together"),
+  lifelogs: z.array(lifelogSummarySchema).describe("Summarized lifelogs, oldest first"),
+  participants: z.array(z.string()),
+  summary: z.string().optional().describe("Combined summary, when combined"),
+  summaries: z.array(z.object({
+    id: z.string(),
+    title: z.string(),
+    summary: z.string()
+  })).optional().describe("One summary per lifelog, when not combined")
+};
+
+type SummarizeLifelogsOutput = z.infer<z.ZodObject<typeof summarizeLifelogsOutput>>;
+
+const scoredSentenceSchema = z.object({ sentence: z.string(), score: z.number() });
+
+const sentimentOutput = {
+  id: z.string(),
+  title: z.string(),
+  startTime: z.string().optional(),
+  overall: sentimentSchema,
+  speakers: z.array(sentimentSchema.extend({
+    speaker: z.string(),
+    wordCount: z.number()
+  })).optional().describe("Sentiment of each speaker, when requested"),
+  sentences: z.object({
+    mostPositive: z.array(scoredSentenceSchema),
+    mostNegative: z.array(scoredSentenceSchema)
+  }).optional().describe("Most positive and negative sentences, when requested")
+};
+
+type SentimentOutput = z.infer<z.ZodObject<typeof sentimentOutput>>;
+
+// Arguments of extract_topics
+const topicsInput = {
+  ids: z.array(z.string()).describe("Array of lifelog IDs to analyze"),
+  maxTopics: z.number().default(10).describe("Maximum number of topics to extract"),
+  minOccurrences: z.number().default(3).describe("Minimum occurrences required to include a topic"),
+  mode: z.enum(["keywords", "phrases"]).default("keywords").describe("Extraction mode: keywords or phrases"),
+  excludeCommonWords: z.boolean().default(true).describe("Whether to exclude common English words")
+};
+
+// Output of extract_topics
+const topicsOutput = {
+  lifelogsCount: z.number().describe("Number of lifelogs with content that were analyzed"),
+  mode: z.enum(["keywords", "phrases"]),
+  minOccurrences: z.number(),
+  topics: z.array(z.object({
+    name: z.string(),
+    count: z.number().describe("Occurrences across the lifelogs"),
+    score: z.number().describe("Relevance score; topics are sorted by it")
+  }))
+};
+
+export type TopicsArgs = z.infer<z.ZodObject<typeof topicsInput>>;
 
 /**
  * Register analysis tools on the MCP server
  */
 export function registerAnalysisTools(server: McpServer): void {
   // Single lifelog summarization tool
-  server.tool(
+  server.registerTool(
     "summarize_lifelog",
-    { 
-      id: z.string().describe("The ID of the lifelog to summarize"),
-      level: z.enum(["brief", "detailed", "comprehensive"]).default("detailed").describe("Level of summarization detail"),
-      focus: z.enum(["general", "key_points", "decisions", "questions", "action_items"]).default("general").describe("Focus of the summary")
+    {
+      inputSchema: {
+        id: z.string().describe("The ID of the lifelog to summarize"),
+        level: z.enum(summaryLevels).default("detailed").describe("Level of summarization detail"),
+        focus: z.enum(summaryFocuses).default("general").describe("Focus of the summary")
+      },
+      outputSchema: {
+        id: z.string(),
+        title: z.string(),
+        level: z.enum(summaryLevels),
+        focus: z.enum(summaryFocuses),
+        summary: z.string()
+      }
     },
     async ({ id, level, focus }) => {
       try {
         // Check cache first for this summary
-        const summaryCacheKey = `summary_${id}_${level}_${focus}`;
-        const cachedSummary = cache.get<string>(summaryCacheKey);
+        const summaryCacheKey = partitionCacheKey(`summary_${id}_${level}_${focus}`);
+        const cachedSummary = await cache.get<{ title: string; summary: string }>(summaryCacheKey);
         
         if (cachedSummary) {
           console.error(`Cache hit for summary: ${summaryCacheKey}`);
-          return {
-            content: [{
-              type: "text",
-              text: cachedSummary
-            }]
-          };
+          return toolResult(cachedSummary.summary, { id, level, focus, ...cachedSummary });
         }
         
         console.error(`Cache miss for summary: ${summaryCacheKey}`);
@@ -62,16 +130,11 @@ export function registerAnalysisTools(server: McpServer): void {
         
         // Store in cache with a longer TTL since summaries are expensive to regenerate
         // and don't change unless the underlying data changes (which is rare for lifelogs)
-        const summaryTtl = config.CACHE_TTL * config.CACHE_TTL_MULTIPLIERS.SUMMARIES;
-        cache.set(summaryCacheKey, summary, summaryTtl);
-        console.error(`Cached summary for ${id} with TTL ${summaryTtl}s`);
-        
-        return {
-          content: [{
-            type: "text",
-            text: summary
-          }]
-        };
+        const summaryTtl = calculateDerivedTTL();
+        await setTaggedEntry(summaryCacheKey, { title: lifelog.title, summary }, summaryTtl, getDerivedTags([lifelog]));
+        console.error(`Cached summary for ${id} with TTL ${summaryTtl.memory}s`);
+        
+        return toolResult(summary, { id, title: lifelog.title, level, focus, summary });
       } catch (error: unknown) {
         console.error(`Error summarizing lifelog ${id}:`, error);
         
@@ -102,14 +165,17 @@ export function registerAnalysisTools(server: McpServer): void {
   );
   
   // Multi-lifelog summarization tool
-  server.tool(
+  server.registerTool(
     "summarize_lifelogs",
-    { 
-      ids: z.array(z.string()).describe("Array of lifelog IDs to summarize"),
-      level: z.enum(["brief", "detailed"]).default("brief").describe("Level of summarization detail"),
-      combinedView: z.boolean().default(true).describe("Whether to provide a combined summary")
+    {
+      inputSchema: {
+        ids: z.array(z.string()).describe("Array of lifelog IDs to summarize"),
+        level: z.enum(["brief", "detailed"]).default("brief").describe("Level of summarization detail"),
+        combinedView: z.boolean().default(true).describe("Whether to provide a combined summary")
+      },
+      outputSchema: summarizeLifelogsOutput
     },
-    async ({ ids, level, combinedView }) => {
+    async ({ ids, level, combinedView }, extra) => {
       if (!ids || ids.length === 0) {
         throw new McpError(
           ErrorCode.InvalidParams,
@@ -121,26 +187,20 @@ export function registerAnalysisTools(server: McpServer): void {
       try {
         // Generate a cache key for the multi-lifelog summary
         const sortedIds = [...ids].sort().join(',');
-        const multiSummaryCacheKey = `multi_summary_${sortedIds}_${level}_${combinedView ? 'combined' : 'separate'}`;
+        const multiSummaryCacheKey = partitionCacheKey(`multi_summary_${sortedIds}_${level}_${combinedView ? 'combined' : 'separate'}`);
         
         // Check cache first
-        const cachedSummary = cache.get<string>(multiSummaryCacheKey);
+        const cachedSummary = await cache.get<{ text: string; output: SummarizeLifelogsOutput }>(multiSummaryCacheKey);
         
         if (cachedSummary) {
           console.error(`Cache hit for multi-lifelog summary: ${multiSummaryCacheKey}`);
-          return {
-            content: [{
-              type: "text",
-              text: cachedSummary
-            }]
-          };
+          return toolResult(cachedSummary.text, cachedSummary.output);
         }
         
         console.error(`Cache miss for multi-lifelog summary: ${multiSummaryCacheKey}`);
         
         // Fetch all the lifelogs in parallel
-        const fetchPromises = ids.map(id => callLimitlessApi(`/lifelogs/${id}`));
-        const responses = await Promise.all(fetchPromises);
+        const responses = await fetchLifelogsWithProgress(ids, fetchLifelog, extra);
         
         // Extract and validate the lifelogs
         const lifelogs = responses
@@ -161,6 +221,25 @@ export function registerAnalysisTools(server: McpServer): void {
           return new Date(a.startTime).getTime() - new Date(b.startTime).getTime();
         });
         
+        // Extract all speakers across logs
+        const allSpeakers = new Set<string>();
+        lifelogs.forEach(log => {
+          if (log.contents) {
+            log.contents.forEach(content => {
+              if (content.speakerName) {
+                allSpeakers.add(content.speakerName);
+              }
+            });
+          }
+        });
+        
+        const output: SummarizeLifelogsOutput = {
+          level,
+          combined: combinedView,
+          lifelogs: lifelogs.map(log => summarizeLifelog(log)),
+          participants: Array.from(allSpeakers)
+        };
+        
         // Generate summary content
         let summaryText = "";
         
@@ -171,46 +250,32 @@ export function registerAnalysisTools(server: McpServer): void {
           summaryText = `# Combined Summary of ${lifelogs.length} Lifelogs\n\n`;
           summaryText += timeRange ? `Time Range: ${timeRange}\n\n` : "";
           
-          // Extract all speakers across logs
-          const allSpeakers = new Set<string>();
-          lifelogs.forEach(log => {
-            if (log.contents) {
-              log.contents.forEach(content => {
-                if (content.speakerName) {
-                  allSpeakers.add(content.speakerName);
-                }
-              });
-            }
-          });
-          
           if (allSpeakers.size > 0) {
             summaryText += `Participants: ${Array.from(allSpeakers).join(', ')}\n\n`;
           }
           
           // Generate the combined summary
-          summaryText += generateCombinedSummary(lifelogs, level);
+          output.summary = generateCombinedSummary(lifelogs, level);
+          summaryText += output.summary;
           
         } else {
           // Generate individual summaries
           summaryText = `# Summaries of ${lifelogs.length} Lifelogs\n\n`;
+          output.summaries = [];
           
           lifelogs.forEach((log, index) => {
             const individualSummary = generateSummary(log, level, "general");
+            output.summaries!.push({ id: log.id, title: log.title, summary: individualSummary });
             summaryText += `## ${index + 1}. ${log.title}\n\n${individualSummary}\n\n---\n\n`;
           });
         }
         
         // Cache the summary results for future use
-        const summaryTtl = config.CACHE_TTL * config.CACHE_TTL_MULTIPLIERS.SUMMARIES;
-        cache.set(multiSummaryCacheKey, summaryText, summaryTtl);
-        console.error(`Cached multi-lifelog summary with TTL ${summaryTtl}s`);
-        
-        return {
-          content: [{
-            type: "text",
-            text: summaryText
-          }]
-        };
+        const summaryTtl = calculateDerivedTTL();
+        await setTaggedEntry(multiSummaryCacheKey, { text: summaryText, output }, summaryTtl, getDerivedTags(lifelogs));
+        console.error(`Cached multi-lifelog summary with TTL ${summaryTtl.memory}s`);
+        
+        return toolResult(summaryText, output);
       } catch (error: unknown) {
         console.error(`Error summarizing multiple lifelogs:`, error);
         
@@ -230,104 +295,303 @@ export function registerAnalysisTools(server: McpServer): void {
   );
 
   // Topic extraction from lifelogs
-  server.tool(
+  server.registerTool(
     "extract_topics",
-    { 
-      ids: z.array(z.string()).describe("Array of lifelog IDs to analyze"),
-      maxTopics: z.number().default(10).describe("Maximum number of topics to extract"),
-      minOccurrences: z.number().default(3).describe("Minimum occurrences required to include a topic"),
-      mode: z.enum(["keywords", "phrases"]).default("keywords").describe("Extraction mode: keywords or phrases"),
-      excludeCommonWords: z.boolean().default(true).describe("Whether to exclude common English words")
+    {
+      inputSchema: topicsInput,
+      outputSchema: topicsOutput
     },
-    async ({ ids, maxTopics, minOccurrences, mode, excludeCommonWords }) => {
-      if (!ids || ids.length === 0) {
+    extractLifelogTopics
+  );
+  // Sentiment analysis of a single lifelog
+  server.registerTool(
+    "analyze_sentiment",
+    {
+      inputSchema: {
+        id: z.string().describe("The ID of the lifelog to analyze sentiment for"),
+        bySpeaker: z.boolean().default(true).describe("Whether to analyze sentiment by speaker"),
+        includeSentences: z.boolean().default(false).describe("Whether to include individual sentences in the analysis")
+      },
+      outputSchema: sentimentOutput
+    },
+    async ({ id, bySpeaker, includeSentences }) => {
+      try {
+        const response = await callLimitlessApi(`/lifelogs/${id}`);
+        const lifelog = response.data.lifelog;
+        
+        if (!lifelog || !lifelog.contents) {
+          throw new McpError(
+            ErrorCode.NotFound, 
+            `No content found for lifelog with ID: ${id}`,
+            { id }
+          );
+        }
+        
+        let resultText = `# Sentiment Analysis for "${lifelog.title}"\n\n`;
+        
+        let timeInfo = "";
+        if (lifelog.startTime) {
+          const startDate = new Date(lifelog.startTime);
+          timeInfo = ` (${startDate.toLocaleString()})`;
+        }
+        
+        resultText += `ID: \`${lifelog.id}\`${timeInfo}\n\n`;
+        
+        // Overall sentiment
+        const overallSentiment = analyzeSentiment(lifelog.markdown || "");
+        const output: SentimentOutput = {
+          id: lifelog.id,
+          title: lifelog.title,
+          startTime: lifelog.startTime,
+          overall: describeSentiment(overallSentiment)
+        };
+        resultText += `## Overall Sentiment\n\n`;
+        resultText += `- **Score**: ${overallSentiment.score.toFixed(2)} (${getSentimentDescription(overallSentiment.score)})\n`;
+        resultText += `- **Positive Words**: ${overallSentiment.positiveWords.slice(0, 10).join(", ")}\n`;
+        resultText += `- **Negative Words**: ${overallSentiment.negativeWords.slice(0, 10).join(", ")}\n\n`;
+        
+        if (bySpeaker) {
+          const speakerTexts = groupBySpeaker(lifelog);
+          
+          output.speakers = [];
+          
+          if (speakerTexts.size > 0) {
+            resultText += `## Sentiment by Speaker\n\n`;
+            
+            for (const [speaker, text] of speakerTexts.entries()) {
+              const speakerSentiment = analyzeSentiment(text);
+              output.speakers.push({
+                speaker,
+                wordCount: text.split(/\s+/).length,
+                ...describeSentiment(speakerSentiment)
+              });
+              
+              resultText += `### ${speaker}\n\n`;
+              resultText += `- **Score**: ${speakerSentiment.score.toFixed(2)} (${getSentimentDescription(speakerSentiment.score)})\n`;
+              resultText += `- **Word Count**: ${text.split(/\s+/).length}\n`;
+              resultText += `- **Top Positive**: ${speakerSentiment.positiveWords.slice(0, 5).join(", ")}\n`;
+              resultText += `- **Top Negative**: ${speakerSentiment.negativeWords.slice(0, 5).join(", ")}\n\n`;
+            }
+          }
+        }
+        
+        if (includeSentences && lifelog.markdown) {
+          resultText += `## Sentence-Level Analysis\n\n`;
+          const sentences = lifelog.markdown.split(/[.!?]+/).filter(s => s.trim().length > 10);
+          
+          const sentimentScores = sentences
+            .map(sentence => ({
+              sentence: sentence.trim(),
+              score: analyzeSentiment(sentence).score
+            }))
+            .sort((a, b) => b.score - a.score);
+          
+          output.sentences = {
+            mostPositive: sentimentScores.slice(0, 3),
+            mostNegative: sentimentScores.slice(-3).reverse()
+          };
+          
+          resultText += `### Most Positive Sentences\n\n`;
+          sentimentScores.slice(0, 3).forEach(item => {
+            resultText += `- "${item.sentence}" (${item.score.toFixed(2)})\n`;
+          });
+          
+          resultText += `\n### Most Negative Sentences\n\n`;
+          sentimentScores.slice(-3).reverse().forEach(item => {
+            resultText += `- "${item.sentence}" (${item.score.toFixed(2)})\n`;
+          });
+        }
+        
+        return toolResult(resultText, output);
+      } catch (error: unknown) {
+        console.error(`Error analyzing sentiment for lifelog ${id}:`, error);
+        
+        // If it's already an McpError, rethrow it
+        if (error instanceof McpError) {
+          throw error;
+        }
+        
+        // Handle HTTP status errors
+        const statusCode = getErrorStatusCode(error);
+        if (statusCode) {
+          if (statusCode === 404) {
+            throw new McpError(`Lifelog with ID ${id} not found`, ErrorCode.NotFound);
+          } else if (statusCode === 401 || statusCode === 403) {
+            throw new McpError(`Unauthorized access to Limitless API`, ErrorCode.Unauthorized);
+          } else if (statusCode >= 500) {
+            throw new McpError(`Limitless API service error: ${statusCode}`, ErrorCode.ServiceUnavailable);
+          }
+        }
+        
+        // Generic error fallback
+        throw new McpError(
+          `Error analyzing sentiment for lifelog ${id}: ${getErrorMessage(error)}`,
+          ErrorCode.Internal
+        );
+      }
+    }
+  );
+  
+  // Sentiment comparison across several lifelogs
+  server.registerTool(
+    "compare_sentiment",
+    {
+      inputSchema: {
+        ids: z.array(z.string()).describe("Array of lifelog IDs to compare sentiment"),
+        bySpeaker: z.boolean().default(false).describe("Whether to compare sentiment by speaker across lifelogs")
+      },
+      outputSchema: {
+        lifelogs: z.array(z.object({
+          id: z.string(),
+          title: z.string(),
+          startTime: z.string().optional(),
+          score: z.number(),
+          description: z.string()
+        })).describe("Lifelogs, most positive first"),
+        speakers: z.array(z.object({
+          speaker: z.string(),
+          averageScore: z.number(),
+          trend: z.number().describe("Last score minus first score"),
+          scores: z.array(z.object({ title: z.string(), score: z.number() }))
+        })).optional().describe("Speakers who appear in more than one lifelog, when requested"),
+        positiveWords: z.array(z.string()),
+        negativeWords: z.array(z.string())
+      }
+    },
+    async ({ ids, bySpeaker }, extra) => {
+      if (!ids || ids.length < 2) {
         throw new McpError(
           ErrorCode.InvalidParams,
-          "Please provide at least one lifelog ID to analyze",
+          "Please provide at least two lifelog IDs to compare",
           { ids }
         );
       }
       
       try {
-        // Generate a cache key based on input parameters
-        const sortedIds = [...ids].sort().join(',');
-        const topicsCacheKey = `topics_${sortedIds}_${maxTopics}_${minOccurrences}_${mode}_${excludeCommonWords}`;
+        // Fetch all the lifelogs in parallel
+        const responses = await fetchLifelogsWithProgress(ids, fetchLifelog, extra);
+        
+        const lifelogs = responses
+          .map(response => response.data.lifelog)
+          .filter(log => log && log.markdown) as Lifelog[];
+        
+        if (lifelogs.length < 2) {
+          throw new McpError(
+            ErrorCode.NotFound,
+            "At least two lifelogs with content are needed for comparison. Please check the provided IDs.",
+            { ids }
+          );
+        }
         
-        // Check if we have cached results
-        const cachedTopics = cache.get<{
-          topics: Array<{name: string, count: number, score: number}>,
-          lifelogsCount: number
-        }>(topicsCacheKey);
+        let resultText = `# Sentiment Comparison for ${lifelogs.length} Lifelogs\n\n`;
         
-        let topics: Array<{name: string, count: number, score: number}>;
-        let lifelogsCount: number;
+        resultText += `## Overall Sentiment Comparison\n\n`;
+        resultText += `| Lifelog | Date | Sentiment Score | Description |\n`;
+        resultText += `| --- | --- | --- | --- |\n`;
         
-        if (cachedTopics) {
-          console.error(`Cache hit for topics: ${topicsCacheKey}`);
-          topics = cachedTopics.topics;
-          lifelogsCount = cachedTopics.lifelogsCount;
-        } else {
-          console.error(`Cache miss for topics: ${topicsCacheKey}`);
+        // Most positive first
+        const sentimentData = lifelogs
+          .map(log => ({
+            id: log.id,
+            title: log.title,
+            startTime: log.startTime,
+            date: log.startTime ? new Date(log.startTime).toLocaleDateString() : "",
+            sentiment: analyzeSentiment(log.markdown || "")
+          }))
+          .sort((a, b) => b.sentiment.score - a.sentiment.score);
+        
+        sentimentData.forEach(data => {
+          resultText += `| ${data.title} | ${data.date} | ${data.sentiment.score.toFixed(2)} | ${getSentimentDescription(data.sentiment.score)} |\n`;
+        });
+        
+        // Basic ASCII chart
+        resultText += `\n## Sentiment Trends\n\n`;
+        resultText += `\`\`\`\n`;
+        sentimentData.forEach(data => {
+          const score = data.sentiment.score;
+          const bars = Math.round((score + 10) * 3); // Scale -10 to +10 into 0-60 bars
+          const barChar = score >= 0 ? '█' : '▒';
+          resultText += `${data.title.padEnd(25, ' ')} | ${''.padStart(bars, barChar)} ${score.toFixed(2)}\n`;
+        });
+        resultText += `\`\`\`\n\n`;
+        
+        let speakers: Array<{ speaker: string; averageScore: number; trend: number; scores: Array<{ title: string; score: number }> }> | undefined;
+        
+        if (bySpeaker) {
+          speakers = [];
+          const speakerData = new Map<string, { scores: number[]; titles: string[] }>();
           
-          // Fetch all the lifelogs in parallel
-          const fetchPromises = ids.map(id => callLimitlessApi(`/lifelogs/${id}`));
-          const responses = await Promise.all(fetchPromises);
+          // Sentiment of each speaker in each lifelog
+          lifelogs.forEach(log => {
+            for (const [speaker, text] of groupBySpeaker(log).entries()) {
+              const data = speakerData.get(speaker) || { scores: [], titles: [] };
+              data.scores.push(analyzeSentiment(text).score);
+              data.titles.push(log.title);
+              speakerData.set(speaker, data);
+            }
+          });
           
-          // Extract and validate the lifelogs
-          const lifelogs = responses
-            .map(response => response.data.lifelog)
-            .filter(log => log && log.markdown) as Lifelog[];
+          // Only speakers who appear in more than one lifelog can be compared
+          const recurring = Array.from(speakerData.entries()).filter(([, data]) => data.scores.length >= 2);
           
-          if (lifelogs.length === 0) {
-            throw new McpError(
-              ErrorCode.NotFound,
-              "None of the provided lifelog IDs contained valid content.",
-              { ids }
-            );
+          if (recurring.length > 0) {
+            resultText += `## Sentiment by Speaker\n\n`;
+            
+            for (const [speaker, data] of recurring) {
+              resultText += `### ${speaker}\n\n`;
+              
+              const avgScore = data.scores.reduce((sum, score) => sum + score, 0) / data.scores.length;
+              const trend = data.scores[data.scores.length - 1] - data.scores[0];
+              speakers.push({
+                speaker,
+                averageScore: avgScore,
+                trend,
+                scores: data.titles.map((title, index) => ({ title, score: data.scores[index] }))
+              });
+              
+              resultText += `- **Average Score**: ${avgScore.toFixed(2)}\n`;
+              resultText += `- **Trend**: ${trend > 0 ? "Improving" : trend < 0 ? "Declining" : "Stable"} (${trend.toFixed(2)})\n\n`;
+              
+              resultText += `| Lifelog | Sentiment Score | Description |\n`;
+              resultText += `| --- | --- | --- |\n`;
+              
+              data.titles.forEach((title, index) => {
+                const score = data.scores[index];
+                resultText += `| ${title} | ${score.toFixed(2)} | ${getSentimentDescription(score)} |\n`;
+              });
+              
+              resultText += '\n';
+            }
           }
-          
-          // Extract topics from the lifelogs
-          topics = extractTopics(lifelogs, maxTopics, minOccurrences, mode, excludeCommonWords);
-          lifelogsCount = lifelogs.length;
-          
-          // Cache the results for future use
-          // Topic extraction is computationally expensive, so cache for longer duration
-          const topicsTtl = config.CACHE_TTL * config.CACHE_TTL_MULTIPLIERS.SUMMARIES; // Use same TTL as summaries
-          cache.set(topicsCacheKey, { topics, lifelogsCount }, topicsTtl);
-          console.error(`Cached topics with TTL ${topicsTtl}s`);
         }
         
-        // Format the response
-        let resultText = `# Topics Extracted from ${lifelogsCount} Lifelogs\n\n`;
+        // Sentiment words across all lifelogs
+        const allPositive = new Set<string>();
+        const allNegative = new Set<string>();
         
-        if (topics.length === 0) {
-          resultText += "No significant topics were found matching the criteria.\n";
-        } else {
-          // Add metadata about the extraction
-          resultText += `## Extraction Parameters\n`;
-          resultText += `- Mode: ${mode}\n`;
-          resultText += `- Minimum occurrences: ${minOccurrences}\n`;
-          resultText += `- Common words excluded: ${excludeCommonWords ? "Yes" : "No"}\n\n`;
-          
-          // List the topics with their frequency
-          resultText += `## ${topics.length} Topics Found\n\n`;
-          
-          topics.forEach((topic, index) => {
-            resultText += `${index + 1}. **${topic.name}** - ${topic.count} occurrences\n`;
-          });
-          
-          // Add usage suggestion
-          resultText += `\n_Use these topics to guide further analysis or as search terms._`;
-        }
+        sentimentData.forEach(data => {
+          data.sentiment.positiveWords.forEach(word => allPositive.add(word));
+          data.sentiment.negativeWords.forEach(word => allNegative.add(word));
+        });
         
-        return {
-          content: [{
-            type: "text",
-            text: resultText
-          }]
-        };
+        resultText += `## Common Words\n\n`;
+        resultText += `- **Positive**: ${Array.from(allPositive).slice(0, 15).join(", ")}\n`;
+        resultText += `- **Negative**: ${Array.from(allNegative).slice(0, 15).join(", ")}\n`;
+        
+        return toolResult(resultText, {
+          lifelogs: sentimentData.map(data => ({
+            id: data.id,
+            title: data.title,
+            startTime: data.startTime,
+            score: data.sentiment.score,
+            description: getSentimentDescription(data.sentiment.score)
+          })),
+          speakers,
+          positiveWords: Array.from(allPositive),
+          negativeWords: Array.from(allNegative)
+        });
       } catch (error: unknown) {
-        console.error(`Error extracting topics:`, error);
+        console.error(`Error comparing sentiment:`, error);
         
         // If it's already an McpError, rethrow it
         if (error instanceof McpError) {
@@ -337,10 +601,141 @@ export function registerAnalysisTools(server: McpServer): void {
         // Generic error fallback
         throw new McpError(
           ErrorCode.Internal,
-          `Error extracting topics: ${getErrorMessage(error)}`,
+          `Error comparing sentiment: ${getErrorMessage(error)}`,
           { ids }
         );
       }
     }
   );
-}
\ No newline at end of file
+}
+
+/**
+ * Topics of one or more lifelogs, cached with the derived data TTL
+ */
+export async function extractLifelogTopics({ ids, maxTopics, minOccurrences, mode, excludeCommonWords }: TopicsArgs, extra: ToolExtra) {
+  if (!ids || ids.length === 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "Please provide at least one lifelog ID to analyze",
+      { ids }
+    );
+  }
+  
+  try {
+    // Generate a cache key based on input parameters
+    const sortedIds = [...ids].sort().join(',');
+    const topicsCacheKey = partitionCacheKey(`topics_${sortedIds}_${maxTopics}_${minOccurrences}_${mode}_${excludeCommonWords}`);
+    
+    // Check if we have cached results
+    const cachedTopics = await cache.get<{
+      topics: Array<{name: string, count: number, score: number}>,
+      lifelogsCount: number
+    }>(topicsCacheKey);
+    
+    let topics: Array<{name: string, count: number, score: number}>;
+    let lifelogsCount: number;
+    
+    if (cachedTopics) {
+      console.error(`Cache hit for topics: ${topicsCacheKey}`);
+      topics = cachedTopics.topics;
+      lifelogsCount = cachedTopics.lifelogsCount;
+    } else {
+      console.error(`Cache miss for topics: ${topicsCacheKey}`);
+      
+      // Fetch all the lifelogs in parallel
+      const responses = await fetchLifelogsWithProgress(ids, fetchLifelog, extra);
+      
+      // Extract and validate the lifelogs
+      const lifelogs = responses
+        .map(response => response.data.lifelog)
+        .filter(log => log && log.markdown) as Lifelog[];
+      
+      if (lifelogs.length === 0) {
+        throw new McpError(
+          ErrorCode.NotFound,
+          "None of the provided lifelog IDs contained valid content.",
+          { ids }
+        );
+      }
+      
+      // Extract topics from the lifelogs
+      topics = extractTopics(lifelogs, maxTopics, minOccurrences, mode, excludeCommonWords);
+      lifelogsCount = lifelogs.length;
+      
+      // Cache the results for future use
+      // Topic extraction is computationally expensive, so cache for longer duration
+      const topicsTtl = calculateDerivedTTL(); // Use same TTL as summaries
+      await setTaggedEntry(topicsCacheKey, { topics, lifelogsCount }, topicsTtl, getDerivedTags(lifelogs));
+      console.error(`Cached topics with TTL ${topicsTtl.memory}s`);
+    }
+    
+    // Format the response
+    let resultText = `# Topics Extracted from ${lifelogsCount} Lifelogs\n\n`;
+    
+    if (topics.length === 0) {
+      resultText += "No significant topics were found matching the criteria.\n";
+    } else {
+      // Add metadata about the extraction
+      resultText += `## Extraction Parameters\n`;
+      resultText += `- Mode: ${mode}\n`;
+      resultText += `- Minimum occurrences: ${minOccurrences}\n`;
+      resultText += `- Common words excluded: ${excludeCommonWords ? "Yes" : "No"}\n\n`;
+      
+      // List the topics with their frequency
+      resultText += `## ${topics.length} Topics Found\n\n`;
+      
+      topics.forEach((topic, index) => {
+        resultText += `${index + 1}. **${topic.name}** - ${topic.count} occurrences\n`;
+      });
+      
+      // Add usage suggestion
+      resultText += `\n_Use these topics to guide further analysis or as search terms._`;
+    }
+    
+    return toolResult(resultText, { lifelogsCount, mode, minOccurrences, topics });
+  } catch (error: unknown) {
+    console.error(`Error extracting topics:`, error);
+    
+    // If it's already an McpError, rethrow it
+    if (error instanceof McpError) {
+      throw error;
+    }
+    
+    // Generic error fallback
+    throw new McpError(
+      ErrorCode.Internal,
+      `Error extracting topics: ${getErrorMessage(error)}`,
+      { ids }
+    );
+  }
+}
+
+// Fetch a lifelog, stopping when the tool call is cancelled
+function fetchLifelog(id: string, signal: AbortSignal) {
+  return callLimitlessApi(`/lifelogs/${id}`, {}, true, { signal });
+}
+
+// Sentiment result with its description, as in sentimentSchema
+function describeSentiment(sentiment: Sentiment): z.infer<typeof sentimentSchema> {
+  return {
+    score: sentiment.score,
+    description: getSentimentDescription(sentiment.score),
+    positiveWords: sentiment.positiveWords,
+    negativeWords: sentiment.negativeWords
+  };
+}
+
+// Everything each speaker said in a lifelog, keyed by speaker name
+function groupBySpeaker(lifelog: Lifelog): Map<string, string> {
+  const speakers = new Map<string, string[]>();
+  
+  flattenContents(lifelog.contents).forEach(content => {
+    if (content.speakerName) {
+      const texts = speakers.get(content.speakerName) || [];
+      texts.push(content.content);
+      speakers.set(content.speakerName, texts);
+    }
+  });
+  
+  return new Map(Array.from(speakers.entries()).map(([speaker, texts]) => [speaker, texts.join(" ")]));
+}
@@ -4,32 +4,141 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { McpError, ErrorCode } from '../utils/errors';
 import { z } from "zod";
-import cache from "../cache";
+import cache, { getPartitionKeys, invalidateDate, invalidateLifelog, invalidateTags, partitionCacheKey } from "../cache";
 import config from "../config";
+import { getCoalescingStats, getRevalidationStats } from "../api/client";
+import { createPrefetcher, dateRange, warmCache } from "../cache/prefetch.js";
+import { createProgressReporter } from "./progress.js";
+import { toolResult } from "./schemas.js";
+import { DEFAULT_TIMEZONE } from "./time-tools.js";
+
+// Tags of the types accepted by clear_type; other types are used as tags directly
+const TYPE_TAGS: Record<string, string> = {
+  full_lifelog: "full_content",
+  metadata: "metadata_only",
+  listings: "lifelog_listings",
+  search: "search"
+};
+
+// Size in bytes as B, KB or MB
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
 
 /**
  * Register cache management tools on the MCP server
  */
 export function registerCacheTools(server: McpServer): void {
+  // Started by main; the tool only reports its status
+  const prefetcher = createPrefetcher(DEFAULT_TIMEZONE);
+
   // Tool to manage cache settings and data
-  server.tool(
+  server.registerTool(
     "manage_cache",
-    { 
-      action: z.enum(["stats", "clear", "clear_type", "config"]).default("stats").describe("Action to perform on the cache"),
-      type: z.string().optional().describe("Cache type to clear (for clear_type action)")
+    {
+      inputSchema: {
+        action: z.enum(["stats", "clear", "clear_type", "invalidate_tag", "invalidate_date", "invalidate_lifelog", "warm", "config"]).default("stats").describe("Action to perform on the cache"),
+        type: z.string().optional().describe("Cache type to clear (for clear_type action)"),
+        tag: z.string().optional().describe("Tag to invalidate, e.g. full_content, lifelog:<id> or date:YYYY-MM-DD (for invalidate_tag action)"),
+        date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD").optional().describe("Date in YYYY-MM-DD format (for invalidate_date action)"),
+        start: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD").optional().describe("First day to warm, in YYYY-MM-DD format (for warm action)"),
+        end: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD").optional().describe("Last day to warm, inclusive; defaults to start (for warm action)"),
+        timezone: z.string().optional().describe("IANA timezone specifier of the dates (for invalidate_date and warm actions)"),
+        id: z.string().optional().describe("Lifelog ID (for invalidate_lifelog action)")
+      },
+      outputSchema: {
+        action: z.enum(["stats", "clear", "clear_type", "invalidate_tag", "invalidate_date", "invalidate_lifelog", "warm", "config"]),
+        removed: z.number().optional().describe("Entries removed by clear, clear_type and the invalidate actions"),
+        lifelogs: z.array(z.string()).optional().describe("Lifelogs whose entries, summaries and topics were invalidated"),
+        warmed: z.object({
+          days: z.number(),
+          listings: z.number().describe("Day listings fetched"),
+          lifelogs: z.number().describe("Lifelogs fetched in full"),
+          failed: z.number().describe("Requests that failed")
+        }).optional().describe("What the warm action fetched into the cache"),
+        stats: z.object({
+          keys: z.number().describe("Entries cached for your API key"),
+          totalKeys: z.number().describe("Entries cached across all users"),
+          hits: z.number().describe("Lookups answered by either tier"),
+          misses: z.number(),
+          hitRatio: z.number().describe("Percentage of lookups that were hits"),
+          coalesced: z.number().describe("API calls that shared an identical request already in flight"),
+          inFlight: z.number().describe("API requests in flight"),
+          revalidation: z.object({
+            stale: z.number().describe("Expired entries served while they were revalidated in the background"),
+            notModified: z.number().describe("Revalidations answered 304 Not Modified"),
+            updated: z.number().describe("Revalidations that fetched changed data"),
+            failed: z.number()
+          }),
+          averageTtlRemainingSeconds: z.number().optional(),
+          keysByType: z.record(z.number()),
+          tiers: z.array(z.object({
+            tier: z.string().describe("memory or disk"),
+            keys: z.number().describe("Entries in the tier across all users"),
+            hits: z.number(),
+            misses: z.number(),
+            bytes: z.number().optional().describe("Estimated size of the entries in memory, or their size on disk"),
+            maxBytes: z.number().optional().describe("Size budget of the tier"),
+            maxKeys: z.number().optional().describe("Most entries the tier holds"),
+            evictions: z.number().optional().describe("Entries evicted to stay within the budget"),
+            compressed: z.number().optional().describe("Entries stored gzipped")
+          })),
+          prefetch: z.object({
+            running: z.boolean(),
+            days: z.array(z.string()).describe("Configured days (LIMITLESS_PREFETCH); empty when prefetch is disabled"),
+            timezone: z.string(),
+            intervalSeconds: z.number(),
+            lastRunStartedAt: z.string().optional(),
+            lastRunFinishedAt: z.string().optional(),
+            nextRunAt: z.string().optional(),
+            lastResult: z.object({
+              days: z.number(),
+              listings: z.number(),
+              lifelogs: z.number(),
+              failed: z.number()
+            }).optional(),
+            lastError: z.string().optional()
+          })
+        }).optional(),
+        config: z.object({
+          apiBaseUrl: z.string(),
+          apiTimeoutMs: z.number(),
+          apiMaxRetries: z.number(),
+          maxLifelogLimit: z.number(),
+          defaultPageSize: z.number(),
+          searchMultiplier: z.number(),
+          ttlSeconds: z.number(),
+          checkPeriodSeconds: z.number(),
+          maxKeys: z.number(),
+          maxBytes: z.number(),
+          staleTtlSeconds: z.number().describe("How long expired API responses are served while revalidating"),
+          prefetch: z.object({
+            days: z.array(z.string()),
+            intervalSeconds: z.number(),
+            timezone: z.string()
+          }),
+          ttlMultipliers: z.record(z.number()),
+          evictionWeights: z.record(z.number()),
+          disk: z.object({
+            enabled: z.boolean(),
+            ttlSeconds: z.number(),
+            maxBytes: z.number(),
+            compressThresholdBytes: z.number()
+          })
+        }).optional()
+      }
     },
-    async ({ action, type }) => {
+    async ({ action, type, tag, date, start, end, timezone = DEFAULT_TIMEZONE, id }, extra) => {
       // Handle different actions
       switch (action) {
         case "clear":
-          const keysCount = cache.keys().length;
-          cache.flushAll();
-          return {
-            content: [{
-              type: "text",
-              text: `Cache cleared successfully. ${keysCount} entries removed.`
-            }]
-          };
+          // Only the caller's own entries
+          const ownKeys = getPartitionKeys();
+          const keysCount = ownKeys.length;
+          await cache.del(ownKeys.map(partitionCacheKey));
+          return toolResult(`Cache cleared successfully. ${keysCount} entries removed.`, { action, removed: keysCount });
           
         case "clear_type":
           if (!type) {
@@ -40,82 +149,164 @@ export function registerCacheTools(server: McpServer): void {
             );
           }
           
-          // Get all keys
-          const allKeys = cache.keys();
+          // Only the entries of that type, not the summaries derived from them
+          const { removed: typeRemoved } = await invalidateTags([TYPE_TAGS[type] || type], false);
+          
+          return toolResult(
+            `Selectively cleared ${typeRemoved} cache entries of type '${type}'.\n\n` +
+              `Valid types include: full_lifelog, metadata, listings, search, or any cache tag.`,
+            { action, removed: typeRemoved }
+          );
           
-          // Filter keys that match the specified type
-          const keysToDelete = allKeys.filter(key => {
-            if (type === "full_lifelog" && key.includes('/lifelogs/') && key.includes('includeMarkdown=true')) {
-              return true;
-            } else if (type === "metadata" && key.includes('/lifelogs/') && !key.includes('includeMarkdown=true')) {
-              return true;
-            } else if (type === "listings" && key.startsWith('/lifelogs') && !key.includes('/lifelogs/')) {
-              return true;
-            } else if (type === "search" && key.includes('query=')) {
-              return true;
-            } else if (key.includes(type)) {
-              // Generic matching based on substring
-              return true;
+        case "invalidate_tag":
+        case "invalidate_date":
+        case "invalidate_lifelog": {
+          let result: { removed: number; lifelogs: string[] };
+          let target: string;
+          
+          if (action === "invalidate_tag") {
+            if (!tag) {
+              throw new McpError("Tag parameter is required for invalidate_tag action", ErrorCode.InvalidParams);
             }
-            return false;
-          });
+            result = await invalidateTags([tag]);
+            target = `tag '${tag}'`;
+          } else if (action === "invalidate_date") {
+            if (!date) {
+              throw new McpError("Date parameter is required for invalidate_date action", ErrorCode.InvalidParams);
+            }
+            result = await invalidateDate(date, timezone);
+            target = `${date} (${timezone})`;
+          } else {
+            if (!id) {
+              throw new McpError("ID parameter is required for invalidate_lifelog action", ErrorCode.InvalidParams);
+            }
+            result = await invalidateLifelog(id);
+            target = `lifelog ${id}`;
+          }
+          
+          return toolResult(
+            `Invalidated ${result.removed} cache entries for ${target}.` +
+              (result.lifelogs.length > 0 ? `\n\nAffected lifelogs (cached responses, summaries and topics dropped):\n${result.lifelogs.map(lifelog => `- ${lifelog}`).join("\n")}` : ""),
+            { action, removed: result.removed, lifelogs: result.lifelogs }
+          );
+        }
           
-          // Delete the matched keys
-          keysToDelete.forEach(key => cache.del(key));
+        case "warm": {
+          if (!start) {
+            throw new McpError("Start parameter is required for warm action", ErrorCode.InvalidParams);
+          }
+          
+          const days = dateRange(start, end || start);
+          const reportProgress = createProgressReporter(extra);
+          const warmed = await warmCache(days, timezone, {
+            signal: extra.signal,
+            onDay: (day, done, total) => reportProgress(done, total, `Warmed ${day}`)
+          });
+          const range = days.length > 1 ? `${days[0]} to ${days[days.length - 1]}` : days[0];
           
-          return {
-            content: [{
-              type: "text",
-              text: `Selectively cleared ${keysToDelete.length} cache entries of type '${type}'.\n\n` +
-                  `Valid types include: full_lifelog, metadata, listings, search, or any custom substring.`
-            }]
-          };
+          return toolResult(
+            `Warmed the cache for ${range} (${timezone}): ${warmed.listings} of ${days.length} days listed, ${warmed.lifelogs} lifelogs fetched` +
+              (warmed.failed > 0 ? `, ${warmed.failed} requests failed.` : "."),
+            { action, warmed }
+          );
+        }
           
         case "config":
           // Show current cache configuration
-          return {
-            content: [{
-              type: "text",
-              text: `# Cache Configuration\n\n` +
-                    `## API Configuration\n` +
-                    `- **API Base URL**: ${config.API_BASE_URL}\n` +
-                    `- **API Timeout**: ${config.API_TIMEOUT_MS}ms (${config.API_TIMEOUT_MS / 1000} seconds)\n` +
-                    `- **Max Retries**: ${config.API_MAX_RETRIES}\n\n` +
-                    `## Pagination & Limits\n` +
-                    `- **Max Results**: ${config.MAX_LIFELOG_LIMIT}\n` +
-                    `- **Default Page Size**: ${config.DEFAULT_PAGE_SIZE}\n` +
-                    `- **Search Multiplier**: ${config.MAX_SEARCH_MULTIPLIER}x\n\n` +
-                    `## Cache Settings\n` +
-                    `- **TTL**: ${config.CACHE_TTL}s (${config.CACHE_TTL / 60} minutes)\n` +
-                    `- **Check Period**: ${config.CACHE_CHECK_PERIOD}s (${config.CACHE_CHECK_PERIOD / 60} minutes)\n` +
-                    `- **Max Keys**: ${config.CACHE_MAX_KEYS}\n\n` +
-                    `## TTL Multipliers\n` +
-                    `- **Metadata**: ${config.CACHE_TTL_MULTIPLIERS.METADATA}x (${config.CACHE_TTL * config.CACHE_TTL_MULTIPLIERS.METADATA}s)\n` +
-                    `- **Listings**: ${config.CACHE_TTL_MULTIPLIERS.LISTINGS}x (${config.CACHE_TTL * config.CACHE_TTL_MULTIPLIERS.LISTINGS}s)\n` +
-                    `- **Search**: ${config.CACHE_TTL_MULTIPLIERS.SEARCH}x (${config.CACHE_TTL * config.CACHE_TTL_MULTIPLIERS.SEARCH}s)\n` +
-                    `- **Summaries**: ${config.CACHE_TTL_MULTIPLIERS.SUMMARIES}x (${config.CACHE_TTL * config.CACHE_TTL_MULTIPLIERS.SUMMARIES}s)\n\n` +
-                    `These settings can be configured via the following environment variables:\n` +
-                    `- LIMITLESS_API_KEY (required)\n` +
-                    `- LIMITLESS_API_BASE_URL\n` +
-                    `- LIMITLESS_API_TIMEOUT_MS\n` +
-                    `- LIMITLESS_API_MAX_RETRIES\n` +
-                    `- LIMITLESS_MAX_LIFELOG_LIMIT\n` +
-                    `- LIMITLESS_DEFAULT_PAGE_SIZE\n` +
-                    `- LIMITLESS_SEARCH_MULTIPLIER\n` +
-                    `- LIMITLESS_CACHE_TTL\n` +
-                    `- LIMITLESS_CACHE_CHECK_PERIOD\n` +
-                    `- LIMITLESS_CACHE_MAX_KEYS\n` +
-                    `- CACHE_TTL_METADATA\n` +
-                    `- CACHE_TTL_LISTINGS\n` +
-                    `- CACHE_TTL_SEARCH\n` +
-                    `- CACHE_TTL_SUMMARIES`
-            }]
-          };
+          return toolResult(
+            `# Cache Configuration\n\n` +
+              `## API Configuration\n` +
+              `- **API Base URL**: ${config.API_BASE_URL}\n` +
+              `- **API Timeout**: ${config.API_TIMEOUT_MS}ms (${config.API_TIMEOUT_MS / 1000} seconds)\n` +
+              `- **Max Retries**: ${config.API_MAX_RETRIES}\n\n` +
+              `## Pagination & Limits\n` +
+              `- **Max Results**: ${config.MAX_LIFELOG_LIMIT}\n` +
+              `- **Default Page Size**: ${config.DEFAULT_PAGE_SIZE}\n` +
+              `- **Search Multiplier**: ${config.MAX_SEARCH_MULTIPLIER}x\n\n` +
+              `## Cache Settings\n` +
+              `- **TTL**: ${config.CACHE_TTL}s (${config.CACHE_TTL / 60} minutes)\n` +
+              `- **Check Period**: ${config.CACHE_CHECK_PERIOD}s (${config.CACHE_CHECK_PERIOD / 60} minutes)\n` +
+              `- **Max Keys**: ${config.CACHE_MAX_KEYS}\n` +
+              `- **Max Memory**: ${formatBytes(config.CACHE_MAX_BYTES)}\n` +
+              `- **Stale-While-Revalidate**: ${config.CACHE_STALE_TTL > 0 ? `${config.CACHE_STALE_TTL}s` : "disabled"}\n` +
+              `- **Prefetch**: ${config.PREFETCH.length > 0 ? `${config.PREFETCH.join(", ")} every ${config.PREFETCH_INTERVAL}s` : "disabled"}\n` +
+              `- **Disk Tier**: ${config.CACHE_DISK ? `enabled (TTL ${config.CACHE_DISK_TTL}s, max ${formatBytes(config.CACHE_DISK_MAX_BYTES)}, compress from ${formatBytes(config.CACHE_COMPRESS_THRESHOLD)})` : "disabled"}\n\n` +
+              `## TTL Multipliers\n` +
+              `- **Metadata**: ${config.CACHE_TTL_MULTIPLIERS.METADATA}x (${config.CACHE_TTL * config.CACHE_TTL_MULTIPLIERS.METADATA}s)\n` +
+              `- **Listings**: ${config.CACHE_TTL_MULTIPLIERS.LISTINGS}x (${config.CACHE_TTL * config.CACHE_TTL_MULTIPLIERS.LISTINGS}s)\n` +
+              `- **Search**: ${config.CACHE_TTL_MULTIPLIERS.SEARCH}x (${config.CACHE_TTL * config.CACHE_TTL_MULTIPLIERS.SEARCH}s)\n` +
+              `- **Summaries**: ${config.CACHE_TTL_MULTIPLIERS.SUMMARIES}x (${config.CACHE_TTL * config.CACHE_TTL_MULTIPLIERS.SUMMARIES}s)\n\n` +
+              `## Eviction Weights\n` +
+              `Once the memory tier is full, the least recently used entries are evicted; heavier entries stay longer.\n` +
+              `- **Metadata**: ${config.CACHE_EVICTION_WEIGHTS.METADATA}\n` +
+              `- **Listings**: ${config.CACHE_EVICTION_WEIGHTS.LISTINGS}\n` +
+              `- **Summaries**: ${config.CACHE_EVICTION_WEIGHTS.SUMMARIES}\n` +
+              `- **Full lifelogs**: 1\n\n` +
+              `These settings can be configured via the following environment variables:\n` +
+              `- LIMITLESS_API_KEY (required)\n` +
+              `- LIMITLESS_API_BASE_URL\n` +
+              `- LIMITLESS_API_TIMEOUT_MS\n` +
+              `- LIMITLESS_API_MAX_RETRIES\n` +
+              `- LIMITLESS_MAX_LIFELOG_LIMIT\n` +
+              `- LIMITLESS_DEFAULT_PAGE_SIZE\n` +
+              `- LIMITLESS_SEARCH_MULTIPLIER\n` +
+              `- LIMITLESS_CACHE_TTL\n` +
+              `- LIMITLESS_CACHE_CHECK_PERIOD\n` +
+              `- LIMITLESS_CACHE_MAX_KEYS\n` +
+              `- LIMITLESS_CACHE_MAX_MB\n` +
+              `- LIMITLESS_CACHE_STALE_TTL\n` +
+              `- LIMITLESS_CACHE_DISK\n` +
+              `- LIMITLESS_CACHE_DISK_TTL\n` +
+              `- LIMITLESS_CACHE_DISK_MAX_MB\n` +
+              `- LIMITLESS_CACHE_COMPRESS_THRESHOLD\n` +
+              `- LIMITLESS_PREFETCH\n` +
+              `- LIMITLESS_PREFETCH_INTERVAL\n` +
+              `- LIMITLESS_PREFETCH_TIMEZONE\n` +
+              `- CACHE_TTL_METADATA\n` +
+              `- CACHE_TTL_LISTINGS\n` +
+              `- CACHE_TTL_SEARCH\n` +
+              `- CACHE_TTL_SUMMARIES\n` +
+              `- CACHE_WEIGHT_METADATA\n` +
+              `- CACHE_WEIGHT_LISTINGS\n` +
+              `- CACHE_WEIGHT_SUMMARIES`,
+            {
+              action,
+              config: {
+                apiBaseUrl: config.API_BASE_URL,
+                apiTimeoutMs: config.API_TIMEOUT_MS,
+                apiMaxRetries: config.API_MAX_RETRIES,
+                maxLifelogLimit: config.MAX_LIFELOG_LIMIT,
+                defaultPageSize: config.DEFAULT_PAGE_SIZE,
+                searchMultiplier: config.MAX_SEARCH_MULTIPLIER,
+                ttlSeconds: config.CACHE_TTL,
+                checkPeriodSeconds: config.CACHE_CHECK_PERIOD,
+                maxKeys: config.CACHE_MAX_KEYS,
+                maxBytes: config.CACHE_MAX_BYTES,
+                staleTtlSeconds: config.CACHE_STALE_TTL,
+                prefetch: {
+                  days: config.PREFETCH,
+                  intervalSeconds: config.PREFETCH_INTERVAL,
+                  timezone: prefetcher.getStatus().timezone
+                },
+                ttlMultipliers: { ...config.CACHE_TTL_MULTIPLIERS },
+                evictionWeights: { ...config.CACHE_EVICTION_WEIGHTS },
+                disk: {
+                  enabled: config.CACHE_DISK,
+                  ttlSeconds: config.CACHE_DISK_TTL,
+                  maxBytes: config.CACHE_DISK_MAX_BYTES,
+                  compressThresholdBytes: config.CACHE_COMPRESS_THRESHOLD
+                }
+              }
+            }
+          );
           
         case "stats":
         default:
           const stats = cache.getStats();
-          const keys = cache.keys();
+          const requests = getCoalescingStats();
+          const revalidation = getRevalidationStats();
+          const prefetch = prefetcher.getStatus();
+          const keys = getPartitionKeys();
           
           // Enhanced type detection
           const keysByType = keys.reduce((acc: Record<string, number>, key: string) => {
@@ -147,10 +338,10 @@ export function registerCacheTools(server: McpServer): void {
             ? ((stats.hits / (stats.hits + stats.misses)) * 100).toFixed(2)
             : "0.00";
             
-          // Calculate average key age if possible (not directly supported by NodeCache)
+          // Calculate average TTL remaining over a sample of keys
           const keysSample = keys.slice(0, Math.min(keys.length, 10));
           const keyAges = keysSample.map(key => {
-            const ttl = cache.getTtl(key);
+            const ttl = cache.getTtl(partitionCacheKey(key));
             if (ttl) {
               return Math.round((ttl - Date.now()) / 1000);
             }
@@ -162,31 +353,69 @@ export function registerCacheTools(server: McpServer): void {
             : "unknown";
             
           // Enhanced stats output
-          return {
-            content: [{
-              type: "text",
-              text: `# Cache Statistics\n\n` +
-                    `## Performance Metrics\n` +
-                    `- **Total Keys**: ${stats.keys}\n` +
-                    `- **Hits**: ${stats.hits}\n` +
-                    `- **Misses**: ${stats.misses}\n` +
-                    `- **Hit Ratio**: ${hitRatio}%\n` +
-                    `- **Avg. TTL Remaining**: ${avgAge !== "unknown" ? `~${avgAge}s` : "unknown"}\n\n` +
-                    `## Cache Composition\n` +
-                    Object.entries(keysByType)
-                      .sort(([_, a], [__, b]) => b - a) // Sort by count (highest first)
-                      .map(([type, count]) => {
-                        const percentage = ((count / stats.keys) * 100).toFixed(1);
-                        return `- **${type}**: ${count} (${percentage}%)`;
-                      })
-                      .join('\n') +
-                    `\n\n## Available Actions\n` +
-                    `- **stats**: Show these statistics\n` +
-                    `- **clear**: Clear entire cache\n` +
-                    `- **clear_type**: Clear specific type of cached data (requires 'type' parameter)\n` +
-                    `- **config**: Show cache configuration settings`
-            }]
-          };
+          return toolResult(
+            `# Cache Statistics\n\n` +
+              `## Performance Metrics\n` +
+              `- **Total Keys**: ${keys.length}${keys.length !== stats.keys ? ` (${stats.keys} across all users)` : ""}\n` +
+              `- **Hits**: ${stats.hits}\n` +
+              `- **Misses**: ${stats.misses}\n` +
+              `- **Hit Ratio**: ${hitRatio}%\n` +
+              `- **Coalesced Requests**: ${requests.coalesced} (${requests.inFlight} in flight)\n` +
+              `- **Stale Served**: ${revalidation.stale} (revalidated: ${revalidation.notModified} not modified, ${revalidation.updated} updated, ${revalidation.failed} failed)\n` +
+              `- **Avg. TTL Remaining**: ${avgAge !== "unknown" ? `~${avgAge}s` : "unknown"}\n\n` +
+              `## Tiers\n` +
+              stats.tiers.map(tier => {
+                const size = tier.bytes !== undefined
+                  ? `, ${formatBytes(tier.bytes)}${tier.maxBytes ? ` of ${formatBytes(tier.maxBytes)}` : ""}${tier.compressed ? `, ${tier.compressed} compressed` : ""}`
+                  : "";
+                const evicted = tier.evictions !== undefined ? `, ${tier.evictions} evicted` : "";
+                return `- **${tier.tier}**: ${tier.keys}${tier.maxKeys ? ` of ${tier.maxKeys}` : ""} keys, ${tier.hits} hits, ${tier.misses} misses${size}${evicted}`;
+              }).join('\n') +
+              (cache.hasDisk ? "" : `\n- **disk**: disabled (set LIMITLESS_CACHE_DISK=true to keep entries across restarts)`) +
+              `\n\n## Prefetch\n` +
+              (prefetch.days.length > 0
+                ? `- **Days**: ${prefetch.days.join(", ")} (${prefetch.timezone}), every ${prefetch.intervalSeconds}s\n` +
+                  `- **Last Run**: ${prefetch.running ? "running" : prefetch.lastRunFinishedAt || "never"}` +
+                  (prefetch.lastResult ? ` (${prefetch.lastResult.listings} listings, ${prefetch.lastResult.lifelogs} lifelogs, ${prefetch.lastResult.failed} failed)` : "") +
+                  (prefetch.lastError ? `\n- **Last Error**: ${prefetch.lastError}` : "") +
+                  (prefetch.nextRunAt ? `\n- **Next Run**: ${prefetch.nextRunAt}` : "")
+                : `- disabled (set LIMITLESS_PREFETCH, e.g. today,yesterday, to warm recent days)`) +
+              `\n\n` +
+              `## Cache Composition\n` +
+              Object.entries(keysByType)
+                .sort(([_, a], [__, b]) => b - a) // Sort by count (highest first)
+                .map(([type, count]) => {
+                  const percentage = ((count / keys.length) * 100).toFixed(1);
+                  return `- **${type}**: ${count} (${percentage}%)`;
+                })
+                .join('\n') +
+              `\n\n## Available Actions\n` +
+              `- **stats**: Show these statistics\n` +
+              `- **clear**: Clear all entries cached for your API key\n` +
+              `- **clear_type**: Clear specific type of cached data (requires 'type' parameter)\n` +
+              `- **invalidate_tag**: Drop entries with a tag, and the summaries and topics of their lifelogs (requires 'tag')\n` +
+              `- **invalidate_date**: Drop everything cached for a day (requires 'date', optional 'timezone')\n` +
+              `- **invalidate_lifelog**: Drop everything cached for a lifelog (requires 'id')\n` +
+              `- **warm**: Fetch the listings and lifelogs of a date range into the cache (requires 'start', optional 'end' and 'timezone')\n` +
+              `- **config**: Show cache configuration settings`,
+            {
+              action: "stats",
+              stats: {
+                keys: keys.length,
+                totalKeys: stats.keys,
+                hits: stats.hits,
+                misses: stats.misses,
+                hitRatio: Number(hitRatio),
+                coalesced: requests.coalesced,
+                inFlight: requests.inFlight,
+                revalidation,
+                averageTtlRemainingSeconds: avgAge !== "unknown" ? Number(avgAge) : undefined,
+                keysByType,
+                tiers: stats.tiers,
+                prefetch
+              }
+            }
+          );
       }
     }
   );
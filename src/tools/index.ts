@@ -1,11 +1,13 @@
 /**
  * Tools registry for Limitless MCP
  */
-import { McpServer, ResourceTemplate, ResourceMetadata } from "@modelcontextprotocol/sdk/server/mcp.js";
-import callLimitlessApi from "../api/client.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { registerCacheTools } from "./cache-tools.js";
 import { registerLifelogTools } from "./lifelog-tools.js";
 import { registerAnalysisTools } from "./analysis-tools.js";
+import { registerSearchTools } from "./search-tools.js";
+import { registerSyncTools } from "./sync-tools.js";
+import { registerTimeTools } from "./time-tools.js";
 
 /**
  * Register all tools with the MCP server
@@ -15,36 +17,7 @@ export function registerAllTools(server: McpServer): void {
   registerCacheTools(server);
   registerLifelogTools(server);
   registerAnalysisTools(server);
+  registerTimeTools(server);
+  registerSearchTools(server);
+  registerSyncTools(server);
 }
-
-/**
- * Register resource endpoints with the MCP server
- */
-export function registerResources(server: McpServer): void {
-  // Register lifelogs resource
-  server.resource(
-    "lifelogs",
-    new ResourceTemplate("lifelogs://{id}", { 
-      list: async () => {
-        const response = await callLimitlessApi("/lifelogs", { limit: 25 });
-        const logs = response.data.lifelogs || [];
-        return {
-          resources: logs.map((l) => ({
-            name: l.title,
-            uri: `lifelogs://${l.id}`,
-            description: l.title
-          }))
-        };
-      }
-    }),
-    {} as ResourceMetadata,
-    async (uri: URL) => {
-      const id = uri.host;                             // lifelogs://<id>
-      const response = await callLimitlessApi(`/lifelogs/${id}`);
-      const lifelog = response.data.lifelog;
-      return {
-        contents: [{ uri: uri.href, text: lifelog?.markdown ?? "(empty)" }]
-      };
-    }
-  );
-}
\ No newline at end of file
@@ -4,26 +4,94 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { McpError, ErrorCode, getErrorStatusCode, getErrorMessage } from '../utils/errors';
 import { z } from "zod";
-import callLimitlessApi from "../api/client";
+import callLimitlessApi, { fetchAllLifelogs } from "../api/client";
 import config from "../config";
-import { Lifelog } from "../types";
+import { Lifelog, LifelogContent } from "../types";
+import { countOccurrences, extractSnippet, flattenContents, formatTranscript, getLifelogMetadata } from "../utils";
+import { lifelogSummarySchema, lifelogMetadataShape, summarizeLifelog, toolResult } from "./schemas.js";
+import { ToolExtra } from "./progress.js";
+
+// Output of the listing tools
+const lifelogListOutput = {
+  lifelogs: z.array(lifelogSummarySchema),
+  nextCursor: z.string().optional().describe("Cursor for the next page (pass it to get_paged_lifelogs)")
+};
+
+// A content block as returned by filter_lifelog_contents and generate_transcript
+const contentBlockSchema = z.object({
+  type: z.string(),
+  content: z.string(),
+  speakerName: z.string().optional(),
+  startTime: z.string().optional(),
+  endTime: z.string().optional()
+});
+
+// Arguments of generate_transcript
+const transcriptInput = {
+  id: z.string().describe("The ID of the lifelog to generate transcript from"),
+  format: z.enum(["simple", "detailed", "dialogue"]).default("dialogue").describe("Transcript format style")
+};
+
+// Output of generate_transcript
+const transcriptOutput = {
+  id: z.string(),
+  title: z.string(),
+  format: z.enum(["simple", "detailed", "dialogue"]),
+  transcript: z.string(),
+  blocks: z.array(contentBlockSchema).describe("Content blocks in recorded order, including nested ones")
+};
+
+export type TranscriptArgs = z.infer<z.ZodObject<typeof transcriptInput>>;
+
+// Arguments of search_lifelogs
+const searchInput = {
+  query: z.string().describe("Text to search for in lifelogs"),
+  limit: z.number().optional(),
+  date: z.string().optional().describe("Date in YYYY-MM-DD format"),
+  timezone: z.string().optional().describe("IANA timezone specifier"),
+  start: z.string().optional().describe("Start date/time in YYYY-MM-DD or YYYY-MM-DD HH:mm:SS format"),
+  end: z.string().optional().describe("End date/time in YYYY-MM-DD or YYYY-MM-DD HH:mm:SS format"),
+  searchMode: z.enum(["basic", "advanced"]).default("advanced").describe("Search mode: basic (simple contains) or advanced (with scoring)"),
+  includeSnippets: z.boolean().default(true).describe("Include matching content snippets in results")
+};
+
+// Output of search_lifelogs
+const searchOutput = {
+  query: z.string(),
+  totalMatches: z.number().describe("Number of matching lifelogs before the limit"),
+  searched: z.number().describe("Number of lifelogs searched"),
+  truncated: z.boolean().describe("Whether the range had more lifelogs than were searched"),
+  results: z.array(z.object({
+    id: z.string(),
+    title: z.string(),
+    startTime: z.string().optional(),
+    score: z.number(),
+    matchCount: z.number(),
+    snippet: z.string().optional()
+  }))
+};
+
+export type SearchArgs = z.infer<z.ZodObject<typeof searchInput>>;
 
 /**
  * Register lifelog listing and retrieval tools on the MCP server
  */
 export function registerLifelogTools(server: McpServer): void {
   // List lifelogs with enhanced filtering options and selective field retrieval
-  server.tool(
+  server.registerTool(
     "list_lifelogs",
-    { 
-      limit: z.number().optional(),
-      date: z.string().optional().describe("Date in YYYY-MM-DD format"),
-      timezone: z.string().optional().describe("IANA timezone specifier"),
-      start: z.string().optional().describe("Start date/time in YYYY-MM-DD or YYYY-MM-DD HH:mm:SS format"),
-      end: z.string().optional().describe("End date/time in YYYY-MM-DD or YYYY-MM-DD HH:mm:SS format"),
-      direction: z.enum(["asc", "desc"]).optional().describe("Sort direction: asc or desc"),
-      includeContent: z.boolean().default(false).describe("Whether to include markdown content"),
-      fields: z.array(z.string()).optional().describe("Specific fields to include (title, time, id, etc.)")
+    {
+      inputSchema: {
+        limit: z.number().optional(),
+        date: z.string().optional().describe("Date in YYYY-MM-DD format"),
+        timezone: z.string().optional().describe("IANA timezone specifier"),
+        start: z.string().optional().describe("Start date/time in YYYY-MM-DD or YYYY-MM-DD HH:mm:SS format"),
+        end: z.string().optional().describe("End date/time in YYYY-MM-DD or YYYY-MM-DD HH:mm:SS format"),
+        direction: z.enum(["asc", "desc"]).optional().describe("Sort direction: asc or desc"),
+        includeContent: z.boolean().default(false).describe("Whether to include markdown content"),
+        fields: z.array(z.string()).optional().describe("Specific fields to include (title, time, id, etc.)")
+      },
+      outputSchema: lifelogListOutput
     },
     async ({ limit = config.DEFAULT_PAGE_SIZE, date, timezone, start, end, direction, includeContent, fields }) => {
       // Set up query parameters with selective field retrieval
@@ -70,26 +138,27 @@ export function registerLifelogTools(server: McpServer): void {
         resultText += `\n\n[More results available. Use cursor: ${nextCursor} with get_paged_lifelogs]`;
       }
       
-      return {
-        content: [{
-          type: "text",
-          text: lifelogs.length ? resultText : "No lifelogs found for the specified criteria."
-        }]
-      };
+      return toolResult(
+        lifelogs.length ? resultText : "No lifelogs found for the specified criteria.",
+        { lifelogs: lifelogs.map(l => summarizeLifelog(l, includeContent)), nextCursor }
+      );
     }
   );
 
   // Pagination support for lifelogs with selective field retrieval
-  server.tool(
+  server.registerTool(
     "get_paged_lifelogs",
-    { 
-      cursor: z.string().describe("Pagination cursor from previous results"),
-      limit: z.number().optional(),
-      date: z.string().optional().describe("Date in YYYY-MM-DD format"),
-      timezone: z.string().optional().describe("IANA timezone specifier"),
-      direction: z.enum(["asc", "desc"]).optional().describe("Sort direction: asc or desc"),
-      includeContent: z.boolean().default(false).describe("Whether to include markdown content"),
-      fields: z.array(z.string()).optional().describe("Specific fields to include (title, time, id, etc.)")
+    {
+      inputSchema: {
+        cursor: z.string().describe("Pagination cursor from previous results"),
+        limit: z.number().optional(),
+        date: z.string().optional().describe("Date in YYYY-MM-DD format"),
+        timezone: z.string().optional().describe("IANA timezone specifier"),
+        direction: z.enum(["asc", "desc"]).optional().describe("Sort direction: asc or desc"),
+        includeContent: z.boolean().default(false).describe("Whether to include markdown content"),
+        fields: z.array(z.string()).optional().describe("Specific fields to include (title, time, id, etc.)")
+      },
+      outputSchema: lifelogListOutput
     },
     async ({ cursor, limit = config.DEFAULT_PAGE_SIZE, date, timezone, direction, includeContent, fields }) => {
       // Set up query parameters with selective field retrieval
@@ -135,22 +204,31 @@ export function registerLifelogTools(server: McpServer): void {
         resultText += `\n\n[More results available. Use cursor: ${nextCursor}]`;
       }
       
-      return {
-        content: [{
-          type: "text",
-          text: lifelogs.length ? resultText : "No lifelogs found for the specified criteria."
-        }]
-      };
+      return toolResult(
+        lifelogs.length ? resultText : "No lifelogs found for the specified criteria.",
+        { lifelogs: lifelogs.map(l => summarizeLifelog(l, includeContent)), nextCursor }
+      );
     }
   );
 
   // Get a specific lifelog by ID with optional field selection
-  server.tool(
+  server.registerTool(
     "get_lifelog",
-    { 
-      id: z.string().describe("The ID of the lifelog to retrieve"),
-      includeContent: z.boolean().default(true).describe("Whether to include full content or just metadata"),
-      fields: z.array(z.string()).optional().describe("Specific fields to include (title, time, speakers, etc.)")
+    {
+      inputSchema: {
+        id: z.string().describe("The ID of the lifelog to retrieve"),
+        includeContent: z.boolean().default(true).describe("Whether to include full content or just metadata"),
+        fields: z.array(z.string()).optional().describe("Specific fields to include (title, time, speakers, etc.)")
+      },
+      outputSchema: {
+        id: z.string(),
+        title: z.string(),
+        startTime: z.string().optional(),
+        endTime: z.string().optional(),
+        durationSeconds: z.number().optional(),
+        speakers: z.array(z.string()),
+        markdown: z.string().optional().describe("Markdown content, when includeContent is true")
+      }
     },
     async ({ id, includeContent, fields }) => {
       try {
@@ -175,6 +253,8 @@ export function registerLifelogTools(server: McpServer): void {
           );
         }
         
+        const metadata = getLifelogMetadata(lifelog);
+        
         // Process time information
         let formattedTime = "";
         if (lifelog.startTime) {
@@ -186,27 +266,13 @@ export function registerLifelogTools(server: McpServer): void {
         let header = `# ${lifelog.title}${formattedTime}\n\nID: ${lifelog.id}\n\n`;
         
         // Add duration if available
-        if (lifelog.startTime && lifelog.endTime) {
-          const start = new Date(lifelog.startTime).getTime();
-          const end = new Date(lifelog.endTime).getTime();
-          const durationMs = end - start;
-          const minutes = Math.floor(durationMs / 60000);
-          const seconds = Math.floor((durationMs % 60000) / 1000);
-          header += `Duration: ${minutes}m ${seconds}s\n\n`;
+        if (metadata.durationSeconds !== undefined) {
+          header += `Duration: ${formatDuration(metadata.durationSeconds)}\n\n`;
         }
         
-        // Extract speaker information if available
-        if (lifelog.contents && lifelog.contents.length > 0) {
-          const speakers = new Set<string>();
-          lifelog.contents.forEach(content => {
-            if (content.speakerName) {
-              speakers.add(content.speakerName);
-            }
-          });
-          
-          if (speakers.size > 0) {
-            header += `Speakers: ${Array.from(speakers).join(', ')}\n\n`;
-          }
+        // Speakers of all content blocks, including nested ones
+        if (metadata.speakers.length > 0) {
+          header += `Speakers: ${metadata.speakers.join(', ')}\n\n`;
         }
         
         // Include the content if requested
@@ -217,12 +283,15 @@ export function registerLifelogTools(server: McpServer): void {
           content += "(Content not included. Set includeContent=true to view full content.)";
         }
         
-        return {
-          content: [{
-            type: "text",
-            text: content
-          }]
-        };
+        return toolResult(content, {
+          id: lifelog.id,
+          title: lifelog.title,
+          startTime: lifelog.startTime,
+          endTime: lifelog.endTime,
+          durationSeconds: metadata.durationSeconds,
+          speakers: metadata.speakers,
+          markdown: includeContent ? lifelog.markdown : undefined
+        });
       } catch (error: unknown) {
         console.error(`Error fetching lifelog ${id}:`, error);
         
@@ -253,10 +322,13 @@ export function registerLifelogTools(server: McpServer): void {
   );
 
   // Get only metadata for a lifelog
-  server.tool(
+  server.registerTool(
     "get_lifelog_metadata",
-    { 
-      id: z.string().describe("The ID of the lifelog to retrieve metadata for")
+    {
+      inputSchema: {
+        id: z.string().describe("The ID of the lifelog to retrieve metadata for")
+      },
+      outputSchema: lifelogMetadataShape
     },
     async ({ id }) => {
       try {
@@ -271,63 +343,41 @@ export function registerLifelogTools(server: McpServer): void {
           );
         }
         
+        const metadata = getLifelogMetadata(lifelog);
+        
         // Format metadata
-        let metadata = `# Metadata for Lifelog: ${lifelog.title}\n\n`;
-        metadata += `- **ID**: ${lifelog.id}\n`;
+        let text = `# Metadata for Lifelog: ${lifelog.title}\n\n`;
+        text += `- **ID**: ${lifelog.id}\n`;
         
         if (lifelog.startTime) {
           const startDate = new Date(lifelog.startTime);
-          metadata += `- **Start Time**: ${startDate.toLocaleString()}\n`;
+          text += `- **Start Time**: ${startDate.toLocaleString()}\n`;
         }
         
         if (lifelog.endTime) {
           const endDate = new Date(lifelog.endTime);
-          metadata += `- **End Time**: ${endDate.toLocaleString()}\n`;
+          text += `- **End Time**: ${endDate.toLocaleString()}\n`;
         }
         
-        if (lifelog.startTime && lifelog.endTime) {
-          const start = new Date(lifelog.startTime).getTime();
-          const end = new Date(lifelog.endTime).getTime();
-          const durationMs = end - start;
-          const minutes = Math.floor(durationMs / 60000);
-          const seconds = Math.floor((durationMs % 60000) / 1000);
-          metadata += `- **Duration**: ${minutes}m ${seconds}s\n`;
+        if (metadata.durationSeconds !== undefined) {
+          text += `- **Duration**: ${formatDuration(metadata.durationSeconds)}\n`;
         }
         
-        // Add content structure information if available
-        if (lifelog.contents && lifelog.contents.length > 0) {
-          metadata += `- **Content Blocks**: ${lifelog.contents.length}\n`;
-          
-          // Count by type
-          const typeCounts: Record<string, number> = {};
-          lifelog.contents.forEach(content => {
-            typeCounts[content.type] = (typeCounts[content.type] || 0) + 1;
-          });
-          
-          metadata += `- **Content Types**:\n`;
-          Object.entries(typeCounts).forEach(([type, count]) => {
-            metadata += `  - ${type}: ${count}\n`;
-          });
+        // Content structure, counting nested blocks
+        if (metadata.contentBlocks > 0) {
+          text += `- **Content Blocks**: ${metadata.contentBlocks}\n`;
           
-          // Speaker information
-          const speakers = new Set<string>();
-          lifelog.contents.forEach(content => {
-            if (content.speakerName) {
-              speakers.add(content.speakerName);
-            }
+          text += `- **Content Types**:\n`;
+          Object.entries(metadata.contentTypes).forEach(([type, count]) => {
+            text += `  - ${type}: ${count}\n`;
           });
           
-          if (speakers.size > 0) {
-            metadata += `- **Speakers**: ${Array.from(speakers).join(', ')}\n`;
+          if (metadata.speakers.length > 0) {
+            text += `- **Speakers**: ${metadata.speakers.join(', ')}\n`;
           }
         }
         
-        return {
-          content: [{
-            type: "text",
-            text: metadata
-          }]
-        };
+        return toolResult(text, { ...metadata });
       } catch (error: unknown) {
         console.error(`Error fetching lifelog metadata ${id}:`, error);
         
@@ -356,4 +406,356 @@ export function registerLifelogTools(server: McpServer): void {
       }
     }
   );
-}
\ No newline at end of file
+  // Filter lifelog contents by various criteria
+  server.registerTool(
+    "filter_lifelog_contents",
+    {
+      inputSchema: {
+        id: z.string().describe("The ID of the lifelog to filter content from"),
+        speakerName: z.string().optional().describe("Filter by speaker name"),
+        contentType: z.string().optional().describe("Filter by content type (e.g., heading1, blockquote)"),
+        timeStart: z.string().optional().describe("Filter content after this time (ISO-8601)"),
+        timeEnd: z.string().optional().describe("Filter content before this time (ISO-8601)")
+      },
+      outputSchema: {
+        id: z.string(),
+        title: z.string(),
+        totalBlocks: z.number().describe("Number of content blocks before filtering"),
+        blocks: z.array(contentBlockSchema)
+      }
+    },
+    async ({ id, speakerName, contentType, timeStart, timeEnd }) => {
+      try {
+        const response = await callLimitlessApi(`/lifelogs/${id}`);
+        const lifelog = response.data.lifelog;
+        
+        if (!lifelog || !lifelog.contents) {
+          throw new McpError(
+            ErrorCode.NotFound,
+            `No content found for lifelog with ID: ${id}`,
+            { id }
+          );
+        }
+        
+        // Nested blocks (e.g. transcript lines under a heading) are filtered individually
+        const contents = flattenContents(lifelog.contents);
+        let filteredContents = contents;
+        
+        // Apply filters
+        if (speakerName) {
+          filteredContents = filteredContents.filter(c => 
+            c.speakerName && c.speakerName.toLowerCase().includes(speakerName.toLowerCase())
+          );
+        }
+        
+        if (contentType) {
+          filteredContents = filteredContents.filter(c => c.type === contentType);
+        }
+        
+        if (timeStart) {
+          const startTime = new Date(timeStart).getTime();
+          filteredContents = filteredContents.filter(c => {
+            if (!c.startTime) return true;
+            return new Date(c.startTime).getTime() >= startTime;
+          });
+        }
+        
+        if (timeEnd) {
+          const endTime = new Date(timeEnd).getTime();
+          filteredContents = filteredContents.filter(c => {
+            if (!c.endTime) return true;
+            return new Date(c.endTime).getTime() <= endTime;
+          });
+        }
+        
+        const output = {
+          id: lifelog.id,
+          title: lifelog.title,
+          totalBlocks: contents.length,
+          blocks: filteredContents.map(toContentBlock)
+        };
+        
+        if (filteredContents.length === 0) {
+          return toolResult("No content matched the filter criteria.", output);
+        }
+        
+        // Format the filtered content
+        let result = `# Filtered Content from "${lifelog.title}"\n\n`;
+        result += `Found ${filteredContents.length} matching content blocks out of ${contents.length} total.\n\n`;
+        
+        filteredContents.forEach((content, index) => {
+          let timeInfo = "";
+          if (content.startTime) {
+            const time = new Date(content.startTime).toLocaleTimeString();
+            timeInfo = ` (${time})`;
+          }
+          
+          const speaker = content.speakerName ? `**${content.speakerName}**: ` : "";
+          
+          result += `## Block ${index + 1}${timeInfo}\n${speaker}${content.content}\n\n`;
+        });
+        
+        return toolResult(result, output);
+      } catch (error: unknown) {
+        console.error(`Error filtering lifelog ${id}:`, error);
+        
+        // If it's already an McpError, rethrow it
+        if (error instanceof McpError) {
+          throw error;
+        }
+        
+        // Handle HTTP status errors
+        const statusCode = getErrorStatusCode(error);
+        if (statusCode) {
+          if (statusCode === 404) {
+            throw new McpError(`Lifelog with ID ${id} not found`, ErrorCode.NotFound);
+          } else if (statusCode === 401 || statusCode === 403) {
+            throw new McpError(`Unauthorized access to Limitless API`, ErrorCode.Unauthorized);
+          } else if (statusCode >= 500) {
+            throw new McpError(`Limitless API service error: ${statusCode}`, ErrorCode.ServiceUnavailable);
+          }
+        }
+        
+        // Generic error fallback
+        throw new McpError(
+          `Error filtering lifelog ${id}: ${getErrorMessage(error)}`,
+          ErrorCode.Internal
+        );
+      }
+    }
+  );
+
+  // Generate a formatted transcript from a lifelog
+  server.registerTool(
+    "generate_transcript",
+    {
+      inputSchema: transcriptInput,
+      outputSchema: transcriptOutput
+    },
+    generateTranscript
+  );
+
+  // Keyword search over the lifelogs in a date range, with relevance scoring
+  server.registerTool(
+    "search_lifelogs",
+    {
+      inputSchema: searchInput,
+      outputSchema: searchOutput
+    },
+    searchLifelogs
+  );
+}
+
+/**
+ * A formatted transcript of a lifelog, with its content blocks
+ */
+export async function generateTranscript({ id, format }: TranscriptArgs) {
+  try {
+    const response = await callLimitlessApi(`/lifelogs/${id}`);
+    const lifelog = response.data.lifelog;
+    
+    if (!lifelog || !lifelog.contents) {
+      throw new McpError(
+        ErrorCode.NotFound,
+        `No content found for lifelog with ID: ${id}`,
+        { id }
+      );
+    }
+    
+    const transcript = formatTranscript(lifelog, format);
+    
+    return toolResult(transcript, {
+      id: lifelog.id,
+      title: lifelog.title,
+      format,
+      transcript,
+      blocks: flattenContents(lifelog.contents).map(toContentBlock)
+    });
+  } catch (error: unknown) {
+    console.error(`Error generating transcript for ${id}:`, error);
+    
+    // If it's already an McpError, rethrow it
+    if (error instanceof McpError) {
+      throw error;
+    }
+    
+    // Handle HTTP status errors
+    const statusCode = getErrorStatusCode(error);
+    if (statusCode) {
+      if (statusCode === 404) {
+        throw new McpError(`Lifelog with ID ${id} not found`, ErrorCode.NotFound);
+      } else if (statusCode === 401 || statusCode === 403) {
+        throw new McpError(`Unauthorized access to Limitless API`, ErrorCode.Unauthorized);
+      } else if (statusCode >= 500) {
+        throw new McpError(`Limitless API service error: ${statusCode}`, ErrorCode.ServiceUnavailable);
+      }
+    }
+    
+    // Generic error fallback
+    throw new McpError(
+      `Error generating transcript for lifelog ${id}: ${getErrorMessage(error)}`,
+      ErrorCode.Internal
+    );
+  }
+}
+
+/**
+ * Keyword search over the lifelogs in a date range (default: the most recent lifelogs), with relevance scoring
+ */
+export async function searchLifelogs({ query, limit = config.DEFAULT_PAGE_SIZE, date, timezone, start, end, searchMode, includeSnippets }: SearchArgs, extra: ToolExtra) {
+  // Search the whole requested range; without one, the most recent lifelogs,
+  // fetching more than needed to increase the chance of matches
+  const { lifelogs: logs, truncated } = await fetchAllLifelogs({ 
+    date, 
+    timezone, 
+    start, 
+    end,
+    includeMarkdown: includeSnippets // Only include markdown content if snippets are requested
+  }, {
+    maxItems: date || start || end ? config.MAX_RANGE_LIFELOGS : Math.ceil(limit * config.MAX_SEARCH_MULTIPLIER),
+    signal: extra.signal
+  });
+  
+  if (logs.length === 0) {
+    return toolResult("No lifelogs found for the specified time criteria.", { query, totalMatches: 0, searched: 0, truncated: false, results: [] });
+  }
+  
+  const lowerQuery = query.toLowerCase();
+  const searchTerms = lowerQuery
+    .split(/\s+/)
+    .filter(term => term.length > 2); // Filter out very short words
+  
+  let results: Array<{ lifelog: Lifelog; score: number; matchCount: number; snippet?: string }>;
+  
+  if (searchMode === "basic") {
+    // Simple substring match on the title and content
+    results = logs
+      .filter(l => 
+        (l.markdown ?? "").toLowerCase().includes(lowerQuery) || 
+        (l.title ?? "").toLowerCase().includes(lowerQuery)
+      )
+      .map(lifelog => ({
+        lifelog,
+        score: 1,
+        matchCount: 1,
+        snippet: includeSnippets ? extractSnippet(lifelog.markdown || "", query) : undefined
+      }));
+  } else {
+    // Score exact phrase matches, term frequency and recency
+    results = logs.map(lifelog => {
+      const title = lifelog.title?.toLowerCase() || "";
+      const content = lifelog.markdown?.toLowerCase() || "";
+      
+      let score = 0;
+      let matchCount = 0;
+      let snippet = "";
+      
+      // Exact phrase match
+      if (content.includes(lowerQuery)) {
+        score += 10;
+        matchCount++;
+        snippet = extractSnippet(lifelog.markdown || "", query);
+      }
+      
+      if (title.includes(lowerQuery)) {
+        score += 15; // Title matches are more significant
+        matchCount++;
+      }
+      
+      // Individual term matches
+      for (const term of searchTerms) {
+        const titleMatches = countOccurrences(title, term);
+        const contentMatches = countOccurrences(content, term);
+        
+        matchCount += titleMatches + contentMatches;
+        score += titleMatches * 3; // Title matches weighted higher
+        score += contentMatches;
+        
+        if (!snippet && contentMatches > 0) {
+          snippet = extractSnippet(lifelog.markdown || "", term);
+        }
+      }
+      
+      // Favor more recent lifelogs
+      if (score > 0 && lifelog.startTime) {
+        const daysAgo = (Date.now() - new Date(lifelog.startTime).getTime()) / (1000 * 60 * 60 * 24);
+        
+        if (daysAgo < 1) score += 3; // Today
+        else if (daysAgo < 7) score += 2; // Last week
+        else if (daysAgo < 30) score += 1; // Last month
+      }
+      
+      return {
+        lifelog,
+        score,
+        matchCount,
+        snippet: includeSnippets ? snippet : undefined
+      };
+    }).filter(result => result.score > 0);
+  }
+  
+  results.sort((a, b) => b.score - a.score);
+  const topResults = results.slice(0, limit);
+  
+  const output = {
+    query,
+    totalMatches: results.length,
+    searched: logs.length,
+    truncated,
+    results: topResults.map(result => ({
+      id: result.lifelog.id,
+      title: result.lifelog.title,
+      startTime: result.lifelog.startTime,
+      score: result.score,
+      matchCount: result.matchCount,
+      snippet: result.snippet || undefined
+    }))
+  };
+  
+  if (topResults.length === 0) {
+    return toolResult("No matches found for the specified search terms.", output);
+  }
+  
+  let resultText = `# Search Results for "${query}"\n\n`;
+  resultText += `Found ${results.length} matching lifelogs (showing top ${topResults.length}).\n\n`;
+  if (truncated) {
+    resultText += `Only ${logs.length} lifelogs were searched; narrow the date range to search the rest.\n\n`;
+  }
+  
+  topResults.forEach((result, index) => {
+    const l = result.lifelog;
+    let timeInfo = "";
+    if (l.startTime) {
+      const startDate = new Date(l.startTime);
+      timeInfo = ` (${startDate.toLocaleString()})`;
+    }
+    
+    resultText += `## ${index + 1}. ${l.title}${timeInfo}\n`;
+    resultText += `ID: ${l.id}\n`;
+    resultText += `Relevance Score: ${result.score} (${result.matchCount} matches)\n`;
+    
+    if (includeSnippets && result.snippet) {
+      resultText += `\n> ${result.snippet}\n`;
+    }
+    
+    resultText += "\n";
+  });
+  
+  return toolResult(resultText, output);
+}
+
+// A content block without its children (nested blocks are listed separately)
+function toContentBlock(block: LifelogContent) {
+  return {
+    type: block.type,
+    content: block.content,
+    speakerName: block.speakerName || undefined,
+    startTime: block.startTime,
+    endTime: block.endTime
+  };
+}
+
+// Format a duration as "1m 5s"
+function formatDuration(seconds: number): string {
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
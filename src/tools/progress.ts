@@ -0,0 +1,57 @@
+/**
+ * Progress notifications for long-running tools
+ *
+ * Clients that send a `progressToken` with a tool call receive
+ * `notifications/progress` while the tool works through its lifelogs. Without
+ * a token, reporting does nothing.
+ */
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+
+// Second argument of every tool callback
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// Report that `progress` of `total` units are done
+export type ProgressReporter = (progress: number, total?: number, message?: string) => Promise<void>;
+
+/**
+ * A progress reporter for the tool call. Notifications that fail to send are
+ * logged and dropped, so reporting never fails the call.
+ */
+export function createProgressReporter(extra: ToolExtra): ProgressReporter {
+  const progressToken = extra._meta?.progressToken;
+
+  return async (progress, total, message) => {
+    if (progressToken === undefined || extra.signal.aborted) return;
+
+    try {
+      await extra.sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress, total, message }
+      });
+    } catch (error) {
+      console.error("Failed to send progress notification:", error);
+    }
+  };
+}
+
+/**
+ * Fetch every lifelog in parallel, reporting progress as each one arrives.
+ * The request's signal is passed to every API call, so cancelling the tool
+ * call stops the remaining requests.
+ */
+export async function fetchLifelogsWithProgress<T>(
+  ids: string[],
+  fetch: (id: string, signal: AbortSignal) => Promise<T>,
+  extra: ToolExtra
+): Promise<T[]> {
+  const report = createProgressReporter(extra);
+  let fetched = 0;
+
+  return Promise.all(ids.map(async id => {
+    const result = await fetch(id, extra.signal);
+    fetched++;
+    await report(fetched, ids.length, `Fetched ${fetched} of ${ids.length} lifelogs`);
+    return result;
+  }));
+}
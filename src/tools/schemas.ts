@@ -0,0 +1,91 @@
+/**
+ * Output schemas shared by the tools
+ *
+ * Every tool declares an output schema and returns `structuredContent`
+ * matching it next to its markdown text, so clients don't have to parse the
+ * text to get at IDs, cursors or scores.
+ */
+import { z } from "zod";
+import { Lifelog } from "../types";
+
+// A lifelog in a listing
+export const lifelogSummarySchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  startTime: z.string().optional(),
+  endTime: z.string().optional(),
+  markdown: z.string().optional().describe("Markdown content, when requested")
+});
+
+export type LifelogSummary = z.infer<typeof lifelogSummarySchema>;
+
+// Metadata of a lifelog, as returned by getLifelogMetadata()
+export const lifelogMetadataShape = {
+  id: z.string(),
+  title: z.string(),
+  startTime: z.string().optional(),
+  endTime: z.string().optional(),
+  durationSeconds: z.number().optional(),
+  contentBlocks: z.number().describe("Number of content blocks, including nested ones"),
+  contentTypes: z.record(z.number()).describe("Number of content blocks of each type"),
+  speakers: z.array(z.string())
+};
+
+// Progress of a BackgroundIndexer (mirror sync, search index, semantic index)
+export const indexerStatusSchema = z.object({
+  running: z.boolean(),
+  startDate: z.string(),
+  highWaterMark: z.string().optional(),
+  syncedUntil: z.string().optional(),
+  lastRunStartedAt: z.string().optional(),
+  lastRunFinishedAt: z.string().optional(),
+  nextRunAt: z.string().optional(),
+  scanned: z.number(),
+  indexed: z.number(),
+  unchanged: z.number(),
+  failed: z.number(),
+  pages: z.number(),
+  lastError: z.string().optional()
+});
+
+// Sentiment of a text (see analyzeSentiment)
+export const sentimentSchema = z.object({
+  score: z.number().describe("Sentiment from -10 (very negative) to +10 (very positive)"),
+  description: z.string(),
+  positiveWords: z.array(z.string()),
+  negativeWords: z.array(z.string())
+});
+
+/**
+ * Summarize a lifelog for a listing, with its markdown only when requested
+ */
+export function summarizeLifelog(lifelog: Lifelog, includeMarkdown: boolean = false): LifelogSummary {
+  return {
+    id: lifelog.id,
+    title: lifelog.title,
+    startTime: lifelog.startTime,
+    endTime: lifelog.endTime,
+    markdown: includeMarkdown ? lifelog.markdown : undefined
+  };
+}
+
+/**
+ * A tool result with markdown text and the same data as structured content
+ */
+export function toolResult<T extends Record<string, unknown>>(text: string, structuredContent: T) {
+  return {
+    content: [{ type: "text" as const, text }],
+    structuredContent
+  };
+}
+
+/**
+ * A failed tool call. Errors carry no structured content, so use this
+ * instead of returning an error message as a regular result.
+ */
+export function toolError(text: string) {
+  return {
+    content: [{ type: "text" as const, text }],
+    isError: true
+  };
+}
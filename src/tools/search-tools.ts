@@ -0,0 +1,259 @@
+/**
+ * Full-text search tools for Limitless MCP
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpError, ErrorCode } from '../utils/errors';
+import { z } from "zod";
+import path from "path";
+import callLimitlessApi from "../api/client";
+import { requireServerCredentials } from "../api/credentials.js";
+import config from "../config";
+import { BackgroundIndexer } from "../embeddings/indexer.js";
+import { LifelogSearchIndex } from "../search/lifelog-index.js";
+import { indexerStatusSchema, toolResult } from "./schemas.js";
+
+// The index and its indexer, shared by every server instance
+let shared: { searchIndex: LifelogSearchIndex; indexer: BackgroundIndexer; ready: Promise<void> } | undefined;
+
+/**
+ * Create the search index and its indexer (once per process)
+ */
+function getSearchIndex(): NonNullable<typeof shared> {
+  if (shared) return shared;
+
+  const searchIndex = new LifelogSearchIndex(path.join(config.DATA_DIR, "search"));
+
+  // Walks the lifelog history to keep the index current; runs periodically
+  // when LIMITLESS_SEARCH_INDEX_SYNC is enabled, otherwise on demand
+  const indexer = new BackgroundIndexer({
+    callApi: callLimitlessApi,
+    needsIndexing: lifelog => searchIndex.needsIndexing(lifelog),
+    indexLifelog: async lifelog => { searchIndex.indexLifelog(lifelog); },
+    stateFile: path.join(searchIndex.directory, "sync-state.json"),
+    startDate: config.SEARCH_INDEX_START_DATE,
+    intervalMs: config.SEARCH_INDEX_INTERVAL * 1000,
+    pageSize: Math.min(config.MAX_LIFELOG_LIMIT, 10),
+    log: message => console.error(`Search index: ${message}`)
+  });
+
+  const ready = (async () => {
+    await searchIndex.load();
+    if (config.SEARCH_INDEX_SYNC) {
+      await indexer.start();
+    } else {
+      await indexer.loadState();
+    }
+  })();
+
+  ready.catch(error => console.error("Search index: failed to load:", error));
+
+  shared = { searchIndex, indexer, ready };
+  return shared;
+}
+
+/**
+ * Register the full-text search tools on the MCP server
+ */
+export function registerSearchTools(server: McpServer): void {
+  const { searchIndex, indexer, ready } = getSearchIndex();
+
+  // Search the local index across the whole lifelog history
+  server.registerTool(
+    "full_text_search",
+    {
+      inputSchema: {
+        query: z.string().describe('Search query. Supports "exact phrases", AND, OR, NOT, -exclude and (grouping)'),
+        speaker: z.string().optional().describe("Only include blocks spoken by this speaker (case-insensitive, partial match)"),
+        start: z.string().optional().describe("Only include blocks on or after this date (YYYY-MM-DD)"),
+        end: z.string().optional().describe("Only include blocks on or before this date (YYYY-MM-DD)"),
+        timezone: z.string().optional().describe("IANA timezone used for the date filters (default UTC)"),
+        types: z.array(z.string()).optional().describe("Only include these content types (e.g. blockquote, heading1, heading2)"),
+        limit: z.number().default(20).describe("Maximum number of results to return")
+      },
+      outputSchema: {
+        query: z.string(),
+        total: z.number().describe("Number of matching blocks before the limit"),
+        indexedLifelogs: z.number(),
+        hits: z.array(z.object({
+          lifelogId: z.string(),
+          title: z.string(),
+          startTime: z.string().optional(),
+          speakerName: z.string().optional(),
+          type: z.string().describe("Content type of the matching block"),
+          score: z.number(),
+          snippet: z.string()
+        }))
+      }
+    },
+    async ({ query, speaker, start, end, timezone, types, limit }) => {
+      requireServerCredentials("full_text_search");
+      await ready;
+
+      if (searchIndex.lifelogCount === 0) {
+        return toolResult(
+          `The search index is empty. Run manage_search_index with action "update" to index your lifelogs.`,
+          { query, total: 0, indexedLifelogs: 0, hits: [] }
+        );
+      }
+
+      let result;
+      try {
+        result = searchIndex.search(query, { speaker, start, end, timezone, types, limit });
+      } catch (error) {
+        // Invalid timezone names are rejected by Intl.DateTimeFormat
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid search parameters: ${error instanceof Error ? error.message : String(error)}`,
+          { query, timezone }
+        );
+      }
+
+      const output = {
+        query,
+        total: result.total,
+        indexedLifelogs: searchIndex.lifelogCount,
+        hits: result.hits.map(hit => ({
+          lifelogId: hit.document.lifelogId,
+          title: hit.title,
+          startTime: hit.document.startTime,
+          speakerName: hit.document.speakerName,
+          type: hit.document.type,
+          score: hit.score,
+          snippet: hit.snippet
+        }))
+      };
+
+      if (result.hits.length === 0) {
+        return toolResult(`No matches found for "${query}" in ${searchIndex.lifelogCount} indexed lifelogs.`, output);
+      }
+
+      const resultText = result.hits.map((hit, i) => {
+        const doc = hit.document;
+        const time = doc.startTime ? new Date(doc.startTime).toLocaleString() : "unknown time";
+        const speakerText = doc.speakerName ? `${doc.speakerName}: ` : "";
+
+        return `### ${i + 1}. ${hit.title}\n` +
+               `ID: ${doc.lifelogId} | ${time} | ${doc.type} | Score: ${hit.score.toFixed(2)}\n\n` +
+               `${speakerText}${hit.snippet}`;
+      }).join("\n\n");
+
+      return toolResult(
+        `# Search Results for "${query}"\n\n` +
+          `Showing ${result.hits.length} of ${result.total} matching blocks.\n\n` +
+          resultText,
+        output
+      );
+    }
+  );
+
+  // Inspect and maintain the search index
+  server.registerTool(
+    "manage_search_index",
+    {
+      inputSchema: {
+        action: z.enum(["status", "update", "rebuild", "remove", "clear"]).default("status").describe("Action to perform on the search index"),
+        id: z.string().optional().describe("Lifelog ID (for remove action)")
+      },
+      outputSchema: {
+        action: z.enum(["status", "update", "rebuild", "remove", "clear"]),
+        started: z.boolean().optional().describe("Whether update or rebuild started a run (false if one was already running)"),
+        removed: z.number().optional().describe("Lifelogs removed by remove and clear"),
+        index: z.object({
+          directory: z.string(),
+          lifelogs: z.number(),
+          blocks: z.number(),
+          terms: z.number(),
+          bytes: z.number(),
+          oldest: z.string().optional(),
+          newest: z.string().optional()
+        }).optional(),
+        sync: indexerStatusSchema.optional()
+      }
+    },
+    async ({ action, id }) => {
+      requireServerCredentials("manage_search_index");
+      await ready;
+
+      switch (action) {
+        case "update":
+        case "rebuild": {
+          if (indexer.getStatus().running) {
+            return toolResult(
+              "The search index is already being updated. Check progress with the status action.",
+              { action, started: false }
+            );
+          }
+
+          if (action === "rebuild") {
+            await searchIndex.clear();
+            await indexer.reset();
+          }
+
+          // Walking the full history can take a while, so run it in the background
+          indexer.runOnce()
+            .then(() => searchIndex.flush())
+            .catch(error => console.error("Search index: update failed:", error));
+
+          return toolResult(
+            `Search index ${action === "rebuild" ? "rebuild" : "update"} started. ` +
+              `Check progress with the status action.`,
+            { action, started: true }
+          );
+        }
+
+        case "remove": {
+          if (!id) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              "ID parameter is required for remove action",
+              { action, id }
+            );
+          }
+
+          const removed = searchIndex.removeLifelog(id);
+          await searchIndex.flush();
+
+          return toolResult(
+            removed
+              ? `Removed lifelog ${id} from the search index.`
+              : `Lifelog ${id} is not in the search index.`,
+            { action, removed: removed ? 1 : 0 }
+          );
+        }
+
+        case "clear": {
+          const count = await searchIndex.clear();
+          await indexer.reset();
+
+          return toolResult(`Search index cleared. ${count} lifelogs removed.`, { action, removed: count });
+        }
+
+        case "status":
+        default: {
+          const stats = await searchIndex.stats();
+          const sync = indexer.getStatus();
+
+          return toolResult(
+            `# Search Index Status\n\n` +
+              `- **Location**: ${searchIndex.directory}\n` +
+              `- **Lifelogs**: ${stats.lifelogs}\n` +
+              `- **Content Blocks**: ${stats.blocks}\n` +
+              `- **Distinct Terms**: ${stats.terms}\n` +
+              `- **Size on Disk**: ${(stats.bytes / 1024).toFixed(1)} KB\n` +
+              `- **Oldest Lifelog**: ${stats.oldest || "n/a"}\n` +
+              `- **Newest Lifelog**: ${stats.newest || "n/a"}\n\n` +
+              `## Sync\n\n` +
+              `- **Automatic Sync**: ${config.SEARCH_INDEX_SYNC ? `every ${config.SEARCH_INDEX_INTERVAL}s` : "disabled (use the update action)"}\n` +
+              `- **State**: ${sync.running ? "running" : "idle"}\n` +
+              `- **Start Date**: ${sync.startDate}\n` +
+              `- **High-Water Mark**: ${sync.highWaterMark || "none yet"}\n` +
+              `- **Last Run Finished**: ${sync.lastRunFinishedAt || (sync.running ? "in progress" : "never")}\n` +
+              `- **Lifelogs Scanned**: ${sync.scanned} (${sync.indexed} indexed, ${sync.unchanged} unchanged, ${sync.failed} failed)\n` +
+              (sync.lastError ? `- **Last Error**: ${sync.lastError}\n` : ""),
+            { action: "status", index: { directory: searchIndex.directory, ...stats }, sync }
+          );
+        }
+      }
+    }
+  );
+}
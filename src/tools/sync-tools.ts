@@ -0,0 +1,140 @@
+/**
+ * Lifelog mirror sync tools for Limitless MCP
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import callLimitlessApi from "../api/client";
+import { requireServerCredentials } from "../api/credentials.js";
+import config from "../config";
+import { mirror, createMirrorSync } from "../sync/index.js";
+import { indexerStatusSchema, toolResult } from "./schemas.js";
+
+// Resolves once the mirror and its sync state are loaded (shared by every server instance)
+let mirrorReady: Promise<void> | undefined;
+
+/**
+ * Register the lifelog sync tools on the MCP server
+ */
+export function registerSyncTools(server: McpServer): void {
+  const sync = createMirrorSync(callLimitlessApi);
+
+  if (!mirrorReady) {
+    mirrorReady = (async () => {
+      await mirror.load();
+      if (config.MIRROR_SYNC) {
+        await sync.start();
+      } else {
+        await sync.loadState();
+      }
+    })();
+
+    mirrorReady.catch(error => console.error("Lifelog mirror: failed to load:", error));
+  }
+
+  const ready = mirrorReady;
+
+  // Mirror lifelogs into the local store
+  server.registerTool(
+    "sync_lifelogs",
+    {
+      inputSchema: {
+        action: z.enum(["sync", "full", "status", "clear"]).default("sync").describe(
+          "sync: fetch new and changed lifelogs since the last sync; full: re-walk the whole history; " +
+          "status: show mirror and sync state; clear: delete the mirror"
+        ),
+        wait: z.boolean().default(false).describe("Wait for the sync to finish instead of running it in the background")
+      },
+      outputSchema: {
+        action: z.enum(["sync", "full", "status", "clear"]),
+        started: z.boolean().optional().describe("Whether sync or full started a run (false if one was already running)"),
+        finished: z.boolean().optional().describe("Whether the run finished before returning (with wait)"),
+        removed: z.number().optional().describe("Lifelogs removed by clear"),
+        mirror: z.object({
+          directory: z.string(),
+          lifelogs: z.number(),
+          bytes: z.number(),
+          oldest: z.string().optional(),
+          newest: z.string().optional()
+        }).optional(),
+        sync: indexerStatusSchema.optional()
+      }
+    },
+    async ({ action, wait }) => {
+      requireServerCredentials("sync_lifelogs");
+      await ready;
+
+      switch (action) {
+        case "sync":
+        case "full": {
+          if (sync.getStatus().running) {
+            return toolResult("A sync is already running. Check progress with the status action.", {
+              action,
+              started: false,
+              sync: sync.getStatus()
+            });
+          }
+
+          if (action === "full") {
+            await sync.reset();
+          }
+
+          const run = sync.runOnce().then(() => mirror.flush());
+
+          if (!wait) {
+            run.catch(error => console.error("Lifelog mirror: sync failed:", error));
+            return toolResult(
+              `${action === "full" ? "Full" : "Incremental"} sync started. Check progress with the status action.`,
+              { action, started: true, finished: false }
+            );
+          }
+
+          await run;
+          const status = sync.getStatus();
+          return toolResult(
+            `Sync finished: ${status.scanned} lifelogs scanned, ${status.indexed} saved, ` +
+              `${status.unchanged} unchanged, ${status.failed} failed. ${mirror.size} lifelogs mirrored.` +
+              (status.lastError ? `\n\nLast error: ${status.lastError}` : ""),
+            { action, started: true, finished: true, sync: status }
+          );
+        }
+
+        case "clear": {
+          sync.stop();
+          const count = await mirror.clear();
+          await sync.reset();
+          if (config.MIRROR_SYNC) {
+            await sync.start();
+          }
+
+          return toolResult(`Mirror cleared. ${count} lifelogs removed.`, { action, removed: count });
+        }
+
+        case "status":
+        default: {
+          const stats = await mirror.stats();
+          const status = sync.getStatus();
+
+          return toolResult(
+            `# Lifelog Mirror\n\n` +
+              `- **Location**: ${mirror.directory}\n` +
+              `- **Lifelogs**: ${stats.lifelogs}\n` +
+              `- **Size on Disk**: ${(stats.bytes / 1024).toFixed(1)} KB\n` +
+              `- **Oldest Lifelog**: ${stats.oldest || "n/a"}\n` +
+              `- **Newest Lifelog**: ${stats.newest || "n/a"}\n` +
+              `- **Reads From Mirror**: ${config.MIRROR_READS ? "enabled" : "disabled"}\n\n` +
+              `## Sync\n\n` +
+              `- **Automatic Sync**: ${config.MIRROR_SYNC ? `every ${config.MIRROR_SYNC_INTERVAL}s` : "disabled (use the sync action)"}\n` +
+              `- **State**: ${status.running ? "running" : "idle"}\n` +
+              `- **Start Date**: ${status.startDate}\n` +
+              `- **High-Water Mark**: ${status.highWaterMark || "none yet"}\n` +
+              `- **Complete Up To**: ${status.syncedUntil || "no completed sync yet"}\n` +
+              `- **Last Run Finished**: ${status.lastRunFinishedAt || (status.running ? "in progress" : "never")}\n` +
+              `- **Lifelogs Scanned**: ${status.scanned} (${status.indexed} saved, ${status.unchanged} unchanged, ${status.failed} failed)\n` +
+              (status.lastError ? `- **Last Error**: ${status.lastError}\n` : ""),
+            { action: "status", mirror: { directory: mirror.directory, ...stats }, sync: status }
+          );
+        }
+      }
+    }
+  );
+}
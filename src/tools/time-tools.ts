@@ -0,0 +1,305 @@
+/**
+ * Time-based summary tools for Limitless MCP
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpError, ErrorCode, getErrorMessage } from '../utils/errors';
+import { z } from "zod";
+import { fetchAllLifelogs } from "../api/client";
+import { LifelogListParams } from "../types";
+import { addDays, formatDateInTimezone, getTimezoneOffset } from "../utils/time";
+import { toolResult } from "./schemas.js";
+import { ToolExtra } from "./progress.js";
+
+// Timezone used when none is given
+export const DEFAULT_TIMEZONE = "America/Los_Angeles";
+
+// Arguments of get_time_summary
+const timeSummaryInput = {
+  date: z.string().optional().describe("Date in YYYY-MM-DD format"),
+  timezone: z.string().optional().describe("IANA timezone specifier"),
+  start: z.string().optional().describe("Start date in YYYY-MM-DD format"),
+  end: z.string().optional().describe("End date in YYYY-MM-DD format"),
+  groupBy: z.enum(["hour", "day", "week"]).default("day").describe("How to group the time statistics")
+};
+
+// Output of get_time_summary
+const timeSummaryOutput = {
+  date: z.string().optional(),
+  start: z.string().optional().describe("Start of the summarized period, when no date was given"),
+  end: z.string().optional().describe("End of the summarized period, when no date was given"),
+  timezone: z.string(),
+  groupBy: z.enum(["hour", "day", "week"]),
+  totalLifelogs: z.number(),
+  truncated: z.boolean().describe("Whether the period had more lifelogs than LIMITLESS_MAX_RANGE_LIFELOGS, which were left out"),
+  totalDurationSeconds: z.number(),
+  averageDurationSeconds: z.number().optional().describe("Average length of the lifelogs with an end time"),
+  groups: z.array(z.object({
+    key: z.string().describe("Hour, day or week, in chronological order"),
+    count: z.number(),
+    totalDurationSeconds: z.number()
+  }))
+};
+
+export type TimeSummaryArgs = z.infer<z.ZodObject<typeof timeSummaryInput>>;
+
+// Arguments of get_day_summary
+const daySummaryInput = {
+  date: z.string().describe("Date in YYYY-MM-DD format"),
+  timezone: z.string().optional().describe("IANA timezone specifier")
+};
+
+// Output of get_day_summary
+const daySummaryOutput = {
+  date: z.string(),
+  timezone: z.string(),
+  truncated: z.boolean().describe("Whether the day had more lifelogs than LIMITLESS_MAX_RANGE_LIFELOGS, which were left out"),
+  lifelogs: z.array(z.object({
+    id: z.string(),
+    title: z.string(),
+    startTime: z.string().optional(),
+    endTime: z.string().optional(),
+    excerpt: z.string().optional().describe("Start of the lifelog's markdown")
+  }))
+};
+
+export type DaySummaryArgs = z.infer<z.ZodObject<typeof daySummaryInput>>;
+
+/**
+ * Register time summary tools on the MCP server
+ */
+export function registerTimeTools(server: McpServer): void {
+  // Recording statistics grouped by hour, day or week
+  server.registerTool(
+    "get_time_summary",
+    {
+      inputSchema: timeSummaryInput,
+      outputSchema: timeSummaryOutput
+    },
+    getTimeSummary
+  );
+
+  // Overview of one day's lifelogs
+  server.registerTool(
+    "get_day_summary",
+    {
+      inputSchema: daySummaryInput,
+      outputSchema: daySummaryOutput
+    },
+    getDaySummary
+  );
+}
+
+/**
+ * Recording statistics for a day or a period (default: the last 7 days), grouped by hour, day or week
+ */
+export async function getTimeSummary({ date, timezone = DEFAULT_TIMEZONE, start, end, groupBy }: TimeSummaryArgs, extra: ToolExtra) {
+  // Determine the date range, defaulting to 7 days
+  const queryParams: LifelogListParams = {
+    timezone,
+    direction: "asc",
+    includeMarkdown: false
+  };
+
+  if (date) {
+    queryParams.date = date;
+  } else if (start && end) {
+    queryParams.start = start;
+    queryParams.end = end;
+  } else if (start) {
+    queryParams.start = start;
+    queryParams.end = addDays(start.substring(0, 10), 7);
+  } else if (end) {
+    queryParams.start = addDays(end.substring(0, 10), -7);
+    queryParams.end = end;
+  } else {
+    const today = formatDateInTimezone(new Date(), timezone);
+    queryParams.start = addDays(today, -7);
+    queryParams.end = today;
+  }
+
+  const period = {
+    date,
+    start: date ? undefined : queryParams.start,
+    end: date ? undefined : queryParams.end,
+    timezone,
+    groupBy
+  };
+
+  try {
+    const { lifelogs, truncated } = await fetchAllLifelogs(queryParams, { signal: extra.signal });
+
+    if (lifelogs.length === 0) {
+      return toolResult("No lifelogs found for the specified time period.", {
+        ...period,
+        totalLifelogs: 0,
+        truncated: false,
+        totalDurationSeconds: 0,
+        groups: []
+      });
+    }
+
+    const stats = new Map<string, { count: number; totalDurationMs: number }>();
+    let totalDuration = 0;
+    let countWithDuration = 0;
+
+    lifelogs.forEach(log => {
+      if (!log.startTime) return;
+
+      // Group by wall-clock time in the requested timezone
+      const startDate = new Date(log.startTime);
+      const wallClock = new Date(startDate.getTime() + getTimezoneOffset(startDate, timezone));
+      const day = wallClock.toISOString().substring(0, 10);
+
+      let key: string;
+      switch (groupBy) {
+        case "hour":
+          key = `${day} ${wallClock.toISOString().substring(11, 13)}:00`;
+          break;
+        case "week":
+          // Weeks start on Monday
+          key = `Week of ${addDays(day, -((wallClock.getUTCDay() + 6) % 7))}`;
+          break;
+        case "day":
+        default:
+          key = day;
+          break;
+      }
+
+      const stat = stats.get(key) || { count: 0, totalDurationMs: 0 };
+      stat.count++;
+
+      if (log.endTime) {
+        const duration = new Date(log.endTime).getTime() - startDate.getTime();
+        stat.totalDurationMs += duration;
+        totalDuration += duration;
+        countWithDuration++;
+      }
+
+      stats.set(key, stat);
+    });
+
+    // Generate report
+    let summary = `# Time Summary Analysis`;
+
+    if (date) {
+      summary += ` for ${date}`;
+    } else {
+      summary += ` from ${queryParams.start} to ${queryParams.end}`;
+    }
+    summary += `\n\n`;
+
+    summary += `Total lifelogs: ${lifelogs.length}\n`;
+    if (truncated) {
+      summary += `(Only the first ${lifelogs.length} lifelogs of the period are included; use a shorter period for the rest.)\n`;
+    }
+
+    if (countWithDuration > 0) {
+      summary += `Total recording time: ${formatHoursMinutes(totalDuration)}\n`;
+      summary += `Average per recording: ${Math.floor((totalDuration / countWithDuration) / 60000)}m\n`;
+    }
+    summary += `\n`;
+
+    summary += `## Breakdown by ${groupBy}\n\n`;
+    summary += `| ${groupBy === "hour" ? "Hour" : groupBy === "week" ? "Week" : "Date"} | Count | Total Time | Avg Time |\n`;
+    summary += `| --- | --- | --- | --- |\n`;
+
+    // Keys sort chronologically
+    const groups = Array.from(stats.entries()).sort(([a], [b]) => a.localeCompare(b));
+
+    groups.forEach(([key, stat]) => {
+      const averageMs = stat.totalDurationMs / stat.count;
+      const totalTime = stat.totalDurationMs > 0 ? formatHoursMinutes(stat.totalDurationMs) : "N/A";
+      const avgTime = averageMs > 0
+        ? `${Math.floor(averageMs / 60000)}m ${Math.floor((averageMs % 60000) / 1000)}s`
+        : "N/A";
+
+      summary += `| ${key} | ${stat.count} | ${totalTime} | ${avgTime} |\n`;
+    });
+
+    return toolResult(summary, {
+      ...period,
+      totalLifelogs: lifelogs.length,
+      truncated,
+      totalDurationSeconds: Math.round(totalDuration / 1000),
+      averageDurationSeconds: countWithDuration > 0 ? Math.round(totalDuration / countWithDuration / 1000) : undefined,
+      groups: groups.map(([key, stat]) => ({
+        key,
+        count: stat.count,
+        totalDurationSeconds: Math.round(stat.totalDurationMs / 1000)
+      }))
+    });
+  } catch (error: unknown) {
+    console.error(`Error generating time summary:`, error);
+
+    // API failures (rate limits, cancellation, missing lifelogs) keep their own code
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Error generating time summary: ${getErrorMessage(error)}. Please check your date parameters.`,
+      { date, start, end, timezone }
+    );
+  }
+}
+
+/**
+ * Overview of one day's lifelogs: titles, start times and excerpts
+ */
+export async function getDaySummary({ date, timezone = DEFAULT_TIMEZONE }: DaySummaryArgs, extra: ToolExtra) {
+  const { lifelogs, truncated } = await fetchAllLifelogs(
+    { date, timezone, includeMarkdown: true },
+    { signal: extra.signal }
+  );
+
+  const output = { date, timezone, truncated, lifelogs: [] as Array<{ id: string; title: string; startTime?: string; endTime?: string; excerpt?: string }> };
+
+  if (lifelogs.length === 0) {
+    return toolResult(`No lifelogs found for ${date}`, output);
+  }
+
+  // The date is a calendar date, so format it without shifting it into the timezone
+  const formattedDate = new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC'
+  });
+
+  let summary = `# Summary for ${formattedDate}\n\n`;
+  summary += truncated
+    ? `Showing the first ${lifelogs.length} lifelogs of this day.\n\n`
+    : `Found ${lifelogs.length} lifelogs for this day.\n\n`;
+
+  lifelogs.forEach((log, index) => {
+    const startTime = log.startTime ? new Date(log.startTime).toLocaleTimeString('en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZone: timezone
+    }) : 'Unknown time';
+
+    summary += `## ${index + 1}. ${log.title} (${startTime})\n`;
+    summary += `ID: ${log.id}\n`;
+
+    // Add a brief excerpt if available
+    const excerpt = log.markdown
+      ? log.markdown.substring(0, 150) + (log.markdown.length > 150 ? '...' : '')
+      : undefined;
+    if (excerpt) {
+      summary += `\n${excerpt}\n\n`;
+    }
+
+    output.lifelogs.push({ id: log.id, title: log.title, startTime: log.startTime, endTime: log.endTime, excerpt });
+
+    summary += `---\n\n`;
+  });
+
+  return toolResult(summary, output);
+}
+
+// Format a duration as "1h 5m"
+function formatHoursMinutes(durationMs: number): string {
+  return `${Math.floor(durationMs / 3600000)}h ${Math.floor((durationMs % 3600000) / 60000)}m`;
+}
@@ -37,6 +37,33 @@ export interface LifelogResponse {
   };
 }
 
+// Per-call options of the API client
+export interface ApiCallOptions {
+  // Aborts the call, its retries and their backoff delays (e.g. when the client cancels the tool call)
+  signal?: AbortSignal;
+}
+
+// Query parameters of the `/lifelogs` listing
+export interface LifelogListParams {
+  date?: string;
+  timezone?: string;
+  start?: string;
+  end?: string;
+  direction?: "asc" | "desc";
+  includeMarkdown?: boolean;
+  includeHeadings?: boolean;
+}
+
+// Options of iterateLifelogs and fetchAllLifelogs
+export interface LifelogIterationOptions extends ApiCallOptions {
+  // Stop after this many lifelogs (default: LIMITLESS_MAX_RANGE_LIFELOGS)
+  maxItems?: number;
+  // Lifelogs requested per page (default: LIMITLESS_MAX_LIFELOG_LIMIT)
+  pageSize?: number;
+  // Whether pages may come from the cache and the mirror (default: true)
+  useCache?: boolean;
+}
+
 // Environment configuration interface
 export interface LimitlessConfig {
   // API configuration
@@ -44,22 +71,99 @@ export interface LimitlessConfig {
   API_BASE_URL: string;
   API_TIMEOUT_MS: number;
   API_MAX_RETRIES: number;
+  API_RETRY_BASE_DELAY_MS: number;
+  API_MAX_RETRY_DELAY_MS: number;
+  API_RATE_LIMIT: number;
+  API_RATE_BURST: number;
+  API_MAX_CONCURRENCY: number;
+  
+  // Offline mode
+  OFFLINE: boolean;
+  FIXTURES_DIR: string;
   
   // Pagination and result limits
   MAX_LIFELOG_LIMIT: number;
   DEFAULT_PAGE_SIZE: number;
   MAX_SEARCH_MULTIPLIER: number;
+  MAX_RANGE_LIFELOGS: number;
   
   // Cache configuration
   CACHE_TTL: number;
   CACHE_CHECK_PERIOD: number; 
   CACHE_MAX_KEYS: number;
+  CACHE_MAX_BYTES: number;
+  CACHE_STALE_TTL: number;
+  CACHE_DISK: boolean;
+  CACHE_DISK_TTL: number;
+  CACHE_DISK_MAX_BYTES: number;
+  CACHE_COMPRESS_THRESHOLD: number;
+  PREFETCH: string[];
+  PREFETCH_INTERVAL: number;
+  PREFETCH_TIMEZONE: string;
   CACHE_TTL_MULTIPLIERS: {
     METADATA: number;
     LISTINGS: number;
     SEARCH: number;
     SUMMARIES: number;
   };
+  CACHE_EVICTION_WEIGHTS: {
+    METADATA: number;
+    LISTINGS: number;
+    SUMMARIES: number;
+  };
+  
+  // Local storage
+  DATA_DIR: string;
+  
+  // Embedding configuration
+  EMBEDDING_PROVIDER: string;
+  EMBEDDING_MODEL: string;
+  EMBEDDING_DIMENSIONS: number;
+  EMBEDDING_API_URL: string;
+  EMBEDDING_API_KEY?: string;
+  
+  // Background indexing
+  AUTO_INDEX: boolean;
+  AUTO_INDEX_START_DATE: string;
+  AUTO_INDEX_INTERVAL: number;
+  
+  // Full-text search index
+  SEARCH_INDEX_SYNC: boolean;
+  SEARCH_INDEX_START_DATE: string;
+  SEARCH_INDEX_INTERVAL: number;
+  
+  // Lifelog mirror
+  MIRROR_READS: boolean;
+  MIRROR_SYNC: boolean;
+  MIRROR_SYNC_START_DATE: string;
+  MIRROR_SYNC_INTERVAL: number;
+  
+  // Resource change notifications
+  RESOURCE_POLL_INTERVAL: number;
+  RESOURCE_POLL_MAX_BACKOFF: number;
+  
+  // Transport
+  TRANSPORT: "stdio" | "http";
+  HTTP_HOST: string;
+  HTTP_PORT: number;
+  HTTP_AUTH_TOKENS: string[];
+  HTTP_TOKEN_API_KEYS: Record<string, string>;
+  HTTP_REQUIRE_SESSION_KEY: boolean;
+  HTTP_CORS_ORIGINS: string[];
+  HTTP_SESSION_TIMEOUT: number;
+}
+
+// Lifelog metadata (served by the lifelogs://{id}/metadata resource)
+export interface LifelogMetadata {
+  id: string;
+  title: string;
+  startTime?: string;
+  endTime?: string;
+  durationSeconds?: number;
+  // Content blocks with text, including nested ones
+  contentBlocks: number;
+  contentTypes: Record<string, number>;
+  speakers: string[];
 }
 
 // Topic extraction result type
@@ -67,4 +171,13 @@ export interface Topic {
   name: string;
   count: number;
   score: number;
-}
\ No newline at end of file
+}
+
+// Sentiment analysis result type
+export interface Sentiment {
+  // Score on a -10 (negative) to +10 (positive) scale
+  score: number;
+  // Sentiment words found, most frequent first
+  positiveWords: string[];
+  negativeWords: string[];
+}
@@ -0,0 +1,48 @@
+/**
+ * Helpers for honoring a request's AbortSignal
+ */
+import { McpError, ErrorCode } from "./errors";
+
+/**
+ * Throw if the signal was aborted, e.g. because the client cancelled the request
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new McpError("Request cancelled", ErrorCode.CANCELLED);
+  }
+}
+
+/**
+ * Wait for a promise, or fail as soon as the signal is aborted. The promise
+ * itself keeps running; use this to stop waiting for work shared with others.
+ */
+export function raceCancellation<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  throwIfCancelled(signal);
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new McpError("Request cancelled", ErrorCode.CANCELLED));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/**
+ * Wait for a delay, or fail as soon as the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  throwIfCancelled(signal);
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new McpError("Request cancelled", ErrorCode.CANCELLED));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
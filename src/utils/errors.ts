@@ -11,6 +11,7 @@ export enum ErrorCode {
   API_ERROR = 'api_error',
   RATE_LIMITED = 'rate_limited',
   TIMEOUT = 'timeout',
+  CANCELLED = 'cancelled',
   
   // Legacy error codes for compatibility
   NotFound = 'not_found',
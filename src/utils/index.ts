@@ -1,7 +1,7 @@
 /**
  * Utility functions for Limitless MCP server
  */
-import { Lifelog, Topic } from '../types';
+import { Lifelog, LifelogContent, LifelogMetadata, Sentiment, Topic } from '../types';
 
 /**
  * Common phrases to exclude from topic extraction
@@ -53,11 +53,141 @@ export function getTimeRangeText(lifelogs: Lifelog[]): string {
   }
 }
 
+/**
+ * Escape special regular expression characters in a string
+ */
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Flatten nested content blocks into the blocks that have text, in depth-first order
+ */
+export function flattenContents(blocks: LifelogContent[] = []): LifelogContent[] {
+  const result: LifelogContent[] = [];
+  for (const block of blocks) {
+    if (block.content && block.content.trim()) {
+      result.push(block);
+    }
+    result.push(...flattenContents(block.children));
+  }
+  return result;
+}
+
+/**
+ * Format a lifelog's content blocks as a transcript: "simple" (just the text),
+ * "detailed" (numbered blocks with times and types) or "dialogue" (speaker turns)
+ */
+export function formatTranscript(lifelog: Lifelog, format: "simple" | "detailed" | "dialogue" = "dialogue"): string {
+  // Blocks in the order they were recorded
+  const contents = flattenContents(lifelog.contents);
+  
+  let transcript = "";
+  
+  // Generate transcript based on requested format
+  switch (format) {
+    case "simple":
+      transcript = `# ${lifelog.title} - Simple Transcript\n\n`;
+      contents.forEach(content => {
+        transcript += `${content.content}\n\n`;
+      });
+      break;
+      
+    case "detailed":
+      transcript = `# ${lifelog.title} - Detailed Transcript\n\n`;
+      contents.forEach((content, index) => {
+        let timeInfo = "";
+        if (content.startTime) {
+          timeInfo = `[${new Date(content.startTime).toLocaleTimeString()}] `;
+        }
+        
+        transcript += `### Block ${index + 1}\n${timeInfo}${content.type}: ${content.content}\n\n`;
+      });
+      break;
+      
+    case "dialogue":
+    default: {
+      transcript = `# ${lifelog.title} - Dialogue Transcript\n\n`;
+      
+      let currentSpeaker = "";
+      let dialogueBlock = "";
+      
+      contents.forEach(content => {
+        if (content.speakerName && content.speakerName !== currentSpeaker) {
+          // A new speaker starts a new dialogue block
+          if (dialogueBlock) {
+            transcript += dialogueBlock + "\n\n";
+          }
+          
+          currentSpeaker = content.speakerName;
+          dialogueBlock = `**${currentSpeaker}**: ${content.content}`;
+        } else if (content.type.startsWith("heading")) {
+          // Headings reset the speaker
+          if (dialogueBlock) {
+            transcript += dialogueBlock + "\n\n";
+          }
+          
+          currentSpeaker = "";
+          dialogueBlock = `## ${content.content}`;
+        } else if (currentSpeaker) {
+          // Continue with the current speaker
+          dialogueBlock += " " + content.content;
+        } else {
+          // No speaker but not a heading, treat as narrative
+          if (dialogueBlock) {
+            transcript += dialogueBlock + "\n\n";
+          }
+          dialogueBlock = content.content;
+        }
+      });
+      
+      // Add the last block
+      if (dialogueBlock) {
+        transcript += dialogueBlock;
+      }
+      break;
+    }
+  }
+  
+  return transcript;
+}
+
+/**
+ * Metadata of a lifelog: its times, duration, content block counts and speakers
+ */
+export function getLifelogMetadata(lifelog: Lifelog): LifelogMetadata {
+  const blocks = flattenContents(lifelog.contents);
+  
+  const contentTypes: Record<string, number> = {};
+  const speakers = new Set<string>();
+  blocks.forEach(block => {
+    contentTypes[block.type] = (contentTypes[block.type] || 0) + 1;
+    if (block.speakerName) {
+      speakers.add(block.speakerName);
+    }
+  });
+  
+  const durationMs = lifelog.startTime && lifelog.endTime
+    ? new Date(lifelog.endTime).getTime() - new Date(lifelog.startTime).getTime()
+    : undefined;
+  
+  return {
+    id: lifelog.id,
+    title: lifelog.title,
+    startTime: lifelog.startTime,
+    endTime: lifelog.endTime,
+    durationSeconds: durationMs !== undefined ? Math.round(durationMs / 1000) : undefined,
+    contentBlocks: blocks.length,
+    contentTypes,
+    speakers: Array.from(speakers)
+  };
+}
+
 /**
  * Count occurrences of a term in a text
  */
 export function countOccurrences(text: string, term: string): number {
-  const regex = new RegExp(`\\b${term}\\b`, 'gi');
+  const regex = new RegExp(`\\b${escapeRegExp(term)}\\b`, 'gi');
   const matches = text.match(regex);
   return matches ? matches.length : 0;
 }
@@ -286,4 +416,166 @@ export function generateCombinedSummary(lifelogs: Lifelog[], level: string): str
   }
   
   return summary;
-}
\ No newline at end of file
+}
+
+// Word lists for sentiment analysis
+const positiveWords = new Set([
+  "good", "great", "excellent", "amazing", "wonderful", "fantastic", "awesome",
+  "happy", "joy", "love", "like", "best", "better", "success", "successful",
+  "improve", "improvement", "positive", "beneficial", "benefit", "perfect",
+  "interesting", "impressive", "excited", "exciting", "helpful", "pleased",
+  "appreciate", "appreciated", "appreciative", "glad", "delighted", "satisfied",
+  "enjoy", "enjoyed", "enjoying", "enjoyable", "favorable", "fortunate",
+  "beautiful", "brilliant", "innovative", "innovation", "exceptional",
+  "accomplishment", "accomplish", "achieved", "achievement", "progress",
+  "resolved", "resolution", "solution", "solved", "effective", "efficient",
+  "clarity", "clear", "valuable", "nice", "grateful"
+]);
+
+const negativeWords = new Set([
+  "bad", "terrible", "awful", "horrible", "poor", "worst", "negative",
+  "disappointed", "disappointing", "disappointment", "sad", "unhappy",
+  "hate", "dislike", "worry", "worried", "anxious", "anxiety", "fear",
+  "problem", "issue", "trouble", "difficult", "difficulty", "fail", "failed",
+  "failure", "error", "mistake", "wrong", "unfortunately", "unfortunate",
+  "concerned", "concern", "confusing", "confused", "confusion", "frustrating",
+  "frustrated", "frustration", "annoying", "annoyed", "sorry", "regret",
+  "angry", "upset", "broken", "damage", "damaged", "complaint", "complain",
+  "slow", "complex", "complicated", "useless", "waste", "wasted", "inefficient",
+  "ineffective", "impossible", "hard", "severe", "painful", "critical"
+]);
+
+// Negation words that flip sentiment (punctuation is stripped before matching)
+const negationWords = new Set([
+  "not", "no", "never", "dont", "doesnt", "didnt", "wont", "wouldnt",
+  "cant", "cannot", "couldnt", "shouldnt", "isnt", "arent", "wasnt",
+  "werent", "havent", "hasnt", "neither", "nor"
+]);
+
+// Intensity modifiers
+const intensifiers = new Map([
+  ["very", 1.5],
+  ["really", 1.5],
+  ["extremely", 2],
+  ["incredibly", 2],
+  ["absolutely", 2],
+  ["completely", 1.8],
+  ["highly", 1.5],
+  ["totally", 1.7],
+  ["utterly", 1.8],
+  ["quite", 1.2],
+  ["somewhat", 0.8],
+  ["slightly", 0.5],
+  ["barely", 0.3],
+  ["hardly", 0.3],
+  ["kind of", 0.6],
+  ["sort of", 0.6]
+]);
+
+/**
+ * Score the sentiment of a text with a word-list approach that handles
+ * negations and intensifiers
+ */
+export function analyzeSentiment(text: string): Sentiment {
+  // Tokenize text
+  const words = text.toLowerCase()
+    .replace(/[^\w\s]/g, '')
+    .split(/\s+/)
+    .filter(word => word.length > 1);
+  
+  let score = 0;
+  const foundPositive: string[] = [];
+  const foundNegative: string[] = [];
+  
+  // Scan the text for sentiment words
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    let localScore = 0;
+    let multiplier = 1;
+    
+    // Check for intensifiers in previous position
+    if (i > 0) {
+      const prevWord = words[i-1];
+      if (intensifiers.has(prevWord)) {
+        multiplier = intensifiers.get(prevWord) || 1;
+      }
+      
+      // Check for two-word intensifiers
+      if (i > 1) {
+        const twoWordIntensifier = `${words[i-2]} ${prevWord}`;
+        if (intensifiers.has(twoWordIntensifier)) {
+          multiplier = intensifiers.get(twoWordIntensifier) || 1;
+        }
+      }
+    }
+    
+    // Check for negation within 3 words before
+    let isNegated = false;
+    for (let j = Math.max(0, i - 3); j < i; j++) {
+      if (negationWords.has(words[j])) {
+        isNegated = true;
+        break;
+      }
+    }
+    
+    if (positiveWords.has(word)) {
+      localScore = 1 * multiplier;
+      if (isNegated) {
+        localScore *= -1; // Flip to negative if negated
+        foundNegative.push(word);
+      } else {
+        foundPositive.push(word);
+      }
+    } else if (negativeWords.has(word)) {
+      localScore = -1 * multiplier;
+      if (isNegated) {
+        localScore *= -1; // Flip to positive if negated
+        foundPositive.push(word);
+      } else {
+        foundNegative.push(word);
+      }
+    }
+    
+    score += localScore;
+  }
+  
+  // Normalize score to a -10 to +10 scale
+  if (words.length > 0) {
+    const normalizer = Math.sqrt(Math.min(words.length, 1000) / 200); // Square root to dampen effect
+    score = Math.max(-10, Math.min(10, score / normalizer));
+  }
+  
+  // Sort words by how often they occur (descending)
+  const byFrequency = (found: string[]): string[] => {
+    const counts: Record<string, number> = {};
+    found.forEach(word => {
+      counts[word] = (counts[word] || 0) + 1;
+    });
+    return Object.entries(counts)
+      .sort((a, b) => b[1] - a[1])
+      .map(([word]) => word);
+  };
+  
+  return {
+    score,
+    positiveWords: byFrequency(foundPositive),
+    negativeWords: byFrequency(foundNegative)
+  };
+}
+
+/**
+ * Convert a sentiment score to a descriptive label
+ */
+export function getSentimentDescription(score: number): string {
+  if (score >= 8) return "Extremely Positive";
+  if (score >= 6) return "Very Positive";
+  if (score >= 4) return "Positive";
+  if (score >= 2) return "Somewhat Positive";
+  if (score > 0) return "Slightly Positive";
+  if (score === 0) return "Neutral";
+  if (score > -2) return "Slightly Negative";
+  if (score > -4) return "Somewhat Negative";
+  if (score > -6) return "Negative";
+  if (score > -8) return "Very Negative";
+  return "Extremely Negative";
+}
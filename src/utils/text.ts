@@ -0,0 +1,89 @@
+/**
+ * Text processing helpers shared by the embedding and search modules
+ */
+
+/**
+ * Common English words that carry little meaning on their own
+ */
+export const STOP_WORDS = new Set([
+  "a", "about", "after", "again", "all", "also", "am", "an", "and", "any", "are", "as", "at",
+  "be", "because", "been", "before", "being", "both", "but", "by", "can", "could", "did", "do",
+  "does", "doing", "during", "each", "for", "from", "had", "has", "have", "having", "he", "her",
+  "here", "him", "his", "how", "i", "if", "in", "into", "is", "it", "its", "just", "like", "me",
+  "more", "most", "my", "no", "not", "now", "of", "off", "on", "once", "only", "or", "other",
+  "our", "out", "over", "own", "same", "she", "should", "so", "some", "such", "than", "that",
+  "the", "their", "them", "then", "there", "these", "they", "this", "those", "through", "to",
+  "too", "under", "until", "up", "very", "was", "we", "were", "what", "when", "where", "which",
+  "while", "who", "whom", "why", "will", "with", "would", "you", "your", "yeah", "okay", "um", "uh"
+]);
+
+/**
+ * Split text into lowercase word tokens, keeping apostrophes inside words
+ */
+export function splitWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .split(/[^\p{L}\p{N}']+/u)
+    .map(word => word.replace(/^'+|'+$/g, ''))
+    .filter(word => word.length > 0);
+}
+
+/**
+ * Reduce an English word to an approximate stem by stripping common suffixes.
+ * This is a light-weight variant of the Porter algorithm: it is not linguistically
+ * exact, but maps the usual inflections ("meetings", "meeting", "meets") close enough
+ * that they share a stem for search and embedding purposes.
+ */
+export function stem(word: string): string {
+  if (word.length <= 3) return word;
+
+  let w = word.replace(/'s$/, '').replace(/'$/, '');
+
+  // Plurals
+  if (w.endsWith('sses')) w = w.slice(0, -2);
+  else if (w.endsWith('ies') && w.length > 4) w = w.slice(0, -3) + 'y';
+  else if (w.endsWith('s') && !w.endsWith('ss') && !w.endsWith('us') && !w.endsWith('is')) w = w.slice(0, -1);
+
+  // Common verb and adjective endings
+  const suffixes: Array<[string, string]> = [
+    ['ational', 'ate'], ['ization', 'ize'], ['fulness', 'ful'], ['iveness', 'ive'],
+    ['ousness', 'ous'], ['biliti', 'ble'], ['ement', ''], ['ment', ''], ['ness', ''],
+    ['ingly', ''], ['edly', ''], ['ing', ''], ['ed', ''], ['ly', '']
+  ];
+
+  for (const [suffix, replacement] of suffixes) {
+    if (w.endsWith(suffix) && w.length - suffix.length >= 3) {
+      w = w.slice(0, -suffix.length) + replacement;
+
+      // "running" -> "runn" -> "run"
+      if (replacement === '' && /([^aeiouslz])\1$/.test(w)) {
+        w = w.slice(0, -1);
+      }
+      break;
+    }
+  }
+
+  return w;
+}
+
+/**
+ * Tokenize text for indexing: split into words, drop stop words and stem
+ */
+export function tokenize(text: string, options: { keepStopWords?: boolean } = {}): string[] {
+  return splitWords(text)
+    .filter(word => options.keepStopWords || !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+export function hashString(text: string, seed: number = 0x811c9dc5): number {
+  let hash = seed >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
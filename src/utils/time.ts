@@ -0,0 +1,73 @@
+/**
+ * Date and timezone helpers
+ */
+
+/**
+ * Offset (in milliseconds) of a timezone from UTC at the given instant
+ */
+export function getTimezoneOffset(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit"
+  }).formatToParts(date);
+
+  const value = (type: string) => parseInt(parts.find(part => part.type === type)?.value || "0", 10);
+  const wallClock = Date.UTC(value("year"), value("month") - 1, value("day"), value("hour"), value("minute"), value("second"));
+
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Parse a date ("YYYY-MM-DD") or date-time ("YYYY-MM-DD HH:mm:SS") as wall-clock
+ * time in a timezone, the way the Limitless API interprets `start` and `end`.
+ * Values with an explicit offset or "Z" are parsed as-is.
+ */
+export function parseDateTimeInTimezone(value: string, timezone: string = "UTC"): Date {
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/);
+  if (!match) {
+    throw new Error(`Invalid date "${value}", expected YYYY-MM-DD or YYYY-MM-DD HH:mm:SS`);
+  }
+
+  if (match[7]) {
+    return new Date(value.trim().replace(" ", "T"));
+  }
+
+  const [, year, month, day, hour = "0", minute = "0", second = "0"] = match;
+  const wallClock = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+
+  // Apply the offset, then re-check it at the result to handle DST transitions
+  let utc = wallClock - getTimezoneOffset(new Date(wallClock), timezone);
+  utc = wallClock - getTimezoneOffset(new Date(utc), timezone);
+  return new Date(utc);
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in a timezone (UTC by default)
+ */
+export function formatDateInTimezone(time: string | Date, timezone?: string): string {
+  const date = new Date(time);
+  if (!timezone) return date.toISOString().substring(0, 10);
+
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit"
+  }).format(date);
+}
+
+/**
+ * Add calendar days to a YYYY-MM-DD date
+ */
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().substring(0, 10);
+}
@@ -0,0 +1,292 @@
+/**
+ * Cache tests: the memory tier's LRU eviction, the disk tier's persistence,
+ * compression and size budget, the server running with the disk tier
+ * enabled, and stale-while-revalidate with conditional requests
+ */
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { startTestServer, waitFor, TestServer } from "./helpers.js";
+import type * as CacheModule from "../src/cache/index.js";
+import type { DiskCacheStore as DiskCacheStoreClass } from "../src/cache/disk-store.js";
+import type { MemoryCacheStore as MemoryCacheStoreClass } from "../src/cache/memory-store.js";
+import type { LimitlessConfig } from "../src/types/index.js";
+
+const BUDGET = "fx-2025-03-10-budget";
+const LAUNCH = "fx-2025-03-12-launch";
+
+let t: TestServer;
+let cacheModule: typeof CacheModule;
+let DiskCacheStore: typeof DiskCacheStoreClass;
+let MemoryCacheStore: typeof MemoryCacheStoreClass;
+let scratchDir: string;
+let callLimitlessApi: typeof import("../src/api/client.js").default;
+let config: LimitlessConfig;
+
+before(async () => {
+  t = await startTestServer({
+    LIMITLESS_CACHE_DISK: "true",
+    LIMITLESS_CACHE_COMPRESS_THRESHOLD: "1024"
+  });
+  cacheModule = await import("../src/cache/index.js");
+  ({ DiskCacheStore } = await import("../src/cache/disk-store.js"));
+  ({ MemoryCacheStore } = await import("../src/cache/memory-store.js"));
+  ({ default: callLimitlessApi } = await import("../src/api/client.js"));
+  ({ default: config } = await import("../src/config.js"));
+  scratchDir = await fs.mkdtemp(path.join(os.tmpdir(), "limitless-mcp-cache-"));
+});
+
+after(async () => {
+  await fs.rm(scratchDir, { recursive: true, force: true });
+  await t.close();
+});
+
+function memoryStore() {
+  return new MemoryCacheStore({ maxKeys: 100, maxBytes: 1024 * 1024 });
+}
+
+describe("memory cache tier", () => {
+  it("evicts the least recently used entry instead of failing when full", async () => {
+    const memory = new MemoryCacheStore({ maxKeys: 2, maxBytes: 1024 * 1024 });
+    await memory.set("a", 1, 60, []);
+    await memory.set("b", 2, 60, []);
+    await memory.get("a");
+    await memory.set("c", 3, 60, []);
+
+    assert.deepEqual(memory.keys().sort(), ["a", "c"]);
+    assert.equal(memory.getStats().evictions, 1);
+  });
+
+  it("stays within its byte budget", async () => {
+    const memory = new MemoryCacheStore({ maxKeys: 100, maxBytes: 1000 });
+    const markdown = "x".repeat(300);
+    for (const key of ["a", "b", "c", "d", "e"]) {
+      await memory.set(key, { markdown }, 60, []);
+    }
+
+    const stats = memory.getStats();
+    assert.equal(stats.keys, 3);
+    assert.ok(stats.bytes! <= 1000);
+    assert.equal(stats.evictions, 2);
+
+    // Larger than the whole budget: not cached at all
+    await memory.set("huge", { markdown: "x".repeat(2000) }, 60, []);
+    assert.equal(memory.has("huge"), false);
+    assert.equal(memory.getStats().keys, 3);
+  });
+
+  it("keeps heavier entries longer", async () => {
+    const memory = new MemoryCacheStore({
+      maxKeys: 2,
+      maxBytes: 1024 * 1024,
+      weigh: (_key, tags) => tags.includes("derived") ? 100 : 1
+    });
+    await memory.set("summary", "summary", 60, ["derived"]);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await memory.set("lifelog", "lifelog", 60, []);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await memory.set("listing", "listing", 60, []);
+
+    // The summary is the least recently used, but outweighs the lifelog
+    assert.deepEqual(memory.keys().sort(), ["listing", "summary"]);
+  });
+
+  it("returns copies of cached values", async () => {
+    const memory = memoryStore();
+    await memory.set("a", { title: "A" }, 60, []);
+    (await memory.get<{ title: string }>("a"))!.value.title = "changed";
+    assert.equal((await memory.get<{ title: string }>("a"))!.value.title, "A");
+  });
+});
+
+describe("disk cache tier", () => {
+  it("keeps entries and their tags across restarts", async () => {
+    const dir = path.join(scratchDir, "restart");
+    const disk = new DiskCacheStore(dir, { maxBytes: 1024 * 1024, compressThreshold: 1024 });
+    const first = new cacheModule.TieredCache(memoryStore(), disk, 300);
+    await first.set("p:/lifelogs/a", { title: "A" }, { memory: 60, disk: 3600 }, ["p:lifelog:a"]);
+    await waitFor(async () => disk.has("p:/lifelogs/a"));
+    await disk.save();
+
+    // A fresh memory tier, as after a restart
+    const second = new cacheModule.TieredCache(memoryStore(), new DiskCacheStore(dir, { maxBytes: 1024 * 1024, compressThreshold: 1024 }), 300);
+    assert.deepEqual(await second.get("p:/lifelogs/a"), { title: "A" });
+    assert.deepEqual(second.keysWithTag("p:lifelog:a"), ["p:/lifelogs/a"]);
+
+    const [memory, diskStats] = second.getStats().tiers;
+    assert.equal(diskStats.hits, 1);
+    // Copied back into memory
+    assert.equal(memory.keys, 1);
+    assert.deepEqual(await second.get("p:/lifelogs/a"), { title: "A" });
+    assert.equal(second.getStats().tiers[0].hits, 1);
+  });
+
+  it("applies writes and removals in call order", async () => {
+    const dir = path.join(scratchDir, "order");
+    const disk = new DiskCacheStore(dir, { maxBytes: 1024 * 1024, compressThreshold: 16 });
+    const tiered = new cacheModule.TieredCache(memoryStore(), disk, 300);
+    const markdown = "Budget review notes. ".repeat(20);
+
+    // Invalidated before the (compressed) write reached the disk
+    const written = tiered.set("p:/lifelogs/a", { markdown }, { memory: 60, disk: 3600 }, ["p:lifelog:a"]);
+    await tiered.del(tiered.keysWithTag("p:lifelog:a").concat("p:/lifelogs/a"));
+    await written;
+    // Two writes of one key: the later one wins
+    tiered.set("p:/lifelogs/b", { title: "first" }, { memory: 60, disk: 3600 });
+    await tiered.set("p:/lifelogs/b", { title: "second" }, { memory: 60, disk: 3600 });
+    await disk.save();
+
+    assert.equal(disk.has("p:/lifelogs/a"), false);
+    const restarted = new cacheModule.TieredCache(memoryStore(), new DiskCacheStore(dir, { maxBytes: 1024 * 1024, compressThreshold: 16 }), 300);
+    assert.equal(await restarted.get("p:/lifelogs/a"), undefined);
+    assert.deepEqual(restarted.keysWithTag("p:lifelog:a"), []);
+    assert.deepEqual(await restarted.get("p:/lifelogs/b"), { title: "second" });
+  });
+
+  it("compresses large payloads", async () => {
+    const disk = new DiskCacheStore(path.join(scratchDir, "compress"), { maxBytes: 1024 * 1024, compressThreshold: 1024 });
+    const markdown = "# Budget review\n\n" + "- We went over the quarterly numbers again.\n".repeat(200);
+    await disk.set("big", { markdown }, 60, []);
+    await disk.set("small", { markdown: "short" }, 60, []);
+
+    const stats = disk.getStats();
+    assert.equal(stats.compressed, 1);
+    assert.ok(stats.bytes! < markdown.length / 4);
+    assert.equal((await disk.get<{ markdown: string }>("big"))?.value.markdown, markdown);
+  });
+
+  it("evicts the least recently used entries over its size budget", async () => {
+    const disk = new DiskCacheStore(path.join(scratchDir, "budget"), { maxBytes: 250, compressThreshold: 100000 });
+    const value = { text: "x".repeat(80) };
+    await disk.set("a", value, 60, []);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await disk.set("b", value, 60, []);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await disk.get("a");
+    await disk.set("c", value, 60, []);
+
+    assert.deepEqual(disk.keys().sort(), ["a", "c"]);
+    assert.ok(disk.getStats().bytes! <= 250);
+  });
+
+  it("drops expired entries", async () => {
+    const disk = new DiskCacheStore(path.join(scratchDir, "expiry"), { maxBytes: 1024 * 1024, compressThreshold: 1024 });
+    await disk.set("gone", { value: 1 }, 0, []);
+    assert.equal(disk.has("gone"), false);
+    assert.equal(await disk.get("gone"), undefined);
+    assert.equal(await disk.prune(), 0);
+  });
+
+  it("gives lifelogs a longer TTL on disk than listings", () => {
+    const lifelog = cacheModule.calculateTTL(`/lifelogs/${BUDGET}`, { includeMarkdown: true });
+    assert.ok(lifelog.disk > lifelog.memory);
+
+    const listing = cacheModule.calculateTTL("/lifelogs", { limit: 10 });
+    assert.equal(listing.disk, listing.memory);
+  });
+});
+
+describe("server with the disk tier", () => {
+  it("writes responses through to disk and reports both tiers", async () => {
+    await t.callTool("get_lifelog", { id: BUDGET });
+
+    await waitFor(async () => {
+      const { stats } = await t.callToolData("manage_cache", { action: "stats" });
+      return stats.tiers.find((tier: { tier: string }) => tier.tier === "disk")?.keys > 0;
+    });
+
+    const { stats } = await t.callToolData("manage_cache", { action: "stats" });
+    assert.deepEqual(stats.tiers.map((tier: { tier: string }) => tier.tier), ["memory", "disk"]);
+    const memory = stats.tiers[0];
+    assert.ok(memory.bytes > 0);
+    assert.equal(memory.maxBytes, 64 * 1024 * 1024);
+    assert.equal(memory.evictions, 0);
+    const disk = stats.tiers[1];
+    assert.ok(disk.bytes > 0);
+    assert.equal(disk.maxBytes, 100 * 1024 * 1024);
+
+    const text = await t.callTool("manage_cache", { action: "stats" });
+    assert.match(text, /## Tiers/);
+    assert.match(text, /\*\*disk\*\*: \d+ keys/);
+  });
+
+  it("invalidates entries in both tiers", async () => {
+    await t.callTool("get_lifelog", { id: BUDGET });
+    const result = await t.callToolData("manage_cache", { action: "invalidate_lifelog", id: BUDGET });
+    assert.ok(result.removed > 0);
+
+    const { stats } = await t.callToolData("manage_cache", { action: "stats" });
+    assert.equal(stats.tiers[0].keys, 0);
+    assert.equal(stats.tiers[1].keys, 0);
+  });
+
+  it("shows the disk settings", async () => {
+    const { config } = await t.callToolData("manage_cache", { action: "config" });
+    assert.deepEqual(config.disk, {
+      enabled: true,
+      ttlSeconds: 86400,
+      maxBytes: 100 * 1024 * 1024,
+      compressThresholdBytes: 1024
+    });
+  });
+});
+
+describe("stale-while-revalidate", () => {
+  it("serves expired entries at once and revalidates them with conditional requests", async () => {
+    const path = `/lifelogs/${LAUNCH}`;
+    const ttl = config.CACHE_TTL;
+    const lifelog = t.mockApi.lifelogs.find(candidate => candidate.id === LAUNCH)!;
+    const title = lifelog.title;
+    // Entries go stale right after they are cached
+    config.CACHE_TTL = 0.001;
+    try {
+      const revalidated = async (count: number) => {
+        const { stats } = await t.callToolData("manage_cache", { action: "stats" });
+        return stats.revalidation.notModified + stats.revalidation.updated >= count;
+      };
+      const { stats: before } = await t.callToolData("manage_cache", { action: "stats" });
+      const done = before.revalidation.notModified + before.revalidation.updated;
+
+      await callLimitlessApi(path);
+      await new Promise(resolve => setTimeout(resolve, 5));
+
+      // Unchanged: served stale, then answered 304
+      const requests = t.mockApi.requests.length;
+      const stale = await callLimitlessApi(path);
+      assert.equal(stale.data.lifelog?.title, title);
+      await waitFor(() => revalidated(done + 1));
+      assert.equal(t.mockApi.requests.length, requests + 1);
+
+      // Changed: served stale once more, then replaced
+      lifelog.title = "Mobile app launch sync (rescheduled)";
+      await new Promise(resolve => setTimeout(resolve, 5));
+      assert.equal((await callLimitlessApi(path)).data.lifelog?.title, title);
+      await waitFor(() => revalidated(done + 2));
+      assert.equal((await callLimitlessApi(path)).data.lifelog?.title, lifelog.title);
+
+      const { stats } = await t.callToolData("manage_cache", { action: "stats" });
+      assert.equal(stats.revalidation.notModified, before.revalidation.notModified + 1);
+      assert.equal(stats.revalidation.updated, before.revalidation.updated + 1);
+      assert.ok(stats.revalidation.stale >= before.revalidation.stale + 2);
+      assert.match(await t.callTool("manage_cache", { action: "stats" }), /Stale Served/);
+    } finally {
+      config.CACHE_TTL = ttl;
+      lifelog.title = title;
+      await t.callTool("manage_cache", { action: "invalidate_lifelog", id: LAUNCH });
+    }
+  });
+
+  it("answers 304 to a matching If-None-Match", async () => {
+    const url = `${t.mockApi.url}/lifelogs/${BUDGET}`;
+    const headers = { "X-API-Key": "test-api-key" };
+    const first = await fetch(url, { headers });
+    const etag = first.headers.get("etag")!;
+    await first.arrayBuffer();
+    assert.ok(etag);
+
+    const second = await fetch(url, { headers: { ...headers, "If-None-Match": etag } });
+    assert.equal(second.status, 304);
+  });
+});
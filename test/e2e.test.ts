@@ -0,0 +1,822 @@
+/**
+ * End-to-end tests: every tool, prompt and resource of the MCP server, called
+ * over an in-memory transport against the mock Limitless API and the bundled
+ * fixtures
+ */
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, waitFor, TestServer } from "./helpers.js";
+
+const BUDGET = "fx-2025-03-10-budget";
+const GARDEN = "fx-2025-03-11-garden";
+const CHECKUP = "fx-2025-03-11-checkup";
+const LAUNCH = "fx-2025-03-12-launch";
+
+// Lifelog IDs in the order they appear in a tool's output
+function idsIn(text: string): string[] {
+  return Array.from(text.matchAll(/fx-\d{4}-\d{2}-\d{2}-[a-z]+/g), match => match[0])
+    .filter((id, index, all) => all.indexOf(id) === index);
+}
+
+let t: TestServer;
+
+before(async () => {
+  t = await startTestServer();
+});
+
+after(async () => {
+  await t.close();
+});
+
+describe("lifelog tools", () => {
+  it("list_lifelogs lists newest first and reports the next cursor", async () => {
+    const text = await t.callTool("list_lifelogs", { limit: 2 });
+    assert.deepEqual(idsIn(text), [LAUNCH, CHECKUP]);
+    assert.match(text, /Mobile app launch sync/);
+    assert.match(text, /\[More results available\. Use cursor: (\S+) with get_paged_lifelogs\]/);
+  });
+
+  it("list_lifelogs filters by date in the requested timezone", async () => {
+    // The garden conversation was on March 11 UTC but March 10 in Los Angeles
+    const utc = await t.callTool("list_lifelogs", { date: "2025-03-10", limit: 10 });
+    assert.deepEqual(idsIn(utc), [BUDGET]);
+
+    const losAngeles = await t.callTool("list_lifelogs", { date: "2025-03-10", timezone: "America/Los_Angeles", limit: 10 });
+    assert.deepEqual(idsIn(losAngeles), [GARDEN, BUDGET]);
+  });
+
+  it("list_lifelogs supports ascending order and content snippets", async () => {
+    const text = await t.callTool("list_lifelogs", { direction: "asc", limit: 1, includeContent: true });
+    assert.deepEqual(idsIn(text), [BUDGET]);
+    assert.match(text, /# Q2 budget review/);
+  });
+
+  it("list_lifelogs reports when nothing matches", async () => {
+    const text = await t.callTool("list_lifelogs", { date: "2024-01-01" });
+    assert.equal(text, "No lifelogs found for the specified criteria.");
+  });
+
+  it("get_paged_lifelogs walks every lifelog exactly once", async () => {
+    const first = await t.callTool("list_lifelogs", { limit: 2 });
+    let cursor = first.match(/Use cursor: (\S+) with/)?.[1];
+    const seen = idsIn(first);
+
+    while (cursor) {
+      const page = await t.callTool("get_paged_lifelogs", { cursor, limit: 2 });
+      seen.push(...idsIn(page));
+      cursor = page.match(/Use cursor: (\S+) with/)?.[1];
+    }
+
+    assert.deepEqual(seen, [LAUNCH, CHECKUP, GARDEN, BUDGET]);
+  });
+
+  it("get_lifelog returns the title, ID, duration and markdown", async () => {
+    const text = await t.callTool("get_lifelog", { id: BUDGET });
+    assert.match(text, /^# Q2 budget review/);
+    assert.match(text, /ID: fx-2025-03-10-budget/);
+    assert.match(text, /Duration: 1m 5s/);
+    assert.match(text, /> Priya: The marketing budget is about fifteen percent over what we planned\./);
+  });
+
+  it("get_lifelog_metadata summarizes the lifelog without its content", async () => {
+    const text = await t.callTool("get_lifelog_metadata", { id: CHECKUP });
+    assert.match(text, /# Metadata for Lifelog: Annual checkup with Dr\. Chen/);
+    assert.match(text, /\*\*Duration\*\*: 0m 45s/);
+    assert.match(text, /heading1: 1/);
+    assert.doesNotMatch(text, /blood pressure looks good/);
+  });
+
+  it("get_lifelog fails for unknown lifelogs", async () => {
+    await assert.rejects(t.callTool("get_lifelog", { id: "does-not-exist" }));
+  });
+
+  it("filter_lifelog_contents filters nested blocks by speaker and type", async () => {
+    const bySpeaker = await t.callTool("filter_lifelog_contents", { id: BUDGET, speakerName: "priya" });
+    assert.match(bySpeaker, /# Filtered Content from "Q2 budget review"/);
+    assert.match(bySpeaker, /Found 2 matching content blocks out of 7 total\./);
+    assert.match(bySpeaker, /## Block 2 \(4:00:38 PM\)\n\*\*Priya\*\*: Yes, I'll draft a proposal/);
+
+    const byType = await t.callTool("filter_lifelog_contents", { id: BUDGET, contentType: "heading2" });
+    assert.match(byType, /## Block 1\nMarketing overspend and event budget/);
+
+    const none = await t.callTool("filter_lifelog_contents", { id: BUDGET, speakerName: "nobody" });
+    assert.equal(none, "No content matched the filter criteria.");
+  });
+
+  it("generate_transcript formats dialogue and detailed transcripts", async () => {
+    const dialogue = await t.callTool("generate_transcript", { id: GARDEN });
+    assert.match(dialogue, /^# Planning the spring garden - Dialogue Transcript/);
+    assert.match(dialogue, /## Vegetables and where to plant them\n\n\*\*You\*\*: I'm thinking about planting tomatoes/);
+    assert.match(dialogue, /\*\*Sam\*\*: Tomatoes need a lot of sun/);
+
+    const detailed = await t.callTool("generate_transcript", { id: GARDEN, format: "detailed" });
+    assert.match(detailed, /### Block 4\n\[1:30:09 AM\] blockquote: Tomatoes need a lot of sun/);
+
+    await assert.rejects(t.callTool("generate_transcript", { id: "does-not-exist" }));
+  });
+
+  it("search_lifelogs ranks lifelogs by relevance", async () => {
+    const advanced = await t.callTool("search_lifelogs", { query: "budget proposal", start: "2025-03-01", end: "2025-03-31" });
+    assert.match(advanced, /Found 2 matching lifelogs \(showing top 2\)\./);
+    assert.deepEqual(idsIn(advanced), [LAUNCH, BUDGET]);
+    assert.match(advanced, /Relevance Score: 13 \(4 matches\)/);
+
+    const basic = await t.callTool("search_lifelogs", { query: "tomatoes", searchMode: "basic", date: "2025-03-11" });
+    assert.deepEqual(idsIn(basic), [GARDEN]);
+
+    const none = await t.callTool("search_lifelogs", { query: "volcano", date: "2025-03-11" });
+    assert.equal(none, "No matches found for the specified search terms.");
+  });
+});
+
+describe("analysis tools", () => {
+  it("summarize_lifelog summarizes a single lifelog", async () => {
+    const text = await t.callTool("summarize_lifelog", { id: GARDEN, level: "brief" });
+    assert.match(text, /^# Summary of "Planning the spring garden"/);
+  });
+
+  it("summarize_lifelogs combines several lifelogs", async () => {
+    const text = await t.callTool("summarize_lifelogs", { ids: [BUDGET, LAUNCH] });
+    assert.match(text, /# Combined Summary of 2 Lifelogs/);
+    assert.match(text, /Time Range: /);
+  });
+
+  it("analyze_sentiment scores the lifelog and each speaker", async () => {
+    const text = await t.callTool("analyze_sentiment", { id: GARDEN, includeSentences: true });
+    assert.match(text, /# Sentiment Analysis for "Planning the spring garden"/);
+    assert.match(text, /## Overall Sentiment\n\n- \*\*Score\*\*: 4\.08 \(Positive\)/);
+    assert.match(text, /### Sam\n/);
+    assert.match(text, /### Most Positive Sentences/);
+  });
+
+  it("compare_sentiment ranks lifelogs and tracks recurring speakers", async () => {
+    const text = await t.callTool("compare_sentiment", { ids: [BUDGET, LAUNCH, GARDEN], bySpeaker: true });
+    assert.match(text, /# Sentiment Comparison for 3 Lifelogs/);
+    assert.match(text, /\| --- \| --- \| --- \| --- \|\n\| Planning the spring garden \| 3\/11\/2025 \| 4\.08 \| Positive \|/);
+    assert.match(text, /### You\n\n- \*\*Average Score\*\*: 1\.03\n- \*\*Trend\*\*: Improving/);
+    assert.match(text, /- \*\*Positive\*\*: best, good/);
+
+    await assert.rejects(t.callTool("compare_sentiment", { ids: [BUDGET] }));
+  });
+
+  it("extract_topics counts recurring keywords", async () => {
+    const text = await t.callTool("extract_topics", { ids: [BUDGET, LAUNCH], minOccurrences: 2 });
+    assert.match(text, /# Topics Extracted from 2 Lifelogs/);
+    assert.match(text, /\*\*budget\*\* - 6 occurrences/);
+    assert.match(text, /\*\*launch\*\* - 3 occurrences/);
+  });
+});
+
+describe("time summary tools", () => {
+  it("get_time_summary groups recordings by day in the requested timezone", async () => {
+    const utc = await t.callTool("get_time_summary", { start: "2025-03-09", end: "2025-03-13", timezone: "UTC" });
+    assert.match(utc, /# Time Summary Analysis from 2025-03-09 to 2025-03-13/);
+    assert.match(utc, /Total lifelogs: 4/);
+    assert.match(utc, /\| 2025-03-10 \| 1 \| 0h 1m \| 1m 5s \|\n\| 2025-03-11 \| 2 \| 0h 1m \| 0m 37s \|/);
+
+    // The garden conversation moves to March 10 in Los Angeles
+    const losAngeles = await t.callTool("get_time_summary", { start: "2025-03-09", end: "2025-03-13", timezone: "America/Los_Angeles" });
+    assert.match(losAngeles, /\| 2025-03-10 \| 2 \|/);
+  });
+
+  it("get_time_summary groups by hour and week", async () => {
+    const hours = await t.callTool("get_time_summary", { date: "2025-03-11", timezone: "UTC", groupBy: "hour" });
+    assert.match(hours, /\| 2025-03-11 01:00 \| 1 \|[^\n]*\n\| 2025-03-11 17:00 \| 1 \|/);
+
+    const weeks = await t.callTool("get_time_summary", { start: "2025-03-09", end: "2025-03-13", timezone: "UTC", groupBy: "week" });
+    assert.match(weeks, /\| Week of 2025-03-10 \| 4 \|/);
+  });
+
+  it("get_day_summary lists a day's lifelogs with excerpts", async () => {
+    const text = await t.callTool("get_day_summary", { date: "2025-03-10", timezone: "America/Los_Angeles" });
+    assert.match(text, /^# Summary for Monday, March 10, 2025/);
+    assert.match(text, /Found 2 lifelogs for this day\./);
+    assert.match(text, /## 1\. Planning the spring garden \(06:30 PM\)/);
+    assert.match(text, /## 2\. Q2 budget review \(09:00 AM\)/);
+
+    assert.equal(await t.callTool("get_day_summary", { date: "2024-01-01" }), "No lifelogs found for 2024-01-01");
+  });
+});
+
+describe("cache tools", () => {
+  it("manage_cache reports statistics and configuration", async () => {
+    const stats = await t.callTool("manage_cache", { action: "stats" });
+    assert.match(stats, /# Cache Statistics/);
+    assert.match(stats, /\*\*Total Keys\*\*: [1-9]/);
+
+    const config = await t.callTool("manage_cache", { action: "config" });
+    assert.match(config, new RegExp(`\\*\\*API Base URL\\*\\*: ${t.mockApi.url}`));
+  });
+
+  it("manage_cache clears entries by type and entirely", async () => {
+    const typed = await t.callTool("manage_cache", { action: "clear_type", type: "listings" });
+    assert.match(typed, /Selectively cleared \d+ cache entries of type 'listings'/);
+
+    await assert.rejects(t.callTool("manage_cache", { action: "clear_type" }));
+
+    const cleared = await t.callTool("manage_cache", { action: "clear" });
+    assert.match(cleared, /Cache cleared successfully/);
+    assert.match(await t.callTool("manage_cache", { action: "stats" }), /\*\*Total Keys\*\*: 0/);
+  });
+
+  it("manage_cache invalidates a lifelog with its summaries and topics", async () => {
+    await t.callTool("summarize_lifelog", { id: BUDGET });
+    await t.callTool("summarize_lifelog", { id: LAUNCH });
+    await t.callTool("extract_topics", { ids: [BUDGET, LAUNCH] });
+    const before = (await t.callToolData("manage_cache", { action: "stats" })).stats.keys;
+
+    // The lifelog response, its summary and the shared topics
+    const invalidated = await t.callToolData("manage_cache", { action: "invalidate_lifelog", id: BUDGET });
+    assert.equal(invalidated.removed, 3);
+    assert.deepEqual(invalidated.lifelogs, [BUDGET]);
+    assert.equal((await t.callToolData("manage_cache", { action: "stats" })).stats.keys, before - 3);
+
+    const again = await t.callToolData("manage_cache", { action: "invalidate_lifelog", id: BUDGET });
+    assert.equal(again.removed, 0);
+
+    await assert.rejects(t.callTool("manage_cache", { action: "invalidate_lifelog" }), /ID parameter is required/);
+  });
+
+  it("manage_cache invalidates a day and a tag", async () => {
+    await t.callTool("summarize_lifelog", { id: BUDGET });
+    await t.callTool("get_day_summary", { date: "2025-03-10", timezone: "UTC" });
+
+    const day = await t.callToolData("manage_cache", { action: "invalidate_date", date: "2025-03-10", timezone: "UTC" });
+    assert.deepEqual(day.lifelogs, [BUDGET]);
+    // The lifelog, its summary and the day's listing
+    assert.equal(day.removed, 3);
+
+    await t.callTool("summarize_lifelog", { id: BUDGET });
+    const tagged = await t.callToolData("manage_cache", { action: "invalidate_tag", tag: "metadata_only" });
+    assert.ok(tagged.lifelogs.includes(BUDGET));
+    assert.equal((await t.callToolData("manage_cache", { action: "invalidate_lifelog", id: BUDGET })).removed, 0);
+  });
+});
+
+describe("full-text search tools", () => {
+  it("full_text_search asks for an index update while the index is empty", async () => {
+    const text = await t.callTool("full_text_search", { query: "budget" });
+    assert.match(text, /The search index is empty/);
+  });
+
+  it("manage_search_index update indexes the whole history", async () => {
+    const started = await t.callTool("manage_search_index", { action: "update" });
+    assert.match(started, /update started/);
+
+    await waitFor(async () => /\*\*State\*\*: idle/.test(await t.callTool("manage_search_index", { action: "status" })));
+
+    const status = await t.callTool("manage_search_index", { action: "status" });
+    assert.match(status, /\*\*Lifelogs\*\*: 4/);
+    assert.match(status, /\*\*Content Blocks\*\*: 24/);
+  });
+
+  it("full_text_search ranks blocks and highlights matches", async () => {
+    const text = await t.callTool("full_text_search", { query: "budget proposal" });
+    assert.match(text, /Showing \d+ of \d+ matching blocks/);
+    // The block mentioning both words ranks first
+    assert.match(text, /### 1\. Mobile app launch sync[\s\S]*?Marcus: Not yet\. Priya is waiting on the revised \*\*budget\*\* \*\*proposal\*\*/);
+  });
+
+  it("full_text_search supports phrases, exclusions and filters", async () => {
+    const phrase = await t.callTool("full_text_search", { query: '"budget review"' });
+    assert.deepEqual(idsIn(phrase), [BUDGET]);
+
+    const excluded = await t.callTool("full_text_search", { query: "budget -marketing -launch", types: ["blockquote"] });
+    // Exclusions apply per block
+    assert.match(excluded, /Morning everyone/);
+    assert.doesNotMatch(excluded, /The marketing \*\*budget\*\*/);
+
+    const bySpeaker = await t.callTool("full_text_search", { query: "budget", speaker: "marcus" });
+    assert.deepEqual(idsIn(bySpeaker), [LAUNCH]);
+
+    const byDate = await t.callTool("full_text_search", {
+      query: "tomatoes OR sleep", start: "2025-03-10", end: "2025-03-10", timezone: "America/Los_Angeles"
+    });
+    assert.deepEqual(idsIn(byDate), [GARDEN]);
+
+    const none = await t.callTool("full_text_search", { query: "volcano" });
+    assert.match(none, /No matches found for "volcano" in 4 indexed lifelogs/);
+  });
+
+  it("manage_search_index removes lifelogs and clears the index", async () => {
+    assert.match(await t.callTool("manage_search_index", { action: "remove", id: GARDEN }), /Removed lifelog/);
+    assert.match(await t.callTool("full_text_search", { query: "tomatoes" }), /No matches found/);
+    assert.match(await t.callTool("manage_search_index", { action: "clear" }), /Search index cleared\. 3 lifelogs removed\./);
+  });
+});
+
+describe("lifelog mirror", () => {
+  it("sync_lifelogs mirrors every lifelog", async () => {
+    const text = await t.callTool("sync_lifelogs", { action: "sync", wait: true });
+    assert.match(text, /Sync finished: 4 lifelogs scanned, 4 saved, 0 unchanged, 0 failed\. 4 lifelogs mirrored\./);
+
+    // An incremental sync only rescans from the high-water mark
+    const again = await t.callTool("sync_lifelogs", { action: "sync", wait: true });
+    assert.match(again, /1 lifelogs scanned, 0 saved, 1 unchanged/);
+
+    const status = await t.callTool("sync_lifelogs", { action: "status" });
+    assert.match(status, /\*\*Lifelogs\*\*: 4/);
+    assert.match(status, /\*\*High-Water Mark\*\*: 2025-03-12T22:45:00\.000Z/);
+  });
+
+  it("serves lookups and synced date ranges from the mirror", async () => {
+    await t.callTool("manage_cache", { action: "clear" });
+    const requestsBefore = t.mockApi.requests.length;
+
+    assert.match(await t.callTool("get_lifelog", { id: LAUNCH }), /# Mobile app launch sync/);
+    const listed = await t.callTool("list_lifelogs", { date: "2025-03-11", limit: 10 });
+    assert.deepEqual(idsIn(listed), [CHECKUP, GARDEN]);
+
+    assert.equal(t.mockApi.requests.length, requestsBefore);
+  });
+
+  it("shapes mirrored lifelogs like the API", async () => {
+    const { readFromMirror } = await import("../src/sync/index.js");
+    const headers = { "X-API-Key": "test-api-key" };
+
+    for (const qs of [{ includeHeadings: false }, { includeMarkdown: false }, { includeHeadings: "false", includeMarkdown: true }]) {
+      const query = new URLSearchParams(Object.entries(qs).map(([key, value]) => [key, String(value)]));
+      const api = await (await fetch(`${t.mockApi.url}/lifelogs/${BUDGET}?${query}`, { headers })).json();
+      // Compared as JSON, as the client would see an API response
+      const mirrored = JSON.parse(JSON.stringify(await readFromMirror(`/lifelogs/${BUDGET}`, qs)));
+      assert.deepEqual(mirrored.data, api.data);
+    }
+
+    const headingTypes = (await readFromMirror(`/lifelogs/${BUDGET}`, { includeHeadings: false }))!.data.lifelog!.contents!
+      .flatMap(function types(block): string[] { return [block.type, ...(block.children || []).flatMap(types)]; });
+    assert.ok(!headingTypes.some(type => type.startsWith("heading")));
+  });
+
+  it("sync_lifelogs clear empties the mirror", async () => {
+    assert.match(await t.callTool("sync_lifelogs", { action: "clear" }), /Mirror cleared\. 4 lifelogs removed\./);
+  });
+});
+
+describe("plugin tools", () => {
+  it("manage_templates lists and shows templates", async () => {
+    const list = await t.callTool("manage_templates", { action: "list" });
+    assert.match(list, /- simple/);
+
+    const simple = await t.callTool("manage_templates", { action: "get", name: "simple" });
+    assert.match(simple, /# \{title\}/);
+  });
+
+  it("apply_template renders a lifelog with a template", async () => {
+    const text = await t.callTool("apply_template", { id: GARDEN, template: "Conversation: {title}" });
+    assert.equal(text, "Conversation: Planning the spring garden");
+  });
+
+  it("process_content filters and transforms content", async () => {
+    const text = await t.callTool("process_content", {
+      id: BUDGET,
+      operations: [
+        { type: "filter", params: { include: "Priya" } },
+        { type: "transform", params: { type: "uppercase" } }
+      ]
+    });
+    assert.equal(text.trim().split("\n").length, 2);
+    assert.match(text, /> PRIYA: YES, I'LL DRAFT A PROPOSAL/);
+  });
+
+  it("batch_process applies operations to several lifelogs", async () => {
+    const text = await t.callTool("batch_process", {
+      ids: [BUDGET, LAUNCH],
+      operations: [{ type: "extract", params: { pattern: "Marcus" } }]
+    });
+    assert.match(text, /# Processed Content for 2 Lifelogs/);
+    assert.match(text, /## 1\. Q2 budget review \(ID: fx-2025-03-10-budget\)/);
+    assert.match(text, /## 2\. Mobile app launch sync \(ID: fx-2025-03-12-launch\)/);
+  });
+
+  it("parse_time_reference resolves days in the requested timezone", async () => {
+    const text = await t.callTool("parse_time_reference", {
+      timeReference: "yesterday", referenceDate: "2025-03-11", timezone: "America/New_York"
+    });
+    assert.match(text, /\*\*Start\*\*: `2025-03-10T04:00:00\.000Z`/);
+    assert.match(text, /\*\*End\*\*: `2025-03-11T03:59:00\.000Z`/);
+  });
+
+  it("search_with_time resolves the time range of a search", async () => {
+    const text = await t.callTool("search_with_time", { query: "budget", timeReference: "today", timezone: "UTC" });
+    assert.match(text, /# Search Results for "budget" during today/);
+    assert.match(text, /"query": "budget"/);
+  });
+
+  it("create_embeddings, semantic_search and hybrid_search find related conversations", async () => {
+    for (const id of [BUDGET, GARDEN, CHECKUP, LAUNCH]) {
+      assert.match(await t.callTool("create_embeddings", { id }), /Successfully created embeddings/);
+    }
+
+    const semantic = await t.callTool("semantic_search", { query: "tomato seeds for the garden" });
+    assert.equal(idsIn(semantic)[0], GARDEN);
+
+    const hybrid = await t.callTool("hybrid_search", { query: "budget proposal" });
+    assert.match(hybrid, /# Hybrid Search Results for "budget proposal"/);
+    assert.ok([BUDGET, LAUNCH].includes(idsIn(hybrid)[0]));
+    assert.match(hybrid, /\*\*Speakers\*\*: /);
+  });
+
+  it("manage_embeddings lists, inspects and deletes embeddings", async () => {
+    const list = await t.callTool("manage_embeddings", { action: "list" });
+    assert.deepEqual(idsIn(list).sort(), [BUDGET, GARDEN, CHECKUP, LAUNCH].sort());
+
+    assert.match(await t.callTool("manage_embeddings", { action: "info", id: GARDEN }), /Planning the spring garden/);
+    assert.match(await t.callTool("manage_embeddings", { action: "delete", id: GARDEN }), /have been deleted/);
+    assert.match(await t.callTool("manage_embeddings", { action: "status" }), /\*\*Indexed Lifelogs\*\*: 3/);
+  });
+});
+
+describe("resources", () => {
+  async function readText(uri: string): Promise<{ text: string; mimeType?: string }> {
+    const { contents } = await t.client.readResource({ uri });
+    return { text: String(contents[0].text), mimeType: contents[0].mimeType };
+  }
+
+  it("lists every lifelog and day across pages", async () => {
+    const { default: config } = await import("../src/config.js");
+    const pageSize = config.DEFAULT_PAGE_SIZE;
+    config.DEFAULT_PAGE_SIZE = 3;
+
+    try {
+      const pages: string[][] = [];
+      let cursor: string | undefined;
+      do {
+        const result = await t.client.listResources(cursor ? { cursor } : {});
+        pages.push(result.resources.map(resource => resource.uri));
+        cursor = result.nextCursor;
+      } while (cursor);
+
+      // Newest first; the garden conversation was on March 10 in Los Angeles,
+      // so that day spans both pages but is listed once
+      assert.deepEqual(pages, [
+        [
+          "lifelogs://day/2025-03-12", `lifelogs://${LAUNCH}`,
+          "lifelogs://day/2025-03-11", `lifelogs://${CHECKUP}`,
+          "lifelogs://day/2025-03-10", `lifelogs://${GARDEN}`
+        ],
+        [`lifelogs://${BUDGET}`]
+      ]);
+    } finally {
+      config.DEFAULT_PAGE_SIZE = pageSize;
+    }
+
+    await assert.rejects(t.client.listResources({ cursor: "not-a-cursor" }), /Invalid resource list cursor/);
+  });
+
+  it("lists the resource templates", async () => {
+    const { resourceTemplates } = await t.client.listResourceTemplates();
+    assert.deepEqual(resourceTemplates.map(template => template.uriTemplate).sort(), [
+      "lifelogs://day/{date}",
+      "lifelogs://range/{start}/{end}",
+      "lifelogs://{id}",
+      "lifelogs://{id}/metadata",
+      "lifelogs://{id}/transcript"
+    ]);
+  });
+
+  it("reads a lifelog's markdown", async () => {
+    const { text } = await readText(`lifelogs://${GARDEN}`);
+    assert.match(text, /Tomatoes need a lot of sun/);
+  });
+
+  it("reads a lifelog's transcript and metadata", async () => {
+    const transcript = await readText(`lifelogs://${BUDGET}/transcript`);
+    assert.match(transcript.text, /^# Q2 budget review - Dialogue Transcript/);
+    assert.match(transcript.text, /\*\*Priya\*\*: The marketing budget is about fifteen percent over/);
+
+    const metadata = await readText(`lifelogs://${BUDGET}/metadata`);
+    assert.equal(metadata.mimeType, "application/json");
+    const parsed = JSON.parse(metadata.text);
+    assert.equal(parsed.id, BUDGET);
+    assert.equal(parsed.title, "Q2 budget review");
+    assert.deepEqual(parsed.speakers.sort(), ["Marcus", "Priya", "You"]);
+    assert.equal(parsed.durationSeconds > 0, true);
+  });
+
+  it("reads every lifelog of a day in the requested timezone", async () => {
+    // March 10 in Los Angeles (the default) includes the garden conversation
+    const pacific = await readText("lifelogs://day/2025-03-10");
+    assert.match(pacific.text, /^# Lifelogs for Monday, March 10, 2025/);
+    assert.deepEqual(idsIn(pacific.text), [BUDGET, GARDEN]);
+
+    const utc = await readText("lifelogs://day/2025-03-10?timezone=UTC");
+    assert.deepEqual(idsIn(utc.text), [BUDGET]);
+
+    await assert.rejects(t.client.readResource({ uri: "lifelogs://day/March-10" }), /Invalid date/);
+  });
+
+  it("reads every lifelog in a range, oldest first", async () => {
+    const { text } = await readText("lifelogs://range/2025-03-11/2025-03-12?timezone=UTC");
+    assert.match(text, /^# Lifelogs from 2025-03-11 to 2025-03-12/);
+    assert.deepEqual(idsIn(text), [GARDEN, CHECKUP, LAUNCH]);
+    assert.match(text, /Mobile app launch sync/);
+  });
+
+  it("notifies subscribers about new and updated lifelogs", async () => {
+    const { ResourceListChangedNotificationSchema, ResourceUpdatedNotificationSchema } = await import("@modelcontextprotocol/sdk/types.js");
+    const { getResourcePoller } = await import("../src/resources/subscriptions.js");
+
+    const updated: string[] = [];
+    let listChanged = 0;
+    t.client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => { updated.push(notification.params.uri); });
+    t.client.setNotificationHandler(ResourceListChangedNotificationSchema, () => { listChanged++; });
+
+    const subscriptions = [`lifelogs://${LAUNCH}/transcript`, "lifelogs://day/2025-03-13?timezone=UTC", `lifelogs://${BUDGET}`];
+    await t.client.listResources();
+    for (const uri of subscriptions) {
+      await t.client.subscribeResource({ uri });
+    }
+    await assert.rejects(t.client.subscribeResource({ uri: "https://example.com/" }), /can't be subscribed to/);
+
+    // The first poll only records the current lifelogs
+    const poller = getResourcePoller();
+    await waitFor(async () => poller.getStatus().lastPollAt !== undefined && !poller.getStatus().running);
+
+    // Cache the transcript so the test shows it is refreshed
+    await t.client.readResource({ uri: subscriptions[0] });
+
+    const launch = t.mockApi.lifelogs.find(lifelog => lifelog.id === LAUNCH)!;
+    const title = launch.title;
+    launch.title = "Mobile app launch retro";
+    t.mockApi.lifelogs.push({
+      id: "fx-2025-03-13-standup",
+      title: "Standup",
+      markdown: "# Standup",
+      startTime: "2025-03-13T03:00:00Z",
+      endTime: "2025-03-13T03:15:00Z",
+      contents: []
+    });
+
+    try {
+      await poller.pollOnce();
+      await waitFor(async () => updated.length === 2 && listChanged === 1);
+      assert.deepEqual(updated.sort(), subscriptions.slice(0, 2).sort());
+
+      const { contents } = await t.client.readResource({ uri: subscriptions[0] });
+      assert.match(String(contents[0].text), /^# Mobile app launch retro - Dialogue Transcript/);
+    } finally {
+      launch.title = title;
+      t.mockApi.lifelogs.pop();
+      await poller.pollOnce();
+      for (const uri of subscriptions) {
+        await t.client.unsubscribeResource({ uri });
+      }
+    }
+  });
+});
+
+describe("prompts", () => {
+  const calledPrompts = new Set<string>();
+
+  async function getPrompt(name: string, args: Record<string, string>): Promise<string> {
+    calledPrompts.add(name);
+    const { messages } = await t.client.getPrompt({ name, arguments: args });
+    assert.equal(messages.length, 1);
+    assert.equal(messages[0].role, "user");
+    return String((messages[0].content as { text?: string }).text);
+  }
+
+  it("daily_review embeds the day summary and topics", async () => {
+    const text = await getPrompt("daily_review", { date: "2025-03-11", timezone: "UTC" });
+    assert.match(text, /review of my day on 2025-03-11/);
+    assert.deepEqual(idsIn(text), [CHECKUP, GARDEN]);
+    assert.match(text, /## Topics\n\n# Topics Extracted from 2 Lifelogs/);
+  });
+
+  it("meeting_recap embeds the transcript", async () => {
+    const text = await getPrompt("meeting_recap", { id: BUDGET });
+    assert.match(text, /\*\*Priya\*\*: Yes, I'll draft a proposal and send it by Thursday\./);
+    assert.match(text, /# Topics Extracted from 1 Lifelogs/);
+  });
+
+  it("weekly_reflection covers the seven days up to the end date", async () => {
+    const text = await getPrompt("weekly_reflection", { end: "2025-03-12", timezone: "UTC" });
+    assert.match(text, /from 2025-03-06 to 2025-03-12/);
+    assert.match(text, /Total lifelogs: 4/);
+    assert.deepEqual(idsIn(text).sort(), [BUDGET, GARDEN, CHECKUP, LAUNCH].sort());
+  });
+
+  it("prepare_for_meeting embeds conversations that mention the person", async () => {
+    const text = await getPrompt("prepare_for_meeting", { person: "Priya" });
+    assert.match(text, /meeting with Priya/);
+    assert.match(text, new RegExp(`## Transcript ${BUDGET}`));
+    assert.match(text, new RegExp(`## Transcript ${LAUNCH}`));
+    assert.doesNotMatch(text, new RegExp(`## Transcript ${GARDEN}`));
+  });
+
+  it("action_item_sweep embeds every transcript in the range", async () => {
+    const text = await getPrompt("action_item_sweep", { start: "2025-03-10", end: "2025-03-11", timezone: "UTC" });
+    assert.deepEqual(idsIn(text), [BUDGET, CHECKUP, GARDEN]);
+    assert.match(text, /I'll set a reminder to wind down at ten/);
+
+    await assert.rejects(
+      t.client.getPrompt({ name: "action_item_sweep", arguments: { start: "2025-03-12", end: "2025-03-10" } }),
+      /before start date/
+    );
+    await assert.rejects(
+      t.client.getPrompt({ name: "action_item_sweep", arguments: { start: "2025-01-01", end: "2025-03-10" } }),
+      /more than 31 days/
+    );
+    await assert.rejects(t.client.getPrompt({ name: "daily_review", arguments: { date: "March 11" } }), /YYYY-MM-DD/);
+  });
+
+  it("gets every registered prompt", async () => {
+    const { prompts } = await t.client.listPrompts();
+    const untested = prompts.map(prompt => prompt.name).filter(name => !calledPrompts.has(name));
+    assert.deepEqual(untested, [], `Prompts without end-to-end tests: ${untested.join(", ")}`);
+  });
+});
+
+describe("structured output", () => {
+  it("lists lifelogs with their next cursor", async () => {
+    const first = await t.callToolData("list_lifelogs", { limit: 2 });
+    assert.deepEqual(first.lifelogs.map((lifelog: { id: string }) => lifelog.id), [LAUNCH, CHECKUP]);
+    assert.equal(first.lifelogs[0].title, "Mobile app launch sync");
+    assert.equal(first.lifelogs[0].markdown, undefined);
+
+    const next = await t.callToolData("get_paged_lifelogs", { cursor: first.nextCursor, limit: 2 });
+    assert.deepEqual(next.lifelogs.map((lifelog: { id: string }) => lifelog.id), [GARDEN, BUDGET]);
+  });
+
+  it("returns lifelog details and metadata", async () => {
+    const lifelog = await t.callToolData("get_lifelog", { id: BUDGET });
+    assert.equal(lifelog.id, BUDGET);
+    assert.equal(lifelog.durationSeconds, 65);
+    assert.match(lifelog.markdown, /# Q2 budget review/);
+
+    const metadata = await t.callToolData("get_lifelog_metadata", { id: GARDEN });
+    assert.ok(metadata.speakers.includes("Sam"));
+    assert.ok(metadata.contentBlocks > 0);
+  });
+
+  it("returns search results with scores", async () => {
+    const search = await t.callToolData("search_lifelogs", { query: "budget" });
+    assert.equal(search.results[0].id, BUDGET);
+    assert.ok(search.results[0].score > 0);
+  });
+
+  it("returns topics with their counts and scores", async () => {
+    const { lifelogsCount, topics } = await t.callToolData("extract_topics", { ids: [BUDGET, LAUNCH], minOccurrences: 2 });
+    assert.equal(lifelogsCount, 2);
+
+    const budget = topics.find((topic: { name: string }) => topic.name === "budget");
+    assert.equal(budget.count, 6);
+    assert.equal(typeof budget.score, "number");
+
+    // Sorted by score
+    const scores = topics.map((topic: { score: number }) => topic.score);
+    assert.deepEqual(scores, [...scores].sort((a, b) => b - a));
+  });
+
+  it("returns time summaries grouped by day", async () => {
+    const summary = await t.callToolData("get_time_summary", { start: "2025-03-09", end: "2025-03-13", timezone: "UTC" });
+    assert.equal(summary.totalLifelogs, 4);
+    assert.deepEqual(summary.groups[0], { key: "2025-03-10", count: 1, totalDurationSeconds: 65 });
+    assert.deepEqual(summary.groups.map((group: { key: string }) => group.key), ["2025-03-10", "2025-03-11", "2025-03-12"]);
+  });
+
+  it("returns sentiment scores overall and by speaker", async () => {
+    const sentiment = await t.callToolData("analyze_sentiment", { id: GARDEN });
+    assert.equal(sentiment.overall.score.toFixed(2), "4.08");
+    assert.equal(sentiment.overall.description, "Positive");
+    assert.ok(sentiment.speakers.some((speaker: { speaker: string }) => speaker.speaker === "Sam"));
+
+    const comparison = await t.callToolData("compare_sentiment", { ids: [BUDGET, LAUNCH, GARDEN] });
+    assert.equal(comparison.lifelogs[0].id, GARDEN);
+  });
+
+  it("returns plugin errors as failed tool calls", async () => {
+    const result = await t.client.callTool({ name: "manage_templates", arguments: { action: "get", name: "missing" } });
+    assert.equal(result.isError, true);
+    assert.equal(result.structuredContent, undefined);
+  });
+});
+
+describe("progress and cancellation", () => {
+  it("reports progress while fetching lifelogs", async () => {
+    const progress: Array<{ progress: number; total?: number }> = [];
+    t.calledTools.add("compare_sentiment");
+    await t.client.callTool(
+      { name: "compare_sentiment", arguments: { ids: [BUDGET, LAUNCH, GARDEN] } },
+      undefined,
+      { onprogress: notification => { progress.push(notification); } }
+    );
+
+    assert.deepEqual(progress.map(notification => notification.progress), [1, 2, 3]);
+    assert.ok(progress.every(notification => notification.total === 3));
+  });
+
+  it("reports progress while creating embeddings", async () => {
+    const progress: Array<{ progress: number; total?: number }> = [];
+    t.calledTools.add("create_embeddings");
+    await t.client.callTool(
+      { name: "create_embeddings", arguments: { id: CHECKUP, chunkSize: 200, chunkOverlap: 20, forceRefresh: true } },
+      undefined,
+      { onprogress: notification => { progress.push(notification); } }
+    );
+
+    assert.ok(progress.length > 0);
+    const last = progress[progress.length - 1];
+    assert.equal(last.progress, last.total);
+  });
+
+  it("stops API calls once the request is cancelled", async () => {
+    const { default: callLimitlessApi } = await import("../src/api/client.js");
+    const requests = t.mockApi.requests.length;
+
+    const controller = new AbortController();
+    controller.abort();
+    await assert.rejects(
+      callLimitlessApi(`/lifelogs/${BUDGET}`, {}, false, { signal: controller.signal }),
+      (error: { code?: string }) => error.code === "cancelled"
+    );
+    assert.equal(t.mockApi.requests.length, requests);
+  });
+});
+
+describe("request coalescing", () => {
+  it("shares one request between identical concurrent calls", async () => {
+    const { default: callLimitlessApi } = await import("../src/api/client.js");
+    const before = (await t.callToolData("manage_cache", { action: "stats" })).stats.coalesced;
+    const requests = t.mockApi.requests.length;
+
+    const responses = await Promise.all([1, 2, 3].map(() => callLimitlessApi(`/lifelogs/${CHECKUP}`, {}, false)));
+    assert.equal(t.mockApi.requests.length, requests + 1);
+    assert.deepEqual(responses[1], responses[0]);
+    // Each caller gets its own copy
+    assert.notEqual(responses[1], responses[0]);
+
+    const { stats } = await t.callToolData("manage_cache", { action: "stats" });
+    assert.equal(stats.coalesced, before + 2);
+    assert.equal(stats.inFlight, 0);
+  });
+
+  it("keeps the shared request going when one caller cancels", async () => {
+    const { default: callLimitlessApi } = await import("../src/api/client.js");
+    const controller = new AbortController();
+
+    const cancelled = callLimitlessApi(`/lifelogs/${LAUNCH}`, {}, false, { signal: controller.signal });
+    const other = callLimitlessApi(`/lifelogs/${LAUNCH}`, {}, false);
+    controller.abort();
+
+    await assert.rejects(cancelled, (error: { code?: string }) => error.code === "cancelled");
+    assert.equal((await other).data.lifelog?.id, LAUNCH);
+  });
+});
+
+describe("pagination", () => {
+  it("iterates over every page of a listing", async () => {
+    const { iterateLifelogs } = await import("../src/api/client.js");
+    const requests = t.mockApi.requests.length;
+
+    const ids: string[] = [];
+    for await (const lifelog of iterateLifelogs({ direction: "asc" }, { pageSize: 1, maxItems: 3, useCache: false })) {
+      ids.push(lifelog.id);
+    }
+    assert.deepEqual(ids, [BUDGET, GARDEN, CHECKUP]);
+    assert.equal(t.mockApi.requests.length, requests + 3);
+  });
+
+  it("reports when the budget cut a listing short", async () => {
+    const { fetchAllLifelogs } = await import("../src/api/client.js");
+
+    const all = await fetchAllLifelogs({ start: "2025-03-01", end: "2025-03-31" }, { pageSize: 3 });
+    assert.equal(all.lifelogs.length, 4);
+    assert.equal(all.truncated, false);
+
+    const some = await fetchAllLifelogs({ start: "2025-03-01", end: "2025-03-31" }, { pageSize: 3, maxItems: 2 });
+    assert.equal(some.lifelogs.length, 2);
+    assert.equal(some.truncated, true);
+  });
+
+  it("summaries say when a range has more lifelogs than they cover", async () => {
+    const { default: config } = await import("../src/config.js");
+    const maxRangeLifelogs = config.MAX_RANGE_LIFELOGS;
+    config.MAX_RANGE_LIFELOGS = 1;
+    try {
+      const day = await t.callToolData("get_day_summary", { date: "2025-03-11", timezone: "UTC" });
+      assert.equal(day.lifelogs.length, 1);
+      assert.equal(day.truncated, true);
+
+      const summary = await t.callToolData("get_time_summary", { start: "2025-03-09", end: "2025-03-13", timezone: "UTC" });
+      assert.equal(summary.totalLifelogs, 1);
+      assert.equal(summary.truncated, true);
+    } finally {
+      config.MAX_RANGE_LIFELOGS = maxRangeLifelogs;
+    }
+  });
+});
+
+describe("coverage", () => {
+  it("calls every registered tool", async () => {
+    const { tools } = await t.client.listTools();
+    const untested = tools.map(tool => tool.name).filter(name => !t.calledTools.has(name));
+    assert.deepEqual(untested, [], `Tools without end-to-end tests: ${untested.join(", ")}`);
+  });
+
+  it("declares an output schema for every tool", async () => {
+    const { tools } = await t.client.listTools();
+    const undeclared = tools.filter(tool => !tool.outputSchema).map(tool => tool.name);
+    assert.deepEqual(undeclared, [], `Tools without an output schema: ${undeclared.join(", ")}`);
+  });
+});
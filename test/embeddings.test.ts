@@ -0,0 +1,407 @@
+/**
+ * Embedding tests: the offline hashing provider, the OpenAI-compatible
+ * adapter against a local stub endpoint, provider selection, the on-disk
+ * vector store and the background indexer
+ */
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import http from "http";
+import os from "os";
+import path from "path";
+import { AddressInfo } from "net";
+import {
+  HashingEmbeddingProvider,
+  OpenAIEmbeddingProvider,
+  createEmbeddingProvider,
+  cosineSimilarity
+} from "../src/embeddings/index.js";
+import { VectorStore, EmbeddingEntry } from "../src/embeddings/store.js";
+import { BackgroundIndexer, IndexerOptions } from "../src/embeddings/indexer.js";
+import type { LimitlessConfig, Lifelog } from "../src/types/index.js";
+
+// Requests received by the stub endpoint
+let received: Array<{ authorization?: string; body: { model: string; input: string[]; dimensions?: number } }> = [];
+let stubStatus = 200;
+let stub: http.Server;
+let stubUrl: string;
+let scratchDir: string;
+
+before(async () => {
+  // Answers with 3-dimensional vectors, in reverse order, like an endpoint may
+  stub = http.createServer((req, res) => {
+    let data = "";
+    req.on("data", chunk => { data += chunk; });
+    req.on("end", () => {
+      const body = JSON.parse(data);
+      received.push({ authorization: req.headers.authorization, body });
+      if (stubStatus !== 200) {
+        res.writeHead(stubStatus, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "nope" }));
+        return;
+      }
+      const items = body.input.map((text: string, index: number) => ({ index, embedding: [text.length, 0, 0] }));
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ data: items.reverse() }));
+    });
+  });
+  await new Promise<void>(resolve => stub.listen(0, "127.0.0.1", () => resolve()));
+  stubUrl = `http://127.0.0.1:${(stub.address() as AddressInfo).port}/v1/`;
+  scratchDir = await fs.mkdtemp(path.join(os.tmpdir(), "limitless-mcp-embeddings-"));
+});
+
+after(async () => {
+  await fs.rm(scratchDir, { recursive: true, force: true });
+  await new Promise<void>(resolve => stub.close(() => resolve()));
+});
+
+function openai(options: Partial<ConstructorParameters<typeof OpenAIEmbeddingProvider>[0]> = {}) {
+  return new OpenAIEmbeddingProvider({ baseUrl: stubUrl, model: "test-embedding", timeoutMs: 5000, ...options });
+}
+
+describe("hashing embedding provider", () => {
+  const provider = new HashingEmbeddingProvider(256);
+
+  it("returns unit vectors of the configured size, deterministically", async () => {
+    const [first, second] = await provider.embed(["Quarterly budget review", "Quarterly budget review"]);
+    assert.equal(first.length, 256);
+    assert.ok(Math.abs(Math.hypot(...first) - 1) < 1e-9);
+    assert.deepEqual(first, second);
+    assert.equal(provider.model, "hashing-ngram-v1-256");
+  });
+
+  it("places related texts closer than unrelated ones", async () => {
+    const [budget, budgets, garden] = await provider.embed([
+      "We reviewed the marketing budget for the quarter",
+      "Reviewing quarterly marketing budgets",
+      "Planting tomatoes and basil in the garden"
+    ]);
+    assert.ok(cosineSimilarity(budget, budgets) > provider.similarityThreshold);
+    assert.ok(cosineSimilarity(budget, budgets) > cosineSimilarity(budget, garden));
+    assert.ok(cosineSimilarity(budget, garden) < provider.similarityThreshold);
+  });
+
+  it("embeds empty text as a zero vector and reports progress", async () => {
+    let progress = 0;
+    const [empty] = await provider.embed([""], { onProgress: embedded => { progress = embedded; } });
+    assert.ok(empty.every(value => value === 0));
+    assert.equal(progress, 1);
+  });
+});
+
+describe("OpenAI-compatible embedding provider", () => {
+  it("batches inputs, keeps their order and normalizes the vectors", async () => {
+    received = [];
+    const texts = Array.from({ length: 100 }, (_, i) => "x".repeat(i + 1));
+    const vectors = await openai({ apiKey: "secret", dimensions: 3 }).embed(texts);
+
+    assert.equal(vectors.length, 100);
+    assert.deepEqual(vectors[4], [1, 0, 0]);
+    assert.deepEqual(received.map(request => request.body.input.length), [96, 4]);
+    assert.equal(received[0].authorization, "Bearer secret");
+    assert.equal(received[0].body.model, "test-embedding");
+    assert.equal(received[0].body.dimensions, 3);
+  });
+
+  it("learns its dimensions from the first response", async () => {
+    const provider = openai();
+    assert.equal(provider.dimensions, 0);
+    await provider.embed(["hello"]);
+    assert.equal(provider.dimensions, 3);
+  });
+
+  it("maps endpoint errors to MCP error codes", async () => {
+    try {
+      stubStatus = 401;
+      await assert.rejects(openai().embed(["hello"]), (error: { code?: string }) => error.code === "unauthorized");
+      stubStatus = 429;
+      await assert.rejects(openai().embed(["hello"]), (error: { code?: string }) => error.code === "rate_limited");
+      stubStatus = 500;
+      await assert.rejects(openai().embed(["hello"]), (error: { code?: string }) => error.code === "api_error");
+    } finally {
+      stubStatus = 200;
+    }
+  });
+
+  it("stops when cancelled", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await assert.rejects(openai().embed(["hello"], { signal: controller.signal }), (error: { code?: string }) => error.code === "cancelled");
+  });
+});
+
+describe("createEmbeddingProvider", () => {
+  const settings = (overrides: Partial<LimitlessConfig>) => ({
+    EMBEDDING_PROVIDER: "local",
+    EMBEDDING_MODEL: "",
+    EMBEDDING_DIMENSIONS: 0,
+    EMBEDDING_API_URL: stubUrl,
+    API_TIMEOUT_MS: 5000,
+    ...overrides
+  }) as LimitlessConfig;
+
+  it("picks the provider named by the configuration", () => {
+    const local = createEmbeddingProvider(settings({ EMBEDDING_DIMENSIONS: 128 }));
+    assert.equal(local.name, "local");
+    assert.equal(local.dimensions, 128);
+
+    const remote = createEmbeddingProvider(settings({ EMBEDDING_PROVIDER: "openai" }));
+    assert.equal(remote.name, "openai");
+    assert.equal(remote.model, "text-embedding-3-small");
+  });
+
+  it("falls back to the local provider for unknown names", () => {
+    const originalError = console.error;
+    console.error = () => {};
+    try {
+      assert.equal(createEmbeddingProvider(settings({ EMBEDDING_PROVIDER: "mystery" })).name, "local");
+    } finally {
+      console.error = originalError;
+    }
+  });
+});
+
+// An entry with one 4-dimensional chunk per vector
+function entry(id: string, vectors: number[][], timestamp: number = 1): EmbeddingEntry {
+  return {
+    id,
+    title: `Lifelog ${id}`,
+    provider: "local",
+    model: "test",
+    dimensions: 4,
+    timestamp,
+    startTime: "2025-03-10T16:00:00.000Z",
+    contentHash: `hash-${id}-${timestamp}`,
+    chunks: vectors.map((vector, index) => ({ index, start: index * 10, end: index * 10 + 10, text: `chunk ${index}`, vector }))
+  };
+}
+
+describe("vector store", () => {
+  it("keeps entries across reloads", async () => {
+    const dir = path.join(scratchDir, "reload");
+    const store = new VectorStore(dir);
+    await store.load();
+    await store.put(entry("a", [[1, 0, 0, 0], [0, 0.5, 0.5, 0]]));
+    await store.put(entry("b", [[0, 0, 0, 1]]));
+    await store.delete("b");
+
+    const reloaded = new VectorStore(dir);
+    await reloaded.load();
+    assert.equal(reloaded.size, 1);
+    assert.deepEqual(reloaded.get("a"), store.get("a"));
+    assert.equal(reloaded.has("b"), false);
+  });
+
+  it("skips a partially written record after a crash", async () => {
+    const dir = path.join(scratchDir, "crash");
+    const store = new VectorStore(dir);
+    await store.load();
+    await store.put(entry("a", [[1, 0, 0, 0]]));
+    await fs.appendFile(path.join(dir, "index.jsonl"), '{"op":"put","id":"b","tit');
+
+    const originalError = console.error;
+    console.error = () => {};
+    const reloaded = new VectorStore(dir);
+    try {
+      await reloaded.load();
+    } finally {
+      console.error = originalError;
+    }
+    assert.deepEqual(reloaded.values().map(item => item.id), ["a"]);
+  });
+
+  it("reclaims the space of replaced and deleted entries when compacted", async () => {
+    const dir = path.join(scratchDir, "compact");
+    const store = new VectorStore(dir);
+    await store.load();
+    await store.put(entry("a", [[1, 0, 0, 0]]));
+    await store.put(entry("a", [[0, 1, 0, 0]], 2));
+    await store.put(entry("b", [[0, 0, 1, 0], [0, 0, 0, 1]]));
+    await store.delete("b");
+
+    // One superseded vector of "a" and both of "b", 4 floats each
+    assert.equal((await store.stats()).reclaimableBytes, 3 * 4 * 4);
+
+    const { bytesBefore, bytesAfter } = await store.compact();
+    assert.ok(bytesAfter < bytesBefore);
+    assert.equal((await store.stats()).reclaimableBytes, 0);
+
+    // Later writes append after the compacted data
+    await store.put(entry("c", [[0.5, 0.5, 0, 0]]));
+    const reloaded = new VectorStore(dir);
+    await reloaded.load();
+    assert.deepEqual(reloaded.get("a")!.chunks[0].vector, [0, 1, 0, 0]);
+    assert.deepEqual(reloaded.get("c")!.chunks[0].vector, [0.5, 0.5, 0, 0]);
+    assert.equal(reloaded.size, 2);
+  });
+
+  it("imports only entries newer than its own", async () => {
+    const source = new VectorStore(path.join(scratchDir, "export-source"));
+    await source.load();
+    await source.put(entry("a", [[1, 0, 0, 0]], 5));
+    await source.put(entry("b", [[0, 1, 0, 0]], 5));
+    assert.equal(await source.exportTo("nested/embeddings.json"), 2);
+
+    const target = new VectorStore(path.join(scratchDir, "export-target"));
+    await target.load();
+    await target.put(entry("a", [[0, 0, 1, 0]], 9));
+    await target.put(entry("b", [[0, 0, 0, 1]], 1));
+
+    await fs.mkdir(path.dirname(target.exportPath("copied.json")), { recursive: true });
+    await fs.copyFile(source.exportPath("nested/embeddings.json"), target.exportPath("copied.json"));
+    assert.deepEqual(await target.importFrom("copied.json"), { imported: 1, skipped: 1 });
+    assert.equal(target.get("a")!.timestamp, 9);
+    assert.equal(target.get("b")!.timestamp, 5);
+  });
+
+  it("keeps export files inside its exports directory", async () => {
+    const store = new VectorStore(path.join(scratchDir, "export-paths"));
+    await store.load();
+
+    assert.equal(store.exportPath("a/b.json"), path.join(scratchDir, "export-paths", "exports", "a", "b.json"));
+    for (const name of [path.join(scratchDir, "outside.json"), "../index.jsonl", "a/../../outside.json", "", "."]) {
+      assert.throws(() => store.exportPath(name), /must be named relative to/, name);
+      await assert.rejects(store.exportTo(name), /must be named relative to/);
+      await assert.rejects(store.importFrom(name), /must be named relative to/);
+    }
+    await assert.rejects(fs.access(path.join(scratchDir, "outside.json")));
+  });
+
+  it("notifies listeners of changes", async () => {
+    const store = new VectorStore(path.join(scratchDir, "listeners"));
+    const changes: Array<string | null> = [];
+    store.onChange(id => changes.push(id));
+    await store.load();
+    await store.put(entry("a", [[1, 0, 0, 0]]));
+    await store.delete("a");
+    await store.clear();
+    // Loading an empty store doesn't notify
+    assert.deepEqual(changes, ["a", "a", null]);
+  });
+});
+
+describe("background indexer", () => {
+  const lifelogs: Lifelog[] = [
+    { id: "one", title: "One", markdown: "# One", startTime: "2025-03-01T09:00:00.000Z" },
+    { id: "two", title: "Two", markdown: "# Two", startTime: "2025-03-05T09:00:00.000Z" },
+    { id: "three", title: "Three", markdown: "# Three", startTime: "2025-03-10T09:00:00.000Z" },
+    { id: "four", title: "Four", markdown: "# Four", startTime: "2025-03-10T20:00:00.000Z" }
+  ];
+
+  // Pages through the lifelogs that start at or after qs.start, in order
+  function createIndexer(stateFile: string, options: Partial<IndexerOptions> = {}) {
+    const starts: string[] = [];
+    const indexed: string[] = [];
+    const indexer = new BackgroundIndexer({
+      async callApi(_path, qs = {}) {
+        const start = String(qs.start);
+        if (!qs.cursor) starts.push(start);
+        const from = new Date(start.length === 10 ? `${start}T00:00:00Z` : `${start.replace(" ", "T")}Z`);
+        const matching = lifelogs.filter(lifelog => new Date(lifelog.startTime!) >= from);
+        const offset = qs.cursor ? Number(qs.cursor) : 0;
+        const next = offset + Number(qs.limit);
+        return {
+          data: { lifelogs: matching.slice(offset, next) },
+          meta: { lifelogs: { count: Math.min(matching.length - offset, Number(qs.limit)), nextCursor: next < matching.length ? String(next) : undefined } }
+        };
+      },
+      needsIndexing: () => true,
+      async indexLifelog(lifelog) { indexed.push(lifelog.id); },
+      stateFile,
+      startDate: "2025-03-01",
+      intervalMs: 60_000,
+      pageSize: 3,
+      log: () => {},
+      ...options
+    });
+    return { indexer, starts, indexed };
+  }
+
+  it("walks every page from the start date and records the high-water mark", async () => {
+    const stateFile = path.join(scratchDir, "indexer-first", "state.json");
+    const { indexer, starts, indexed } = createIndexer(stateFile);
+    await indexer.runOnce();
+
+    const status = indexer.getStatus();
+    assert.deepEqual(starts, ["2025-03-01"]);
+    assert.deepEqual(indexed, ["one", "two", "three", "four"]);
+    assert.equal(status.pages, 2);
+    assert.equal(status.highWaterMark, "2025-03-10T20:00:00.000Z");
+    assert.equal(status.syncedUntil, status.lastRunStartedAt);
+    assert.equal(JSON.parse(await fs.readFile(stateFile, "utf8")).highWaterMark, "2025-03-10T20:00:00.000Z");
+  });
+
+  it("resumes a day behind the saved high-water mark", async () => {
+    const stateFile = path.join(scratchDir, "indexer-resume", "state.json");
+    await createIndexer(stateFile).indexer.runOnce();
+
+    // Only the lifelog that changed since is indexed again
+    const { indexer, starts, indexed } = createIndexer(stateFile, { needsIndexing: lifelog => lifelog.id === "four" });
+    await indexer.loadState();
+    await indexer.runOnce();
+
+    assert.deepEqual(starts, ["2025-03-09 20:00:00"]);
+    assert.deepEqual(indexed, ["four"]);
+    assert.deepEqual(
+      (({ scanned, indexed, unchanged, failed }) => ({ scanned, indexed, unchanged, failed }))(indexer.getStatus()),
+      { scanned: 2, indexed: 1, unchanged: 1, failed: 0 }
+    );
+  });
+
+  it("doesn't resume before the configured start date", async () => {
+    const stateFile = path.join(scratchDir, "indexer-start", "state.json");
+    await createIndexer(stateFile).indexer.runOnce();
+
+    const { indexer, starts } = createIndexer(stateFile, { startDate: "2025-03-10" });
+    await indexer.loadState();
+    await indexer.runOnce();
+    assert.deepEqual(starts, ["2025-03-10 00:00:00"]);
+  });
+
+  it("walks from the start date again after a reset", async () => {
+    const stateFile = path.join(scratchDir, "indexer-reset", "state.json");
+    const { indexer, starts } = createIndexer(stateFile);
+    await indexer.runOnce();
+    await indexer.reset();
+    assert.equal(indexer.getStatus().highWaterMark, undefined);
+    await assert.rejects(fs.access(stateFile));
+
+    await indexer.runOnce();
+    assert.deepEqual(starts, ["2025-03-01", "2025-03-01"]);
+  });
+
+  it("counts lifelogs that fail to index and retries them on the next run", async () => {
+    const stateFile = path.join(scratchDir, "indexer-failed", "state.json");
+    let failing = true;
+    const { indexer, starts, indexed } = createIndexer(stateFile, {
+      async indexLifelog(lifelog) {
+        if (failing && lifelog.id === "two") throw new Error("embedding failed");
+        indexed.push(lifelog.id);
+      }
+    });
+    await indexer.runOnce();
+
+    const status = indexer.getStatus();
+    assert.equal(status.indexed, 3);
+    assert.equal(status.failed, 1);
+    assert.match(status.lastError!, /^two: Error: embedding failed/);
+    // The mark stays just before the failed lifelog, and nothing counts as synced
+    assert.equal(status.highWaterMark, "2025-03-05T08:59:59.999Z");
+    assert.equal(status.syncedUntil, undefined);
+
+    failing = false;
+    indexed.length = 0;
+    await indexer.runOnce();
+    assert.equal(starts[1], "2025-03-04 08:59:59");
+    assert.deepEqual(indexed, ["two", "three", "four"]);
+    assert.equal(indexer.getStatus().highWaterMark, "2025-03-10T20:00:00.000Z");
+    assert.ok(indexer.getStatus().syncedUntil);
+  });
+
+  it("skips a run while one is going", async () => {
+    const stateFile = path.join(scratchDir, "indexer-overlap", "state.json");
+    const { indexer, starts } = createIndexer(stateFile);
+    await Promise.all([indexer.runOnce(), indexer.runOnce()]);
+    assert.equal(starts.length, 1);
+  });
+});
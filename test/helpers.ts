@@ -0,0 +1,140 @@
+/**
+ * Test harness: runs the MCP server from `createServer()` against the mock
+ * Limitless API and connects a client over an in-memory transport
+ */
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { startMockApiServer, MockApiServer } from "../src/mock/server.js";
+
+// Dates in tool output are formatted in the local timezone
+process.env.TZ = "UTC";
+
+export const FIXTURES_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..", "fixtures", "lifelogs");
+
+const API_KEY = "test-api-key";
+
+// A second user's key, also accepted by the mock API
+export const SECOND_API_KEY = "second-api-key";
+
+export interface TestServer {
+  client: Client;
+  mockApi: MockApiServer;
+  dataDir: string;
+  // Names of the tools called through callTool
+  calledTools: Set<string>;
+  // Call a tool and return its text output; throws if the call returns an error
+  callTool(name: string, args?: Record<string, unknown>): Promise<string>;
+  // Call a tool and return its structured content; throws like callTool
+  callToolData(name: string, args?: Record<string, unknown>): Promise<any>;
+  close(): Promise<void>;
+}
+
+/**
+ * Poll until a condition holds
+ */
+export async function waitFor(condition: () => Promise<boolean>, timeoutMs: number = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error(`Condition not met within ${timeoutMs}ms`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+}
+
+export interface TestEnvironment {
+  mockApi: MockApiServer;
+  dataDir: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Start the mock API and point the server configuration at it through the
+ * environment, with a fresh data directory. The configuration is read when the
+ * server modules are first imported, so import them after this.
+ */
+export async function startTestEnvironment(env: Record<string, string> = {}): Promise<TestEnvironment> {
+  const mockApi = await startMockApiServer({ fixturesDir: FIXTURES_DIR, apiKey: [API_KEY, SECOND_API_KEY], log: () => {} });
+  const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "limitless-mcp-test-"));
+
+  Object.assign(process.env, {
+    LIMITLESS_API_KEY: API_KEY,
+    LIMITLESS_API_BASE_URL: mockApi.url,
+    LIMITLESS_DATA_DIR: dataDir,
+    LIMITLESS_API_MAX_RETRIES: "0",
+    // The mock API has no quota; rate-limit.test.ts turns the limiter back on
+    LIMITLESS_API_RATE_LIMIT: "0",
+    ...env
+  });
+
+  // Server output goes to stderr; keep the test output readable
+  const originalError = console.error;
+  if (!process.env.LIMITLESS_TEST_VERBOSE) {
+    console.error = () => {};
+  }
+
+  return {
+    mockApi,
+    dataDir,
+    async close() {
+      await mockApi.close();
+      await fs.rm(dataDir, { recursive: true, force: true });
+      console.error = originalError;
+    }
+  };
+}
+
+/**
+ * Start the mock API and the MCP server. Like startTestEnvironment, this can
+ * only be called once per test process.
+ */
+export async function startTestServer(env: Record<string, string> = {}): Promise<TestServer> {
+  const environment = await startTestEnvironment(env);
+
+  const { createServer } = await import("../src/server.js");
+  const server = await createServer();
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "limitless-mcp-tests", version: "1.0.0" });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+  const calledTools = new Set<string>();
+
+  return {
+    client,
+    mockApi: environment.mockApi,
+    dataDir: environment.dataDir,
+    calledTools,
+    async callTool(name, args = {}) {
+      calledTools.add(name);
+      const result = await client.callTool({ name, arguments: args });
+      const text = (result.content as Array<{ type: string; text?: string }>)
+        .filter(item => item.type === "text")
+        .map(item => item.text)
+        .join("\n");
+
+      if (result.isError) {
+        throw new Error(`Tool ${name} failed: ${text}`);
+      }
+      return text;
+    },
+    async callToolData(name, args = {}) {
+      calledTools.add(name);
+      const result = await client.callTool({ name, arguments: args });
+
+      if (result.isError) {
+        throw new Error(`Tool ${name} failed: ${JSON.stringify(result.content)}`);
+      }
+      return result.structuredContent;
+    },
+    async close() {
+      await client.close();
+      await server.close();
+      await environment.close();
+    }
+  };
+}
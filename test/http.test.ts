@@ -0,0 +1,255 @@
+/**
+ * HTTP transport tests: bearer auth, CORS, per-session API keys, and MCP
+ * sessions over Streamable HTTP and the legacy SSE transport
+ */
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { startTestEnvironment, waitFor, TestEnvironment, SECOND_API_KEY } from "./helpers.js";
+import type { McpHttpServer } from "../src/http/server.js";
+
+const TOKEN = "team-token";
+const OTHER_TOKEN = "other-token";
+const ORIGIN = "https://app.example.com";
+
+const AUTH = { Authorization: `Bearer ${TOKEN}` };
+
+let environment: TestEnvironment;
+let http: McpHttpServer;
+
+before(async () => {
+  environment = await startTestEnvironment();
+
+  const { createServer } = await import("../src/server.js");
+  const { startHttpServer } = await import("../src/http/server.js");
+  http = await startHttpServer({
+    createServer,
+    port: 0,
+    authTokens: [TOKEN, OTHER_TOKEN],
+    tokenApiKeys: { [OTHER_TOKEN]: SECOND_API_KEY },
+    corsOrigins: [ORIGIN],
+    log: () => {}
+  });
+});
+
+after(async () => {
+  await http.close();
+  await environment.close();
+});
+
+async function connectClient(transport: StreamableHTTPClientTransport | SSEClientTransport): Promise<Client> {
+  const client = new Client({ name: "limitless-mcp-http-tests", version: "1.0.0" });
+  await client.connect(transport);
+  return client;
+}
+
+async function connectStreamable(headers: Record<string, string>): Promise<{ client: Client; transport: StreamableHTTPClientTransport }> {
+  const transport = new StreamableHTTPClientTransport(new URL(`${http.url}/mcp`), { requestInit: { headers } });
+  return { client: await connectClient(transport), transport };
+}
+
+function toolText(result: Awaited<ReturnType<Client["callTool"]>>): string {
+  return (result.content as Array<{ type: string; text?: string }>).map(item => item.text).join("\n");
+}
+
+describe("authentication", () => {
+  it("rejects requests without a bearer token", async () => {
+    const response = await fetch(`${http.url}/mcp`, { method: "POST", body: "{}" });
+    assert.equal(response.status, 401);
+    assert.match(response.headers.get("www-authenticate") || "", /^Bearer /);
+  });
+
+  it("rejects an unknown token", async () => {
+    const response = await fetch(`${http.url}/sse`, { headers: { Authorization: "Bearer wrong" } });
+    assert.equal(response.status, 401);
+    assert.match(response.headers.get("www-authenticate") || "", /invalid_token/);
+  });
+
+  it("serves the health check without a token", async () => {
+    const response = await fetch(`${http.url}/health`);
+    assert.equal(response.status, 200);
+    assert.equal((await response.json()).status, "ok");
+  });
+});
+
+describe("CORS", () => {
+  it("answers preflight requests from allowed origins", async () => {
+    const response = await fetch(`${http.url}/mcp`, {
+      method: "OPTIONS",
+      headers: { Origin: ORIGIN, "Access-Control-Request-Method": "POST" }
+    });
+    assert.equal(response.status, 204);
+    assert.equal(response.headers.get("access-control-allow-origin"), ORIGIN);
+    assert.match(response.headers.get("access-control-allow-headers") || "", /Mcp-Session-Id/);
+    assert.equal(response.headers.get("access-control-expose-headers"), "Mcp-Session-Id");
+  });
+
+  it("sends no CORS headers to other origins", async () => {
+    const response = await fetch(`${http.url}/mcp`, {
+      method: "OPTIONS",
+      headers: { Origin: "https://evil.example.com", "Access-Control-Request-Method": "POST" }
+    });
+    assert.equal(response.headers.get("access-control-allow-origin"), null);
+  });
+});
+
+describe("Streamable HTTP", () => {
+  it("calls tools in an authenticated session and ends it with DELETE", async () => {
+    const transport = new StreamableHTTPClientTransport(new URL(`${http.url}/mcp`), { requestInit: { headers: AUTH } });
+    const client = await connectClient(transport);
+
+    const sessionId = transport.sessionId!;
+    assert.ok(http.sessions.has(sessionId));
+
+    const { tools } = await client.listTools();
+    assert.ok(tools.some(tool => tool.name === "list_lifelogs"));
+
+    const result = await client.callTool({ name: "get_lifelog", arguments: { id: "fx-2025-03-12-launch" } });
+    assert.match(toolText(result), /Mobile app launch sync/);
+
+    await transport.terminateSession();
+    assert.equal(http.sessions.has(sessionId), false);
+    await client.close();
+  });
+
+  it("keeps a session bound to the token that opened it", async () => {
+    const transport = new StreamableHTTPClientTransport(new URL(`${http.url}/mcp`), { requestInit: { headers: AUTH } });
+    const client = await connectClient(transport);
+
+    const response = await fetch(`${http.url}/mcp`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${OTHER_TOKEN}`,
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "Mcp-Session-Id": transport.sessionId!
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" })
+    });
+    assert.equal(response.status, 404);
+
+    await transport.terminateSession();
+    await client.close();
+  });
+
+  it("requires a session ID for requests other than initialize", async () => {
+    const response = await fetch(`${http.url}/mcp`, {
+      method: "POST",
+      headers: { ...AUTH, "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" })
+    });
+    assert.equal(response.status, 400);
+  });
+});
+
+describe("SSE", () => {
+  it("calls tools over the legacy SSE transport", async () => {
+    const transport = new SSEClientTransport(new URL(`${http.url}/sse`), {
+      eventSourceInit: {
+        fetch: (url, init) => fetch(url, { ...init, headers: { ...init?.headers, ...AUTH } })
+      },
+      requestInit: { headers: AUTH }
+    });
+    const client = await connectClient(transport);
+
+    const result = await client.callTool({ name: "list_lifelogs", arguments: { date: "2025-03-12", limit: 5 } });
+    assert.match(toolText(result), /fx-2025-03-12-launch/);
+
+    const sessions = http.sessions.size;
+    await client.close();
+    await waitFor(async () => http.sessions.size === sessions - 1);
+  });
+});
+
+describe("per-session API keys", () => {
+  const BUDGET_PATH = "/v1/lifelogs/fx-2025-03-10-budget";
+  const apiRequests = () => environment.mockApi.requests.filter(url => url.startsWith(BUDGET_PATH)).length;
+
+  it("keeps each user's cached responses apart", async () => {
+    const owner = await connectStreamable(AUTH);
+    const other = await connectStreamable({ Authorization: `Bearer ${OTHER_TOKEN}` });
+    const before = apiRequests();
+
+    for (const { client } of [owner, owner, other]) {
+      const result = await client.callTool({ name: "get_lifelog", arguments: { id: "fx-2025-03-10-budget" } });
+      assert.match(toolText(result), /budget/i);
+    }
+
+    // The owner's second call is cached, but the other user's call is not served from the owner's cache
+    assert.equal(apiRequests(), before + 2);
+
+    for (const { client, transport } of [owner, other]) {
+      await transport.terminateSession();
+      await client.close();
+    }
+  });
+
+  it("calls the API with the key sent when the session connected", async () => {
+    const { client, transport } = await connectStreamable({ ...AUTH, "X-Limitless-API-Key": "revoked-key" });
+
+    const result = await client.callTool({ name: "get_lifelog", arguments: { id: "fx-2025-03-10-budget" } });
+    assert.equal(result.isError, true);
+    assert.match(toolText(result), /Unauthorized access to Limitless API/);
+
+    await transport.terminateSession();
+    await client.close();
+  });
+
+  it("keeps sessions with their own key out of the server's local indexes and notifications", async () => {
+    const { client, transport } = await connectStreamable({ Authorization: `Bearer ${OTHER_TOKEN}` });
+
+    const result = await client.callTool({ name: "sync_lifelogs", arguments: { action: "status" } });
+    assert.equal(result.isError, true);
+    assert.match(toolText(result), /not available to sessions with their own API key/);
+
+    await assert.rejects(
+      client.subscribeResource({ uri: "lifelogs://fx-2025-03-10-budget" }),
+      /not available to sessions with their own API key/
+    );
+
+    await transport.terminateSession();
+    await client.close();
+  });
+
+  it("refuses sessions without their own key when required", async () => {
+    const { createServer } = await import("../src/server.js");
+    const { startHttpServer } = await import("../src/http/server.js");
+    const strict = await startHttpServer({
+      createServer,
+      port: 0,
+      authTokens: [TOKEN, OTHER_TOKEN],
+      tokenApiKeys: { [OTHER_TOKEN]: SECOND_API_KEY },
+      requireSessionKey: true,
+      log: () => {}
+    });
+
+    try {
+      const initialize = await fetch(`${strict.url}/mcp`, {
+        method: "POST",
+        headers: { ...AUTH, "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          id: 1,
+          method: "initialize",
+          params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "limitless-mcp-http-tests", version: "1.0.0" } }
+        })
+      });
+      assert.equal(initialize.status, 403);
+      assert.equal((await fetch(`${strict.url}/sse`, { headers: AUTH })).status, 403);
+      assert.equal(strict.sessions.size, 0);
+
+      // A mapped token or a key sent on connect is accepted
+      for (const headers of [{ Authorization: `Bearer ${OTHER_TOKEN}` }, { ...AUTH, "X-Limitless-API-Key": SECOND_API_KEY }]) {
+        const transport = new StreamableHTTPClientTransport(new URL(`${strict.url}/mcp`), { requestInit: { headers } });
+        const client = await connectClient(transport);
+        assert.equal(strict.sessions.get(transport.sessionId!)?.credentials?.apiKey, SECOND_API_KEY);
+        await transport.terminateSession();
+        await client.close();
+      }
+    } finally {
+      await strict.close();
+    }
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Mirror tests: the file-backed lifelog mirror, and which requests
+ * readFromMirror answers once a sync has run
+ */
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import type * as SyncModule from "../src/sync/index.js";
+import type { Lifelog, LifelogResponse, LimitlessConfig } from "../src/types/index.js";
+
+const BUDGET = "budget";
+const GARDEN = "garden";
+const CHECKUP = "checkup";
+const LAUNCH = "launch";
+
+function lifelog(id: string, title: string, startTime: string): Lifelog {
+  return {
+    id,
+    title,
+    markdown: `# ${title}`,
+    startTime,
+    endTime: new Date(new Date(startTime).getTime() + 60_000).toISOString(),
+    contents: [{ type: "heading1", content: title, children: [{ type: "blockquote", content: `About ${id}`, speakerName: "Alice" }] }]
+  };
+}
+
+const lifelogs: Lifelog[] = [
+  lifelog(BUDGET, "Budget review", "2025-03-10T16:00:00.000Z"),
+  lifelog(GARDEN, "Garden walk", "2025-03-11T01:30:00.000Z"),
+  lifelog(CHECKUP, "Checkup", "2025-03-11T17:15:00.000Z"),
+  lifelog(LAUNCH, "Launch sync", "2025-03-12T22:45:00.000Z")
+];
+
+let dataDir: string;
+let sync: typeof SyncModule;
+let config: LimitlessConfig;
+const originalError = console.error;
+
+before(async () => {
+  // The configuration is read when the modules are first imported
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "limitless-mcp-mirror-"));
+  Object.assign(process.env, {
+    LIMITLESS_API_KEY: "test-api-key",
+    LIMITLESS_DATA_DIR: dataDir,
+    LIMITLESS_MIRROR_SYNC_START_DATE: "2025-03-01"
+  });
+  // The sync logs every run to stderr
+  console.error = () => {};
+
+  sync = await import("../src/sync/index.js");
+  ({ default: config } = await import("../src/config.js"));
+});
+
+after(async () => {
+  console.error = originalError;
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("LifelogMirror", () => {
+  const budget = () => lifelogs[0];
+
+  it("keeps lifelogs across reloads", async () => {
+    const dir = path.join(dataDir, "mirror-reload");
+    const mirror = new sync.LifelogMirror(dir);
+    await mirror.load();
+    for (const item of lifelogs) await mirror.put(item);
+    assert.equal(await mirror.delete(LAUNCH), true);
+    await mirror.flush();
+
+    const reloaded = new sync.LifelogMirror(dir);
+    await reloaded.load();
+    assert.equal(reloaded.size, 3);
+    assert.deepEqual(await reloaded.get(BUDGET), budget());
+    assert.equal(await reloaded.get(LAUNCH), undefined);
+    assert.equal((await reloaded.stats()).oldest, "2025-03-10T16:00:00.000Z");
+  });
+
+  it("needs to sync only new and changed lifelogs", async () => {
+    const mirror = new sync.LifelogMirror(path.join(dataDir, "mirror-changes"));
+    await mirror.load();
+    assert.equal(mirror.needsSync(budget()), true);
+
+    await mirror.put(budget());
+    assert.equal(mirror.needsSync(budget()), false);
+    assert.equal(mirror.needsSync({ ...budget(), title: "Renamed" }), true);
+  });
+
+  it("lists lifelogs with mirror cursors", async () => {
+    const mirror = new sync.LifelogMirror(path.join(dataDir, "mirror-list"));
+    await mirror.load();
+    for (const item of lifelogs) await mirror.put(item);
+
+    const first = await mirror.list({ direction: "asc", limit: 3 });
+    assert.deepEqual(first.items.map(lifelog => lifelog.id), [BUDGET, GARDEN, CHECKUP]);
+    assert.ok(first.nextCursor?.startsWith("mirror:"));
+
+    const second = await mirror.list({ direction: "asc", limit: 3, cursor: first.nextCursor });
+    assert.deepEqual(second.items.map(lifelog => lifelog.id), [LAUNCH]);
+    assert.equal(second.nextCursor, undefined);
+
+    const [shaped] = (await mirror.list({ date: "2025-03-10" }, { includeMarkdown: false, includeHeadings: true })).items;
+    assert.equal(shaped.markdown, undefined);
+  });
+
+  it("forgets lifelogs whose file was removed", async () => {
+    const dir = path.join(dataDir, "mirror-removed");
+    const mirror = new sync.LifelogMirror(dir);
+    await mirror.load();
+    await mirror.put(budget());
+    await fs.rm(path.join(dir, "lifelogs", `${BUDGET}.json`));
+
+    assert.equal(await mirror.get(BUDGET), undefined);
+    assert.equal(mirror.has(BUDGET), false);
+  });
+});
+
+describe("readFromMirror", () => {
+  const apiCalls: Array<Record<string, unknown>> = [];
+
+  before(async () => {
+    // Serves every lifelog on one page, whatever the walk start
+    const callApi = async (_path: string, qs: Record<string, unknown> = {}): Promise<LifelogResponse> => {
+      apiCalls.push(qs);
+      return { data: { lifelogs }, meta: { lifelogs: { count: lifelogs.length } } };
+    };
+    await sync.createMirrorSync(callApi).runOnce();
+  });
+
+  it("mirrors the lifelogs walked by the sync", () => {
+    assert.equal(apiCalls.length, 1);
+    assert.equal(apiCalls[0].start, "2025-03-01");
+    assert.equal(sync.mirror.size, 4);
+  });
+
+  it("answers lookups of mirrored lifelogs only", async () => {
+    assert.equal((await sync.readFromMirror(`/lifelogs/${GARDEN}`, {}))?.data.lifelog?.id, GARDEN);
+    assert.equal(await sync.readFromMirror("/lifelogs/unknown", {}), undefined);
+  });
+
+  it("answers listings within the synced range", async () => {
+    const day = await sync.readFromMirror("/lifelogs", { date: "2025-03-11", timezone: "UTC" });
+    assert.deepEqual(day?.data.lifelogs?.map(lifelog => lifelog.id), [CHECKUP, GARDEN]);
+
+    const range = await sync.readFromMirror("/lifelogs", { start: "2025-03-01", end: "2025-03-10", direction: "asc" });
+    assert.deepEqual(range?.data.lifelogs?.map(lifelog => lifelog.id), [BUDGET]);
+  });
+
+  it("leaves listings outside the synced range to the API", async () => {
+    // Before the sync start date
+    assert.equal(await sync.readFromMirror("/lifelogs", { date: "2025-02-28" }), undefined);
+    assert.equal(await sync.readFromMirror("/lifelogs", { start: "2025-02-20", end: "2025-03-10" }), undefined);
+    // After the last completed sync started
+    assert.equal(await sync.readFromMirror("/lifelogs", { start: "2025-03-10", end: "2999-01-01" }), undefined);
+    // Open-ended or malformed
+    assert.equal(await sync.readFromMirror("/lifelogs", {}), undefined);
+    assert.equal(await sync.readFromMirror("/lifelogs", { start: "2025-03-10" }), undefined);
+    assert.equal(await sync.readFromMirror("/lifelogs", { date: "yesterday-ish" }), undefined);
+  });
+
+  it("follows its own cursors only", async () => {
+    const first = await sync.readFromMirror("/lifelogs", { start: "2025-03-01", end: "2025-03-12", direction: "asc", limit: 2 });
+    const cursor = first?.meta?.lifelogs?.nextCursor;
+    assert.ok(cursor?.startsWith("mirror:"));
+
+    const second = await sync.readFromMirror("/lifelogs", { start: "2025-03-01", end: "2025-03-12", direction: "asc", limit: 2, cursor });
+    assert.deepEqual(second?.data.lifelogs?.map(lifelog => lifelog.id), [CHECKUP, LAUNCH]);
+
+    assert.equal(await sync.readFromMirror("/lifelogs", { date: "2025-03-11", cursor: "api-cursor" }), undefined);
+  });
+
+  it("leaves requests with other parameters, or with reads disabled, to the API", async () => {
+    assert.equal(await sync.readFromMirror("/lifelogs", { date: "2025-03-11", isStarred: true }), undefined);
+
+    try {
+      config.MIRROR_READS = false;
+      assert.equal(await sync.readFromMirror(`/lifelogs/${GARDEN}`, {}), undefined);
+    } finally {
+      config.MIRROR_READS = true;
+    }
+  });
+});
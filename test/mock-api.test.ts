@@ -0,0 +1,149 @@
+/**
+ * Mock API tests: fixture loading and the `/v1/lifelogs` endpoints served by
+ * the mock server, called directly over HTTP
+ */
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { startMockApiServer, loadFixtures, MockApiServer, DEFAULT_FIXTURES_DIR } from "../src/mock/server.js";
+import type { LifelogResponse } from "../src/types/index.js";
+
+const API_KEY = "mock-api-key";
+const BUDGET = "fx-2025-03-10-budget";
+const GARDEN = "fx-2025-03-11-garden";
+const CHECKUP = "fx-2025-03-11-checkup";
+const LAUNCH = "fx-2025-03-12-launch";
+
+let mock: MockApiServer;
+let scratchDir: string;
+
+before(async () => {
+  mock = await startMockApiServer({ fixturesDir: DEFAULT_FIXTURES_DIR, apiKey: API_KEY, log: () => {} });
+  scratchDir = await fs.mkdtemp(path.join(os.tmpdir(), "limitless-mcp-mock-"));
+});
+
+after(async () => {
+  await mock.close();
+  await fs.rm(scratchDir, { recursive: true, force: true });
+});
+
+function request(pathAndQuery: string, headers: Record<string, string> = {}): Promise<Response> {
+  return fetch(`${mock.url}${pathAndQuery}`, { headers: { "X-API-Key": API_KEY, ...headers } });
+}
+
+async function listIds(query: string): Promise<string[]> {
+  const body = await (await request(`/lifelogs?${query}`)).json() as LifelogResponse;
+  return body.data.lifelogs!.map(lifelog => lifelog.id);
+}
+
+describe("mock API server", () => {
+  it("requires a valid API key", async () => {
+    assert.equal((await fetch(`${mock.url}/lifelogs`)).status, 401);
+    assert.equal((await request("/lifelogs", { "X-API-Key": "wrong" })).status, 401);
+    assert.equal((await request("/lifelogs")).status, 200);
+  });
+
+  it("filters by date in the requested timezone", async () => {
+    assert.deepEqual(await listIds("date=2025-03-11&timezone=UTC"), [CHECKUP, GARDEN]);
+    // The garden walk was on the evening of March 10 in Los Angeles
+    assert.deepEqual(await listIds("date=2025-03-10&timezone=America/Los_Angeles"), [GARDEN, BUDGET]);
+    assert.deepEqual(await listIds("start=2025-03-11&end=2025-03-12&direction=asc"), [GARDEN, CHECKUP, LAUNCH]);
+  });
+
+  it("pages through listings with cursors", async () => {
+    const first = await (await request("/lifelogs?limit=3")).json() as LifelogResponse;
+    assert.deepEqual(first.data.lifelogs!.map(lifelog => lifelog.id), [LAUNCH, CHECKUP, GARDEN]);
+    assert.equal(first.meta?.lifelogs?.count, 3);
+
+    const cursor = first.meta!.lifelogs!.nextCursor!;
+    const second = await (await request(`/lifelogs?limit=3&cursor=${encodeURIComponent(cursor)}`)).json() as LifelogResponse;
+    assert.deepEqual(second.data.lifelogs!.map(lifelog => lifelog.id), [BUDGET]);
+    assert.equal(second.meta?.lifelogs?.nextCursor, undefined);
+  });
+
+  it("rejects invalid parameters", async () => {
+    assert.equal((await request("/lifelogs?direction=sideways")).status, 400);
+    assert.equal((await request("/lifelogs?date=2025-13-45")).status, 400);
+    assert.equal((await request("/lifelogs?cursor=bogus")).status, 400);
+  });
+
+  it("shapes lifelogs with includeMarkdown and includeHeadings", async () => {
+    const full = (await (await request(`/lifelogs/${BUDGET}`)).json() as LifelogResponse).data.lifelog!;
+    assert.ok(full.markdown);
+    assert.ok(full.contents!.some(block => block.type.startsWith("heading")));
+
+    const shaped = (await (await request(`/lifelogs/${BUDGET}?includeMarkdown=false&includeHeadings=false`)).json() as LifelogResponse).data.lifelog!;
+    assert.equal(shaped.markdown, undefined);
+    assert.ok(!shaped.contents!.some(block => block.type.startsWith("heading")));
+    assert.ok(shaped.contents!.length > 0);
+  });
+
+  it("answers unknown lifelogs and paths with 404", async () => {
+    assert.equal((await request("/lifelogs/missing")).status, 404);
+    assert.equal((await request("/elsewhere")).status, 404);
+  });
+
+  it("answers conditional requests with 304", async () => {
+    const first = await request(`/lifelogs/${GARDEN}`);
+    const etag = first.headers.get("etag")!;
+    assert.ok(etag);
+
+    const again = await request(`/lifelogs/${GARDEN}`, { "If-None-Match": etag });
+    assert.equal(again.status, 304);
+    assert.equal((await request(`/lifelogs/${CHECKUP}`, { "If-None-Match": etag })).status, 200);
+  });
+
+  it("answers 429 with Retry-After beyond the rate limit", async () => {
+    try {
+      mock.rateLimit = 2;
+      const statuses: number[] = [];
+      let retryAfter: string | null = null;
+      for (let i = 0; i < 3; i++) {
+        const response = await request("/lifelogs");
+        statuses.push(response.status);
+        retryAfter ??= response.headers.get("retry-after");
+      }
+      assert.deepEqual(statuses, [200, 200, 429]);
+      assert.equal(retryAfter, "1");
+    } finally {
+      mock.rateLimit = undefined;
+    }
+  });
+
+  it("records the requests it received", async () => {
+    await request(`/lifelogs/${GARDEN}?includeMarkdown=false`);
+    assert.ok(mock.requests.includes(`/v1/lifelogs/${GARDEN}?includeMarkdown=false`));
+  });
+});
+
+describe("loadFixtures", () => {
+  it("reads single lifelogs, arrays and saved responses from nested directories", async () => {
+    const dir = path.join(scratchDir, "formats");
+    await fs.mkdir(path.join(dir, "nested"), { recursive: true });
+    await fs.writeFile(path.join(dir, "single.json"), JSON.stringify({ id: "a", title: "A" }));
+    await fs.writeFile(path.join(dir, "array.json"), JSON.stringify([{ id: "b", title: "B" }, { id: "c", title: "C" }]));
+    await fs.writeFile(path.join(dir, "nested", "response.json"), JSON.stringify({ data: { lifelogs: [{ id: "d", title: "D" }] } }));
+    await fs.writeFile(path.join(dir, "notes.txt"), "ignored");
+
+    const ids = (await loadFixtures(dir)).map(lifelog => lifelog.id).sort();
+    assert.deepEqual(ids, ["a", "b", "c", "d"]);
+  });
+
+  it("rejects fixtures without an id", async () => {
+    const dir = path.join(scratchDir, "invalid");
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, "bad.json"), JSON.stringify({ title: "No id" }));
+    await assert.rejects(loadFixtures(dir), /needs a string "id"/);
+  });
+
+  it("rejects fixtures without lifelogs", async () => {
+    for (const [name, data] of [["empty", []], ["response", { data: { lifelogs: [] } }], ["scalar", 42], ["null", null]] as const) {
+      const dir = path.join(scratchDir, `no-lifelogs-${name}`);
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(path.join(dir, "fixture.json"), JSON.stringify(data));
+      await assert.rejects(loadFixtures(dir), /contains no lifelogs/, name);
+    }
+  });
+});
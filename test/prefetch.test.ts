@@ -0,0 +1,109 @@
+/**
+ * Cache prefetch tests: the startup prefetch of configured days, the
+ * manage_cache warm action, and resolving day specs
+ */
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, waitFor, TestServer } from "./helpers.js";
+import type * as PrefetchModule from "../src/cache/prefetch.js";
+
+const BUDGET = "fx-2025-03-10-budget";
+const CHECKUP = "fx-2025-03-11-checkup";
+
+let t: TestServer;
+let prefetch: typeof PrefetchModule;
+let statusBeforeStart: PrefetchModule.PrefetchStatus;
+
+before(async () => {
+  // 2025-03-10 in America/Los_Angeles holds the budget review and the garden walk
+  t = await startTestServer({ LIMITLESS_PREFETCH: "2025-03-10,someday" });
+  prefetch = await import("../src/cache/prefetch.js");
+  // As main does once the server is up
+  const { DEFAULT_TIMEZONE } = await import("../src/tools/time-tools.js");
+  const prefetcher = prefetch.createPrefetcher(DEFAULT_TIMEZONE);
+  statusBeforeStart = prefetcher.getStatus();
+  prefetcher.start();
+});
+
+after(async () => {
+  prefetch.createPrefetcher("UTC").stop();
+  await t.close();
+});
+
+describe("startup prefetch", () => {
+  it("isn't started by registering the tools", () => {
+    assert.equal(statusBeforeStart.running, false);
+    assert.equal(statusBeforeStart.lastRunStartedAt, undefined);
+  });
+
+  it("warms the configured days", async () => {
+    await waitFor(async () => {
+      const { stats } = await t.callToolData("manage_cache", { action: "stats" });
+      return stats.prefetch.lastResult !== undefined;
+    });
+
+    const { stats } = await t.callToolData("manage_cache", { action: "stats" });
+    assert.deepEqual(stats.prefetch.days, ["2025-03-10", "someday"]);
+    assert.equal(stats.prefetch.timezone, "America/Los_Angeles");
+    assert.deepEqual(stats.prefetch.lastResult, { days: 1, listings: 1, lifelogs: 2, failed: 0 });
+    assert.ok(stats.prefetch.nextRunAt);
+    assert.match(await t.callTool("manage_cache", { action: "stats" }), /## Prefetch\n- \*\*Days\*\*: 2025-03-10, someday/);
+
+    // The day summary and the lifelogs are answered from the cache
+    const requests = t.mockApi.requests.length;
+    await t.callTool("get_day_summary", { date: "2025-03-10" });
+    await t.callTool("get_lifelog", { id: BUDGET });
+    assert.equal(t.mockApi.requests.length, requests);
+  });
+
+  it("shows the prefetch settings", async () => {
+    const { config } = await t.callToolData("manage_cache", { action: "config" });
+    assert.deepEqual(config.prefetch, {
+      days: ["2025-03-10", "someday"],
+      intervalSeconds: 1800,
+      timezone: "America/Los_Angeles"
+    });
+  });
+});
+
+describe("manage_cache warm", () => {
+  it("fetches the listings and lifelogs of a date range", async () => {
+    const result = await t.callToolData("manage_cache", { action: "warm", start: "2025-03-11", end: "2025-03-12" });
+    assert.deepEqual(result.warmed, { days: 2, listings: 2, lifelogs: 2, failed: 0 });
+
+    const requests = t.mockApi.requests.length;
+    await t.callTool("get_lifelog", { id: CHECKUP });
+    await t.callTool("get_day_summary", { date: "2025-03-12" });
+    assert.equal(t.mockApi.requests.length, requests);
+  });
+
+  it("warms a single day in another timezone", async () => {
+    const text = await t.callTool("manage_cache", { action: "warm", start: "2025-03-11", timezone: "UTC" });
+    // The garden walk and the checkup both fall on March 11 in UTC
+    assert.match(text, /Warmed the cache for 2025-03-11 \(UTC\): 1 of 1 days listed, 2 lifelogs fetched\./);
+  });
+
+  it("rejects invalid ranges", async () => {
+    await assert.rejects(t.callTool("manage_cache", { action: "warm" }), /Start parameter is required/);
+    await assert.rejects(
+      t.callTool("manage_cache", { action: "warm", start: "2025-03-12", end: "2025-03-10" }),
+      /before start date/
+    );
+    await assert.rejects(
+      t.callTool("manage_cache", { action: "warm", start: "2025-01-01", end: "2025-03-01" }),
+      /more than 31 days/
+    );
+  });
+});
+
+describe("resolvePrefetchDays", () => {
+  it("resolves relative days in the timezone", () => {
+    // Still March 10 in Los Angeles
+    const now = new Date("2025-03-11T05:00:00Z");
+    assert.deepEqual(
+      prefetch.resolvePrefetchDays(["today", "yesterday", "today-7", "2025-01-01", "Today", "nope"], "America/Los_Angeles", now),
+      ["2025-03-10", "2025-03-09", "2025-03-03", "2025-01-01"]
+    );
+    assert.deepEqual(prefetch.resolvePrefetchDays(["today"], "UTC", now), ["2025-03-11"]);
+  });
+});
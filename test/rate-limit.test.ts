@@ -0,0 +1,176 @@
+/**
+ * Rate limiting tests: the client-side limiter, Retry-After handling and
+ * RATE_LIMITED errors, against a mock API with a per-key quota
+ */
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, waitFor, TestServer } from "./helpers.js";
+import type { RateLimiter as RateLimiterClass } from "../src/api/rate-limiter.js";
+import type { LimitlessConfig } from "../src/types/index.js";
+
+const BUDGET = "fx-2025-03-10-budget";
+const GARDEN = "fx-2025-03-11-garden";
+const CHECKUP = "fx-2025-03-11-checkup";
+const LAUNCH = "fx-2025-03-12-launch";
+
+let t: TestServer;
+let RateLimiter: typeof RateLimiterClass;
+let getRateLimiter: typeof import("../src/api/rate-limiter.js").getRateLimiter;
+let callLimitlessApi: typeof import("../src/api/client.js").default;
+let parseRetryAfter: typeof import("../src/api/client.js").parseRetryAfter;
+let config: LimitlessConfig;
+
+before(async () => {
+  t = await startTestServer({
+    LIMITLESS_API_MAX_RETRIES: "2",
+    LIMITLESS_API_RETRY_BASE_DELAY_MS: "10"
+  });
+  ({ RateLimiter, getRateLimiter } = await import("../src/api/rate-limiter.js"));
+  ({ default: callLimitlessApi, parseRetryAfter } = await import("../src/api/client.js"));
+  ({ default: config } = await import("../src/config.js"));
+});
+
+after(async () => {
+  await t.close();
+});
+
+describe("rate limiter", () => {
+  it("spaces requests out once the burst is used up", async () => {
+    const limiter = new RateLimiter({ rate: 20, burst: 2, maxConcurrent: 0 });
+    const started = Date.now();
+    for (let i = 0; i < 4; i++) {
+      (await limiter.acquire())();
+    }
+    // Two requests from the burst, then one every 50ms
+    assert.ok(Date.now() - started >= 90);
+  });
+
+  it("limits the requests in flight", async () => {
+    const limiter = new RateLimiter({ rate: 0, burst: 1, maxConcurrent: 1 });
+    const release = await limiter.acquire();
+
+    let acquired = false;
+    const next = limiter.acquire().then(releaseNext => {
+      acquired = true;
+      return releaseNext;
+    });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    assert.equal(acquired, false);
+    assert.equal(limiter.getStatus().queued, 1);
+
+    release();
+    (await next)();
+    assert.equal(limiter.getStatus().active, 0);
+  });
+
+  it("drops a waiting request when it is cancelled", async () => {
+    const limiter = new RateLimiter({ rate: 0, burst: 1, maxConcurrent: 1 });
+    const release = await limiter.acquire();
+
+    const controller = new AbortController();
+    const waiting = limiter.acquire(controller.signal);
+    controller.abort();
+
+    await assert.rejects(waiting, (error: { code?: string }) => error.code === "cancelled");
+    assert.equal(limiter.getStatus().queued, 0);
+    release();
+  });
+
+  it("fails fast during a pause longer than the caller will wait", async () => {
+    const limiter = new RateLimiter({ rate: 0, burst: 1, maxConcurrent: 1 });
+    limiter.pause(5000);
+
+    const started = Date.now();
+    await assert.rejects(limiter.acquire(undefined, 1000), (error: { code?: string; message: string }) =>
+      error.code === "rate_limited" && /retry after 5s/.test(error.message));
+    assert.ok(Date.now() - started < 100);
+    // No slot was left taken
+    assert.equal(limiter.getStatus().active, 0);
+
+    // Short enough to wait out
+    const shortPause = new RateLimiter({ rate: 0, burst: 1, maxConcurrent: 1 });
+    shortPause.pause(30);
+    (await shortPause.acquire(undefined, 1000))();
+  });
+
+  it("parses Retry-After in seconds and as a date", () => {
+    const now = Date.parse("2025-03-10T12:00:00Z");
+    assert.equal(parseRetryAfter("2", now), 2000);
+    assert.equal(parseRetryAfter("Mon, 10 Mar 2025 12:00:05 GMT", now), 5000);
+    assert.equal(parseRetryAfter(undefined, now), undefined);
+    assert.equal(parseRetryAfter("soon", now), undefined);
+  });
+});
+
+describe("429 responses", () => {
+  it("waits for Retry-After and retries", async () => {
+    t.mockApi.rateLimit = 2;
+    const before = t.mockApi.requests.length;
+    try {
+      const comparison = await t.callToolData("compare_sentiment", { ids: [BUDGET, GARDEN, CHECKUP, LAUNCH] });
+      assert.equal(comparison.lifelogs.length, 4);
+      // Some requests were answered with 429 and sent again
+      assert.ok(t.mockApi.requests.length - before > 4);
+    } finally {
+      t.mockApi.rateLimit = undefined;
+    }
+  });
+
+  it("fails with RATE_LIMITED once the retries run out", async () => {
+    t.mockApi.rateLimit = 1;
+    const maxRetries = config.API_MAX_RETRIES;
+    config.API_MAX_RETRIES = 0;
+    try {
+      const results = await Promise.allSettled([BUDGET, GARDEN].map(id => callLimitlessApi(`/lifelogs/${id}`, {}, false)));
+      const errors = results
+        .filter((result): result is PromiseRejectedResult => result.status === "rejected")
+        .map(result => result.reason);
+      assert.ok(errors.length > 0);
+      for (const error of errors) {
+        assert.equal(error.code, "rate_limited");
+        assert.match(error.message, /retry after 1s/);
+      }
+    } finally {
+      config.API_MAX_RETRIES = maxRetries;
+      t.mockApi.rateLimit = undefined;
+    }
+  });
+
+  it("fails later calls at once while a long Retry-After lasts", async () => {
+    t.mockApi.rateLimit = 1;
+    const maxDelay = config.API_MAX_RETRY_DELAY_MS;
+    // The mock API's Retry-After (the rest of its one-second window) is too long
+    config.API_MAX_RETRY_DELAY_MS = 100;
+    try {
+      const results = await Promise.allSettled([BUDGET, GARDEN].map(id => callLimitlessApi(`/lifelogs/${id}`, {}, false)));
+      assert.ok(results.some(result => result.status === "rejected" && result.reason.code === "rate_limited"));
+      t.mockApi.rateLimit = undefined;
+
+      // Rejected without waiting and without reaching the API
+      const requests = t.mockApi.requests.length;
+      const started = Date.now();
+      await assert.rejects(callLimitlessApi(`/lifelogs/${CHECKUP}`, {}, false), (error: { code?: string }) => error.code === "rate_limited");
+      assert.ok(Date.now() - started < 100);
+      assert.equal(t.mockApi.requests.length, requests);
+    } finally {
+      config.API_MAX_RETRY_DELAY_MS = maxDelay;
+      t.mockApi.rateLimit = undefined;
+      await waitFor(async () => getRateLimiter().getStatus().pausedUntil === undefined);
+    }
+  });
+
+  it("keeps RATE_LIMITED errors in tools that page through listings", async () => {
+    const maxDelay = config.API_MAX_RETRY_DELAY_MS;
+    config.API_MAX_RETRY_DELAY_MS = 100;
+    getRateLimiter().pause(1000);
+    try {
+      await assert.rejects(
+        t.callTool("get_time_summary", { start: "2025-03-09", end: "2025-03-13", timezone: "UTC" }),
+        (error: Error) => /rate limit exceeded/.test(error.message) && !/date parameters/.test(error.message)
+      );
+    } finally {
+      config.API_MAX_RETRY_DELAY_MS = maxDelay;
+      await waitFor(async () => getRateLimiter().getStatus().pausedUntil === undefined);
+    }
+  });
+});
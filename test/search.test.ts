@@ -0,0 +1,254 @@
+/**
+ * Search tests: reciprocal rank fusion, the BM25 inverted index, query
+ * parsing and the persistent lifelog index
+ */
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { reciprocalRankFusion, DEFAULT_RRF_K } from "../src/search/fusion.js";
+import { InvertedIndex } from "../src/search/inverted-index.js";
+import { parseQuery, evaluateQuery } from "../src/search/query.js";
+import { LifelogSearchIndex } from "../src/search/lifelog-index.js";
+import { tokenize } from "../src/utils/text.js";
+import type { Lifelog } from "../src/types/index.js";
+
+let scratchDir: string;
+
+before(async () => {
+  scratchDir = await fs.mkdtemp(path.join(os.tmpdir(), "limitless-mcp-search-"));
+});
+
+after(async () => {
+  await fs.rm(scratchDir, { recursive: true, force: true });
+});
+
+describe("reciprocal rank fusion", () => {
+  it("ranks items found by several lists first", () => {
+    const fused = reciprocalRankFusion([["a", "b", "c"], ["c", "d", "a"]]);
+
+    assert.deepEqual(fused.map(result => result.id), ["a", "c", "b", "d"]);
+    assert.deepEqual(fused[0].ranks, [1, 3]);
+    assert.deepEqual(fused[2].ranks, [2, undefined]);
+    assert.equal(fused[0].score, 1 / (DEFAULT_RRF_K + 1) + 1 / (DEFAULT_RRF_K + 3));
+  });
+
+  it("counts only the best rank of an item repeated in a list", () => {
+    const [result] = reciprocalRankFusion([["a", "a", "a"]], 1);
+    assert.deepEqual(result, { id: "a", score: 1 / 2, ranks: [1] });
+  });
+
+  it("returns nothing for empty lists", () => {
+    assert.deepEqual(reciprocalRankFusion([[], []]), []);
+  });
+});
+
+describe("inverted index", () => {
+  function createIndex(): InvertedIndex {
+    const index = new InvertedIndex();
+    index.add("budget", "We reviewed the marketing budget and the budget for travel");
+    index.add("garden", "Planting tomatoes in the garden before the marketing call");
+    index.add("launch", "Launch plan review with the whole team");
+    return index;
+  }
+
+  it("ranks documents by BM25 and matches stemmed terms", () => {
+    const results = createIndex().search("budgets reviewing");
+
+    assert.deepEqual(results.map(result => result.id), ["budget", "launch"]);
+    assert.ok(results[0].score > results[1].score);
+  });
+
+  it("weighs rare terms above common ones", () => {
+    const index = createIndex();
+    const [marketing] = index.search("marketing", 1);
+    const [tomatoes] = index.search("tomatoes", 1);
+    assert.equal(tomatoes.id, "garden");
+    assert.ok(tomatoes.score > marketing.score);
+  });
+
+  it("applies the limit and the filter", () => {
+    const index = createIndex();
+    assert.equal(index.search("marketing", 1).length, 1);
+    assert.deepEqual(index.search("marketing", 10, id => id !== "budget").map(result => result.id), ["garden"]);
+  });
+
+  it("finds consecutive phrases only", () => {
+    const index = createIndex();
+    assert.deepEqual(index.documentsWithPhrase(tokenize("marketing budget")), new Set(["budget"]));
+    assert.deepEqual(index.documentsWithPhrase(tokenize("budget marketing")), new Set());
+  });
+
+  it("replaces and removes documents", () => {
+    const index = createIndex();
+    const terms = index.termCount;
+
+    index.add("launch", "Tomatoes again");
+    assert.equal(index.size, 3);
+    assert.deepEqual(index.documentsWithTerm(tokenize("tomatoes")[0]), new Set(["garden", "launch"]));
+    assert.deepEqual(index.documentsWithTerm("team"), new Set());
+
+    assert.equal(index.remove("launch"), true);
+    assert.equal(index.remove("launch"), false);
+    assert.deepEqual(index.allDocuments(), new Set(["budget", "garden"]));
+    assert.ok(index.termCount < terms);
+    assert.deepEqual(index.search("launch"), []);
+  });
+});
+
+describe("query parsing", () => {
+  const term = (word: string) => ({ type: "term", term: tokenize(word)[0] });
+
+  it("treats adjacent words as alternatives and quoted text as a phrase", () => {
+    assert.deepEqual(parseQuery("budget garden"), { type: "or", children: [term("budget"), term("garden")] });
+    assert.deepEqual(parseQuery('"marketing budget"'), { type: "phrase", terms: tokenize("marketing budget") });
+  });
+
+  it("parses boolean operators, negation and grouping", () => {
+    assert.deepEqual(parseQuery("(budget OR travel) AND -marketing"), {
+      type: "and",
+      children: [
+        { type: "or", children: [term("budget"), term("travel")] },
+        { type: "not", child: term("marketing") }
+      ]
+    });
+    assert.deepEqual(parseQuery("budget garden NOT marketing"), {
+      type: "and",
+      children: [
+        { type: "or", children: [term("budget"), term("garden")] },
+        { type: "not", child: term("marketing") }
+      ]
+    });
+  });
+
+  it("returns null for queries with nothing searchable", () => {
+    assert.equal(parseQuery("the and of"), null);
+    assert.equal(parseQuery("AND ( )"), null);
+  });
+
+  it("evaluates queries against an index", () => {
+    const index = new InvertedIndex();
+    index.add("budget", "We reviewed the marketing budget");
+    index.add("travel", "The travel budget is due");
+    index.add("garden", "Planting tomatoes in the garden");
+
+    const matching = (query: string) => Array.from(evaluateQuery(parseQuery(query)!, index)).sort();
+    assert.deepEqual(matching("budget"), ["budget", "travel"]);
+    assert.deepEqual(matching("budget -marketing"), ["travel"]);
+    assert.deepEqual(matching("budget AND garden"), []);
+    assert.deepEqual(matching("budget OR garden"), ["budget", "garden", "travel"]);
+    assert.deepEqual(matching('"travel budget"'), ["travel"]);
+    assert.deepEqual(matching("NOT budget"), ["garden"]);
+  });
+});
+
+describe("lifelog search index", () => {
+  const lifelogs: Lifelog[] = [
+    {
+      id: "budget",
+      title: "Budget review",
+      startTime: "2025-03-10T17:00:00.000Z",
+      contents: [
+        {
+          type: "heading1",
+          content: "Budget review",
+          children: [
+            { type: "blockquote", content: "The marketing budget is too high", speakerName: "Alice", startTime: "2025-03-10T17:01:00.000Z" },
+            { type: "blockquote", content: "Let's cut the travel budget instead", speakerName: "Bob", startTime: "2025-03-10T17:02:00.000Z" }
+          ]
+        }
+      ]
+    },
+    {
+      id: "garden",
+      title: "Garden walk",
+      startTime: "2025-03-11T06:00:00.000Z",
+      contents: [
+        { type: "blockquote", content: "The tomatoes need more sun than the budget allows", speakerName: "Alice", startTime: "2025-03-11T06:01:00.000Z" }
+      ]
+    }
+  ];
+
+  async function createIndex(name: string): Promise<LifelogSearchIndex> {
+    const index = new LifelogSearchIndex(path.join(scratchDir, name));
+    await index.load();
+    lifelogs.forEach(lifelog => index.indexLifelog(lifelog));
+    return index;
+  }
+
+  it("indexes every content block and ranks the best match first", async () => {
+    const index = await createIndex("blocks");
+    assert.equal(index.lifelogCount, 2);
+    assert.equal(index.documentCount, 4);
+
+    const { total, hits } = index.search("travel budget");
+    assert.equal(total, 4);
+    assert.equal(hits[0].document.id, "budget:2");
+    assert.equal(hits[0].title, "Budget review");
+    assert.equal(hits[0].snippet, "Let's cut the **travel** **budget** instead");
+  });
+
+  it("filters by speaker, block type, date and lifelog", async () => {
+    const index = await createIndex("filters");
+    const ids = (options: Parameters<LifelogSearchIndex["search"]>[1]) =>
+      index.search("budget", options).hits.map(hit => hit.document.id).sort();
+
+    assert.deepEqual(ids({ speaker: "alice" }), ["budget:1", "garden:0"]);
+    assert.deepEqual(ids({ types: ["heading1"] }), ["budget:0"]);
+    assert.deepEqual(ids({ lifelogIds: ["garden"] }), ["garden:0"]);
+    // The garden walk is still March 10 in Los Angeles
+    assert.deepEqual(ids({ start: "2025-03-11", timezone: "UTC" }), ["garden:0"]);
+    assert.deepEqual(ids({ start: "2025-03-11", timezone: "America/Los_Angeles" }), []);
+    assert.equal(index.search("budget", { limit: 1 }).hits.length, 1);
+  });
+
+  it("reindexes only changed lifelogs and replaces their blocks", async () => {
+    const index = await createIndex("changes");
+    assert.equal(index.needsIndexing(lifelogs[0]), false);
+
+    const changed: Lifelog = { ...lifelogs[1], contents: [{ type: "blockquote", content: "Basil instead" }] };
+    assert.equal(index.needsIndexing(changed), true);
+    index.indexLifelog(changed);
+    assert.equal(index.documentCount, 4);
+    assert.equal(index.search("tomatoes").total, 0);
+    assert.equal(index.search("basil").total, 1);
+
+    assert.equal(index.removeLifelog("garden"), true);
+    assert.equal(index.search("basil").total, 0);
+    assert.equal(index.documentCount, 3);
+    assert.equal(index.lifelogCount, 1);
+  });
+
+  it("keeps the index across reloads", async () => {
+    const index = await createIndex("reload");
+    await index.flush();
+
+    const reloaded = new LifelogSearchIndex(path.join(scratchDir, "reload"));
+    await reloaded.load();
+    assert.equal(reloaded.documentCount, 4);
+    assert.equal(reloaded.needsIndexing(lifelogs[1]), false);
+    assert.deepEqual(reloaded.search('"travel budget"').hits.map(hit => hit.document.id), ["budget:2"]);
+
+    const stats = await reloaded.stats();
+    assert.equal(stats.oldest, "2025-03-10T17:00:00.000Z");
+    assert.equal(stats.newest, "2025-03-11T06:00:00.000Z");
+    assert.ok(stats.bytes > 0);
+  });
+
+  it("starts empty when the saved format is unknown", async () => {
+    const dir = path.join(scratchDir, "format");
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, "documents.json"), JSON.stringify({ formatVersion: 999, lifelogs: [], documents: [] }));
+
+    const originalError = console.error;
+    console.error = () => {};
+    const index = new LifelogSearchIndex(dir);
+    try {
+      await index.load();
+    } finally {
+      console.error = originalError;
+    }
+    assert.equal(index.lifelogCount, 0);
+  });
+});